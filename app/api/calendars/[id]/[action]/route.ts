@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// Mark route as dynamic to prevent static analysis during build
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Workflow transitions: POST /api/calendars/[id]/submit | approve | reject | publish | reopen
+ * Body: { actor?: string, comment?: string } - comment is required for reject
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; action: string } }
+) {
+  try {
+    // Lazy import to avoid module-level execution during build
+    const { transitionCalendar, isWorkflowAction } = await import('@/lib/workflow');
+
+    if (!isWorkflowAction(params.action)) {
+      return NextResponse.json(
+        { error: `Unknown workflow action: ${params.action}` },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const result = await transitionCalendar(params.id, {
+      action: params.action,
+      actor: body?.actor,
+      comment: body?.comment,
+    });
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error, warnings: result.warnings },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      calendar: result.calendar,
+      audit_entry: result.entry,
+    });
+  } catch (error: any) {
+    console.error('Calendar transition error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to update calendar status' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// Mark route as dynamic to prevent static analysis during build
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Audit trail for a calendar (status changes and edits, oldest first)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Lazy import to avoid module-level execution during build
+    const { createSupabaseRepository } = await import('@/lib/repository');
+    const { getAvailableActions } = await import('@/lib/workflow');
+    const repository = createSupabaseRepository();
+
+    const calendar = await repository.getCalendar(params.id);
+    if (!calendar) {
+      return NextResponse.json(
+        { error: 'Calendar not found' },
+        { status: 404 }
+      );
+    }
+
+    const entries = await repository.listAuditLog(params.id);
+
+    return NextResponse.json({
+      status: calendar.status,
+      available_actions: getAvailableActions(calendar.status),
+      entries,
+    });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
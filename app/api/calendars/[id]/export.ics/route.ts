@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// Mark route as dynamic to prevent static analysis during build
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/calendars/[id]/export.ics
+ * iCalendar feed of a calendar's posts and replies. ?persona_id= limits it to one persona.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Lazy import to avoid module-level execution during build
+    const { createSupabaseRepository } = await import('@/lib/repository');
+    const { buildCalendarICS } = await import('@/lib/utils/ics-export');
+    const repository = createSupabaseRepository();
+
+    const calendar = await repository.getCalendar(params.id);
+    if (!calendar) {
+      return NextResponse.json(
+        { error: 'Calendar not found' },
+        { status: 404 }
+      );
+    }
+
+    const [company, personas, subreddits, posts] = await Promise.all([
+      repository.getCompany(calendar.company_id),
+      repository.listPersonas(calendar.company_id),
+      repository.listSubreddits(calendar.company_id),
+      repository.listPosts([calendar.id]),
+    ]);
+    if (!company) {
+      return NextResponse.json(
+        { error: 'Company not found' },
+        { status: 404 }
+      );
+    }
+
+    const personaId = request.nextUrl.searchParams.get('persona_id') || undefined;
+    const persona = personaId ? personas.find(p => p.id === personaId) : undefined;
+    if (personaId && !persona) {
+      return NextResponse.json(
+        { error: 'Persona not found for this company' },
+        { status: 404 }
+      );
+    }
+
+    const replies = await repository.listReplies(posts.map(p => p.id));
+    const ics = buildCalendarICS(
+      { calendar, company, posts, replies, personas, subreddits },
+      { personaId }
+    );
+
+    const slug = persona ? `-${persona.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}` : '';
+    return new NextResponse(ics, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="calendar-${calendar.week_start_date}${slug}.ics"`,
+      },
+    });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
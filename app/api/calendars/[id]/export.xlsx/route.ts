@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// Mark route as dynamic to prevent static analysis during build
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/calendars/[id]/export.xlsx
+ * The calendar as a workbook in the layout the unified importer reads, for review in Excel
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Lazy import to avoid module-level execution during build
+    const { createSupabaseRepository } = await import('@/lib/repository');
+    const { createUnifiedExcel } = await import('@/lib/utils/unified-export');
+    const repository = createSupabaseRepository();
+
+    const calendar = await repository.getCalendar(params.id);
+    if (!calendar) {
+      return NextResponse.json(
+        { error: 'Calendar not found' },
+        { status: 404 }
+      );
+    }
+
+    const [company, personas, subreddits, seoQueries, posts] = await Promise.all([
+      repository.getCompany(calendar.company_id),
+      repository.listPersonas(calendar.company_id),
+      repository.listSubreddits(calendar.company_id),
+      repository.listSEOQueries(calendar.company_id),
+      repository.listPosts([calendar.id]),
+    ]);
+    if (!company) {
+      return NextResponse.json(
+        { error: 'Company not found' },
+        { status: 404 }
+      );
+    }
+
+    const replies = await repository.listReplies(posts.map(p => p.id));
+    const workbook = createUnifiedExcel({ calendar, company, personas, subreddits, seoQueries, posts, replies });
+
+    return new NextResponse(workbook as any, {
+      headers: {
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="calendar-${calendar.week_start_date}.xlsx"`,
+      },
+    });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// Mark route as dynamic to prevent static analysis during build
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/calendars/[id]/reimport
+ * Re-imports an edited export workbook into the existing calendar (multipart form):
+ * - file: the .xlsx
+ * - accept (optional): JSON array of change ids to apply. Without it nothing is written and the
+ *   diff is returned for review.
+ * - actor (optional): who is applying the changes, for the audit trail
+ * Posts and comments are read with the company's saved column mapping, if it has one.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Lazy import to avoid module-level execution during build
+    const { createSupabaseRepository } = await import('@/lib/repository');
+    const { isCalendarLocked } = await import('@/lib/workflow');
+    const { DEFAULT_MAPPING, normalizeColumnMapping, readWorkbook } = await import('@/lib/utils/import-engine');
+    const { formatImportIssue } = await import('@/lib/utils/import-validation');
+    const { loadCalendarMergeContext, diffCalendarWorkbook, applyCalendarChanges } = await import('@/lib/utils/calendar-merge');
+    const repository = createSupabaseRepository();
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No file provided' },
+        { status: 400 }
+      );
+    }
+    if (!file.name.endsWith('.xlsx') && !file.name.endsWith('.xls')) {
+      return NextResponse.json(
+        { error: 'File must be an Excel file (.xlsx or .xls)' },
+        { status: 400 }
+      );
+    }
+
+    let accept: string[] | null = null;
+    const acceptField = formData.get('accept');
+    if (acceptField !== null) {
+      try {
+        accept = JSON.parse(String(acceptField));
+      } catch {
+        accept = null;
+      }
+      if (!Array.isArray(accept) || !accept.every(id => typeof id === 'string')) {
+        return NextResponse.json(
+          { error: 'accept must be a JSON array of change ids' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const context = await loadCalendarMergeContext(params.id, repository);
+    if (!context) {
+      return NextResponse.json(
+        { error: 'Calendar not found' },
+        { status: 404 }
+      );
+    }
+
+    let parsed;
+    try {
+      const saved = context.company.import_mapping ? normalizeColumnMapping(context.company.import_mapping) : DEFAULT_MAPPING;
+      const mapping = { posts: saved.posts || DEFAULT_MAPPING.posts, comments: saved.comments || DEFAULT_MAPPING.comments };
+      parsed = readWorkbook(Buffer.from(await file.arrayBuffer()), mapping);
+    } catch (parseError: any) {
+      return NextResponse.json(
+        { error: `Failed to parse Excel file: ${parseError.message}` },
+        { status: 400 }
+      );
+    }
+
+    // A row that can't be read would look like a deleted post or comment
+    const unreadable = parsed.issues.filter(issue => issue.severity === 'error');
+    if (unreadable.length > 0) {
+      return NextResponse.json(
+        { error: 'Some rows could not be read - fix them and import again', details: unreadable.map(formatImportIssue).join('\n') },
+        { status: 400 }
+      );
+    }
+
+    const diff = diffCalendarWorkbook(parsed.bundle, context);
+    if (!accept) {
+      return NextResponse.json({ ...diff, locked: isCalendarLocked(context.calendar.status) });
+    }
+
+    if (isCalendarLocked(context.calendar.status)) {
+      return NextResponse.json(
+        { error: `Calendar is ${context.calendar.status}; reopen it to apply changes` },
+        { status: 423 }
+      );
+    }
+
+    const actor = String(formData.get('actor') || '').trim() || 'unknown';
+    const result = await applyCalendarChanges(diff, accept, context, repository, actor);
+    if (!result) {
+      // Approved or published while the changes were being reviewed
+      return NextResponse.json(
+        { error: 'Calendar was locked before the changes were applied; reopen it to apply changes' },
+        { status: 423 }
+      );
+    }
+    console.log(`Re-import of calendar ${params.id}: applied ${result.applied.length}, skipped ${result.skipped.length}`);
+
+    return NextResponse.json({ ...result, warnings: diff.warnings });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
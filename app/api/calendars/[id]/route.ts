@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase/client';
+import { lintPost, lintReply } from '@/lib/planning/lint';
 
 export async function GET(
   request: NextRequest,
@@ -100,22 +101,35 @@ export async function GET(
       personas = personasData || [];
     }
 
-    // Enrich posts with details
-    const enrichedPosts = postsToUse.map(post => ({
-      ...post,
-      subreddit: subreddits?.find(s => s.id === post.subreddit_id),
-      persona: personas?.find(p => p.id === post.persona_id),
-      replies: replies.filter(r => r.post_id === post.id).map(reply => ({
-        ...reply,
-        persona: personas?.find(p => p.id === reply.persona_id),
-      })),
-    }));
+    // Timezone the timeline is shown in; name and website for the brand-mention lint
+    const { data: company } = await (supabase as any)
+      .from('companies')
+      .select('name, website_url, timezone, brand_budget')
+      .eq('id', (calendar as any).company_id)
+      .single();
+
+    // Enrich posts with details; lint lists what a moderator would object to
+    const enrichedPosts = postsToUse.map(post => {
+      const subreddit = subreddits?.find(s => s.id === post.subreddit_id);
+      return {
+        ...post,
+        subreddit,
+        persona: personas?.find(p => p.id === post.persona_id),
+        lint: lintPost(post as any, { subreddit, company }),
+        replies: replies.filter(r => r.post_id === post.id).map(reply => ({
+          ...reply,
+          persona: personas?.find(p => p.id === reply.persona_id),
+          lint: lintReply(reply, { subreddit, company }),
+        })),
+      };
+    });
 
     console.log(`Returning ${enrichedPosts.length} enriched posts`);
 
     return NextResponse.json({
       calendar,
       posts: enrichedPosts,
+      timezone: company?.timezone || 'UTC',
     });
   } catch (error: any) {
     return NextResponse.json({ error: error.message }, { status: 500 });
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// Mark route as dynamic to prevent static analysis during build
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * A campaign with its weekly calendars, first week first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Lazy import to avoid module-level execution during build
+    const { createSupabaseRepository } = await import('@/lib/repository');
+    const repository = createSupabaseRepository();
+
+    const campaign = await repository.getCampaign(params.id);
+    if (!campaign) {
+      return NextResponse.json(
+        { error: 'Campaign not found' },
+        { status: 404 }
+      );
+    }
+
+    const calendars = (await repository.listCalendars(campaign.company_id, { campaignId: campaign.id }))
+      .sort((a, b) => a.week_start_date.localeCompare(b.week_start_date));
+
+    return NextResponse.json({ campaign, calendars });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseISO } from 'date-fns';
+
+// Mark route as dynamic to prevent static analysis during build
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Dry run: plan every week of a campaign and return the plans without writing anything.
+ * POST the returned plan to /api/campaigns to commit it exactly as previewed.
+ */
+export async function POST(request: NextRequest) {
+  // Lazy import to avoid module-level execution during build
+  const { planCampaign } = await import('@/lib/planning/campaigns');
+  try {
+    const body = await request.json();
+    const { company_id, name, start_week_date, weeks, target_posts, strategy_mix, topic_arc, seed } = body;
+
+    if (!company_id || !name || !start_week_date || !weeks || !target_posts) {
+      return NextResponse.json(
+        { error: 'company_id, name, start_week_date, weeks, and target_posts are required' },
+        { status: 400 }
+      );
+    }
+
+    const plan = await planCampaign({
+      company_id,
+      name,
+      start_week_date: parseISO(start_week_date),
+      weeks: parseInt(weeks),
+      target_posts: parseInt(target_posts),
+      strategy_mix: Array.isArray(strategy_mix) ? strategy_mix : undefined,
+      topic_arc: Array.isArray(topic_arc) ? topic_arc : undefined,
+      seed: seed !== undefined && seed !== null ? parseInt(seed) : undefined,
+    });
+
+    return NextResponse.json({ plan });
+  } catch (error: any) {
+    console.error('Campaign preview error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to preview campaign' },
+      { status: 500 }
+    );
+  }
+}
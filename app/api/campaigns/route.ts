@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseISO } from 'date-fns';
+
+// Mark route as dynamic to prevent static analysis during build
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  const { createSupabaseRepository } = await import('@/lib/repository');
+  try {
+    const companyId = request.nextUrl.searchParams.get('company_id');
+    if (!companyId) {
+      return NextResponse.json({ error: 'company_id is required' }, { status: 400 });
+    }
+
+    const campaigns = await createSupabaseRepository().listCampaigns(companyId);
+    return NextResponse.json({ campaigns });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+/**
+ * Plans and saves every week of a campaign together.
+ * POST a plan returned by /api/campaigns/preview as { plan } to commit it as previewed.
+ */
+export async function POST(request: NextRequest) {
+  // Lazy import to avoid module-level execution during build
+  const { generateCampaign, rescoreCampaignPlan } = await import('@/lib/planning/campaigns');
+  const { createSupabaseRepository } = await import('@/lib/repository');
+  try {
+    const body = await request.json();
+    const {
+      company_id,
+      name,
+      start_week_date,
+      weeks,
+      target_posts,
+      strategy_mix,
+      topic_arc,
+      seed,
+      plan,
+    } = body;
+
+    if (plan) {
+      if (!plan.campaign || !Array.isArray(plan.weeks) || plan.weeks.length === 0) {
+        return NextResponse.json(
+          { error: 'plan must include campaign and weeks' },
+          { status: 400 }
+        );
+      }
+
+      // Weeks are saved as previewed, with the spam check and quality score re-run here
+      const repository = createSupabaseRepository();
+      const campaign = await repository.saveCampaignPlan(await rescoreCampaignPlan(plan, repository));
+      return NextResponse.json({ campaign });
+    }
+
+    if (!company_id || !name || !start_week_date || !weeks || !target_posts) {
+      return NextResponse.json(
+        { error: 'company_id, name, start_week_date, weeks, and target_posts are required' },
+        { status: 400 }
+      );
+    }
+
+    const { campaign, plan: campaignPlan } = await generateCampaign({
+      company_id,
+      name,
+      start_week_date: parseISO(start_week_date),
+      weeks: parseInt(weeks),
+      target_posts: parseInt(target_posts),
+      strategy_mix: Array.isArray(strategy_mix) ? strategy_mix : undefined,
+      topic_arc: Array.isArray(topic_arc) ? topic_arc : undefined,
+      seed: seed !== undefined && seed !== null ? parseInt(seed) : undefined,
+    });
+
+    return NextResponse.json({
+      campaign,
+      weeks: campaignPlan.weeks.map(week => ({
+        week_start_date: week.calendar.week_start_date,
+        posts: week.posts.length,
+        quality: week.quality,
+      })),
+    });
+  } catch (error: any) {
+    console.error('Campaign generation error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to generate campaign' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// Mark route as dynamic to prevent static analysis during build
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/companies/[id]/export
+ * The company in the import schema, readable by POST /api/import/bundle.
+ * - format: json (default, everything in one file) or csv (one entity per request)
+ * - entity: company, personas, subreddits, seo_queries, posts or comments (csv only)
+ * - calendar_id: include this calendar's posts and comments
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Lazy import to avoid module-level execution during build
+    const { createSupabaseRepository } = await import('@/lib/repository');
+    const { buildExportBundle, bundleEntityToCSV } = await import('@/lib/utils/bundle-export');
+    const { IMPORT_ENTITIES } = await import('@/lib/utils/import-schema');
+    const repository = createSupabaseRepository();
+
+    const searchParams = request.nextUrl.searchParams;
+    const exportFormat = searchParams.get('format') || 'json';
+    const entity = searchParams.get('entity');
+    const calendarId = searchParams.get('calendar_id');
+
+    if (exportFormat !== 'json' && exportFormat !== 'csv') {
+      return NextResponse.json({ error: 'format must be json or csv' }, { status: 400 });
+    }
+    if (exportFormat === 'csv' && !(IMPORT_ENTITIES as readonly string[]).includes(entity || '')) {
+      return NextResponse.json(
+        { error: `CSV exports one entity at a time - pass entity=${IMPORT_ENTITIES.join('|')}` },
+        { status: 400 }
+      );
+    }
+
+    const company = await repository.getCompany(params.id);
+    if (!company) {
+      return NextResponse.json({ error: 'Company not found' }, { status: 404 });
+    }
+
+    const calendar = calendarId ? await repository.getCalendar(calendarId) : null;
+    if (calendarId && (!calendar || calendar.company_id !== company.id)) {
+      return NextResponse.json({ error: 'Calendar not found for this company' }, { status: 404 });
+    }
+
+    const [personas, subreddits, seoQueries] = await Promise.all([
+      repository.listPersonas(company.id),
+      repository.listSubreddits(company.id),
+      repository.listSEOQueries(company.id),
+    ]);
+    const posts = calendar ? await repository.listPosts([calendar.id]) : [];
+    const replies = posts.length > 0 ? await repository.listReplies(posts.map(p => p.id)) : [];
+
+    const bundle = buildExportBundle({ company, personas, subreddits, seoQueries, calendar, posts, replies });
+    const slug = company.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'company';
+    const suffix = calendar ? `-${calendar.week_start_date}` : '';
+
+    if (exportFormat === 'csv') {
+      return new NextResponse(bundleEntityToCSV(bundle, entity as (typeof IMPORT_ENTITIES)[number]), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${slug}${suffix}-${entity}.csv"`,
+        },
+      });
+    }
+
+    return new NextResponse(JSON.stringify(bundle, null, 2), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${slug}${suffix}.json"`,
+      },
+    });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// Mark route as dynamic to prevent static analysis during build
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * The workbook column mapping a company's imports use: its saved one, else the SlideForge layout.
+ * Also returns the presets and the fields each entity can map, for the mapping editor.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Lazy import to avoid module-level execution during build
+    const { createServerClient } = await import('@/lib/supabase/client');
+    const { DEFAULT_MAPPING, MAPPABLE_FIELDS, MAPPING_PRESETS } = await import('@/lib/utils/import-engine');
+    const supabase = createServerClient();
+
+    const { data: company } = await (supabase as any)
+      .from('companies')
+      .select('id, import_mapping')
+      .eq('id', params.id)
+      .single();
+    if (!company) {
+      return NextResponse.json({ error: 'Company not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      mapping: company.import_mapping || DEFAULT_MAPPING,
+      saved: !!company.import_mapping,
+      presets: MAPPING_PRESETS,
+      fields: MAPPABLE_FIELDS,
+    });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+/**
+ * Saves a mapping ({ mapping }); { mapping: null } goes back to the SlideForge layout
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Lazy import to avoid module-level execution during build
+    const { createServerClient } = await import('@/lib/supabase/client');
+    const { normalizeColumnMapping } = await import('@/lib/utils/import-engine');
+    const body = await request.json();
+
+    let mapping = null;
+    if (body.mapping !== null) {
+      try {
+        mapping = normalizeColumnMapping(body.mapping);
+      } catch (mappingError: any) {
+        return NextResponse.json(
+          { error: `Invalid column mapping: ${mappingError.message}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const supabase = createServerClient();
+    const { data, error } = await (supabase as any)
+      .from('companies')
+      .update({ import_mapping: mapping })
+      .eq('id', params.id)
+      .select('id, import_mapping')
+      .single();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: 'Company not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ mapping: data.import_mapping, saved: !!data.import_mapping });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase/client';
+import { normalizeBrandBudget } from '@/lib/planning/brand';
 
 export async function GET(
   request: NextRequest,
@@ -33,6 +34,16 @@ export async function PUT(
 ) {
   try {
     const body = await request.json();
+    if (body.brand_budget !== undefined && body.brand_budget !== null) {
+      try {
+        body.brand_budget = normalizeBrandBudget(body.brand_budget);
+      } catch (budgetError: any) {
+        return NextResponse.json(
+          { error: `Invalid brand budget: ${budgetError.message}` },
+          { status: 400 }
+        );
+      }
+    }
     const supabase = createServerClient();
 
     // Cast supabase client to bypass strict typing for updates
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// Mark route as dynamic to prevent static analysis during build
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Phrases a company's generated content repeats most, with the personas that used them
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const limitParam = request.nextUrl.searchParams.get('limit');
+    const limit = limitParam ? parseInt(limitParam, 10) : 20;
+    if (!Number.isInteger(limit) || limit < 1) {
+      return NextResponse.json(
+        { error: 'limit must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    // Lazy import to avoid module-level execution during build
+    const { createSupabaseRepository } = await import('@/lib/repository');
+    const { OVERUSED_PHRASE_COUNT } = await import('@/lib/planning/wording');
+    const repository = createSupabaseRepository();
+
+    const patterns = await repository.listWordingPatterns(params.id, limit);
+
+    return NextResponse.json({
+      patterns,
+      overused_threshold: OVERUSED_PHRASE_COUNT,
+    });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
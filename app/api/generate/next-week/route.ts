@@ -11,11 +11,10 @@ export const runtime = 'nodejs';
 export async function POST(request: NextRequest) {
   // Lazy import to avoid module-level execution during build
   const { generateCalendar } = await import('@/lib/planning');
-  const { evaluateCalendarQuality } = await import('@/lib/planning/quality');
   const { createServerClient } = await import('@/lib/supabase/client');
   try {
     const body = await request.json();
-    const { current_calendar_id, company_id } = body;
+    const { current_calendar_id, company_id, seed } = body;
 
     if (!current_calendar_id && !company_id) {
       return NextResponse.json(
@@ -123,83 +122,12 @@ export async function POST(request: NextRequest) {
       company_id: companyId,
       week_start_date: nextWeekStart,
       posts_per_week: postsPerWeek,
+      seed: seed !== undefined && seed !== null ? parseInt(seed) : undefined,
     });
 
-    // Get posts and replies for quality evaluation
-    const { data: posts } = await supabase
-      .from('calendar_posts')
-      .select('*')
-      .eq('calendar_id', calendar.id);
-
-    // Type assertion for posts
-    type PostType = { id: string; [key: string]: any };
-    const postsData = (posts || []) as PostType[];
-    const postIds = postsData.map(p => p.id);
-    let replies: any[] = [];
-    if (postIds.length > 0) {
-      const { data: repliesData } = await supabase
-        .from('calendar_replies')
-        .select('*')
-        .in('post_id', postIds);
-      replies = repliesData || [];
-    }
-
-    // Get subreddits and personas for quality evaluation
-    const { data: subreddits } = await supabase
-      .from('subreddits')
-      .select('*')
-      .eq('company_id', companyId);
-
-    const { data: personas } = await supabase
-      .from('personas')
-      .select('*')
-      .eq('company_id', companyId);
-
-    // Get previous weeks' posts for comparison
-    const { data: previousCalendars } = await supabase
-      .from('content_calendars')
-      .select('id')
-      .eq('company_id', companyId)
-      .lt('week_start_date', nextWeekStartStr)
-      .order('week_start_date', { ascending: false })
-      .limit(4);
-
-    // Type assertion for previousCalendars
-    type PreviousCalendarType = { id: string };
-    const previousCalendarsData = (previousCalendars || []) as PreviousCalendarType[];
-    const previousCalendarIds = previousCalendarsData.map(c => c.id);
-    let previousWeeksPosts: any[] = [];
-    if (previousCalendarIds.length > 0) {
-      const { data: prevPosts } = await supabase
-        .from('calendar_posts')
-        .select('*')
-        .in('calendar_id', previousCalendarIds);
-      previousWeeksPosts = prevPosts || [];
-    }
-
-    // Evaluate quality
-    const quality = evaluateCalendarQuality({
-      calendar,
-      posts: posts || [],
-      replies,
-      subreddits: subreddits || [],
-      personas: personas || [],
-      previousWeeksPosts,
-    });
-
-    // Update calendar with quality scores
-    // Cast supabase client to bypass strict typing for custom columns
-    await (supabase as any)
-      .from('content_calendars')
-      .update({
-        quality_score: quality,
-        quality_feedback: quality.issues,
-      })
-      .eq('id', calendar.id);
-
     return NextResponse.json({
       calendar,
-      quality,
+      quality: calendar.quality_score,
       message: `Successfully generated calendar for week of ${nextWeekStartStr}`,
     });
   } catch (error: any) {
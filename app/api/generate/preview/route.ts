@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// Mark route as dynamic to prevent static analysis during build
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Dry run: plan a calendar and return it without writing anything.
+ * POST the returned plan to /api/generate to commit it exactly as previewed.
+ */
+export async function POST(request: NextRequest) {
+  // Lazy import to avoid module-level execution during build
+  const { planCalendar } = await import('@/lib/planning');
+  try {
+    const body = await request.json();
+    const { company_id, week_start_date, posts_per_week, seed, thread_depth, existing_calendar_id } = body;
+
+    if (!company_id || !week_start_date || !posts_per_week) {
+      return NextResponse.json(
+        { error: 'company_id, week_start_date, and posts_per_week are required' },
+        { status: 400 }
+      );
+    }
+
+    const plan = await planCalendar({
+      company_id,
+      week_start_date: new Date(week_start_date),
+      posts_per_week: parseInt(posts_per_week),
+      existing_calendar_id: existing_calendar_id || undefined,
+      seed: seed !== undefined && seed !== null ? parseInt(seed) : undefined,
+      thread_depth: thread_depth !== undefined && thread_depth !== null ? parseInt(thread_depth) : undefined,
+    });
+
+    return NextResponse.json({
+      plan,
+      quality: plan.quality,
+    });
+  } catch (error: any) {
+    console.error('Calendar preview error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to preview calendar' },
+      { status: 500 }
+    );
+  }
+}
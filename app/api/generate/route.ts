@@ -11,7 +11,42 @@ export async function POST(request: NextRequest) {
   const { createServerClient } = await import('@/lib/supabase/client');
   try {
     const body = await request.json();
-    const { company_id, week_start_date, posts_per_week } = body;
+    const { company_id, week_start_date, posts_per_week, seed, thread_depth, plan } = body;
+
+    // Commit a plan returned by /api/generate/preview. Its content is kept; the spam check and
+    // quality score are re-run here, and it can't overwrite a locked calendar.
+    if (plan) {
+      const { createSupabaseRepository } = await import('@/lib/repository');
+      const { rescoreCalendarPlan } = await import('@/lib/planning');
+      const { isCalendarLocked } = await import('@/lib/workflow');
+      if (!plan.calendar || !Array.isArray(plan.posts) || !Array.isArray(plan.replies)) {
+        return NextResponse.json(
+          { error: 'plan must include calendar, posts, and replies' },
+          { status: 400 }
+        );
+      }
+
+      const repository = createSupabaseRepository();
+      if (plan.existing_calendar_id) {
+        const existing = await repository.getCalendar(plan.existing_calendar_id);
+        if (!existing) {
+          return NextResponse.json({ error: 'Calendar not found' }, { status: 404 });
+        }
+        if (isCalendarLocked(existing.status)) {
+          return NextResponse.json(
+            { error: `Calendar is ${existing.status}; reopen it before regenerating posts` },
+            { status: 423 }
+          );
+        }
+      }
+
+      const rescored = await rescoreCalendarPlan(plan, repository);
+      const calendar = await repository.saveCalendarPlan(rescored);
+      return NextResponse.json({
+        calendar,
+        quality: rescored.quality,
+      });
+    }
 
     if (!company_id || !week_start_date || !posts_per_week) {
       return NextResponse.json(
@@ -25,6 +60,8 @@ export async function POST(request: NextRequest) {
       company_id,
       week_start_date: new Date(week_start_date),
       posts_per_week: parseInt(posts_per_week),
+      seed: seed !== undefined && seed !== null ? parseInt(seed) : undefined,
+      thread_depth: thread_depth !== undefined && thread_depth !== null ? parseInt(thread_depth) : undefined,
     });
 
     // Get posts and replies for quality evaluation
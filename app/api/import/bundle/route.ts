@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// Mark route as dynamic to prevent static analysis during build
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/import/bundle
+ * Imports companies, personas, subreddits, SEO queries and a calendar from JSON or CSV
+ * (see lib/utils/import-schema.ts). Either:
+ * - a JSON body keyed by entity, or
+ * - multipart form with one .json file, or one .csv per entity (named after it, e.g. personas.csv,
+ *   or sent under the entity's field name)
+ * ?company_id= (or a company_id form field) adds the rows to an existing company instead.
+ * ?validate_only=true (or a validate_only form field) returns { report } - the row-level issues
+ * (see lib/utils/import-validation.ts) - without writing anything.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Lazy import to avoid module-level execution during build
+    const { createServerClient } = await import('@/lib/supabase/client');
+    const { parseJsonBundle, parseCsvBundle, csvEntityForFileName, saveImportBundle, validateImportBundle } = await import('@/lib/utils/bundle-import');
+    const { IMPORT_ENTITIES } = await import('@/lib/utils/import-schema');
+    const { formatImportIssue } = await import('@/lib/utils/import-validation');
+
+    let companyId = request.nextUrl.searchParams.get('company_id') || undefined;
+    let validateOnly = request.nextUrl.searchParams.get('validate_only') === 'true';
+    let parsed;
+
+    try {
+      if ((request.headers.get('content-type') || '').includes('application/json')) {
+        parsed = parseJsonBundle(await request.text());
+      } else {
+        const formData = await request.formData();
+        companyId = (formData.get('company_id') as string | null) || companyId;
+        validateOnly = validateOnly || formData.get('validate_only') === 'true';
+
+        const csvFiles: Record<string, string> = {};
+        let jsonFile: File | null = null;
+        for (const [field, value] of Array.from(formData.entries())) {
+          if (typeof value === 'string') continue;
+          const name = value.name.toLowerCase();
+          if (name.endsWith('.json')) {
+            if (jsonFile) {
+              return NextResponse.json({ error: 'Send a single .json file' }, { status: 400 });
+            }
+            jsonFile = value;
+          } else if (name.endsWith('.csv')) {
+            const entity = (IMPORT_ENTITIES as readonly string[]).includes(field) ? field : csvEntityForFileName(name);
+            if (!entity) {
+              return NextResponse.json(
+                { error: `Can't tell what ${value.name} contains - name it after one of: ${IMPORT_ENTITIES.join(', ')}` },
+                { status: 400 }
+              );
+            }
+            csvFiles[entity] = await value.text();
+          } else {
+            return NextResponse.json(
+              { error: `Unsupported file ${value.name} - use .json or .csv (Excel files go to /api/import/unified)` },
+              { status: 400 }
+            );
+          }
+        }
+
+        if (jsonFile && Object.keys(csvFiles).length > 0) {
+          return NextResponse.json({ error: 'Send either one .json file or .csv files, not both' }, { status: 400 });
+        }
+        if (!jsonFile && Object.keys(csvFiles).length === 0) {
+          return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+        }
+        parsed = jsonFile ? parseJsonBundle(await jsonFile.text()) : parseCsvBundle(csvFiles);
+      }
+    } catch (parseError: any) {
+      return NextResponse.json(
+        { error: `Failed to parse import: ${parseError.message}` },
+        { status: 400 }
+      );
+    }
+
+    const { bundle, issues } = parsed;
+
+    if (validateOnly) {
+      let existing;
+      if (companyId) {
+        const supabase = createServerClient();
+        const { data: company } = await (supabase as any).from('companies').select('id, timezone').eq('id', companyId).single();
+        if (!company) {
+          return NextResponse.json({ error: 'Company not found' }, { status: 404 });
+        }
+        const { data: personas } = await (supabase as any).from('personas').select('name, reddit_account').eq('company_id', companyId);
+        const { data: subreddits } = await (supabase as any).from('subreddits').select('name').eq('company_id', companyId);
+        existing = { personas: personas || [], subreddits: subreddits || [], timezone: company.timezone };
+      }
+      return NextResponse.json({ success: true, report: validateImportBundle(parsed, existing) });
+    }
+
+    if (!companyId && !bundle.company) {
+      return NextResponse.json(
+        { error: 'Company name not found', details: issues.map(formatImportIssue).join('\n') || 'Include a company, or pass company_id to import into an existing one' },
+        { status: 400 }
+      );
+    }
+
+    const result = await saveImportBundle(createServerClient(), bundle, { companyId });
+    const warnings = [...issues.map(formatImportIssue), ...result.warnings];
+
+    return NextResponse.json({
+      success: true,
+      message: `Imported company "${result.company.name}" with ${result.personas.length} personas, ${result.subreddits.length} subreddits, ${result.seoQueries.length} SEO queries, and ${result.posts} posts with ${result.replies} replies`,
+      data: { ...result, warnings },
+    });
+  } catch (error: any) {
+    console.error('Bundle import error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to import' },
+      { status: error.message === 'Company not found' ? 404 : 500 }
+    );
+  }
+}
@@ -1,9 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createServerClient } from '@/lib/supabase/client';
-import { parseExcelFile } from '@/lib/utils/excel-import';
 
+// Mark route as dynamic to prevent static analysis during build
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/import/excel
+ * Imports a company from a workbook with Company Info, Personas and Subreddits sheets, one
+ * header row each (the company_sheets preset of lib/utils/import-engine.ts)
+ */
 export async function POST(request: NextRequest) {
   try {
+    // Lazy import to avoid module-level execution during build
+    const { createServerClient } = await import('@/lib/supabase/client');
+    const { MAPPING_PRESETS, readWorkbook } = await import('@/lib/utils/import-engine');
+    const { saveImportBundle } = await import('@/lib/utils/bundle-import');
+    const { formatImportIssue } = await import('@/lib/utils/import-validation');
+
     const formData = await request.formData();
     const file = formData.get('file') as File;
 
@@ -22,91 +35,25 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Read file buffer
-    const arrayBuffer = await file.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
-
-    // Parse Excel file
-    const parsedData = parseExcelFile(buffer);
-
-    const supabase = createServerClient();
-
-    // Create company
-    // Cast supabase client to bypass strict typing for inserts
-    const { data: company, error: companyError } = await (supabase as any)
-      .from('companies')
-      .insert({
-        name: parsedData.company.name,
-        description: parsedData.company.description || null,
-        target_users: parsedData.company.target_users,
-        pain_points: parsedData.company.pain_points,
-        tone_positioning: parsedData.company.tone_positioning || null,
-        website_url: parsedData.company.website_url || null,
-      })
-      .select()
-      .single();
-
-    if (companyError || !company) {
+    const { bundle, issues } = readWorkbook(Buffer.from(await file.arrayBuffer()), MAPPING_PRESETS.company_sheets);
+    if (!bundle.company) {
       return NextResponse.json(
-        { error: `Failed to create company: ${companyError?.message}` },
-        { status: 500 }
+        { error: 'Company name is required in the first sheet', details: issues.map(formatImportIssue).join('\n') },
+        { status: 400 }
       );
     }
 
-    const companyId = company.id;
-    const results = {
-      company,
-      personas: [] as any[],
-      subreddits: [] as any[],
-    };
-
-    // Create personas
-    if (parsedData.personas.length > 0) {
-      const personasToInsert = parsedData.personas.map(p => ({
-        company_id: companyId,
-        name: p.name,
-        tone: p.tone,
-        expertise: p.expertise,
-        reddit_account: p.reddit_account || null,
-      }));
-
-      // Cast supabase client to bypass strict typing for inserts
-      const { data: personas, error: personasError } = await (supabase as any)
-        .from('personas')
-        .insert(personasToInsert)
-        .select();
-
-      if (!personasError && personas) {
-        results.personas = personas;
-      }
-    }
-
-    // Create subreddits
-    if (parsedData.subreddits.length > 0) {
-      const subredditsToInsert = parsedData.subreddits.map(s => ({
-        company_id: companyId,
-        name: s.name,
-        rules: s.rules || null,
-        min_cooldown_days: s.min_cooldown_days || 7,
-        max_posts_per_week: s.max_posts_per_week || 2,
-        size_category: s.size_category || 'medium',
-      }));
-
-      // Cast supabase client to bypass strict typing for inserts
-      const { data: subreddits, error: subredditsError } = await (supabase as any)
-        .from('subreddits')
-        .insert(subredditsToInsert)
-        .select();
-
-      if (!subredditsError && subreddits) {
-        results.subreddits = subreddits;
-      }
-    }
+    const result = await saveImportBundle(createServerClient(), bundle);
 
     return NextResponse.json({
       success: true,
-      message: `Imported company "${parsedData.company.name}" with ${results.personas.length} personas and ${results.subreddits.length} subreddits`,
-      data: results,
+      message: `Imported company "${result.company.name}" with ${result.personas.length} personas and ${result.subreddits.length} subreddits`,
+      data: {
+        company: result.company,
+        personas: result.personas,
+        subreddits: result.subreddits,
+        warnings: [...issues.map(formatImportIssue), ...result.warnings],
+      },
     });
   } catch (error: any) {
     console.error('Excel import error:', error);
@@ -116,4 +63,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
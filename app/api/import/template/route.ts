@@ -1,13 +1,65 @@
-import { NextResponse } from 'next/server';
-import { createExcelTemplate } from '@/lib/utils/excel-import';
+import { NextRequest, NextResponse } from 'next/server';
+import type { ImportBundle } from '@/lib/utils/import-schema';
+
+// Mark route as dynamic to prevent static analysis during build
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const SAMPLE_BUNDLE: ImportBundle = {
+  company: {
+    name: 'SlideForge',
+    description: 'AI-powered presentation tool for founders and marketers',
+    target_users: ['founders', 'marketers', 'startups'],
+    pain_points: ['time-consuming presentations', 'design skills', 'brand consistency'],
+    tone_positioning: 'Helpful and authentic, never salesy',
+    website_url: 'https://slideforge.ai',
+    timezone: 'America/New_York',
+  },
+  personas: [
+    { name: 'Sarah - Growth Marketer', tone: 'helpful', expertise: ['marketing', 'growth', 'content'], reddit_account: 'sarah_grows' },
+    { name: 'Alex - Startup Founder', tone: 'experienced', expertise: ['startups', 'product', 'funding'], reddit_account: 'alex_builds' },
+  ],
+  subreddits: [
+    { name: 'r/startups', rules: 'No self-promotion, be helpful and authentic', min_cooldown_days: 7, max_posts_per_week: 2, size_category: 'large' },
+    { name: 'r/entrepreneur', rules: 'Focus on value, no direct promotion', min_cooldown_days: 5, max_posts_per_week: 2, size_category: 'large' },
+  ],
+  seo_queries: [
+    { query: 'best ai presentation maker', priority: 2 },
+    { query: 'pitch deck generator', priority: 1 },
+  ],
+  posts: [
+    {
+      post_id: 'P1',
+      subreddit: 'r/startups',
+      title: 'How do you put together investor decks quickly?',
+      body: 'Our raise starts next month and every deck takes me a week.',
+      author_username: 'alex_builds',
+      timestamp: '2025-01-06 09:30',
+      keyword_ids: 'K2',
+    },
+  ],
+  comments: [
+    { comment_id: 'C1', post_id: 'P1', comment_text: 'Start from the story, then the slides.', username: 'sarah_grows', timestamp: '2025-01-06 11:00' },
+  ],
+};
 
 /**
  * GET /api/import/template
- * Downloads an Excel template file for importing company data
+ * Downloads a sample workbook in the SlideForge layout, or ?preset=company_sheets / calendar_sheets
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const templateBuffer = createExcelTemplate();
+    // Lazy import to avoid module-level execution during build
+    const { MAPPING_PRESETS, writeWorkbook } = await import('@/lib/utils/import-engine');
+    const preset = request.nextUrl.searchParams.get('preset') || 'unified';
+    if (!MAPPING_PRESETS[preset]) {
+      return NextResponse.json(
+        { error: `Unknown preset "${preset}" - use ${Object.keys(MAPPING_PRESETS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const templateBuffer = writeWorkbook(SAMPLE_BUNDLE, MAPPING_PRESETS[preset]);
 
     return new NextResponse(templateBuffer as any, {
       headers: {
@@ -22,4 +74,3 @@ export async function GET() {
     );
   }
 }
-
@@ -1,14 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createServerClient } from '@/lib/supabase/client';
-import { parseUnifiedExcel, getDayOfWeek, getWeekStart, inferPostType } from '@/lib/utils/unified-import';
+
+// Mark route as dynamic to prevent static analysis during build
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
 
 /**
- * Unified import endpoint that imports both company info and calendar in one go
+ * POST /api/import/unified
+ * Imports a workbook - company info, personas, subreddits, SEO queries and a calendar - through
+ * the column-mapping engine (lib/utils/import-engine.ts). Multipart form:
+ * - file: the .xlsx or .xls
+ * - mapping (optional): JSON column mapping, or preset: unified | company_sheets | calendar_sheets.
+ *   Without either, the company's saved mapping is used, else the SlideForge layout.
+ * - company_id (optional): add the rows to an existing company instead of creating one
+ * - validate_only=true (or query param): return { report, workbook, mapping, fields } and write nothing
+ * A mapping or preset that was sent is saved on the company for its next import.
  */
 export async function POST(request: NextRequest) {
   try {
+    // Lazy import to avoid module-level execution during build
+    const { createServerClient } = await import('@/lib/supabase/client');
+    const { DEFAULT_MAPPING, MAPPABLE_FIELDS, MAPPING_PRESETS, describeWorkbook, normalizeColumnMapping, readWorkbook } = await import('@/lib/utils/import-engine');
+    const { saveImportBundle, validateImportBundle } = await import('@/lib/utils/bundle-import');
+    const { formatImportIssue } = await import('@/lib/utils/import-validation');
+
     const formData = await request.formData();
-    const file = formData.get('file') as File;
+    const file = formData.get('file') as File | null;
+    const companyId = (formData.get('company_id') as string | null) || undefined;
+    const validateOnly = formData.get('validate_only') === 'true'
+      || request.nextUrl.searchParams.get('validate_only') === 'true';
 
     if (!file) {
       return NextResponse.json(
@@ -24,359 +43,101 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    let parsedData;
-    try {
-      const arrayBuffer = await file.arrayBuffer();
-      const buffer = Buffer.from(arrayBuffer);
-      parsedData = parseUnifiedExcel(buffer);
-      
-      // Debug logging
-      console.log('Parsed data:', {
-        companyName: parsedData.company.name,
-        personasCount: parsedData.personas.length,
-        queriesCount: parsedData.seoQueries.length,
-        postsCount: parsedData.posts.length,
-        commentsCount: parsedData.comments.length,
-      });
-    } catch (parseError: any) {
-      console.error('Excel parsing error:', parseError);
-      console.error('Stack:', parseError.stack);
-      return NextResponse.json(
-        { error: `Failed to parse Excel file: ${parseError.message}` },
-        { status: 400 }
-      );
+    const supabase = createServerClient();
+    let company: any = null;
+    if (companyId) {
+      const { data } = await (supabase as any).from('companies').select('*').eq('id', companyId).single();
+      if (!data) {
+        return NextResponse.json({ error: 'Company not found' }, { status: 404 });
+      }
+      company = data;
     }
 
-    if (!parsedData.company.name) {
-      console.error('Company name not found. Parsed company:', parsedData.company);
+    let mapping;
+    const mappingField = formData.get('mapping') as string | null;
+    const preset = formData.get('preset') as string | null;
+    try {
+      if (mappingField) {
+        mapping = normalizeColumnMapping(JSON.parse(mappingField));
+      } else if (preset) {
+        if (!MAPPING_PRESETS[preset]) {
+          throw new Error(`Unknown preset "${preset}" - use ${Object.keys(MAPPING_PRESETS).join(', ')}`);
+        }
+        mapping = MAPPING_PRESETS[preset];
+      } else {
+        mapping = company?.import_mapping ? normalizeColumnMapping(company.import_mapping) : DEFAULT_MAPPING;
+      }
+    } catch (mappingError: any) {
       return NextResponse.json(
-        { 
-          error: 'Company name not found in Excel file',
-          details: 'Please ensure your Excel file has a "Company Info" sheet with "Name" in column A and the company name in column B'
-        },
+        { error: `Invalid column mapping: ${mappingError.message}` },
         { status: 400 }
       );
     }
 
-    // Check Supabase configuration
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-    
-    if (!supabaseUrl || !serviceRoleKey) {
-      console.error('Missing Supabase config:', {
-        hasUrl: !!supabaseUrl,
-        hasKey: !!serviceRoleKey,
-      });
-      return NextResponse.json(
-        { 
-          error: 'Server configuration error',
-          details: 'Missing Supabase environment variables. Please check your .env.local file.'
-        },
-        { status: 500 }
-      );
-    }
-
-    let supabase;
+    const buffer = Buffer.from(await file.arrayBuffer());
+    let parsed;
     try {
-      supabase = createServerClient();
-    } catch (clientError: any) {
-      console.error('Failed to create Supabase client:', clientError);
+      parsed = readWorkbook(buffer, mapping);
+    } catch (parseError: any) {
+      console.error('Excel parsing error:', parseError);
       return NextResponse.json(
-        { 
-          error: 'Failed to connect to database',
-          details: clientError.message
-        },
-        { status: 500 }
+        { error: `Failed to parse Excel file: ${parseError.message}` },
+        { status: 400 }
       );
     }
 
-    // Step 1: Create Company
-    let company, companyError;
-    try {
-      // Cast supabase client to bypass strict typing for inserts
-      const result = await (supabase as any)
-        .from('companies')
-        .insert([{
-          name: parsedData.company.name,
-          description: parsedData.company.description || null,
-          website_url: parsedData.company.website || null,
-          target_users: [], // Can be inferred later
-          pain_points: [], // Can be inferred later
-          tone_positioning: null,
-        }] as any)
-        .select()
-        .single();
-      
-      company = result.data as any;
-      companyError = result.error;
-    } catch (insertError: any) {
-      console.error('Database insert error:', insertError);
-      console.error('Error details:', {
-        message: insertError.message,
-        stack: insertError.stack,
-        cause: insertError.cause,
+    if (validateOnly) {
+      let existing;
+      if (companyId) {
+        const { data: personas } = await (supabase as any).from('personas').select('name, reddit_account').eq('company_id', companyId);
+        const { data: subreddits } = await (supabase as any).from('subreddits').select('name').eq('company_id', companyId);
+        existing = { personas: personas || [], subreddits: subreddits || [], timezone: company.timezone };
+      }
+      return NextResponse.json({
+        success: true,
+        report: validateImportBundle(parsed, existing),
+        workbook: describeWorkbook(buffer),
+        mapping,
+        fields: MAPPABLE_FIELDS,
       });
-      return NextResponse.json(
-        { 
-          error: 'Failed to create company',
-          details: insertError.message || 'Database connection failed. Please check your Supabase configuration.'
-        },
-        { status: 500 }
-      );
     }
 
-    if (companyError || !company) {
-      console.error('Company creation error:', companyError);
+    const { bundle, issues } = parsed;
+    if (!companyId && !bundle.company) {
       return NextResponse.json(
-        { 
-          error: `Failed to create company: ${companyError?.message || 'Unknown error'}`,
-          details: companyError?.details || 'Please check your database connection and table structure.'
+        {
+          error: 'Company name not found in Excel file',
+          details: issues.map(formatImportIssue).join('\n')
+            || 'Map the company name to the cell that holds it, or pass company_id to import into an existing company',
         },
-        { status: 500 }
+        { status: 400 }
       );
     }
 
-    const companyId = company.id;
-    const results: any = {
-      company,
-      personas: [],
-      subreddits: [],
-      seoQueries: [],
-      calendar: null,
-      posts: 0,
-      replies: 0,
-    };
-
-    // Step 2: Create Subreddits
-    if (parsedData.company.subreddits && parsedData.company.subreddits.length > 0) {
-      const subredditsToInsert = parsedData.company.subreddits.map(name => ({
-        company_id: companyId,
-        name: name.startsWith('r/') ? name : `r/${name}`,
-        rules: null,
-        min_cooldown_days: 7,
-        max_posts_per_week: parsedData.company.posts_per_week || 3,
-        size_category: 'medium' as const,
-      }));
-
-      // Cast supabase client to bypass strict typing for inserts
-      const { data: subreddits, error: subredditsError } = await (supabase as any)
-        .from('subreddits')
-        .insert(subredditsToInsert)
-        .select();
-
-      if (!subredditsError && subreddits) {
-        results.subreddits = subreddits;
-      }
-    }
-
-    // Step 3: Create Personas
-    if (parsedData.personas.length > 0) {
-      const personasToInsert = parsedData.personas.map(p => {
-        // Infer tone from info
-        const infoLower = p.info.toLowerCase();
-        let tone = 'helpful';
-        if (infoLower.includes('head') || infoLower.includes('senior') || infoLower.includes('experienced')) {
-          tone = 'experienced';
-        } else if (infoLower.includes('student') || infoLower.includes('learning')) {
-          tone = 'curious';
-        }
-
-        // Infer expertise from info
-        const expertise: string[] = [];
-        if (infoLower.includes('operations') || infoLower.includes('ops')) expertise.push('operations');
-        if (infoLower.includes('consultant') || infoLower.includes('consulting')) expertise.push('consulting');
-        if (infoLower.includes('sales')) expertise.push('sales');
-        if (infoLower.includes('product') || infoLower.includes('pm')) expertise.push('product');
-        if (infoLower.includes('student') || infoLower.includes('economics')) expertise.push('student');
-
-        return {
-          company_id: companyId,
-          name: p.username.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase()),
-          tone: tone,
-          expertise: expertise.length > 0 ? expertise : ['general'],
-          reddit_account: p.username,
-        };
-      });
-
-      // Cast supabase client to bypass strict typing for inserts
-      const { data: personas, error: personasError } = await (supabase as any)
-        .from('personas')
-        .insert(personasToInsert)
-        .select();
-
-      if (!personasError && personas) {
-        results.personas = personas;
-      }
-    }
-
-    // Step 4: Create SEO Queries
-    if (parsedData.seoQueries.length > 0) {
-      const queriesToInsert = parsedData.seoQueries.map((q, index) => ({
-        company_id: companyId,
-        query: q.keyword,
-        priority: parsedData.seoQueries.length - index, // Higher priority for earlier queries
-      }));
-
-      // Cast supabase client to bypass strict typing for inserts
-      const { data: queries, error: queriesError } = await (supabase as any)
-        .from('seo_queries')
-        .insert(queriesToInsert)
-        .select();
-
-      if (!queriesError && queries) {
-        results.seoQueries = queries;
-      }
-    }
-
-    // Step 5: Create Calendar with Posts and Comments (if available)
-    if (parsedData.posts.length > 0) {
-      // Get personas and subreddits for mapping
-      const { data: allPersonas } = await supabase
-        .from('personas')
-        .select('*')
-        .eq('company_id', companyId);
-
-      const { data: allSubreddits } = await supabase
-        .from('subreddits')
-        .select('*')
-        .eq('company_id', companyId);
-
-      const usernameToPersona = new Map<string, string>();
-      (allPersonas as Array<{ reddit_account?: string; id: string }> | undefined)?.forEach(p => {
-        if (p.reddit_account) {
-          usernameToPersona.set(p.reddit_account.toLowerCase(), p.id);
-        }
-      });
+    const result = await saveImportBundle(supabase, bundle, { companyId });
+    const warnings = [...issues.map(formatImportIssue), ...result.warnings];
 
-      const subredditNameToId = new Map<string, string>();
-      if (allSubreddits && Array.isArray(allSubreddits)) {
-        (allSubreddits as Array<{ name: string; id: string }>).forEach(s => {
-          const name = s.name.toLowerCase().replace(/^r\//, '');
-          subredditNameToId.set(name, s.id);
-          subredditNameToId.set(s.name.toLowerCase(), s.id);
-        });
-      }
-
-      // Find week start
-      const postDates = parsedData.posts
-        .map(p => p.timestamp instanceof Date ? p.timestamp : new Date(p.timestamp))
-        .filter(d => !isNaN(d.getTime()))
-        .sort((a, b) => a.getTime() - b.getTime());
-
-      if (postDates.length > 0) {
-        const weekStart = getWeekStart(postDates[0]);
-        const weekStartStr = weekStart.toISOString().split('T')[0];
-
-        // Create calendar
-        // Cast supabase client to bypass strict typing for inserts
-        const { data: calendar, error: calendarError } = await (supabase as any)
-          .from('content_calendars')
-          .insert({
-            company_id: companyId,
-            week_start_date: weekStartStr,
-            posts_per_week: parsedData.posts.length,
-            status: 'draft',
-          })
-          .select()
-          .single();
-
-        if (!calendarError && calendar) {
-          results.calendar = calendar;
-          const calendarId = (calendar as any).id;
-          const postIdMap = new Map<string, string>();
-
-          // Create posts
-          for (const excelPost of parsedData.posts) {
-            const postDate = excelPost.timestamp instanceof Date 
-              ? excelPost.timestamp 
-              : new Date(excelPost.timestamp);
-            
-            const dayOfWeek = getDayOfWeek(postDate);
-            const subredditName = excelPost.subreddit.toLowerCase().replace('r/', '');
-            const subredditId = subredditNameToId.get(subredditName) || subredditNameToId.get(excelPost.subreddit.toLowerCase());
-            
-            if (!subredditId) continue;
-
-            const username = excelPost.author_username.toLowerCase();
-            const personaId = usernameToPersona.get(username) || (allPersonas as any)?.[0]?.id;
-            
-            if (!personaId) continue;
-
-            const postType = inferPostType(excelPost.title, excelPost.body);
-
-            // Cast supabase client to bypass strict typing for inserts
-            const { data: post, error: postError } = await (supabase as any)
-              .from('calendar_posts')
-              .insert([{
-                calendar_id: calendarId,
-                day_of_week: dayOfWeek,
-                subreddit_id: subredditId,
-                topic: excelPost.title,
-                persona_id: personaId,
-                post_type: postType,
-                planned_title: excelPost.title,
-                planned_body: excelPost.body,
-                order_in_day: 0,
-              }] as any)
-              .select()
-              .single();
-
-            if (!postError && post) {
-              postIdMap.set(excelPost.post_id, (post as any).id);
-              results.posts++;
-            }
-          }
-
-          // Create replies
-          for (const excelComment of parsedData.comments) {
-            const postId = postIdMap.get(excelComment.post_id);
-            if (!postId) continue;
-
-            const username = excelComment.username.toLowerCase();
-            const personaId = usernameToPersona.get(username) || (allPersonas as any)?.[0]?.id;
-            if (!personaId) continue;
-
-            const commentText = excelComment.comment_text.toLowerCase();
-            let intent: 'ask' | 'challenge' | 'add_value' | 'clarify' = 'add_value';
-            if (commentText.includes('?')) intent = 'ask';
-            else if (commentText.includes('but') || commentText.includes('however')) intent = 'challenge';
-
-            // Cast supabase client to bypass strict typing for inserts
-            const { data: reply } = await (supabase as any)
-              .from('calendar_replies')
-              .insert([{
-                post_id: postId,
-                persona_id: personaId,
-                intent: intent,
-                order_after_post: 2, // Default 2 hours
-                planned_content: excelComment.comment_text,
-              }] as any)
-              .select()
-              .single();
-
-            if (reply) {
-              results.replies++;
-            }
-          }
-        }
-      }
+    if (mappingField || preset) {
+      const { error: mappingError } = await (supabase as any)
+        .from('companies')
+        .update({ import_mapping: mapping })
+        .eq('id', result.company.id);
+      if (mappingError) warnings.push(`Column mapping was not saved: ${mappingError.message}`);
     }
 
     return NextResponse.json({
       success: true,
-      message: `Imported company "${parsedData.company.name}" with ${results.personas.length} personas, ${results.subreddits.length} subreddits, ${results.seoQueries.length} SEO queries, and ${results.posts} posts with ${results.replies} replies`,
-      data: results,
+      message: `Imported company "${result.company.name}" with ${result.personas.length} personas, ${result.subreddits.length} subreddits, ${result.seoQueries.length} SEO queries, and ${result.posts} posts with ${result.replies} replies`,
+      data: { ...result, warnings },
     });
   } catch (error: any) {
     console.error('Unified import error:', error);
-    console.error('Error stack:', error.stack);
     return NextResponse.json(
-      { 
+      {
         error: error.message || 'Failed to import Excel file',
         details: process.env.NODE_ENV === 'development' ? error.stack : undefined
       },
-      { status: 500 }
+      { status: error.message === 'Company not found' ? 404 : 500 }
     );
   }
 }
-
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// Mark route as dynamic to prevent static analysis during build
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Lints a post as it is being edited: fields in the body (planned_title, planned_body, post_type,
+ * posting_strategy, flair) replace the saved ones, nothing is written
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Lazy import to avoid module-level execution during build
+    const { createSupabaseRepository } = await import('@/lib/repository');
+    const { lintPost, loadLintContext } = await import('@/lib/planning/lint');
+    const repository = createSupabaseRepository();
+    const body = await request.json().catch(() => ({}));
+
+    const post = await repository.getPost(params.id);
+    if (!post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+
+    const edited = { ...post };
+    for (const field of ['planned_title', 'planned_body', 'post_type', 'posting_strategy', 'flair'] as const) {
+      if (body[field] !== undefined) (edited as any)[field] = body[field];
+    }
+
+    return NextResponse.json({ diagnostics: lintPost(edited, await loadLintContext(repository, post)) });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createServerClient } from '@/lib/supabase/client';
+import { editPost } from '@/lib/workflow';
 
 /**
- * Update a post
+ * Update a post (rejected while its calendar is approved or published)
  */
 export async function PATCH(
   request: NextRequest,
@@ -10,9 +10,7 @@ export async function PATCH(
 ) {
   try {
     const body = await request.json();
-    const { topic, planned_title, planned_body, post_type, posting_strategy } = body;
-
-    const supabase = createServerClient();
+    const { topic, planned_title, planned_body, post_type, posting_strategy, scheduled_at, flair } = body;
 
     const updateData: any = {};
     if (topic !== undefined) updateData.topic = topic;
@@ -20,23 +18,27 @@ export async function PATCH(
     if (planned_body !== undefined) updateData.planned_body = planned_body;
     if (post_type !== undefined) updateData.post_type = post_type;
     if (posting_strategy !== undefined) updateData.posting_strategy = posting_strategy;
+    if (flair !== undefined) updateData.flair = flair || null;
+    if (scheduled_at !== undefined) {
+      if (scheduled_at !== null && isNaN(new Date(scheduled_at).getTime())) {
+        return NextResponse.json(
+          { error: 'scheduled_at must be an ISO date-time or null' },
+          { status: 400 }
+        );
+      }
+      updateData.scheduled_at = scheduled_at === null ? null : new Date(scheduled_at).toISOString();
+    }
 
-    // Cast supabase client to bypass strict typing for updates
-    const { data, error } = await (supabase as any)
-      .from('calendar_posts')
-      .update(updateData)
-      .eq('id', params.id)
-      .select()
-      .single();
+    const result = await editPost(params.id, updateData, body.actor);
 
-    if (error) {
+    if (!result.ok) {
       return NextResponse.json(
-        { error: error.message },
-        { status: 400 }
+        { error: result.error },
+        { status: result.status }
       );
     }
 
-    return NextResponse.json({ post: data });
+    return NextResponse.json({ post: result.post });
   } catch (error: any) {
     return NextResponse.json(
       { error: error.message || 'Failed to update post' },
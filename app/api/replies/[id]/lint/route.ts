@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// Mark route as dynamic to prevent static analysis during build
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Lints a reply as it is being edited: planned_content in the body replaces the saved text,
+ * nothing is written
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Lazy import to avoid module-level execution during build
+    const { createSupabaseRepository } = await import('@/lib/repository');
+    const { lintReply, loadLintContext } = await import('@/lib/planning/lint');
+    const repository = createSupabaseRepository();
+    const body = await request.json().catch(() => ({}));
+
+    const reply = await repository.getReply(params.id);
+    const post = reply && await repository.getPost(reply.post_id);
+    if (!reply || !post) {
+      return NextResponse.json({ error: 'Reply not found' }, { status: 404 });
+    }
+
+    const content = body.planned_content !== undefined ? body.planned_content : reply.planned_content;
+    return NextResponse.json({
+      diagnostics: lintReply({ planned_content: content }, await loadLintContext(repository, post)),
+    });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createServerClient } from '@/lib/supabase/client';
+import { editReply } from '@/lib/workflow';
 
 /**
- * Update a reply
+ * Update a reply (rejected while its calendar is approved or published)
  */
 export async function PATCH(
   request: NextRequest,
@@ -10,9 +10,7 @@ export async function PATCH(
 ) {
   try {
     const body = await request.json();
-    const { planned_content, intent, order_after_post, tone, emotion } = body;
-
-    const supabase = createServerClient();
+    const { planned_content, intent, order_after_post, tone, emotion, scheduled_at } = body;
 
     const updateData: any = {};
     if (planned_content !== undefined) updateData.planned_content = planned_content;
@@ -20,23 +18,26 @@ export async function PATCH(
     if (order_after_post !== undefined) updateData.order_after_post = order_after_post;
     if (tone !== undefined) updateData.tone = tone;
     if (emotion !== undefined) updateData.emotion = emotion;
+    if (scheduled_at !== undefined) {
+      if (scheduled_at !== null && isNaN(new Date(scheduled_at).getTime())) {
+        return NextResponse.json(
+          { error: 'scheduled_at must be an ISO date-time or null' },
+          { status: 400 }
+        );
+      }
+      updateData.scheduled_at = scheduled_at === null ? null : new Date(scheduled_at).toISOString();
+    }
 
-    // Cast supabase client to bypass strict typing for updates
-    const { data, error } = await (supabase as any)
-      .from('calendar_replies')
-      .update(updateData)
-      .eq('id', params.id)
-      .select()
-      .single();
+    const result = await editReply(params.id, updateData, body.actor);
 
-    if (error) {
+    if (!result.ok) {
       return NextResponse.json(
-        { error: error.message },
-        { status: 400 }
+        { error: result.error },
+        { status: result.status }
       );
     }
 
-    return NextResponse.json({ reply: data });
+    return NextResponse.json({ reply: result.reply });
   } catch (error: any) {
     return NextResponse.json(
       { error: error.message || 'Failed to update reply' },
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/client';
+import { normalizeSubredditRules } from '@/lib/planning/subreddit-rules';
+
+/**
+ * Update a subreddit. rule_set holds the structured rules the planner enforces
+ * ({ rule_set: null } goes back to reading the free-text rules).
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const { rules, rule_set, min_cooldown_days, max_posts_per_week, size_category } = body;
+
+    const updateData: any = {};
+    if (rules !== undefined) updateData.rules = rules || null;
+    if (min_cooldown_days !== undefined) updateData.min_cooldown_days = min_cooldown_days;
+    if (max_posts_per_week !== undefined) updateData.max_posts_per_week = max_posts_per_week;
+    if (size_category !== undefined) updateData.size_category = size_category;
+    if (rule_set !== undefined) {
+      try {
+        updateData.rule_set = rule_set === null ? null : normalizeSubredditRules(rule_set);
+      } catch (rulesError: any) {
+        return NextResponse.json(
+          { error: `Invalid subreddit rules: ${rulesError.message}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const supabase = createServerClient();
+    const { data, error } = await (supabase as any)
+      .from('subreddits')
+      .update(updateData)
+      .eq('id', params.id)
+      .select()
+      .single();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: 'Subreddit not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ subreddit: data });
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'Failed to update subreddit' },
+      { status: 500 }
+    );
+  }
+}
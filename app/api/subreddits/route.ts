@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase/client';
+import { normalizeSubredditRules } from '@/lib/planning/subreddit-rules';
 
 export async function GET(request: NextRequest) {
   try {
@@ -33,6 +34,7 @@ export async function POST(request: NextRequest) {
       min_cooldown_days,
       max_posts_per_week,
       size_category,
+      rule_set,
     } = body;
 
     if (!company_id || !name) {
@@ -42,6 +44,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    let ruleSet = null;
+    if (rule_set !== undefined && rule_set !== null) {
+      try {
+        ruleSet = normalizeSubredditRules(rule_set);
+      } catch (rulesError: any) {
+        return NextResponse.json(
+          { error: `Invalid subreddit rules: ${rulesError.message}` },
+          { status: 400 }
+        );
+      }
+    }
+
     const supabase = createServerClient();
     // Cast supabase client to bypass strict typing for inserts
     const { data, error } = await (supabase as any)
@@ -53,6 +67,7 @@ export async function POST(request: NextRequest) {
         min_cooldown_days: min_cooldown_days || 7,
         max_posts_per_week: max_posts_per_week || 2,
         size_category: size_category || 'medium',
+        rule_set: ruleSet,
       })
       .select()
       .single();
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// Mark route as dynamic to prevent static analysis during build
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Run a planner scenario: GET /api/testing/single-persona | many-personas | single-subreddit |
+ * many-subreddits | missing-tones | missing-company-info | spam-rules | post-drafting | campaign-weeks
+ * Runs entirely in memory with a stubbed LLM - nothing is written to the database.
+ * With ?company_id=..., the fixture starts from that company's personas and subreddits.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { scenario: string } }
+) {
+  try {
+    // Lazy import to avoid module-level execution during build
+    const { runScenario, isScenarioName } = await import('@/lib/testing/scenarios');
+
+    if (!isScenarioName(params.scenario)) {
+      return NextResponse.json(
+        { error: `Unknown scenario: ${params.scenario}` },
+        { status: 404 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const companyId = searchParams.get('company_id');
+    const seed = searchParams.get('seed');
+
+    // Read-only load of the selected company as the fixture base
+    let base;
+    if (companyId) {
+      const { createSupabaseRepository } = await import('@/lib/repository');
+      const repository = createSupabaseRepository();
+      const company = await repository.getCompany(companyId);
+      if (company) {
+        base = {
+          company,
+          personas: await repository.listPersonas(companyId),
+          subreddits: await repository.listSubreddits(companyId),
+          seoQueries: await repository.listSEOQueries(companyId),
+        };
+      }
+    }
+
+    const result = await runScenario(params.scenario, {
+      base,
+      seed: seed ? parseInt(seed) : undefined,
+    });
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('Scenario error:', error);
+    return NextResponse.json(
+      { success: false, message: error.message || 'Failed to run scenario' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,10 +3,54 @@
 import { useState, useEffect } from 'react';
 import { useParams } from 'next/navigation';
 import Link from 'next/link';
-import type { CalendarPostWithDetails, CalendarQualityScore } from '@/types';
+import type { CalendarPostWithDetails, CalendarQualityScore, CalendarAuditEntry, CalendarWorkflowAction, CalendarReply, Persona } from '@/types';
+import type { LintDiagnostic } from '@/lib/planning/lint';
 
 const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 
+const WORKFLOW_LABELS: Record<CalendarWorkflowAction, string> = {
+  submit: 'Submit for Review',
+  approve: 'Approve',
+  reject: 'Reject',
+  publish: 'Mark Published',
+  reopen: 'Reopen',
+};
+
+/**
+ * Flattens a post's replies into thread order (each reply followed by its answers) with nesting depth
+ */
+function threadOrder<T extends CalendarReply>(replies: T[]): Array<{ reply: T; depth: number }> {
+  const ids = new Set(replies.map(r => r.id));
+  const children = new Map<string | null, T[]>();
+  replies.forEach(reply => {
+    const parentId = reply.parent_reply_id && ids.has(reply.parent_reply_id) ? reply.parent_reply_id : null;
+    children.set(parentId, [...(children.get(parentId) || []), reply]);
+  });
+
+  const ordered: Array<{ reply: T; depth: number }> = [];
+  const visit = (parentId: string | null, depth: number) => {
+    (children.get(parentId) || [])
+      .sort((a, b) => a.order_after_post - b.order_after_post)
+      .forEach(reply => {
+        ordered.push({ reply, depth });
+        visit(reply.id, depth + 1);
+      });
+  };
+  visit(null, 0);
+  return ordered;
+}
+
+/**
+ * Formats a UTC timestamp in the company's timezone (browser timezone if the name is unknown)
+ */
+function formatInTimeZone(iso: string, timeZone: string, options: Intl.DateTimeFormatOptions): string {
+  try {
+    return new Intl.DateTimeFormat('en-US', { ...options, timeZone }).format(new Date(iso));
+  } catch {
+    return new Intl.DateTimeFormat('en-US', options).format(new Date(iso));
+  }
+}
+
 export default function CalendarPage() {
   const params = useParams();
   const calendarId = params.id as string;
@@ -20,6 +64,14 @@ export default function CalendarPage() {
   const [generatingPosts, setGeneratingPosts] = useState(false);
   const [editingPost, setEditingPost] = useState<string | null>(null);
   const [editingReply, setEditingReply] = useState<string | null>(null);
+  const [auditEntries, setAuditEntries] = useState<CalendarAuditEntry[]>([]);
+  const [availableActions, setAvailableActions] = useState<CalendarWorkflowAction[]>([]);
+  const [transitioning, setTransitioning] = useState(false);
+  const [view, setView] = useState<'days' | 'timeline'>('days');
+  const [timezone, setTimezone] = useState('UTC');
+  const [exportPersona, setExportPersona] = useState('');
+  const [reimportFile, setReimportFile] = useState<File | null>(null);
+  const [reimportDiff, setReimportDiff] = useState<any>(null);
 
   useEffect(() => {
     if (calendarId) {
@@ -27,6 +79,45 @@ export default function CalendarPage() {
     }
   }, [calendarId]);
 
+  const postReimport = async (file: File, accept?: string[]) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (accept) formData.append('accept', JSON.stringify(accept));
+    const res = await fetch(`/api/calendars/${calendarId}/reimport`, { method: 'POST', body: formData });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Re-import failed');
+    return data;
+  };
+
+  const handleReimportPreview = async (file: File) => {
+    try {
+      const diff = await postReimport(file);
+      if (diff.changes.length === 0) {
+        alert(`No changes found in ${file.name}${diff.warnings.length > 0 ? `\n\n${diff.warnings.join('\n')}` : ''}`);
+        return;
+      }
+      setReimportFile(file);
+      setReimportDiff(diff);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Re-import failed');
+    }
+  };
+
+  const handleReimportApply = async (accepted: string[]) => {
+    if (!reimportFile) return;
+    try {
+      const result = await postReimport(reimportFile, accepted);
+      setReimportDiff(null);
+      setReimportFile(null);
+      await fetchCalendar();
+      if (result.skipped.length > 0) {
+        alert(`Applied ${result.applied.length} changes. Skipped:\n${result.skipped.map((s: any) => `${s.id}: ${s.reason}`).join('\n')}`);
+      }
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Re-import failed');
+    }
+  };
+
   const fetchCalendar = async () => {
     try {
       setLoading(true);
@@ -46,6 +137,7 @@ export default function CalendarPage() {
 
       setCalendar(data.calendar);
       setPosts(data.posts || []);
+      setTimezone(data.timezone || 'UTC');
 
       // Calculate quality if not provided
       if (data.quality) {
@@ -56,6 +148,14 @@ export default function CalendarPage() {
       if (data.calendar?.spam_warnings) {
         setSpamWarnings(data.calendar.spam_warnings);
       }
+
+      // Load workflow state and audit trail
+      const auditRes = await fetch(`/api/calendars/${calendarId}/audit`);
+      if (auditRes.ok) {
+        const auditData = await auditRes.json();
+        setAuditEntries(auditData.entries || []);
+        setAvailableActions(auditData.available_actions || []);
+      }
     } catch (error) {
       console.error('Failed to fetch calendar:', error);
       alert(`Error loading calendar: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -85,6 +185,19 @@ export default function CalendarPage() {
     );
   }
 
+  // Approved and published calendars can't be edited until reopened
+  const locked = calendar.status === 'approved' || calendar.status === 'published';
+
+  // Everyone who posts or replies this week, for per-persona .ics feeds
+  const exportPersonas = Array.from(
+    new Map(
+      posts
+        .flatMap(post => [post.persona, ...(post.replies || []).map((reply: any) => reply.persona as Persona | undefined)])
+        .filter((persona): persona is NonNullable<typeof persona> => !!persona)
+        .map(persona => [persona.id, persona])
+    ).values()
+  );
+
   const postsByDay = posts.reduce((acc, post) => {
     const day = post.day_of_week;
     if (!acc[day]) acc[day] = [];
@@ -118,6 +231,49 @@ export default function CalendarPage() {
               >
                 Debug
               </button>
+              <select
+                value={exportPersona}
+                onChange={e => setExportPersona(e.target.value)}
+                className="border rounded px-2 py-2 text-sm text-gray-700"
+                title="Export every persona, or one persona's feed"
+              >
+                <option value="">All personas</option>
+                {exportPersonas.map(persona => (
+                  <option key={persona.id} value={persona.id}>{persona.name}</option>
+                ))}
+              </select>
+              <a
+                href={`/api/calendars/${calendarId}/export.ics${exportPersona ? `?persona_id=${exportPersona}` : ''}`}
+                className="bg-teal-600 text-white px-4 py-2 rounded text-sm hover:bg-teal-700"
+                title="Download for Google Calendar or Outlook"
+              >
+                Export .ics
+              </a>
+              <a
+                href={`/api/calendars/${calendarId}/export.xlsx`}
+                className="bg-emerald-600 text-white px-4 py-2 rounded text-sm hover:bg-emerald-700"
+                title="Download in the import workbook format for review in Excel"
+              >
+                Export .xlsx
+              </a>
+              {!locked && (
+                <label
+                  className="bg-amber-600 text-white px-4 py-2 rounded text-sm hover:bg-amber-700 cursor-pointer"
+                  title="Upload an edited .xlsx export to review and apply its changes"
+                >
+                  Import Edits
+                  <input
+                    type="file"
+                    accept=".xlsx,.xls"
+                    className="hidden"
+                    onChange={e => {
+                      const file = e.target.files?.[0];
+                      e.target.value = '';
+                      if (file) handleReimportPreview(file);
+                    }}
+                  />
+                </label>
+              )}
               <button
                 onClick={fetchCalendar}
                 className="bg-gray-600 text-white px-4 py-2 rounded text-sm hover:bg-gray-700"
@@ -125,7 +281,7 @@ export default function CalendarPage() {
               >
                 Refresh
               </button>
-              {(posts.length === 0 || (calendar && posts.length < calendar.posts_per_week)) && (
+              {!locked && (posts.length === 0 || (calendar && posts.length < calendar.posts_per_week)) && (
                 <button
                   onClick={handleGeneratePosts}
                   disabled={generatingPosts}
@@ -142,12 +298,27 @@ export default function CalendarPage() {
               >
                 {generatingNextWeek ? 'Generating...' : 'Generate Next Week'}
               </button>
+              {availableActions.map(action => (
+                <button
+                  key={action}
+                  onClick={() => handleTransition(action)}
+                  disabled={transitioning}
+                  className={`px-4 py-2 rounded text-sm text-white disabled:opacity-50 ${
+                    action === 'reject' ? 'bg-red-600 hover:bg-red-700' :
+                    action === 'reopen' ? 'bg-gray-600 hover:bg-gray-700' :
+                    'bg-indigo-600 hover:bg-indigo-700'
+                  }`}
+                >
+                  {WORKFLOW_LABELS[action]}
+                </button>
+              ))}
               <span className={`px-3 py-1 rounded text-sm font-medium ${
                 calendar.status === 'draft' ? 'bg-yellow-100 text-yellow-800' :
+                calendar.status === 'in_review' ? 'bg-purple-100 text-purple-800' :
                 calendar.status === 'approved' ? 'bg-blue-100 text-blue-800' :
                 'bg-green-100 text-green-800'
               }`}>
-                {calendar.status}
+                {calendar.status.replace('_', ' ')}
               </span>
             </div>
           </div>
@@ -248,6 +419,9 @@ export default function CalendarPage() {
             <p className="text-sm text-blue-800">
               <strong>Calendar Info:</strong> {calendar.posts_per_week} posts/week planned. 
               Currently showing {posts.length} post(s) across {Object.keys(postsByDay).filter(d => postsByDay[parseInt(d)].length > 0).length} day(s).
+              {calendar.seed !== null && calendar.seed !== undefined && (
+                <span className="ml-2 text-blue-600">Seed: <code>{calendar.seed}</code></span>
+              )}
             </p>
             {posts.length < calendar.posts_per_week && (
               <p className="text-sm text-yellow-800 mt-2">
@@ -258,7 +432,26 @@ export default function CalendarPage() {
           </div>
         )}
 
-        <div className="space-y-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="inline-flex rounded-lg border bg-white p-1">
+            {(['days', 'timeline'] as const).map(mode => (
+              <button
+                key={mode}
+                onClick={() => setView(mode)}
+                className={`px-3 py-1.5 text-sm rounded capitalize ${
+                  view === mode ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                {mode}
+              </button>
+            ))}
+          </div>
+          <p className="text-sm text-gray-500">Times shown in {timezone}</p>
+        </div>
+
+        {view === 'timeline' && <TimelineView posts={posts} timezone={timezone} />}
+
+        {view === 'days' && <div className="space-y-6">
           {DAYS.map((dayName, dayIndex) => {
             const dayPosts = postsByDay[dayIndex] || [];
             return (
@@ -289,6 +482,12 @@ export default function CalendarPage() {
                               <span className="px-2 py-1 bg-gray-100 text-gray-700 text-xs font-medium rounded capitalize">
                                 {post.post_type}
                               </span>
+                              {post.flair && (
+                                <span className="px-2 py-1 bg-purple-100 text-purple-800 text-xs font-medium rounded" title="Post flair">
+                                  {post.flair}
+                                </span>
+                              )}
+                              <LintBadge diagnostics={(post as any).lint} />
                             </div>
                             
                             <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-3 mb-3 text-sm">
@@ -301,8 +500,12 @@ export default function CalendarPage() {
                                 <span className="ml-2 font-medium text-gray-900">{post.persona?.name || 'Unknown'}</span>
                               </div>
                               <div>
-                                <span className="text-gray-500">Order:</span>
-                                <span className="ml-2 font-medium text-gray-900">{post.order_in_day || 1}</span>
+                                <span className="text-gray-500">{post.scheduled_at ? 'Time:' : 'Order:'}</span>
+                                <span className="ml-2 font-medium text-gray-900">
+                                  {post.scheduled_at
+                                    ? formatInTimeZone(post.scheduled_at, timezone, { hour: 'numeric', minute: '2-digit' })
+                                    : post.order_in_day || 1}
+                                </span>
                               </div>
                               <div>
                                 <span className="text-gray-500">Day:</span>
@@ -330,7 +533,7 @@ export default function CalendarPage() {
                               </div>
                             )}
                           </div>
-                          <button
+                          {!locked && <button
                             onClick={(e) => {
                               e.stopPropagation();
                               setEditingPost(post.id);
@@ -338,7 +541,7 @@ export default function CalendarPage() {
                             className="ml-4 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded hover:bg-blue-700 transition-colors flex-shrink-0"
                           >
                             Edit
-                          </button>
+                          </button>}
                         </div>
                         {post.replies && post.replies.length > 0 && (
                           <div className="mt-4 pt-4 border-t">
@@ -346,16 +549,26 @@ export default function CalendarPage() {
                               <span>💬 Planned Replies ({post.replies.length})</span>
                             </p>
                             <div className="space-y-3">
-                              {post.replies.map((reply: any) => (
-                                <div key={reply.id} className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+                              {threadOrder(post.replies as any[]).map(({ reply, depth }) => (
+                                <div
+                                  key={reply.id}
+                                  className={`p-4 bg-gray-50 rounded-lg border border-gray-200 ${depth > 0 ? 'border-l-4 border-l-gray-300' : ''}`}
+                                  style={{ marginLeft: `${depth * 1.5}rem` }}
+                                >
                                   <div className="flex items-start justify-between mb-2">
                                     <div className="flex-1">
                                       <div className="flex items-center gap-2 flex-wrap mb-2">
                                         <span className="font-medium text-gray-900">{reply.persona?.name || 'Unknown'}</span>
+                                        {reply.persona_id === post.persona_id && (
+                                          <span className="px-2 py-0.5 bg-blue-100 text-blue-800 text-xs rounded font-semibold">OP</span>
+                                        )}
                                         <span className="text-gray-400">•</span>
                                         <span className="text-sm text-gray-600 capitalize">{reply.intent} intent</span>
                                         <span className="text-gray-400">•</span>
-                                        <span className="text-sm text-gray-600">After {reply.order_after_post}h</span>
+                                        <span className="text-sm text-gray-600">
+                                          After {reply.order_after_post}h
+                                          {reply.scheduled_at && ` (${formatInTimeZone(reply.scheduled_at, timezone, { weekday: 'short', hour: 'numeric', minute: '2-digit' })})`}
+                                        </span>
                                         {reply.tone && (
                                           <span className="px-2 py-0.5 bg-green-100 text-green-800 text-xs rounded capitalize">
                                             {reply.tone} tone
@@ -366,6 +579,7 @@ export default function CalendarPage() {
                                             {reply.emotion}
                                           </span>
                                         )}
+                                        <LintBadge diagnostics={reply.lint} />
                                       </div>
                                       {reply.planned_content ? (
                                         <div className="mt-2 p-3 bg-white rounded border-l-4 border-green-500">
@@ -377,7 +591,7 @@ export default function CalendarPage() {
                                         </div>
                                       )}
                                     </div>
-                                    <button
+                                    {!locked && <button
                                       onClick={(e) => {
                                         e.stopPropagation();
                                         setEditingReply(reply.id);
@@ -385,7 +599,7 @@ export default function CalendarPage() {
                                       className="ml-3 px-3 py-1.5 bg-blue-600 text-white text-xs font-medium rounded hover:bg-blue-700 transition-colors flex-shrink-0"
                                     >
                                       Edit
-                                    </button>
+                                    </button>}
                                   </div>
                                 </div>
                               ))}
@@ -399,7 +613,26 @@ export default function CalendarPage() {
               </div>
             );
           })}
-        </div>
+        </div>}
+
+        {auditEntries.length > 0 && (
+          <div className="bg-white rounded-lg shadow p-6 mt-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Review History</h2>
+            <ul className="space-y-2 text-sm">
+              {auditEntries.slice().reverse().map(entry => (
+                <li key={entry.id} className="flex flex-wrap items-baseline gap-2 text-gray-700">
+                  <span className="text-gray-500">{new Date(entry.created_at).toLocaleString()}</span>
+                  <span className="font-medium text-gray-900">{entry.actor}</span>
+                  <span>
+                    {entry.action.replace('_', ' ')}
+                    {entry.from_status && entry.to_status && ` (${entry.from_status} → ${entry.to_status})`}
+                  </span>
+                  {entry.comment && <span className="italic text-gray-600">"{entry.comment}"</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </main>
 
       {/* Edit Post Modal */}
@@ -429,6 +662,18 @@ export default function CalendarPage() {
         />
       )}
 
+      {/* Re-import Review Modal */}
+      {reimportDiff && (
+        <ReimportModal
+          diff={reimportDiff}
+          onClose={() => {
+            setReimportDiff(null);
+            setReimportFile(null);
+          }}
+          onApply={handleReimportApply}
+        />
+      )}
+
       {/* Edit Reply Modal */}
       {editingReply && (
         <EditReplyModal
@@ -458,6 +703,37 @@ export default function CalendarPage() {
     </div>
   );
 
+  async function handleTransition(action: CalendarWorkflowAction) {
+    let comment: string | undefined;
+    if (action === 'reject') {
+      const input = window.prompt('Why is this calendar being rejected?');
+      if (!input) return;
+      comment = input;
+    }
+
+    setTransitioning(true);
+    try {
+      const res = await fetch(`/api/calendars/${calendarId}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ comment }),
+      });
+
+      const data = await res.json();
+      if (res.ok) {
+        await fetchCalendar();
+      } else {
+        const blocking = (data.warnings || []).map((w: any) => `- ${w.message}`).join('\n');
+        alert(`${data.error || `Failed to ${action} calendar`}${blocking ? `\n\n${blocking}` : ''}`);
+      }
+    } catch (error) {
+      console.error(`Error running ${action}:`, error);
+      alert(`Failed to ${action} calendar`);
+    } finally {
+      setTransitioning(false);
+    }
+  }
+
   async function handleGenerateNextWeek() {
     setGeneratingNextWeek(true);
     try {
@@ -516,13 +792,170 @@ export default function CalendarPage() {
 }
 
 // Edit Post Modal Component
+// Lint problems in a post or reply; hover for the list
+function LintBadge({ diagnostics }: { diagnostics?: LintDiagnostic[] }) {
+  if (!diagnostics || diagnostics.length === 0) return null;
+  const errors = diagnostics.filter(d => d.severity === 'error').length;
+  const warnings = diagnostics.length - errors;
+  return (
+    <span
+      className={`px-2 py-0.5 text-xs font-medium rounded ${errors > 0 ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'}`}
+      title={diagnostics.map(d => `${d.severity === 'error' ? '✗' : '!'} ${d.message}`).join('\n')}
+    >
+      {[errors > 0 && `${errors} error${errors === 1 ? '' : 's'}`, warnings > 0 && `${warnings} warning${warnings === 1 ? '' : 's'}`].filter(Boolean).join(', ')}
+    </span>
+  );
+}
+
+// Lint results for one field of the edit form
+function FieldLint({ diagnostics, field }: { diagnostics: LintDiagnostic[]; field: LintDiagnostic['field'] }) {
+  const forField = diagnostics.filter(d => d.field === field);
+  if (forField.length === 0) return null;
+  return (
+    <ul className="mt-1 space-y-0.5">
+      {forField.map((d, i) => (
+        <li key={i} className={`text-xs ${d.severity === 'error' ? 'text-red-700' : 'text-yellow-700'}`}>
+          {d.severity === 'error' ? '✗' : '!'} {d.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Lints unsaved edits as the user types (debounced), starting from the diagnostics the calendar
+ * loaded with
+ */
+function useLiveLint(url: string | null, fields: Record<string, unknown>, initial?: LintDiagnostic[]): LintDiagnostic[] {
+  const [diagnostics, setDiagnostics] = useState<LintDiagnostic[]>(initial || []);
+  const body = JSON.stringify(fields);
+
+  useEffect(() => {
+    if (!url) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+        const data = await res.json();
+        if (res.ok && !cancelled) setDiagnostics(data.diagnostics || []);
+      } catch {
+        // Keep the last diagnostics; saving still works
+      }
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [url, body]);
+
+  return diagnostics;
+}
+
+/**
+ * Every post and reply on one time axis, grouped by local day
+ */
+function TimelineView({ posts, timezone }: { posts: CalendarPostWithDetails[]; timezone: string }) {
+  type TimelineEvent = {
+    id: string;
+    at: string | null | undefined;
+    kind: 'post' | 'reply' | 'op';
+    persona?: string;
+    subreddit?: string;
+    text: string;
+  };
+
+  const events: TimelineEvent[] = posts.flatMap(post => [
+    {
+      id: post.id,
+      at: post.scheduled_at,
+      kind: 'post' as const,
+      persona: post.persona?.name,
+      subreddit: post.subreddit?.name,
+      text: post.planned_title || post.topic,
+    },
+    ...(post.replies || []).map((reply: any) => ({
+      id: reply.id,
+      at: reply.scheduled_at,
+      kind: reply.persona_id === post.persona_id ? 'op' as const : 'reply' as const,
+      persona: reply.persona?.name,
+      subreddit: post.subreddit?.name,
+      text: reply.planned_content || '',
+    })),
+  ]);
+
+  const scheduled = events
+    .filter(e => e.at)
+    .sort((a, b) => new Date(a.at!).getTime() - new Date(b.at!).getTime());
+  const unscheduled = events.filter(e => !e.at);
+
+  const days = new Map<string, TimelineEvent[]>();
+  scheduled.forEach(event => {
+    const day = formatInTimeZone(event.at!, timezone, { weekday: 'long', month: 'short', day: 'numeric' });
+    days.set(day, [...(days.get(day) || []), event]);
+  });
+
+  const badge = {
+    post: 'bg-blue-100 text-blue-800',
+    reply: 'bg-green-100 text-green-800',
+    op: 'bg-purple-100 text-purple-800',
+  };
+  const label = { post: 'Post', reply: 'Reply', op: 'OP reply' };
+
+  const renderEvent = (event: TimelineEvent) => (
+    <li key={event.id} className="flex gap-4 py-2">
+      <span className="w-20 flex-shrink-0 text-sm font-mono text-gray-600">
+        {event.at ? formatInTimeZone(event.at, timezone, { hour: '2-digit', minute: '2-digit', hour12: false }) : '--:--'}
+      </span>
+      <div className="flex-1 border-l-2 border-gray-200 pl-4">
+        <div className="flex items-center gap-2 flex-wrap text-sm">
+          <span className={`px-2 py-0.5 rounded text-xs font-medium ${badge[event.kind]}`}>{label[event.kind]}</span>
+          <span className="font-medium text-gray-900">{event.persona || 'Unknown'}</span>
+          {event.subreddit && <span className="text-gray-500">in r/{event.subreddit}</span>}
+        </div>
+        <p className="text-sm text-gray-700 mt-1 line-clamp-2">{event.text}</p>
+      </div>
+    </li>
+  );
+
+  return (
+    <div className="space-y-6">
+      {Array.from(days.entries()).map(([day, dayEvents]) => (
+        <div key={day} className="bg-white rounded-lg shadow">
+          <div className="p-4 border-b bg-gray-50">
+            <h2 className="text-lg font-semibold text-gray-900">{day}</h2>
+            <p className="text-sm text-gray-500">{dayEvents.length} item(s)</p>
+          </div>
+          <ul className="p-4 divide-y">{dayEvents.map(renderEvent)}</ul>
+        </div>
+      ))}
+      {unscheduled.length > 0 && (
+        <div className="bg-white rounded-lg shadow">
+          <div className="p-4 border-b bg-gray-50">
+            <h2 className="text-lg font-semibold text-gray-900">Unscheduled</h2>
+            <p className="text-sm text-gray-500">Planned before scheduled times existed - regenerate to schedule them</p>
+          </div>
+          <ul className="p-4 divide-y">{unscheduled.map(renderEvent)}</ul>
+        </div>
+      )}
+      {events.length === 0 && <p className="text-gray-500 text-sm">No posts yet</p>}
+    </div>
+  );
+}
+
 function EditPostModal({ post, onClose, onSave }: { post: any; onClose: () => void; onSave: (updates: any) => Promise<void> }) {
   const [topic, setTopic] = useState(post?.topic || '');
   const [plannedTitle, setPlannedTitle] = useState(post?.planned_title || '');
   const [plannedBody, setPlannedBody] = useState(post?.planned_body || '');
   const [postType, setPostType] = useState(post?.post_type || 'question');
   const [postingStrategy, setPostingStrategy] = useState((post as any)?.posting_strategy || '');
+  const [flair, setFlair] = useState(post?.flair || '');
   const [saving, setSaving] = useState(false);
+  const flairOptions: string[] = post?.subreddit?.rule_set?.required_flair || [];
+  const diagnostics = useLiveLint(
+    post ? `/api/posts/${post.id}/lint` : null,
+    { planned_title: plannedTitle, planned_body: plannedBody, post_type: postType, posting_strategy: postingStrategy || null, flair: flair.trim() || null },
+    post?.lint
+  );
 
   if (!post) return null;
 
@@ -535,6 +968,7 @@ function EditPostModal({ post, onClose, onSave }: { post: any; onClose: () => vo
         planned_body: plannedBody,
         post_type: postType,
         posting_strategy: postingStrategy,
+        flair: flair.trim() || null,
       });
     } finally {
       setSaving(false);
@@ -589,6 +1023,23 @@ function EditPostModal({ post, onClose, onSave }: { post: any; onClose: () => vo
               <option value="engagement">Engagement</option>
             </select>
           </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Flair{flairOptions.length > 0 && <span className="text-gray-500 font-normal"> (required: {flairOptions.join(', ')})</span>}
+            </label>
+            <input
+              type="text"
+              value={flair}
+              onChange={(e) => setFlair(e.target.value)}
+              list="flair-options"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="No flair"
+            />
+            <datalist id="flair-options">
+              {flairOptions.map(option => <option key={option} value={option} />)}
+            </datalist>
+            <FieldLint diagnostics={diagnostics} field="flair" />
+          </div>
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">Planned Title</label>
             <input
@@ -598,6 +1049,7 @@ function EditPostModal({ post, onClose, onSave }: { post: any; onClose: () => vo
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               placeholder="Enter the Reddit post title..."
             />
+            <FieldLint diagnostics={diagnostics} field="planned_title" />
           </div>
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">Planned Body</label>
@@ -608,6 +1060,7 @@ function EditPostModal({ post, onClose, onSave }: { post: any; onClose: () => vo
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               placeholder="Enter the Reddit post body content..."
             />
+            <FieldLint diagnostics={diagnostics} field="planned_body" />
           </div>
         </div>
         <div className="p-6 border-t flex justify-end gap-3">
@@ -638,6 +1091,7 @@ function EditReplyModal({ reply, onClose, onSave }: { reply: any; onClose: () =>
   const [tone, setTone] = useState(reply?.tone || '');
   const [emotion, setEmotion] = useState(reply?.emotion || '');
   const [saving, setSaving] = useState(false);
+  const diagnostics = useLiveLint(reply ? `/api/replies/${reply.id}/lint` : null, { planned_content: plannedContent }, reply?.lint);
 
   if (!reply) return null;
 
@@ -722,6 +1176,7 @@ function EditReplyModal({ reply, onClose, onSave }: { reply: any; onClose: () =>
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               placeholder="Enter the reply content..."
             />
+            <FieldLint diagnostics={diagnostics} field="planned_content" />
           </div>
         </div>
         <div className="p-6 border-t flex justify-end gap-3">
@@ -744,3 +1199,101 @@ function EditReplyModal({ reply, onClose, onSave }: { reply: any; onClose: () =>
   );
 }
 
+const CHANGE_KIND_LABELS: Record<string, string> = {
+  post_added: 'New post',
+  post_updated: 'Post edited',
+  post_deleted: 'Post removed',
+  reply_added: 'New reply',
+  reply_updated: 'Reply edited',
+  reply_deleted: 'Reply removed',
+};
+
+function ReimportModal({ diff, onClose, onApply }: { diff: any; onClose: () => void; onApply: (accepted: string[]) => Promise<void> }) {
+  const [accepted, setAccepted] = useState<Set<string>>(new Set(diff.changes.map((c: any) => c.id)));
+  const [applying, setApplying] = useState(false);
+
+  const toggle = (id: string) => {
+    const next = new Set(accepted);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setAccepted(next);
+  };
+
+  const handleApply = async () => {
+    setApplying(true);
+    try {
+      await onApply(Array.from(accepted));
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b">
+          <h2 className="text-xl font-bold text-gray-900">Review Workbook Changes</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            {diff.changes.length} changes found. Untick any you don't want to apply.
+          </p>
+        </div>
+        <div className="p-6 space-y-3">
+          {diff.warnings.length > 0 && (
+            <div className="bg-yellow-50 border-l-4 border-yellow-400 p-3 text-sm text-yellow-800">
+              {diff.warnings.map((warning: string, i: number) => (
+                <p key={i}>{warning}</p>
+              ))}
+            </div>
+          )}
+          {diff.changes.map((change: any) => (
+            <label key={change.id} className="flex gap-3 p-3 border rounded hover:bg-gray-50 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={accepted.has(change.id)}
+                onChange={() => toggle(change.id)}
+                className="mt-1"
+              />
+              <div className="flex-1 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className={`px-2 py-0.5 rounded text-xs font-medium ${
+                    change.kind.endsWith('_added') ? 'bg-green-100 text-green-800' :
+                    change.kind.endsWith('_deleted') ? 'bg-red-100 text-red-800' :
+                    'bg-blue-100 text-blue-800'
+                  }`}>
+                    {CHANGE_KIND_LABELS[change.kind] || change.kind}
+                  </span>
+                  <span className="text-gray-900">{change.summary}</span>
+                </div>
+                {change.fields.map((field: any) => (
+                  <div key={field.field} className="mt-1 text-xs text-gray-600">
+                    <span className="font-medium">{field.field}:</span>{' '}
+                    <span className="line-through text-red-600">{field.before || '(empty)'}</span>{' '}
+                    → <span className="text-green-700">{field.after || '(empty)'}</span>
+                  </div>
+                ))}
+                {change.depends_on && (
+                  <p className="mt-1 text-xs text-gray-500">Needs: {change.depends_on.join(', ')}</p>
+                )}
+              </div>
+            </label>
+          ))}
+        </div>
+        <div className="p-6 border-t flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={applying || accepted.size === 0}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {applying ? 'Applying...' : `Apply ${accepted.size} Changes`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
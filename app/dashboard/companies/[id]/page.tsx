@@ -3,7 +3,87 @@
 import { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
-import type { Company, Persona, Subreddit, SEOQuery } from '@/types';
+import type { BrandBudget, Company, Persona, Subreddit, SubredditRules, SEOQuery, WordingPattern } from '@/types';
+import { resolveSubredditRules, summarizeSubredditRules } from '@/lib/planning/subreddit-rules';
+import { summarizeBrandBudget } from '@/lib/planning/brand';
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const POST_TYPES = ['question', 'story', 'advice'];
+
+// Subreddit rules as edited in the form: lists as comma-separated text, the self-promo ratio as a percentage
+interface RulesForm {
+  allowed_post_types: string[];
+  required_flair: string;
+  title_prefix: string;
+  title_contains: string;
+  min_account_age_days: string;
+  min_karma: string;
+  link_policy: string;
+  max_self_promo_percent: string;
+  banned_keywords: string;
+  posting_days: number[];
+  max_brand_mentions: string;
+  requires_disclosure: boolean;
+}
+
+// Brand budget as edited in the form: limits as text so empty means no limit
+interface BrandBudgetForm {
+  max_per_week: string;
+  max_per_subreddit: string;
+  max_per_persona: string;
+  product_names: string;
+}
+
+function rulesToForm(rules: SubredditRules): RulesForm {
+  return {
+    allowed_post_types: rules.allowed_post_types || [],
+    required_flair: (rules.required_flair || []).join(', '),
+    title_prefix: rules.title_prefix || '',
+    title_contains: rules.title_contains || '',
+    min_account_age_days: rules.min_account_age_days ? String(rules.min_account_age_days) : '',
+    min_karma: rules.min_karma ? String(rules.min_karma) : '',
+    link_policy: rules.link_policy || 'allowed',
+    max_self_promo_percent:
+      rules.max_self_promo_ratio === undefined || rules.max_self_promo_ratio === null ? '' : String(Math.round(rules.max_self_promo_ratio * 100)),
+    banned_keywords: (rules.banned_keywords || []).join(', '),
+    posting_days: rules.posting_days || [],
+    max_brand_mentions:
+      rules.max_brand_mentions === undefined || rules.max_brand_mentions === null ? '' : String(rules.max_brand_mentions),
+    requires_disclosure: !!rules.requires_disclosure,
+  };
+}
+
+function formToRules(form: RulesForm): Record<string, unknown> {
+  const list = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+  return {
+    allowed_post_types: form.allowed_post_types,
+    required_flair: list(form.required_flair),
+    title_prefix: form.title_prefix,
+    title_contains: form.title_contains,
+    min_account_age_days: form.min_account_age_days,
+    min_karma: form.min_karma,
+    link_policy: form.link_policy,
+    max_self_promo_ratio: form.max_self_promo_percent === '' ? null : Number(form.max_self_promo_percent) / 100,
+    banned_keywords: list(form.banned_keywords),
+    posting_days: form.posting_days,
+    max_brand_mentions: form.max_brand_mentions,
+    requires_disclosure: form.requires_disclosure,
+  };
+}
+
+function budgetToForm(budget: BrandBudget | null | undefined): BrandBudgetForm {
+  const limit = (value: number | null | undefined) => (value === undefined || value === null ? '' : String(value));
+  return {
+    max_per_week: limit(budget?.max_per_week),
+    max_per_subreddit: limit(budget?.max_per_subreddit),
+    max_per_persona: limit(budget?.max_per_persona),
+    product_names: (budget?.product_names || []).join(', '),
+  };
+}
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+}
 
 export default function CompanyPage() {
   const params = useParams();
@@ -14,8 +94,16 @@ export default function CompanyPage() {
   const [personas, setPersonas] = useState<Persona[]>([]);
   const [subreddits, setSubreddits] = useState<Subreddit[]>([]);
   const [seoQueries, setSeoQueries] = useState<SEOQuery[]>([]);
+  const [wordingPatterns, setWordingPatterns] = useState<WordingPattern[]>([]);
+  const [overusedThreshold, setOverusedThreshold] = useState(3);
   const [loading, setLoading] = useState(true);
   const [generating, setGenerating] = useState(false);
+  // Structured rules being edited, one subreddit at a time
+  const [rulesSubredditId, setRulesSubredditId] = useState<string | null>(null);
+  const [rulesForm, setRulesForm] = useState<RulesForm | null>(null);
+  const [savingRules, setSavingRules] = useState(false);
+  const [budgetForm, setBudgetForm] = useState<BrandBudgetForm | null>(null);
+  const [savingBudget, setSavingBudget] = useState(false);
 
   useEffect(() => {
     if (companyId) {
@@ -25,19 +113,23 @@ export default function CompanyPage() {
 
   const fetchData = async () => {
     try {
-      const [companyRes, personasRes, subredditsRes] = await Promise.all([
+      const [companyRes, personasRes, subredditsRes, patternsRes] = await Promise.all([
         fetch(`/api/companies/${companyId}`),
         fetch(`/api/personas?company_id=${companyId}`),
         fetch(`/api/subreddits?company_id=${companyId}`),
+        fetch(`/api/companies/${companyId}/wording-patterns?limit=10`),
       ]);
 
       const companyData = await companyRes.json();
       const personasData = await personasRes.json();
       const subredditsData = await subredditsRes.json();
+      const patternsData = await patternsRes.json();
 
       setCompany(companyData.company);
       setPersonas(personasData.personas || []);
       setSubreddits(subredditsData.subreddits || []);
+      setWordingPatterns((patternsData.patterns || []).filter((p: WordingPattern) => p.usage_count > 1));
+      if (patternsData.overused_threshold) setOverusedThreshold(patternsData.overused_threshold);
     } catch (error) {
       console.error('Failed to fetch data:', error);
     } finally {
@@ -45,6 +137,51 @@ export default function CompanyPage() {
     }
   };
 
+  const handleSaveRules = async (subredditId: string) => {
+    if (!rulesForm) return;
+    setSavingRules(true);
+    try {
+      const response = await fetch(`/api/subreddits/${subredditId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rule_set: formToRules(rulesForm) }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save subreddit rules');
+      setSubreddits(current => current.map(s => (s.id === subredditId ? data.subreddit : s)));
+      setRulesSubredditId(null);
+    } catch (error: any) {
+      alert(error.message);
+    } finally {
+      setSavingRules(false);
+    }
+  };
+
+  const handleSaveBudget = async () => {
+    if (!budgetForm) return;
+    setSavingBudget(true);
+    try {
+      const response = await fetch(`/api/companies/${companyId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          brand_budget: {
+            ...budgetForm,
+            product_names: budgetForm.product_names.split(',').map(name => name.trim()).filter(Boolean),
+          },
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save brand budget');
+      setCompany(data.company);
+      setBudgetForm(null);
+    } catch (error: any) {
+      alert(error.message);
+    } finally {
+      setSavingBudget(false);
+    }
+  };
+
   const handleGenerateCalendar = async () => {
     if (!company) return;
 
@@ -109,13 +246,22 @@ export default function CompanyPage() {
               </Link>
               <h1 className="text-2xl font-bold text-gray-900">{company.name}</h1>
             </div>
-            <button
-              onClick={handleGenerateCalendar}
-              disabled={generating || personas.length === 0 || subreddits.length === 0}
-              className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
-            >
-              {generating ? 'Generating...' : 'Generate Calendar'}
-            </button>
+            <div className="flex items-center gap-3">
+              <a
+                href={`/api/companies/${companyId}/export`}
+                className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700"
+                title="Company, personas, subreddits and SEO queries as JSON, re-importable from the Import page"
+              >
+                Export JSON
+              </a>
+              <button
+                onClick={handleGenerateCalendar}
+                disabled={generating || personas.length === 0 || subreddits.length === 0}
+                className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+              >
+                {generating ? 'Generating...' : 'Generate Calendar'}
+              </button>
+            </div>
           </div>
         </div>
       </header>
@@ -147,6 +293,63 @@ export default function CompanyPage() {
                   ))}
                 </ul>
               </div>
+              <div>
+                <p className="text-sm text-gray-500">Brand Mentions</p>
+                {budgetForm ? (
+                  <div className="mt-1 space-y-2 text-xs">
+                    <div className="grid grid-cols-3 gap-2">
+                      {([
+                        ['max_per_week', 'Per week'],
+                        ['max_per_subreddit', 'Per subreddit'],
+                        ['max_per_persona', 'Per persona'],
+                      ] as const).map(([field, label]) => (
+                        <label key={field} className="text-gray-600">
+                          {label}
+                          <input
+                            type="number"
+                            min={0}
+                            value={budgetForm[field]}
+                            onChange={(e) => setBudgetForm({ ...budgetForm, [field]: e.target.value })}
+                            placeholder="No limit"
+                            className="w-full border border-gray-300 rounded px-2 py-1"
+                          />
+                        </label>
+                      ))}
+                    </div>
+                    <input
+                      value={budgetForm.product_names}
+                      onChange={(e) => setBudgetForm({ ...budgetForm, product_names: e.target.value })}
+                      placeholder="Product names that also count, comma-separated"
+                      className="w-full border border-gray-300 rounded px-2 py-1"
+                    />
+                    <div className="flex gap-2">
+                      <button
+                        onClick={handleSaveBudget}
+                        disabled={savingBudget}
+                        className="px-3 py-1 bg-blue-600 text-white text-xs font-medium rounded hover:bg-blue-700 disabled:bg-gray-400"
+                      >
+                        {savingBudget ? 'Saving...' : 'Save Budget'}
+                      </button>
+                      <button
+                        onClick={() => setBudgetForm(null)}
+                        className="px-3 py-1 text-gray-600 text-xs font-medium rounded hover:bg-gray-100"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-900 mt-1">
+                    {summarizeBrandBudget(company.brand_budget).join(' • ') || 'No limits'}
+                    <button
+                      onClick={() => setBudgetForm(budgetToForm(company.brand_budget))}
+                      className="ml-2 text-xs text-blue-600 hover:text-blue-700 underline"
+                    >
+                      Edit
+                    </button>
+                  </p>
+                )}
+              </div>
             </div>
           </div>
 
@@ -173,19 +376,213 @@ export default function CompanyPage() {
               <p className="text-gray-500 text-sm">No subreddits configured</p>
             ) : (
               <ul className="space-y-3">
-                {subreddits.map((subreddit) => (
-                  <li key={subreddit.id} className="border-b pb-3 last:border-0">
-                    <p className="font-medium text-gray-900">{subreddit.name}</p>
-                    <p className="text-sm text-gray-500">
-                      {subreddit.size_category} • {subreddit.max_posts_per_week} posts/week
-                    </p>
-                  </li>
-                ))}
+                {subreddits.map((subreddit) => {
+                  const ruleSummary = summarizeSubredditRules(resolveSubredditRules(subreddit));
+                  return (
+                    <li key={subreddit.id} className="border-b pb-3 last:border-0">
+                      <p className="font-medium text-gray-900">{subreddit.name}</p>
+                      <p className="text-sm text-gray-500">
+                        {subreddit.size_category} • {subreddit.max_posts_per_week} posts/week
+                      </p>
+                      {ruleSummary.length > 0 && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          Rules{subreddit.rule_set ? '' : ' (read from the description)'}: {ruleSummary.join(' • ')}
+                        </p>
+                      )}
+                      {rulesSubredditId === subreddit.id && rulesForm ? (
+                        <div className="mt-2 space-y-2 text-xs">
+                          <div>
+                            <span className="text-gray-600">Post types (none ticked = any):</span>
+                            {POST_TYPES.map(type => (
+                              <label key={type} className="ml-2 capitalize">
+                                <input
+                                  type="checkbox"
+                                  checked={rulesForm.allowed_post_types.includes(type)}
+                                  onChange={() => setRulesForm({ ...rulesForm, allowed_post_types: toggle(rulesForm.allowed_post_types, type) })}
+                                  className="mr-1"
+                                />
+                                {type}
+                              </label>
+                            ))}
+                          </div>
+                          <div>
+                            <span className="text-gray-600">Posting days (none ticked = any):</span>
+                            {DAY_LABELS.map((day, i) => (
+                              <label key={day} className="ml-2">
+                                <input
+                                  type="checkbox"
+                                  checked={rulesForm.posting_days.includes(i)}
+                                  onChange={() => setRulesForm({ ...rulesForm, posting_days: toggle(rulesForm.posting_days, i) })}
+                                  className="mr-1"
+                                />
+                                {day}
+                              </label>
+                            ))}
+                          </div>
+                          <input
+                            value={rulesForm.required_flair}
+                            onChange={(e) => setRulesForm({ ...rulesForm, required_flair: e.target.value })}
+                            placeholder="Required flair, comma-separated (e.g. Question, Discussion)"
+                            className="w-full border border-gray-300 rounded px-2 py-1"
+                          />
+                          <div className="grid grid-cols-2 gap-2">
+                            <input
+                              value={rulesForm.title_prefix}
+                              onChange={(e) => setRulesForm({ ...rulesForm, title_prefix: e.target.value })}
+                              placeholder="Titles start with (e.g. [Question])"
+                              className="w-full border border-gray-300 rounded px-2 py-1"
+                            />
+                            <input
+                              value={rulesForm.title_contains}
+                              onChange={(e) => setRulesForm({ ...rulesForm, title_contains: e.target.value })}
+                              placeholder="Titles contain (e.g. ?)"
+                              className="w-full border border-gray-300 rounded px-2 py-1"
+                            />
+                          </div>
+                          <input
+                            value={rulesForm.banned_keywords}
+                            onChange={(e) => setRulesForm({ ...rulesForm, banned_keywords: e.target.value })}
+                            placeholder="Banned keywords, comma-separated"
+                            className="w-full border border-gray-300 rounded px-2 py-1"
+                          />
+                          <div className="grid grid-cols-2 gap-2">
+                            <label className="text-gray-600">
+                              Links
+                              <select
+                                value={rulesForm.link_policy}
+                                onChange={(e) => setRulesForm({ ...rulesForm, link_policy: e.target.value })}
+                                className="w-full border border-gray-300 rounded px-2 py-1"
+                              >
+                                <option value="allowed">Allowed</option>
+                                <option value="no_post_links">Comments only</option>
+                                <option value="no_links">Not allowed</option>
+                              </select>
+                            </label>
+                            <label className="text-gray-600">
+                              Max self-promotion (% of posts)
+                              <input
+                                type="number"
+                                min={0}
+                                max={100}
+                                value={rulesForm.max_self_promo_percent}
+                                onChange={(e) => setRulesForm({ ...rulesForm, max_self_promo_percent: e.target.value })}
+                                placeholder="No limit"
+                                className="w-full border border-gray-300 rounded px-2 py-1"
+                              />
+                            </label>
+                            <label className="text-gray-600">
+                              Min account age (days)
+                              <input
+                                type="number"
+                                min={0}
+                                value={rulesForm.min_account_age_days}
+                                onChange={(e) => setRulesForm({ ...rulesForm, min_account_age_days: e.target.value })}
+                                className="w-full border border-gray-300 rounded px-2 py-1"
+                              />
+                            </label>
+                            <label className="text-gray-600">
+                              Min karma
+                              <input
+                                type="number"
+                                min={0}
+                                value={rulesForm.min_karma}
+                                onChange={(e) => setRulesForm({ ...rulesForm, min_karma: e.target.value })}
+                                className="w-full border border-gray-300 rounded px-2 py-1"
+                              />
+                            </label>
+                            <label className="text-gray-600">
+                              Max brand mentions / week
+                              <input
+                                type="number"
+                                min={0}
+                                value={rulesForm.max_brand_mentions}
+                                onChange={(e) => setRulesForm({ ...rulesForm, max_brand_mentions: e.target.value })}
+                                placeholder="Company budget"
+                                className="w-full border border-gray-300 rounded px-2 py-1"
+                              />
+                            </label>
+                            <label className="text-gray-600 flex items-end gap-1 pb-1">
+                              <input
+                                type="checkbox"
+                                checked={rulesForm.requires_disclosure}
+                                onChange={(e) => setRulesForm({ ...rulesForm, requires_disclosure: e.target.checked })}
+                              />
+                              Brand mentions need disclosure
+                            </label>
+                          </div>
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => handleSaveRules(subreddit.id)}
+                              disabled={savingRules}
+                              className="px-3 py-1 bg-blue-600 text-white text-xs font-medium rounded hover:bg-blue-700 disabled:bg-gray-400"
+                            >
+                              {savingRules ? 'Saving...' : 'Save Rules'}
+                            </button>
+                            <button
+                              onClick={() => setRulesSubredditId(null)}
+                              className="px-3 py-1 text-gray-600 text-xs font-medium rounded hover:bg-gray-100"
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        </div>
+                      ) : (
+                        <button
+                          onClick={() => {
+                            setRulesSubredditId(subreddit.id);
+                            setRulesForm(rulesToForm(resolveSubredditRules(subreddit)));
+                          }}
+                          className="mt-1 text-xs text-blue-600 hover:text-blue-700 underline"
+                        >
+                          Edit rules
+                        </button>
+                      )}
+                    </li>
+                  );
+                })}
               </ul>
             )}
           </div>
         </div>
 
+        <div className="bg-white rounded-lg shadow p-6 mb-8">
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">Most Overused Phrases</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            Phrases repeated across generated titles, bodies and replies. Reusing them again is flagged by the spam check.
+          </p>
+          {wordingPatterns.length === 0 ? (
+            <p className="text-gray-500 text-sm">No repeated phrases yet</p>
+          ) : (
+            <ul className="divide-y">
+              {wordingPatterns.map((pattern) => {
+                const usedBy = pattern.persona_ids
+                  .map(id => personas.find(p => p.id === id)?.name)
+                  .filter(Boolean);
+                return (
+                  <li key={pattern.id} className="py-2 flex items-center justify-between gap-4">
+                    <div>
+                      <p className="font-medium text-gray-900">&ldquo;{pattern.pattern}&rdquo;</p>
+                      <p className="text-xs text-gray-500">
+                        {usedBy.length > 0 ? `Used by ${usedBy.join(', ')}` : 'Persona unknown'}
+                        {pattern.last_used_date && ` • last ${pattern.last_used_date}`}
+                      </p>
+                    </div>
+                    <span
+                      className={`px-2 py-1 rounded text-sm ${
+                        pattern.usage_count >= overusedThreshold
+                          ? 'bg-red-100 text-red-800'
+                          : 'bg-gray-100 text-gray-700'
+                      }`}
+                    >
+                      {pattern.usage_count}×
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
         {(personas.length === 0 || subreddits.length === 0) && (
           <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
             <p className="text-yellow-800 text-sm">
@@ -134,6 +134,7 @@ export default function Dashboard() {
                           </div>
                           <span className={`px-2 py-1 text-xs rounded ${
                             calendar.status === 'draft' ? 'bg-yellow-100 text-yellow-800' :
+                            calendar.status === 'in_review' ? 'bg-purple-100 text-purple-800' :
                             calendar.status === 'approved' ? 'bg-blue-100 text-blue-800' :
                             'bg-green-100 text-green-800'
                           }`}>
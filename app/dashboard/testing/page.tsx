@@ -154,6 +154,24 @@ export default function TestingDashboard() {
         });
       }
 
+      // Test 8: Post drafting
+      try {
+        const res = await fetch(`/api/testing/post-drafting?company_id=${selectedCompany}`);
+        const data = await res.json();
+        results.push({
+          testName: 'Post Drafting Validation',
+          passed: data.success,
+          message: data.message,
+          details: data.details,
+        });
+      } catch (error: any) {
+        results.push({
+          testName: 'Post Drafting Validation',
+          passed: false,
+          message: error.message,
+        });
+      }
+
       setTestResults(results);
     } catch (error) {
       console.error('Test execution error:', error);
@@ -1,35 +1,155 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import type { ColumnMapping, EntityMapping } from '@/lib/utils/import-engine';
+import type { ImportEntity } from '@/lib/utils/import-schema';
+import type { ImportValidationReport } from '@/lib/utils/import-validation';
+
+const PRESETS = [
+  { value: '', label: "Company's saved mapping (or SlideForge layout)" },
+  { value: 'unified', label: 'SlideForge layout' },
+  { value: 'company_sheets', label: 'Company Info / Personas / Subreddits sheets' },
+  { value: 'calendar_sheets', label: 'Posts / Comments sheets' },
+];
 
 export default function ImportPage() {
-  const [file, setFile] = useState<File | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<{ type: 'success' | 'error' | 'loading'; message: string } | null>(null);
+  const [report, setReport] = useState<ImportValidationReport | null>(null);
+  const [companies, setCompanies] = useState<Array<{ id: string; name: string }>>([]);
+  const [companyId, setCompanyId] = useState('');
+  const [preset, setPreset] = useState('');
+  // The mapping the last check used; sent back (and saved on the company) once the user edits it
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [mappingEdited, setMappingEdited] = useState(false);
+  const [fields, setFields] = useState<Record<string, string[]>>({});
+  const [workbook, setWorkbook] = useState<{ sheets: Array<{ name: string; labels: string[] }> } | null>(null);
+
+  useEffect(() => {
+    fetch('/api/companies')
+      .then(res => res.json())
+      .then(data => setCompanies(data.companies || []))
+      .catch(() => setCompanies([]));
+  }, []);
+
+  // Excel goes to the workbook importer; JSON and CSV (one file per entity) to the bundle importer
+  const isExcel = files.some(f => /\.xlsx?$/i.test(f.name));
+
+  const resetCheck = () => {
+    setReport(null);
+    setResult(null);
+  };
+
+  // Blank sheets drop the entity and blank headers drop the field, so the editor can switch things off
+  const cleanMapping = (value: ColumnMapping): ColumnMapping =>
+    Object.fromEntries(
+      Object.entries(value)
+        .filter(([, entity]) => entity?.sheet.trim())
+        .map(([key, entity]) => [
+          key,
+          { ...entity!, columns: Object.fromEntries(Object.entries(entity!.columns).filter(([, header]) => header.trim())) },
+        ])
+    );
+
+  const updateEntity = (entity: ImportEntity, update: (current: EntityMapping) => EntityMapping) => {
+    setMapping(current => ({
+      ...current,
+      [entity]: update(current?.[entity] || { sheet: '', columns: {} }),
+    }));
+    setMappingEdited(true);
+    setReport(null);
+  };
+
+  const postFiles = (validateOnly: boolean) => {
+    const formData = new FormData();
+    files.forEach(f => formData.append('file', f));
+    if (companyId) formData.append('company_id', companyId);
+    if (isExcel && mappingEdited && mapping) formData.append('mapping', JSON.stringify(cleanMapping(mapping)));
+    else if (isExcel && preset) formData.append('preset', preset);
+    if (validateOnly) formData.append('validate_only', 'true');
+    return fetch(isExcel ? '/api/import/unified' : '/api/import/bundle', {
+      method: 'POST',
+      body: formData,
+    });
+  };
+
+  // Saves the edited mapping on the selected company without importing
+  const handleSaveMapping = async () => {
+    if (!companyId || !mapping) return;
+    try {
+      const response = await fetch(`/api/companies/${companyId}/import-mapping`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mapping: cleanMapping(mapping) }),
+      });
+      const data = await response.json();
+      setResult(response.ok
+        ? { type: 'success', message: '✅ Column mapping saved for this company' }
+        : { type: 'error', message: `❌ ${data.error}` });
+    } catch (error: any) {
+      setResult({ type: 'error', message: `❌ Error: ${error.message}` });
+    }
+  };
 
+  // Step 1: check the file and show the report; nothing is written until the user confirms
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!file) {
+    if (files.length === 0) {
       setResult({ type: 'error', message: 'Please select a file' });
       return;
     }
 
+    if (isExcel && files.length > 1) {
+      setResult({ type: 'error', message: 'Select a single Excel file, or JSON/CSV files' });
+      return;
+    }
+
     setLoading(true);
-    setResult({ type: 'loading', message: 'Uploading and importing file...' });
+    setReport(null);
+    setResult({ type: 'loading', message: 'Checking file...' });
 
     try {
-      const formData = new FormData();
-      formData.append('file', file);
+      const response = await postFiles(true);
+      const data = await response.json();
 
-      const response = await fetch('/api/import/unified', {
-        method: 'POST',
-        body: formData,
+      if (response.ok) {
+        setReport(data.report);
+        if (data.mapping) {
+          setMapping(data.mapping);
+          setFields(data.fields || {});
+          setWorkbook(data.workbook || null);
+        }
+        setResult(null);
+      } else {
+        setResult({
+          type: 'error',
+          message: `❌ Validation Failed: ${data.error}${data.details ? '\n' + data.details : ''}`,
+        });
+      }
+    } catch (error: any) {
+      setResult({
+        type: 'error',
+        message: `❌ Error: ${error.message}\nMake sure the server is running.`,
       });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Step 2: write the import
+  const handleConfirm = async () => {
+    setLoading(true);
+    setResult({ type: 'loading', message: 'Uploading and importing file...' });
+
+    try {
+      const response = await postFiles(false);
 
       const data = await response.json();
 
       if (response.ok) {
+        setReport(null);
         setResult({
           type: 'success',
           message: `
@@ -41,6 +161,7 @@ export default function ImportPage() {
             SEO Queries: ${data.data.seoQueries.length}
             Posts: ${data.data.posts}
             Replies: ${data.data.replies}
+            ${data.data.warnings?.length ? `\nWarnings:\n${data.data.warnings.join('\n')}` : ''}
           `,
         });
       } else {
@@ -62,37 +183,210 @@ export default function ImportPage() {
   return (
     <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
       <div className="bg-white rounded-lg shadow-lg p-8 max-w-2xl w-full">
-        <h1 className="text-3xl font-bold text-gray-900 mb-4">📊 Import Excel File</h1>
+        <h1 className="text-3xl font-bold text-gray-900 mb-4">📊 Import Data</h1>
         <p className="text-gray-600 mb-6">
-          Select your Excel file to import company data and calendar.
+          Select your Excel file to import company data and calendar, or a JSON file, or CSV files
+          named after what they hold (company.csv, personas.csv, subreddits.csv, seo_queries.csv,
+          posts.csv, comments.csv). Workbooks in another layout can be mapped column by column after the
+          first check. The file is checked first; nothing is written until you confirm.
         </p>
 
         <form onSubmit={handleSubmit} className="space-y-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Excel File
+              Excel, JSON or CSV Files
             </label>
             <input
               type="file"
-              accept=".xlsx,.xls"
-              onChange={(e) => setFile(e.target.files?.[0] || null)}
+              accept=".xlsx,.xls,.json,.csv"
+              multiple
+              onChange={(e) => {
+                setFiles(Array.from(e.target.files || []));
+                resetCheck();
+              }}
               className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-semibold file:bg-primary-50 file:text-primary-700 hover:file:bg-primary-100"
               required
             />
-            {file && (
-              <p className="mt-2 text-sm text-gray-600">Selected: {file.name}</p>
+            {files.length > 0 && (
+              <p className="mt-2 text-sm text-gray-600">Selected: {files.map(f => f.name).join(', ')}</p>
             )}
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Import Into</label>
+            <select
+              value={companyId}
+              onChange={(e) => {
+                setCompanyId(e.target.value);
+                setMapping(null);
+                setMappingEdited(false);
+                resetCheck();
+              }}
+              className="block w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+            >
+              <option value="">A new company (from the file)</option>
+              {companies.map(company => (
+                <option key={company.id} value={company.id}>{company.name}</option>
+              ))}
+            </select>
+          </div>
+
+          {isExcel && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Workbook Layout</label>
+              <select
+                value={preset}
+                onChange={(e) => {
+                  setPreset(e.target.value);
+                  setMapping(null);
+                  setMappingEdited(false);
+                  resetCheck();
+                }}
+                className="block w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+              >
+                {PRESETS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <button
             type="submit"
-            disabled={loading || !file}
+            disabled={loading || files.length === 0}
             className="w-full bg-primary-600 text-white py-3 px-4 rounded-lg hover:bg-primary-700 disabled:bg-gray-400 disabled:cursor-not-allowed font-medium"
           >
-            {loading ? 'Importing...' : 'Import File'}
+            {loading && !report ? 'Checking...' : report ? 'Check Again' : 'Check File'}
           </button>
         </form>
 
+        {isExcel && mapping && (
+          <div className="mt-6 border border-gray-200 rounded-lg p-4">
+            <h2 className="text-lg font-semibold text-gray-900 mb-1">Column Mapping</h2>
+            <p className="text-sm text-gray-600 mb-3">
+              Which sheet and header each field is read from. Leave a sheet blank to skip that data, or a
+              header blank to skip the field. Edits are saved on the company when you import.
+            </p>
+            {workbook && (
+              <datalist id="workbook-sheets">
+                {workbook.sheets.map(sheet => <option key={sheet.name} value={sheet.name} />)}
+              </datalist>
+            )}
+            <div className="space-y-4 max-h-96 overflow-y-auto">
+              {(Object.keys(fields) as ImportEntity[]).map(entity => {
+                const entityMapping = mapping[entity];
+                const labels = workbook?.sheets.find(sheet => sheet.name === entityMapping?.sheet)?.labels || [];
+                return (
+                  <div key={entity}>
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="text-sm font-medium text-gray-800 w-28">{entity}</span>
+                      <input
+                        list="workbook-sheets"
+                        placeholder="Sheet (blank to skip)"
+                        value={entityMapping?.sheet || ''}
+                        onChange={(e) => updateEntity(entity, current => ({ ...current, sheet: e.target.value }))}
+                        className="flex-1 border border-gray-300 rounded px-2 py-1 text-sm"
+                      />
+                    </div>
+                    {entityMapping?.sheet && (
+                      <div className="grid grid-cols-2 gap-x-4 gap-y-1 pl-2">
+                        <datalist id={`labels-${entity}`}>
+                          {labels.map(label => <option key={label} value={label} />)}
+                        </datalist>
+                        {fields[entity].map(field => (
+                          <label key={field} className="flex items-center gap-2 text-xs text-gray-600">
+                            <span className="w-28 truncate">{field}</span>
+                            <input
+                              list={`labels-${entity}`}
+                              value={entityMapping.columns[field] || ''}
+                              onChange={(e) => updateEntity(entity, current => ({
+                                ...current,
+                                columns: { ...current.columns, [field]: e.target.value },
+                              }))}
+                              className="flex-1 border border-gray-200 rounded px-2 py-0.5 text-xs"
+                            />
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            {mappingEdited && (
+              <p className="text-sm text-gray-600 mt-3">Mapping changed - check the file again to see the result.</p>
+            )}
+            {companyId && mappingEdited && (
+              <button
+                type="button"
+                onClick={handleSaveMapping}
+                className="mt-3 text-sm text-primary-600 hover:text-primary-700 font-medium underline"
+              >
+                Save mapping without importing
+              </button>
+            )}
+          </div>
+        )}
+
+        {report && (
+          <div className="mt-6 border border-gray-200 rounded-lg p-4">
+            <h2 className="text-lg font-semibold text-gray-900 mb-1">Validation Report</h2>
+            <p className="text-sm text-gray-600 mb-3">
+              Read {report.counts.personas} personas, {report.counts.subreddits} subreddits, {report.counts.seo_queries} SEO
+              queries, {report.counts.posts} posts and {report.counts.comments} comments.
+            </p>
+
+            {report.issues.length === 0 ? (
+              <p className="text-sm text-green-700 mb-4">✅ No problems found.</p>
+            ) : (
+              <div className="overflow-x-auto mb-4 max-h-96 overflow-y-auto">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-gray-700">
+                    <tr>
+                      <th className="px-2 py-1">Sheet</th>
+                      <th className="px-2 py-1">Row</th>
+                      <th className="px-2 py-1">Column</th>
+                      <th className="px-2 py-1">Problem</th>
+                      <th className="px-2 py-1">Suggested fix</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.issues.map((issue, index) => (
+                      <tr
+                        key={index}
+                        className={`border-t border-gray-100 ${issue.severity === 'error' ? 'text-red-800' : 'text-yellow-800'}`}
+                      >
+                        <td className="px-2 py-1 whitespace-nowrap">{issue.sheet}</td>
+                        <td className="px-2 py-1">{issue.row ?? '-'}</td>
+                        <td className="px-2 py-1">{issue.column || '-'}</td>
+                        <td className="px-2 py-1">{issue.severity === 'error' ? '❌' : '⚠️'} {issue.problem}</td>
+                        <td className="px-2 py-1 text-gray-600">{issue.suggestion}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {!report.valid && (
+              <p className="text-sm text-red-700 mb-3">
+                Fix the errors and check the file again, or import anyway - rows with errors may be skipped or
+                imported with defaults.
+              </p>
+            )}
+            <button
+              type="button"
+              onClick={handleConfirm}
+              disabled={loading}
+              className={`w-full text-white py-3 px-4 rounded-lg font-medium disabled:bg-gray-400 disabled:cursor-not-allowed ${
+                report.valid ? 'bg-green-600 hover:bg-green-700' : 'bg-yellow-600 hover:bg-yellow-700'
+              }`}
+            >
+              {loading ? 'Importing...' : report.valid ? 'Confirm Import' : 'Import Anyway'}
+            </button>
+          </div>
+        )}
+
         {result && (
           <div
             className={`mt-6 p-4 rounded-lg ${
@@ -0,0 +1,120 @@
+/**
+ * LLM Provider Layer
+ * Picks a model backend per company (or from the environment) and wraps
+ * the prompt -> parse -> fallback flow shared by every generation step
+ */
+
+import type { Company } from '@/types';
+import type { LLMCompletionRequest, LLMProvider, LLMProviderConfig, LLMProviderName } from './types';
+import {
+  createOpenAIProvider,
+  createAnthropicProvider,
+  createAzureProvider,
+  createLocalProvider,
+  createStubProvider,
+} from './providers';
+
+export type { LLMCompletionRequest, LLMProvider, LLMProviderConfig, LLMProviderName, LLMTask } from './types';
+export { StubLLMProvider, getDefaultModel } from './providers';
+
+const PROVIDER_NAMES: LLMProviderName[] = ['openai', 'anthropic', 'azure', 'local', 'stub'];
+
+function isProviderName(value: unknown): value is LLMProviderName {
+  return typeof value === 'string' && PROVIDER_NAMES.includes(value as LLMProviderName);
+}
+
+/**
+ * Resolves which provider and model to use.
+ * Priority: company settings → LLM_PROVIDER / LLM_MODEL env vars → OpenAI.
+ * The model comes from the same place as the provider, so a company on Anthropic never gets an
+ * OpenAI LLM_MODEL. Without one the provider uses its default (null).
+ */
+export function resolveLLMConfig(company?: Pick<Company, 'llm_provider' | 'llm_model'> | null): Required<LLMProviderConfig> {
+  const envProvider = process.env.LLM_PROVIDER;
+
+  if (isProviderName(company?.llm_provider)) {
+    return { provider: company!.llm_provider as LLMProviderName, model: company!.llm_model || null };
+  }
+  if (isProviderName(envProvider)) {
+    return { provider: envProvider, model: process.env.LLM_MODEL || null };
+  }
+  if (envProvider) {
+    console.warn(`Unknown LLM_PROVIDER "${envProvider}", falling back to openai`);
+  }
+  return { provider: 'openai', model: null };
+}
+
+/**
+ * Creates a provider instance for the given config
+ */
+export function getLLMProvider(config: LLMProviderConfig = {}): LLMProvider {
+  const model = config.model || undefined;
+
+  switch (config.provider) {
+    case 'anthropic':
+      return createAnthropicProvider(model);
+    case 'azure':
+      return createAzureProvider(model);
+    case 'local':
+      return createLocalProvider(model);
+    case 'stub':
+      return createStubProvider();
+    case 'openai':
+    default:
+      return createOpenAIProvider(model);
+  }
+}
+
+/**
+ * Convenience: provider for a company, honoring its settings and the environment
+ */
+export function getLLMProviderForCompany(company?: Pick<Company, 'llm_provider' | 'llm_model'> | null): LLMProvider {
+  return getLLMProvider(resolveLLMConfig(company));
+}
+
+/**
+ * Runs a text completion, returning the fallback if the provider fails or returns nothing
+ */
+export async function generateText(
+  provider: LLMProvider,
+  request: Omit<LLMCompletionRequest, 'responseFormat'>,
+  fallback: () => string
+): Promise<string> {
+  try {
+    const content = await provider.complete({ ...request, responseFormat: 'text' });
+    return content || fallback();
+  } catch (error) {
+    console.error(`Error generating ${request.task} with ${provider.name}:`, error);
+    return fallback();
+  }
+}
+
+/**
+ * Runs a JSON completion and parses it, returning the fallback if the provider
+ * fails, returns nothing, returns invalid JSON, or the parser throws
+ */
+export async function generateJSON<T>(
+  provider: LLMProvider,
+  request: Omit<LLMCompletionRequest, 'responseFormat'>,
+  parse: (json: any) => T,
+  fallback: () => T
+): Promise<T> {
+  try {
+    const content = await provider.complete({ ...request, responseFormat: 'json' });
+    if (!content) {
+      throw new Error(`No response from ${provider.name}`);
+    }
+    return parse(JSON.parse(extractJSON(content)));
+  } catch (error) {
+    console.error(`Error generating ${request.task} with ${provider.name}:`, error);
+    return fallback();
+  }
+}
+
+/**
+ * Strips markdown code fences some models wrap JSON in
+ */
+function extractJSON(content: string): string {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  return (fenced ? fenced[1] : content).trim();
+}
@@ -0,0 +1,202 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import type { LLMCompletionRequest, LLMProvider, LLMProviderName, LLMTask } from './types';
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  openai: 'gpt-4-turbo-preview',
+  anthropic: 'claude-3-5-sonnet-20241022',
+  azure: 'gpt-4',
+  local: 'llama3',
+  stub: 'stub',
+};
+
+export function getDefaultModel(provider: LLMProviderName): string {
+  return DEFAULT_MODELS[provider];
+}
+
+const DEFAULT_EMBEDDING_MODELS: Partial<Record<LLMProviderName, string>> = {
+  openai: 'text-embedding-3-small',
+  local: 'nomic-embed-text',
+};
+
+/**
+ * Any backend that speaks the OpenAI chat completions API
+ * (OpenAI itself, Azure OpenAI deployments, and local servers like Ollama or vLLM)
+ */
+class OpenAICompatibleProvider implements LLMProvider {
+  constructor(
+    public name: LLMProviderName,
+    public model: string,
+    private client: OpenAI,
+    private embeddingModel: string | null = null,
+    private embeddingClient: OpenAI = client
+  ) {}
+
+  async complete(request: LLMCompletionRequest): Promise<string | null> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: 'system', content: request.system },
+        { role: 'user', content: request.prompt },
+      ],
+      // Local servers often reject response_format, so only send it to hosted backends
+      ...(request.responseFormat === 'json' && this.name !== 'local'
+        ? { response_format: { type: 'json_object' as const } }
+        : {}),
+      temperature: request.temperature ?? 0.8,
+      ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+    });
+
+    return response.choices[0]?.message?.content?.trim() || null;
+  }
+
+  async embed(texts: string[]): Promise<number[][] | null> {
+    if (!this.embeddingModel) return null;
+
+    const response = await this.embeddingClient.embeddings.create({
+      model: this.embeddingModel,
+      input: texts,
+    });
+
+    return [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
+
+export function createOpenAIProvider(model?: string): LLMProvider {
+  const client = new OpenAI({
+    apiKey: process.env.OPENAI_API_KEY,
+  });
+  return new OpenAICompatibleProvider(
+    'openai',
+    model || DEFAULT_MODELS.openai,
+    client,
+    process.env.LLM_EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODELS.openai
+  );
+}
+
+export function createAzureProvider(model?: string): LLMProvider {
+  // On Azure the "model" is the deployment name
+  const deployment = model || process.env.AZURE_OPENAI_DEPLOYMENT || DEFAULT_MODELS.azure;
+  const client = new AzureOpenAI({
+    apiKey: process.env.AZURE_OPENAI_API_KEY,
+    endpoint: process.env.AZURE_OPENAI_ENDPOINT,
+    apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-06-01',
+    deployment,
+  });
+
+  // Embeddings need their own deployment on Azure; without one topics fall back to TF-IDF
+  const embeddingDeployment = process.env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT;
+  const embeddingClient = embeddingDeployment
+    ? new AzureOpenAI({
+        apiKey: process.env.AZURE_OPENAI_API_KEY,
+        endpoint: process.env.AZURE_OPENAI_ENDPOINT,
+        apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-06-01',
+        deployment: embeddingDeployment,
+      })
+    : client;
+  return new OpenAICompatibleProvider('azure', deployment, client, embeddingDeployment || null, embeddingClient);
+}
+
+export function createLocalProvider(model?: string): LLMProvider {
+  const client = new OpenAI({
+    apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+    baseURL: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+  });
+  return new OpenAICompatibleProvider(
+    'local',
+    model || process.env.LOCAL_LLM_MODEL || DEFAULT_MODELS.local,
+    client,
+    process.env.LOCAL_LLM_EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODELS.local
+  );
+}
+
+/**
+ * Anthropic Messages API, called over fetch so no extra SDK is needed
+ */
+class AnthropicProvider implements LLMProvider {
+  name: LLMProviderName = 'anthropic';
+
+  constructor(public model: string) {}
+
+  async complete(request: LLMCompletionRequest): Promise<string | null> {
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      throw new Error('Missing ANTHROPIC_API_KEY');
+    }
+
+    // Claude has no JSON mode, so ask for it explicitly
+    const system = request.responseFormat === 'json'
+      ? `${request.system}\n\nRespond with a single valid JSON object and nothing else.`
+      : request.system;
+
+    const response = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        system,
+        messages: [{ role: 'user', content: request.prompt }],
+        temperature: request.temperature ?? 0.8,
+        max_tokens: request.maxTokens || 1024,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Anthropic request failed: ${response.status} ${await response.text()}`);
+    }
+
+    const data = await response.json();
+    const text = (data.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('')
+      .trim();
+
+    return text || null;
+  }
+}
+
+export function createAnthropicProvider(model?: string): LLMProvider {
+  return new AnthropicProvider(model || DEFAULT_MODELS.anthropic);
+}
+
+export type StubResponder = (request: LLMCompletionRequest) => string | null;
+
+export type StubEmbedder = (texts: string[]) => number[][] | null;
+
+/**
+ * Deterministic offline provider for CI and local runs without API keys.
+ * With no responder for a task it returns null, so callers fall back to
+ * their template content - which is itself deterministic.
+ */
+export class StubLLMProvider implements LLMProvider {
+  name: LLMProviderName = 'stub';
+  model = DEFAULT_MODELS.stub;
+
+  // Only set with an embedder; without one the stub has no embeddings endpoint, so topic
+  // similarity goes straight to TF-IDF instead of treating a null result as a failure
+  embed?: (texts: string[]) => Promise<number[][] | null>;
+
+  constructor(
+    private responders: Partial<Record<LLMTask, StubResponder>> = {},
+    embedder?: StubEmbedder
+  ) {
+    if (embedder) {
+      this.embed = async texts => embedder(texts);
+    }
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<string | null> {
+    const responder = this.responders[request.task];
+    return responder ? responder(request) : null;
+  }
+}
+
+export function createStubProvider(): LLMProvider {
+  return new StubLLMProvider();
+}
@@ -0,0 +1,40 @@
+/**
+ * LLM Provider Types
+ * Shared contract for every model backend used by the planner
+ */
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'azure' | 'local' | 'stub';
+
+/**
+ * What a completion is for - used for logging and by the stub provider
+ * to decide which canned response (if any) to return
+ */
+export type LLMTask = 'topics' | 'post' | 'reply';
+
+export interface LLMCompletionRequest {
+  task: LLMTask;
+  system: string;
+  prompt: string;
+  temperature?: number;
+  maxTokens?: number;
+  responseFormat?: 'text' | 'json';
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  model: string;
+  /**
+   * Returns the raw completion text, or null when the backend returned nothing
+   */
+  complete(request: LLMCompletionRequest): Promise<string | null>;
+  /**
+   * Returns one embedding vector per input text, in order.
+   * Optional: backends without an embeddings endpoint leave it out.
+   */
+  embed?(texts: string[]): Promise<number[][] | null>;
+}
+
+export interface LLMProviderConfig {
+  provider?: LLMProviderName | null;
+  model?: string | null;
+}
@@ -3,16 +3,33 @@
  * Detects spam patterns, overposting risks, and repetition issues
  */
 
-import type { CalendarPost, CalendarReply, Subreddit, Persona } from '@/types';
+import type { CalendarPost, CalendarReply, Subreddit, Persona, WordingPattern } from '@/types';
+import { createTopicSimilarityScorer, normalizeTopic, type TopicSimilarityScorer } from './similarity';
+import { collectPhraseUses, findReusedPhrases } from './wording';
+import { checkDraftedPost, checkDraftedReply, checkPlannedPost, resolveSubredditRules } from './subreddit-rules';
+import { collectBrandMentions, subredditBrandLimit, type BrandCompany } from './brand';
 
 export interface SpamWarning {
-  type: 'overposting' | 'repetition' | 'persona_imbalance' | 'wording_pattern' | 'topic_repetition';
+  type:
+    | 'overposting'
+    | 'repetition'
+    | 'persona_imbalance'
+    | 'wording_pattern'
+    | 'topic_repetition'
+    | 'subreddit_rule'
+    | 'brand_mention'; // Always high severity, so it blocks approval
   severity: 'low' | 'medium' | 'high';
   message: string;
   subreddit?: string;
   recommendation: string;
 }
 
+export interface SpamCheckOptions {
+  similarity?: TopicSimilarityScorer; // Defaults to TF-IDF with the default threshold
+  wordingHistory?: WordingPattern[]; // Phrases from earlier weeks (excluding this calendar's own)
+  company?: BrandCompany | null; // Brand mentions are only counted when given
+}
+
 export interface SpamCheckResult {
   warnings: SpamWarning[];
   riskScore: number; // 0-10, higher = more risky
@@ -27,8 +44,11 @@ export function checkSpamAndSafety(
   replies: CalendarReply[],
   subreddits: Subreddit[],
   personas: Persona[],
-  previousWeeksPosts?: CalendarPost[]
+  previousWeeksPosts?: CalendarPost[],
+  options: SpamCheckOptions = {}
 ): SpamCheckResult {
+  const similarity = options.similarity || createTopicSimilarityScorer();
+  similarity.addToCorpus([...posts, ...(previousWeeksPosts || [])].map(p => p.topic));
   const warnings: SpamWarning[] = [];
   let riskScore = 0;
 
@@ -80,20 +100,28 @@ export function checkSpamAndSafety(
     }
   }
 
-  // 3. Check topic repetition
-  const topicCounts = new Map<string, number>();
-  posts.forEach(post => {
-    const normalizedTopic = normalizeTopic(post.topic);
-    const count = topicCounts.get(normalizedTopic) || 0;
-    topicCounts.set(normalizedTopic, count + 1);
-  });
+  // 3. Check topic repetition (same topic, or a semantically similar one)
+  const grouped = new Set<number>();
+  posts.forEach((post, i) => {
+    if (grouped.has(i)) return;
+    const group = [i];
+    for (let j = i + 1; j < posts.length; j++) {
+      if (!grouped.has(j) && similarity.isSimilar(post.topic, posts[j].topic)) {
+        group.push(j);
+      }
+    }
+    group.forEach(index => grouped.add(index));
 
-  topicCounts.forEach((count, topic) => {
+    const count = group.length;
     if (count > 1) {
+      const topic = normalizeTopic(post.topic);
+      const exact = group.every(index => normalizeTopic(posts[index].topic) === topic);
       warnings.push({
         type: 'topic_repetition',
         severity: count > 2 ? 'high' : 'medium',
-        message: `Topic "${topic}" appears ${count} times this week.`,
+        message: exact
+          ? `Topic "${topic}" appears ${count} times this week.`
+          : `Topic "${topic}" and ${count - 1} similar topic(s) appear this week.`,
         recommendation: 'Use more diverse topics to avoid repetition.',
       });
       riskScore += count > 2 ? 2 : 1;
@@ -116,15 +144,14 @@ export function checkSpamAndSafety(
 
   // 5. Check against previous weeks for repetition
   if (previousWeeksPosts && previousWeeksPosts.length > 0) {
-    const recentTopics = new Set(
+    const recentTopics = Array.from(new Set(
       previousWeeksPosts
         .slice(-20) // Last 20 posts
-        .map(p => normalizeTopic(p.topic))
-    );
+        .map(p => p.topic)
+    ));
 
     posts.forEach(post => {
-      const normalized = normalizeTopic(post.topic);
-      if (recentTopics.has(normalized)) {
+      if (recentTopics.some(recent => similarity.isSimilar(post.topic, recent))) {
         warnings.push({
           type: 'topic_repetition',
           severity: 'low',
@@ -166,6 +193,33 @@ export function checkSpamAndSafety(
     }
   }
 
+  // 7. Check phrasing reused from earlier weeks
+  if (options.wordingHistory && options.wordingHistory.length > 0) {
+    const overused = findReusedPhrases(collectPhraseUses(posts, replies), options.wordingHistory);
+
+    if (overused.length > 0) {
+      warnings.push({
+        type: 'wording_pattern',
+        severity: 'low',
+        message: `${overused.length} phrase(s) already used in earlier weeks: ${overused.slice(0, 3).map(p => `"${p}"`).join(', ')}`,
+        recommendation: 'Reword these phrases - repeated phrasing across weeks reads as templated.',
+      });
+      riskScore += 1;
+    }
+  }
+
+  // 8. Check each post and reply against its subreddit's rules
+  const ruleWarnings = checkSubredditRules(posts, replies, subreddits, previousWeeksPosts || []);
+  warnings.push(...ruleWarnings);
+  riskScore += ruleWarnings.length * 3;
+
+  // 9. Check brand mentions against the company's budget and for disclosure
+  if (options.company) {
+    const brandWarnings = checkBrandMentions(posts, replies, subreddits, personas, options.company);
+    warnings.push(...brandWarnings);
+    riskScore += brandWarnings.length * 3;
+  }
+
   const passed = riskScore < 5 && warnings.filter(w => w.severity === 'high').length === 0;
 
   return {
@@ -176,14 +230,129 @@ export function checkSpamAndSafety(
 }
 
 /**
- * Normalizes topic text for comparison
+ * One high-severity warning per post or reply that breaks its subreddit's rules. The
+ * self-promotion ratio counts each post against the posts before it, earlier weeks included.
  */
-function normalizeTopic(topic: string): string {
-  return topic
-    .toLowerCase()
-    .replace(/[^\w\s]/g, '')
-    .replace(/\s+/g, ' ')
-    .trim();
+function checkSubredditRules(
+  posts: CalendarPost[],
+  replies: CalendarReply[],
+  subreddits: Subreddit[],
+  previousWeeksPosts: CalendarPost[]
+): SpamWarning[] {
+  const warnings: SpamWarning[] = [];
+  const ordered = [...posts].sort((a, b) => a.day_of_week - b.day_of_week || a.order_in_day - b.order_in_day);
+
+  ordered.forEach(post => {
+    const subreddit = subreddits.find(s => s.id === post.subreddit_id);
+    if (!subreddit) return;
+    const rules = resolveSubredditRules(subreddit);
+    const earlier = [
+      ...previousWeeksPosts,
+      ...ordered.slice(0, ordered.indexOf(post)),
+    ].filter(p => p.subreddit_id === subreddit.id);
+    const violations = [...checkPlannedPost(rules, post, earlier), ...checkDraftedPost(rules, post)];
+    if (violations.length === 0) return;
+
+    const label = post.planned_title || post.topic;
+    warnings.push({
+      type: 'subreddit_rule',
+      severity: 'high',
+      message: `"${label.substring(0, 50)}" breaks ${subreddit.name} rules: ${violations.join('; ')}.`,
+      subreddit: subreddit.name,
+      recommendation: 'Edit the post or move it to a subreddit that allows it.',
+    });
+  });
+
+  replies.forEach(reply => {
+    const post = posts.find(p => p.id === reply.post_id);
+    const subreddit = post && subreddits.find(s => s.id === post.subreddit_id);
+    if (!subreddit) return;
+    const violations = checkDraftedReply(resolveSubredditRules(subreddit), reply.planned_content);
+    if (violations.length === 0) return;
+
+    warnings.push({
+      type: 'subreddit_rule',
+      severity: 'high',
+      message: `A reply on "${(post!.planned_title || post!.topic).substring(0, 50)}" breaks ${subreddit.name} rules: ${violations.join('; ')}.`,
+      subreddit: subreddit.name,
+      recommendation: 'Edit the reply to follow the subreddit rules.',
+    });
+  });
+
+  return warnings;
+}
+
+/**
+ * High-severity warnings when the week names the company more often than its brand budget
+ * allows (in total, in a subreddit, or by one persona), and a warning for every text that names
+ * it without disclosure - high where the subreddit requires disclosure, medium elsewhere
+ */
+function checkBrandMentions(
+  posts: CalendarPost[],
+  replies: CalendarReply[],
+  subreddits: Subreddit[],
+  personas: Persona[],
+  company: BrandCompany
+): SpamWarning[] {
+  const warnings: SpamWarning[] = [];
+  const uses = collectBrandMentions(posts, replies, company);
+  const budget = company.brand_budget;
+  const total = (filter: (use: typeof uses[number]) => boolean) =>
+    uses.filter(filter).reduce((sum, use) => sum + use.count, 0);
+  const times = (n: number) => (n === 1 ? 'once' : `${n} times`);
+
+  const weekly = total(() => true);
+  if (budget?.max_per_week !== undefined && budget.max_per_week !== null && weekly > budget.max_per_week) {
+    warnings.push({
+      type: 'brand_mention',
+      severity: 'high',
+      message: `${company.name} is named ${times(weekly)} this week; the budget is ${budget.max_per_week}.`,
+      recommendation: 'Rewrite some posts or replies so they don\'t name the company.',
+    });
+  }
+
+  subreddits.forEach(subreddit => {
+    const rules = resolveSubredditRules(subreddit);
+    const limit = subredditBrandLimit(budget, rules);
+    const count = total(use => use.subreddit_id === subreddit.id);
+    if (limit !== null && count > limit) {
+      warnings.push({
+        type: 'brand_mention',
+        severity: 'high',
+        message: `${company.name} is named ${times(count)} in ${subreddit.name} this week; the limit there is ${limit}.`,
+        subreddit: subreddit.name,
+        recommendation: `Keep ${company.name} out of more of the ${subreddit.name} posts and replies.`,
+      });
+    }
+
+    // Every mention needs a disclosure; the subreddit's rule only makes a missing one block approval
+    uses
+      .filter(use => use.subreddit_id === subreddit.id && !use.disclosed)
+      .forEach(use => warnings.push({
+        type: 'brand_mention',
+        severity: rules.requires_disclosure ? 'high' : 'medium',
+        message: `A ${use.source} on "${use.label.substring(0, 50)}" names ${company.name} without disclosure${rules.requires_disclosure ? `, which ${subreddit.name} requires` : ''}.`,
+        subreddit: subreddit.name,
+        recommendation: 'Say how the writer is connected to the company, or leave the name out.',
+      }));
+  });
+
+  const perPersona = budget?.max_per_persona;
+  if (perPersona !== undefined && perPersona !== null) {
+    Array.from(new Set(uses.map(use => use.persona_id))).forEach(personaId => {
+      const count = total(use => use.persona_id === personaId);
+      if (count <= perPersona) return;
+      const name = personas.find(p => p.id === personaId)?.name || 'One persona';
+      warnings.push({
+        type: 'brand_mention',
+        severity: 'high',
+        message: `${name} names ${company.name} ${times(count)} this week; the limit per persona is ${perPersona}.`,
+        recommendation: 'Drop some product mentions this week.',
+      });
+    });
+  }
+
+  return warnings;
 }
 
 /**
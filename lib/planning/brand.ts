@@ -0,0 +1,212 @@
+/**
+ * Brand Mention Module
+ * Finds where posts and replies name the company (its name, website domain or product names) and
+ * counts the mentions against the company's brand budget: per week, per subreddit and per persona.
+ * Every text that names the company has to say how the writer is connected to it.
+ */
+
+import type { BrandBudget, CalendarPost, CalendarReply, Company, SubredditRules } from '@/types';
+
+export interface BrandMention {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// One text (post title and body, or reply) that names the company
+export interface BrandMentionUse {
+  source: 'post' | 'reply';
+  id: string;
+  persona_id: string;
+  subreddit_id: string;
+  label: string; // The post's title or topic, for messages
+  count: number;
+  disclosed: boolean;
+}
+
+export type BrandCompany = Pick<Company, 'name' | 'website_url'> & Partial<Pick<Company, 'brand_budget'>>;
+
+// Ways people say they are connected to what they mention
+const DISCLOSURE = new RegExp([
+  'full disclosure',
+  'disclosure:',
+  'disclaimer:',
+  "i work (?:at|for|on)\\b",
+  "i(?:'m| am) (?:the |a |one of the )?(?:co-?founders?|founders?|makers?|developers?|devs?|creators?) (?:of|at|behind)\\b",
+  'affiliated with',
+  'my (?:own )?(?:company|startup|product)\\b',
+  'we (?:built|make|made)\\b',
+].join('|'), 'i');
+
+/**
+ * Company name, website domain and product names, as they would appear in text
+ */
+export function brandTerms(company: BrandCompany | null | undefined): string[] {
+  if (!company) return [];
+  const terms = [company.name.trim(), ...(company.brand_budget?.product_names || []).map(name => name.trim())];
+  if (company.website_url) {
+    try {
+      const url = new URL(company.website_url.includes('://') ? company.website_url : `https://${company.website_url}`);
+      terms.push(url.hostname.replace(/^www\./, ''));
+    } catch {
+      // Not a usable URL - the names alone are checked
+    }
+  }
+  return Array.from(new Set(terms.filter(term => term.length > 1)));
+}
+
+/**
+ * Every place the text names one of the terms, in order. The domain includes the name
+ * ("slideforge.ai"), so overlapping matches count once.
+ */
+export function findBrandMentions(text: string | null | undefined, terms: string[]): BrandMention[] {
+  if (!text) return [];
+  return terms
+    .flatMap(term => {
+      const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      return Array.from(text.matchAll(new RegExp(`(?<!\\w)${escaped}(?!\\w)`, 'gi'))).map(match => ({
+        text: match[0],
+        start: match.index || 0,
+        end: (match.index || 0) + match[0].length,
+      }));
+    })
+    .sort((a, b) => a.start - b.start || b.end - a.end)
+    .filter((match, i, all) => i === 0 || match.start >= all[i - 1].end);
+}
+
+export function hasDisclosure(text: string | null | undefined): boolean {
+  return !!text && DISCLOSURE.test(text);
+}
+
+/**
+ * Disclosure problems in a text: empty unless it names the company without saying how the
+ * writer is connected
+ */
+export function checkDisclosure(company: BrandCompany | null | undefined, text: string): string[] {
+  const mentions = findBrandMentions(text, brandTerms(company));
+  if (mentions.length === 0 || hasDisclosure(text)) return [];
+  return [`names ${mentions[0].text} without disclosing the connection`];
+}
+
+/**
+ * The texts in a week's posts and replies that name the company
+ */
+export function collectBrandMentions(
+  posts: CalendarPost[],
+  replies: CalendarReply[],
+  company: BrandCompany | null | undefined
+): BrandMentionUse[] {
+  const terms = brandTerms(company);
+  if (terms.length === 0) return [];
+  const uses: BrandMentionUse[] = [];
+
+  posts.forEach(post => {
+    const text = [post.planned_title, post.planned_body].filter(Boolean).join('\n');
+    const count = findBrandMentions(text, terms).length;
+    if (count === 0) return;
+    uses.push({
+      source: 'post',
+      id: post.id,
+      persona_id: post.persona_id,
+      subreddit_id: post.subreddit_id,
+      label: post.planned_title || post.topic,
+      count,
+      disclosed: hasDisclosure(text),
+    });
+  });
+
+  replies.forEach(reply => {
+    const post = posts.find(p => p.id === reply.post_id);
+    const count = findBrandMentions(reply.planned_content, terms).length;
+    if (!post || count === 0) return;
+    uses.push({
+      source: 'reply',
+      id: reply.id,
+      persona_id: reply.persona_id,
+      subreddit_id: post.subreddit_id,
+      label: post.planned_title || post.topic,
+      count,
+      disclosed: hasDisclosure(reply.planned_content),
+    });
+  });
+
+  return uses;
+}
+
+/**
+ * Weekly mention limit for one subreddit: its own rule, else the company's per-subreddit budget
+ */
+export function subredditBrandLimit(budget: BrandBudget | null | undefined, rules: SubredditRules): number | null {
+  if (rules.max_brand_mentions !== undefined && rules.max_brand_mentions !== null) return rules.max_brand_mentions;
+  return budget?.max_per_subreddit ?? null;
+}
+
+/**
+ * Whether one more subtle_product post (which names the company once) fits the budget. Posts
+ * planned so far count one mention each if they are subtle_product, since nothing is drafted yet.
+ */
+export function fitsBrandBudget(
+  budget: BrandBudget | null | undefined,
+  rules: SubredditRules,
+  planned: Pick<CalendarPost, 'posting_strategy' | 'subreddit_id' | 'persona_id'>[],
+  candidate: Pick<CalendarPost, 'subreddit_id' | 'persona_id'>
+): boolean {
+  const promotional = planned.filter(post => post.posting_strategy === 'subtle_product');
+  const within = (limit: number | null | undefined, used: number) =>
+    limit === undefined || limit === null || used + 1 <= limit;
+
+  return within(budget?.max_per_week, promotional.length)
+    && within(subredditBrandLimit(budget, rules), promotional.filter(post => post.subreddit_id === candidate.subreddit_id).length)
+    && within(budget?.max_per_persona, promotional.filter(post => post.persona_id === candidate.persona_id).length);
+}
+
+function optionalLimit(value: unknown, field: string): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) {
+    throw new Error(`${field} must be a whole number of at least 0`);
+  }
+  return number;
+}
+
+/**
+ * Validates a brand budget sent by a client and drops empty fields; throws with the first problem found
+ */
+export function normalizeBrandBudget(input: unknown): BrandBudget {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error('brand_budget must be an object');
+  }
+  const raw = input as Record<string, unknown>;
+  const budget: BrandBudget = {};
+
+  const perWeek = optionalLimit(raw.max_per_week, 'max_per_week');
+  if (perWeek !== null) budget.max_per_week = perWeek;
+  const perSubreddit = optionalLimit(raw.max_per_subreddit, 'max_per_subreddit');
+  if (perSubreddit !== null) budget.max_per_subreddit = perSubreddit;
+  const perPersona = optionalLimit(raw.max_per_persona, 'max_per_persona');
+  if (perPersona !== null) budget.max_per_persona = perPersona;
+
+  if (raw.product_names !== undefined && raw.product_names !== null) {
+    if (!Array.isArray(raw.product_names) || raw.product_names.some(name => typeof name !== 'string')) {
+      throw new Error('product_names must be a list of strings');
+    }
+    const names = Array.from(new Set(raw.product_names.map((name: string) => name.trim()).filter(Boolean)));
+    if (names.length > 0) budget.product_names = names;
+  }
+
+  return budget;
+}
+
+/**
+ * Short labels for the limits that are set, for the company page
+ */
+export function summarizeBrandBudget(budget: BrandBudget | null | undefined): string[] {
+  if (!budget) return [];
+  const summary: string[] = [];
+  const times = (n: number) => (n === 0 ? 'never' : `≤ ${n}×`);
+  if (budget.max_per_week !== undefined && budget.max_per_week !== null) summary.push(`${times(budget.max_per_week)} a week`);
+  if (budget.max_per_subreddit !== undefined && budget.max_per_subreddit !== null) summary.push(`${times(budget.max_per_subreddit)} per subreddit`);
+  if (budget.max_per_persona !== undefined && budget.max_per_persona !== null) summary.push(`${times(budget.max_per_persona)} per persona`);
+  if (budget.product_names?.length) summary.push(`also counts ${budget.product_names.join(', ')}`);
+  return summary;
+}
@@ -0,0 +1,159 @@
+/**
+ * Campaign Planning Module
+ * Plans several consecutive weeks in one run, threading cooldowns, topic freshness and
+ * persona rotation from each week into the next before anything is persisted
+ */
+
+import type { Campaign, CampaignParams, CampaignPlan, CalendarPlan, SubredditActivity } from '@/types';
+import { planCalendar, rescoreCalendarPlan, type PlanningOptions, type PlanningCarryOver } from './index';
+import { createSupabaseRepository, type PlanningRepository } from '@/lib/repository';
+import { createSeededRandom, generateSeed } from './random';
+import { addDays, startOfWeek, format, parseISO } from 'date-fns';
+
+// Placeholder id for a campaign that has not been persisted yet
+export const DRAFT_CAMPAIGN_ID = 'draft-campaign';
+
+export const MAX_CAMPAIGN_WEEKS = 12;
+
+/**
+ * Splits the campaign's post target across its weeks; earlier weeks take the remainder
+ */
+export function distributeCampaignPosts(targetPosts: number, weeks: number): number[] {
+  const base = Math.floor(targetPosts / weeks);
+  const remainder = targetPosts % weeks;
+  return Array.from({ length: weeks }, (_, i) => base + (i < remainder ? 1 : 0));
+}
+
+/**
+ * Per-week settings fall back to the last entry given, so a single mix or theme covers every week
+ */
+function forWeek<T>(values: T[] | undefined, week: number): T | undefined {
+  if (!values || values.length === 0) return undefined;
+  return values[Math.min(week, values.length - 1)];
+}
+
+/**
+ * Plans every week of a campaign without writing anything. Used directly by the preview endpoint.
+ */
+export async function planCampaign(
+  params: CampaignParams,
+  options: PlanningOptions = {}
+): Promise<CampaignPlan> {
+  const { company_id, name, weeks, target_posts } = params;
+  const repository = options.repository || createSupabaseRepository();
+
+  if (!Number.isInteger(weeks) || weeks < 1 || weeks > MAX_CAMPAIGN_WEEKS) {
+    throw new Error(`A campaign must span 1-${MAX_CAMPAIGN_WEEKS} weeks`);
+  }
+  if (!Number.isInteger(target_posts) || target_posts < weeks) {
+    throw new Error('target_posts must be at least one post per week');
+  }
+
+  const startWeek = startOfWeek(new Date(params.start_week_date), { weekStartsOn: 0 });
+  const weekDates = Array.from({ length: weeks }, (_, i) => format(addDays(startWeek, i * 7), 'yyyy-MM-dd'));
+
+  // Fail before planning anything if a week is already taken
+  const existingWeeks = new Set((await repository.listCalendars(company_id)).map(c => c.week_start_date));
+  const taken = weekDates.filter(d => existingWeeks.has(d));
+  if (taken.length > 0) {
+    throw new Error(`Calendars already exist for week(s) ${taken.join(', ')}`);
+  }
+
+  // One campaign seed derives every week's seed, so the whole campaign replays exactly
+  const seed = params.seed ?? generateSeed();
+  const random = createSeededRandom(seed);
+  console.log(`Planning campaign "${name}" over ${weeks} weeks with seed ${seed}`);
+
+  const campaign: Campaign = {
+    id: DRAFT_CAMPAIGN_ID,
+    company_id,
+    name,
+    start_week_date: weekDates[0],
+    weeks,
+    target_posts,
+    strategy_mix: params.strategy_mix || [],
+    topic_arc: params.topic_arc || [],
+    seed,
+    created_at: new Date().toISOString(),
+  };
+
+  const postsPerWeek = distributeCampaignPosts(target_posts, weeks);
+  const plans: CalendarPlan[] = [];
+  const carryOver: PlanningCarryOver = {
+    recentPosts: [],
+    previousWeeksPosts: [],
+    activities: [],
+    topicHistory: [],
+    wordingPatterns: [],
+  };
+
+  for (let week = 0; week < weeks; week++) {
+    const plan = await planCalendar(
+      {
+        company_id,
+        week_start_date: parseISO(weekDates[week]),
+        posts_per_week: postsPerWeek[week],
+        seed: Math.floor(random() * 2147483647),
+        strategy_mix: forWeek(campaign.strategy_mix, week),
+        theme: forWeek(campaign.topic_arc, week),
+        campaign_id: campaign.id,
+        campaign_week: week,
+      },
+      { ...options, repository, carryOver }
+    );
+    plans.push(plan);
+
+    // Date each planned post by its scheduled day so rotation windows line up in later weeks
+    const scheduledPosts = plan.posts.map(post => ({
+      ...post,
+      created_at: addDays(parseISO(weekDates[week]), post.day_of_week).toISOString(),
+    }));
+    carryOver.recentPosts = [...carryOver.recentPosts, ...scheduledPosts];
+    carryOver.previousWeeksPosts = plans
+      .slice(-4) // Same window the planner uses
+      .flatMap(p => p.posts);
+
+    const latestActivity = new Map<string, SubredditActivity>();
+    [...carryOver.activities, ...plan.subreddit_activity].forEach(a => latestActivity.set(a.subreddit_id, a));
+    carryOver.activities = Array.from(latestActivity.values());
+
+    carryOver.wordingPatterns = [...carryOver.wordingPatterns, ...plan.wording_patterns];
+
+    carryOver.topicHistory = [
+      ...plan.topic_history.map(t => ({ ...t, id: '', created_at: new Date().toISOString() })).reverse(),
+      ...carryOver.topicHistory,
+    ];
+  }
+
+  return { campaign, weeks: plans };
+}
+
+/**
+ * Re-runs the spam check and quality score for every week of a campaign plan a client sent back,
+ * each against the weeks before it. Campaign weeks are always new draft calendars.
+ */
+export async function rescoreCampaignPlan(
+  plan: CampaignPlan,
+  repository: PlanningRepository = createSupabaseRepository()
+): Promise<CampaignPlan> {
+  const weeks: CalendarPlan[] = [];
+  for (const week of plan.weeks) {
+    weeks.push(await rescoreCalendarPlan({ ...week, existing_calendar_id: null }, repository, weeks));
+  }
+  return { ...plan, weeks };
+}
+
+/**
+ * Plans a whole campaign, then persists the campaign and all of its weeks in one atomic step
+ */
+export async function generateCampaign(
+  params: CampaignParams,
+  options: PlanningOptions = {}
+): Promise<{ campaign: Campaign; plan: CampaignPlan }> {
+  const repository = options.repository || createSupabaseRepository();
+  const plan = await planCampaign(params, { ...options, repository });
+
+  const campaign = await repository.saveCampaignPlan(plan);
+  console.log(`Persisted campaign ${campaign.id}: ${plan.weeks.length} weeks`);
+  return { campaign, plan };
+}
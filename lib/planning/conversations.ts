@@ -1,14 +1,14 @@
-import OpenAI from 'openai';
-import type { CalendarPost, Persona, ReplyPlan } from '@/types';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import type { CalendarPost, CalendarReply, Persona, ReplyPlan, Subreddit } from '@/types';
+import { generateText, getLLMProviderForCompany, type LLMProvider } from '@/lib/llm';
+import { shuffle, pickOne, type RandomSource } from './random';
+import { describeSubredditRules, resolveSubredditRules } from './subreddit-rules';
 
 interface ConversationPlanningParams {
   posts: CalendarPost[];
   personas: Persona[];
   postPersonaMap: Map<string, string>; // post_id -> persona_id
+  random?: RandomSource; // Seeded PRNG for reproducible runs, defaults to Math.random
+  maxDepth?: number; // Deepest reply level per thread, defaults to DEFAULT_THREAD_DEPTH
 }
 
 export interface EnhancedReplyPlan extends ReplyPlan {
@@ -17,59 +17,118 @@ export interface EnhancedReplyPlan extends ReplyPlan {
   planned_content?: string;
 }
 
+// Comment -> OP follow-up -> commenter's answer
+export const DEFAULT_THREAD_DEPTH = 3;
+export const MAX_THREAD_DEPTH = 5;
+
+export const MAX_REPLIES_PER_PERSONA_IN_THREAD = 2; // More than this and one account dominates the thread
+export const MAX_WEEKLY_REPLIES_PER_PERSONA = 3; // Replies on other personas' posts; OP follow-ups don't count
+
 /**
- * Plans replies for posts to create natural conversations
- * Strategy: 60-70% of posts get replies, varied timing and intents
+ * Plans threaded conversations for posts
+ * Strategy: 60-70% of posts get replies - one to three top-level comments from other personas,
+ * some answered by the OP, some of those answered back, down to maxDepth
  */
 export function planReplies(
   params: ConversationPlanningParams
-): Map<string, ReplyPlan> {
-  const { posts, personas, postPersonaMap } = params;
-  const replyPlans = new Map<string, ReplyPlan>();
+): Map<string, ReplyPlan[]> {
+  const { posts, personas, postPersonaMap, random = Math.random, maxDepth = DEFAULT_THREAD_DEPTH } = params;
+  const replyPlans = new Map<string, ReplyPlan[]>();
 
   // Determine which posts get replies (60-70% of posts)
   const replyRate = 0.65;
-  const postsToReply = posts.filter(() => Math.random() < replyRate);
+  const postsToReply = posts.filter(() => random() < replyRate);
 
   // Shuffle to avoid patterns
-  const shuffled = [...postsToReply].sort(() => Math.random() - 0.5);
+  const shuffled = shuffle(postsToReply, random);
 
   shuffled.forEach(post => {
     const postPersonaId = postPersonaMap.get(post.id);
     if (!postPersonaId) return;
 
-    // Find a different persona to reply
+    // Find different personas to comment
     const availablePersonas = personas.filter(p => p.id !== postPersonaId);
 
     if (availablePersonas.length === 0) {
       return; // No other personas available
     }
 
-    // Select persona with some intelligence (not purely random)
-    const replyPersona = selectReplyPersona(availablePersonas, post);
-
-    // Determine intent based on post type
-    const intent = selectIntent(post.post_type);
-
-    // Determine timing (hours after post) - more variable
-    const hoursAfterPost = selectTiming(intent);
+    const thread: EnhancedReplyPlan[] = [];
+    const addReply = (persona: Persona, intent: ReplyPlan['intent'], hoursAfterPost: number, parentIndex: number | null) => {
+      const { tone, emotion } = selectToneAndEmotion(persona, intent, post.post_type, random);
+      thread.push({
+        persona_id: persona.id,
+        intent,
+        hours_after_post: hoursAfterPost,
+        parent_index: parentIndex,
+        depth: parentIndex === null ? 1 : thread[parentIndex].depth + 1,
+        is_op_follow_up: persona.id === postPersonaId,
+        tone,
+        emotion,
+      });
+    };
+
+    // Top-level comments, each from a different persona
+    const commenters = [...availablePersonas];
+    const topLevelCount = Math.min(commenters.length, selectTopLevelCount(random));
+    for (let i = 0; i < topLevelCount; i++) {
+      // Select persona with some intelligence (not purely random)
+      const replyPersona = selectReplyPersona(commenters, post, random);
+      commenters.splice(commenters.indexOf(replyPersona), 1);
+
+      // Determine intent based on post type
+      const intent = selectIntent(post.post_type, random);
+
+      // Determine timing (hours after post) - more variable
+      addReply(replyPersona, intent, selectTiming(intent, random), null);
+    }
 
-    // Select tone and emotion
-    const { tone, emotion } = selectToneAndEmotion(replyPersona, intent, post.post_type);
+    // Grow branches: the OP answers a comment, the commenter answers the OP back.
+    // New replies are appended, so the loop also visits them and parents always come first.
+    for (let index = 0; index < thread.length; index++) {
+      const parent = thread[index];
+      if (parent.depth >= maxDepth) continue;
+
+      const parentIsOp = parent.persona_id === postPersonaId;
+      if (random() >= (parentIsOp ? 0.4 : 0.6)) continue; // OP answers most comments, fewer get a reply back
+
+      const responderId = parentIsOp
+        ? thread[parent.parent_index ?? index].persona_id // The commenter the OP answered
+        : postPersonaId;
+      const responder = personas.find(p => p.id === responderId);
+      if (!responder || responder.id === parent.persona_id) continue;
+      if (thread.filter(r => r.persona_id === responder.id).length >= MAX_REPLIES_PER_PERSONA_IN_THREAD) continue;
+
+      const intent = selectThreadIntent(!parentIsOp, random);
+      // Replies inside a thread come quicker - half the usual delay, in half hours
+      const delay = Math.max(0.5, Math.round(selectTiming(intent, random)) / 2);
+      addReply(responder, intent, parent.hours_after_post + delay, index);
+    }
 
-    replyPlans.set(post.id, {
-      persona_id: replyPersona.id,
-      intent,
-      hours_after_post: hoursAfterPost,
-      tone,
-      emotion,
-    } as EnhancedReplyPlan);
+    replyPlans.set(post.id, thread);
   });
 
   return replyPlans;
 }
 
-function selectIntent(postType: 'question' | 'story' | 'advice'): ReplyPlan['intent'] {
+function selectTopLevelCount(random: RandomSource): number {
+  const rand = random();
+  if (rand < 0.5) return 1;
+  if (rand < 0.85) return 2;
+  return 3;
+}
+
+/**
+ * Intent for a reply inside a thread: OPs clarify or build on their post, commenters push the exchange on
+ */
+function selectThreadIntent(isOriginalPoster: boolean, random: RandomSource): ReplyPlan['intent'] {
+  const intents: Array<ReplyPlan['intent']> = isOriginalPoster
+    ? ['clarify', 'add_value', 'ask']
+    : ['add_value', 'ask', 'challenge'];
+  return pickOne(intents, random);
+}
+
+function selectIntent(postType: 'question' | 'story' | 'advice', random: RandomSource): ReplyPlan['intent'] {
   // Map post types to likely reply intents
   const intentMap: Record<string, Array<ReplyPlan['intent']>> = {
     question: ['add_value', 'clarify', 'ask'],
@@ -80,7 +139,7 @@ function selectIntent(postType: 'question' | 'story' | 'advice'): ReplyPlan['int
   const intents = intentMap[postType] || ['add_value', 'ask', 'clarify'];
   // Weighted random selection
   const weights = [0.5, 0.3, 0.2]; // First intent most likely
-  const rand = Math.random();
+  const rand = random();
   let cumulative = 0;
 
   for (let i = 0; i < intents.length; i++) {
@@ -93,7 +152,7 @@ function selectIntent(postType: 'question' | 'story' | 'advice'): ReplyPlan['int
   return intents[0];
 }
 
-function selectTiming(intent: ReplyPlan['intent']): number {
+function selectTiming(intent: ReplyPlan['intent'], random: RandomSource): number {
   // Timing strategy based on intent - more variability for realism
   const timingMap: Record<ReplyPlan['intent'], { min: number; max: number }> = {
     ask: { min: 1, max: 6 }, // Quick questions
@@ -104,9 +163,9 @@ function selectTiming(intent: ReplyPlan['intent']): number {
 
   const range = timingMap[intent] || { min: 2, max: 6 };
   // Add more randomness - not all replies happen at exact intervals
-  const baseHours = range.min + Math.random() * (range.max - range.min);
+  const baseHours = range.min + random() * (range.max - range.min);
   // Add some variance (±30%)
-  const variance = baseHours * 0.3 * (Math.random() - 0.5);
+  const variance = baseHours * 0.3 * (random() - 0.5);
   return Math.max(0.5, Math.round((baseHours + variance) * 2) / 2); // Round to 0.5 hour increments
 }
 
@@ -116,7 +175,8 @@ function selectTiming(intent: ReplyPlan['intent']): number {
 export function selectToneAndEmotion(
   persona: Persona,
   intent: ReplyPlan['intent'],
-  postType: CalendarPost['post_type']
+  postType: CalendarPost['post_type'],
+  random: RandomSource = Math.random
 ): { tone: string; emotion: 'curious' | 'supportive' | 'skeptical' | 'excited' | 'neutral' } {
   const personaTone = persona.tone.toLowerCase();
   
@@ -146,33 +206,50 @@ export function selectToneAndEmotion(
   }
 
   // Allow some disagreement/challenge even for supportive personas (realistic)
-  if (Math.random() < 0.15 && intent !== 'challenge') {
+  if (random() < 0.15 && intent !== 'challenge') {
     emotion = 'skeptical';
   }
 
   return { tone: baseTone, emotion };
 }
 
+export interface ReplyThreadContext {
+  parent?: CalendarReply | null; // Comment being answered; omitted for top-level comments
+  isOriginalPoster?: boolean; // The persona wrote the post
+  subreddit?: Subreddit; // Where the post is; its rules on keywords and links apply to replies
+}
+
 /**
- * Generates realistic reply content using AI
+ * Generates realistic reply content using the configured LLM
  */
 export async function generateReplyContent(
   post: CalendarPost,
   persona: Persona,
   intent: ReplyPlan['intent'],
   tone: string,
-  emotion: string
+  emotion: string,
+  llm: LLMProvider = getLLMProviderForCompany(),
+  thread: ReplyThreadContext = {}
 ): Promise<string> {
-  try {
-    const prompt = `You are a Reddit user with the following persona:
+  const postContext = `Title: ${post.planned_title || post.topic}
+Body: ${post.planned_body || 'N/A'}
+Type: ${post.post_type}`;
+  const situation = thread.parent
+    ? `${thread.isOriginalPoster ? 'You wrote this Reddit post' : 'On this Reddit post'}:
+${postContext}
+
+You are replying to this comment${thread.isOriginalPoster ? ' on your post' : ''}:
+"${thread.parent.planned_content || ''}"`
+    : `You are replying to this Reddit post:
+${postContext}`;
+
+  const ruleNotes = thread.subreddit ? describeSubredditRules(resolveSubredditRules(thread.subreddit), 'reply') : [];
+  const prompt = `You are a Reddit user with the following persona:
 - Name: ${persona.name}
 - Tone: ${persona.tone}
 - Expertise: ${persona.expertise.join(', ')}
 
-You are replying to this Reddit post:
-Title: ${post.planned_title || post.topic}
-Body: ${post.planned_body || 'N/A'}
-Type: ${post.post_type}
+${situation}
 
 Your reply intent: ${intent}
 Your tone should be: ${tone}
@@ -186,32 +263,32 @@ Generate a realistic Reddit comment that:
 5. Is conversational (2-4 sentences typically)
 6. Does NOT mention products or services directly
 7. Could include mild disagreement or curiosity if appropriate
-8. Uses natural Reddit language (can be casual, use "I", share experiences)
+8. Uses natural Reddit language (can be casual, use "I", share experiences)${ruleNotes.map((note, i) => `\n${9 + i}. ${note}`).join('')}
 
 Return ONLY the comment text, no quotes or formatting.`;
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4-turbo-preview',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a Reddit user generating authentic, natural comments. Never sound promotional or salesy.',
-        },
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
+  return generateText(
+    llm,
+    {
+      task: 'reply',
+      system: 'You are a Reddit user generating authentic, natural comments. Never sound promotional or salesy.',
+      prompt,
       temperature: 0.8,
-      max_tokens: 200,
-    });
+      maxTokens: 200,
+    },
+    () => (thread.isOriginalPoster ? generateFallbackFollowUp(intent) : generateFallbackReply(intent, tone))
+  );
+}
 
-    const content = response.choices[0]?.message?.content?.trim();
-    return content || generateFallbackReply(intent, tone);
-  } catch (error) {
-    console.error('Error generating reply content:', error);
-    return generateFallbackReply(intent, tone);
-  }
+function generateFallbackFollowUp(intent: ReplyPlan['intent']): string {
+  const fallbacks: Record<ReplyPlan['intent'], string> = {
+    ask: 'Good point - did that hold up once the project got bigger, or did you have to change it?',
+    challenge: 'Fair, though in my case the constraint was time more than tooling. Still worth trying.',
+    add_value: 'Thanks, this helps. To add some context: the hardest part for me is keeping it consistent week to week.',
+    clarify: 'To clarify - I mean the day-to-day part of it, not the initial setup. Does that change your answer?',
+  };
+
+  return fallbacks[intent];
 }
 
 function generateFallbackReply(intent: ReplyPlan['intent'], tone: string): string {
@@ -226,41 +303,90 @@ function generateFallbackReply(intent: ReplyPlan['intent'], tone: string): strin
 }
 
 /**
- * Validates reply plans to ensure no coordination patterns
+ * Validates reply plans to ensure no coordination patterns. A dropped reply takes its
+ * descendants with it; surviving replies get their parent indexes and depths renumbered.
  */
 export function validateReplyPlans(
-  replyPlans: Map<string, ReplyPlan>,
+  replyPlans: Map<string, ReplyPlan[]>,
   posts: CalendarPost[],
-  postPersonaMap: Map<string, string>
-): Map<string, ReplyPlan> {
-  const validated = new Map<string, ReplyPlan>();
+  postPersonaMap: Map<string, string>,
+  maxDepth: number = DEFAULT_THREAD_DEPTH
+): Map<string, ReplyPlan[]> {
+  const validated = new Map<string, ReplyPlan[]>();
 
   // Track persona reply patterns
   const personaReplyCounts = new Map<string, number>();
 
-  replyPlans.forEach((plan, postId) => {
+  replyPlans.forEach((thread, postId) => {
     const post = posts.find(p => p.id === postId);
     if (!post) return;
 
     const postPersonaId = postPersonaMap.get(postId);
     if (!postPersonaId) return;
 
-    // Check: Persona cannot reply to own post
-    if (plan.persona_id === postPersonaId) {
-      return; // Skip this reply
-    }
+    const kept: ReplyPlan[] = [];
+    const keptIndex = new Map<number, number>(); // Index in the plan -> index in kept
+    const threadCounts = new Map<string, number>();
+
+    thread.forEach((plan, index) => {
+      // Check: Parent must come earlier in the thread and survive validation
+      let parent: ReplyPlan | null = null;
+      if (plan.parent_index !== null) {
+        const parentKeptIndex = plan.parent_index < index ? keptIndex.get(plan.parent_index) : undefined;
+        if (parentKeptIndex === undefined) return;
+        parent = kept[parentKeptIndex];
+      }
 
-    // Check: Limit replies per persona (max 3 per week)
-    const currentCount = personaReplyCounts.get(plan.persona_id) || 0;
-    if (currentCount >= 3) {
-      return; // Skip to avoid over-replying
-    }
+      // Check: Persona cannot comment on own post - the OP only answers comments
+      if (!parent && plan.persona_id === postPersonaId) {
+        return;
+      }
+
+      // Check: Persona cannot reply to itself
+      if (parent && parent.persona_id === plan.persona_id) {
+        return;
+      }
+
+      // Check: Thread depth
+      const depth = parent ? parent.depth + 1 : 1;
+      if (depth > maxDepth) {
+        return;
+      }
+
+      // Check: A reply cannot come before the comment it answers
+      if (parent && plan.hours_after_post <= parent.hours_after_post) {
+        return;
+      }
+
+      // Check: No persona dominates a thread
+      const threadCount = threadCounts.get(plan.persona_id) || 0;
+      if (threadCount >= MAX_REPLIES_PER_PERSONA_IN_THREAD) {
+        return;
+      }
 
-    // Check: No two personas reply to same post (only one reply per post)
-    // This is already handled by only creating one reply per post
+      // Check: Limit replies per persona on other personas' posts (max 3 per week)
+      const isFollowUp = plan.persona_id === postPersonaId;
+      const currentCount = personaReplyCounts.get(plan.persona_id) || 0;
+      if (!isFollowUp && currentCount >= MAX_WEEKLY_REPLIES_PER_PERSONA) {
+        return; // Skip to avoid over-replying
+      }
 
-    validated.set(postId, plan);
-    personaReplyCounts.set(plan.persona_id, currentCount + 1);
+      keptIndex.set(index, kept.length);
+      kept.push({
+        ...plan,
+        parent_index: parent ? kept.indexOf(parent) : null,
+        depth,
+        is_op_follow_up: isFollowUp,
+      });
+      threadCounts.set(plan.persona_id, threadCount + 1);
+      if (!isFollowUp) {
+        personaReplyCounts.set(plan.persona_id, currentCount + 1);
+      }
+    });
+
+    if (kept.length > 0) {
+      validated.set(postId, kept);
+    }
   });
 
   return validated;
@@ -269,7 +395,7 @@ export function validateReplyPlans(
 /**
  * Selects a persona to reply, considering expertise match and variety
  */
-function selectReplyPersona(availablePersonas: Persona[], post: CalendarPost): Persona {
+function selectReplyPersona(availablePersonas: Persona[], post: CalendarPost, random: RandomSource): Persona {
   // Score personas based on how well they match the post
   const scored = availablePersonas.map(persona => {
     let score = 0.5; // Base score
@@ -293,7 +419,7 @@ function selectReplyPersona(availablePersonas: Persona[], post: CalendarPost): P
   // Weighted random selection (favor higher scores but allow variety)
   scored.sort((a, b) => b.score - a.score);
   const topCandidates = scored.slice(0, Math.min(3, scored.length));
-  const selected = topCandidates[Math.floor(Math.random() * topCandidates.length)];
+  const selected = pickOne(topCandidates, random);
   
   return selected.persona;
 }
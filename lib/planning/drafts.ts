@@ -0,0 +1,282 @@
+/**
+ * Post Drafting Module
+ * Writes a title and body for each planned post in the persona's voice, fitted to the
+ * subreddit's culture and rules, the posting strategy and a per-type length budget.
+ * subtle_product drafts are checked so they never read as ads and disclose the writer's connection
+ * to any product they name, and drafts are checked against the subreddit's structured rules.
+ */
+
+import type { CalendarPost, Company, Persona, Subreddit } from '@/types';
+import { generateJSON, getLLMProviderForCompany, type LLMProvider } from '@/lib/llm';
+import { getPostTypeForStrategy, type PostingStrategy } from './strategy';
+import { pickOne, type RandomSource } from './random';
+import { checkDraftedPost, describeSubredditRules, pickFlair, resolveSubredditRules } from './subreddit-rules';
+import { brandTerms, checkDisclosure, findBrandMentions, hasDisclosure, type BrandCompany } from './brand';
+
+export interface PostDraft {
+  title: string;
+  body: string;
+}
+
+export interface LengthBudget {
+  titleMaxChars: number;
+  bodyMinWords: number;
+  bodyMaxWords: number;
+}
+
+// Questions stay short so people answer them; stories need room for the setup
+export const POST_LENGTH_BUDGETS: Record<CalendarPost['post_type'], LengthBudget> = {
+  question: { titleMaxChars: 120, bodyMinWords: 40, bodyMaxWords: 150 },
+  story: { titleMaxChars: 140, bodyMinWords: 120, bodyMaxWords: 300 },
+  advice: { titleMaxChars: 140, bodyMinWords: 100, bodyMaxWords: 250 },
+};
+
+const MAX_DRAFT_ATTEMPTS = 2; // Second attempt gets the ad or rule check's reasons as feedback
+
+export const CALL_TO_ACTION = [
+  'sign up', 'check out', 'check it out', 'free trial', 'try it', 'try now', 'get started', 'use code',
+  'promo code', 'discount code', 'link in', 'dm me', 'click here', 'subscribe', 'limited time',
+];
+
+const HYPE = [
+  'game changer', 'game-changer', 'best tool', 'must-have', 'must have', 'revolutionary', 'life-changing',
+  'highly recommend', '10x', 'blew my mind', 'look no further',
+];
+
+export interface AdCheckResult {
+  passed: boolean;
+  reasons: string[];
+}
+
+/**
+ * Flags drafts that read like advertising: links, calls to action, hype, naming the company
+ * more than the strategy allows (once in the body for subtle_product, never otherwise), or naming
+ * it without disclosing the writer's connection to it
+ */
+export function checkReadsLikeAd(
+  draft: PostDraft,
+  company: BrandCompany,
+  strategy: PostingStrategy
+): AdCheckResult {
+  const reasons: string[] = [];
+  const title = draft.title.toLowerCase();
+  const body = draft.body.toLowerCase();
+  const text = `${title}\n${body}`;
+
+  if (/https?:\/\/|www\.|\b[a-z0-9-]+\.(com|io|ai|app|co)\b/.test(text)) {
+    reasons.push('contains a link');
+  }
+
+  const ctas = CALL_TO_ACTION.filter(phrase => text.includes(phrase));
+  if (ctas.length > 0) {
+    reasons.push(`call to action: ${ctas.map(p => `"${p}"`).join(', ')}`);
+  }
+
+  const hype = HYPE.filter(phrase => text.includes(phrase));
+  if (hype.length > 0) {
+    reasons.push(`hype wording: ${hype.map(p => `"${p}"`).join(', ')}`);
+  }
+
+  const name = company.name.trim().toLowerCase();
+  if (name) {
+    const mentions = (text.match(new RegExp(`\\b${escapeRegExp(name)}\\b`, 'g')) || []).length;
+    const allowed = strategy === 'subtle_product' ? 1 : 0;
+    if (title.includes(name)) {
+      reasons.push('names the product in the title');
+    } else if (mentions > allowed) {
+      reasons.push(
+        allowed === 0
+          ? `mentions ${company.name} in a ${strategy} post`
+          : `mentions ${company.name} ${mentions} times (at most once)`
+      );
+    }
+  }
+
+  const brandMentions = findBrandMentions(`${draft.title}\n${draft.body}`, brandTerms(company));
+  if (strategy === 'subtle_product' && brandMentions.length > 0 && !hasDisclosure(draft.body)) {
+    reasons.push(`names ${brandMentions[0].text} without disclosing the connection`);
+  }
+
+  return { passed: reasons.length === 0, reasons };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Trims a draft to its budget: titles at a word boundary, bodies at the last sentence that fits
+ */
+export function fitToBudget(draft: PostDraft, budget: LengthBudget): PostDraft {
+  let title = draft.title.trim().replace(/^["']|["']$/g, '');
+  if (title.length > budget.titleMaxChars) {
+    title = title.slice(0, budget.titleMaxChars).replace(/\s+\S*$/, '').trim();
+  }
+
+  let body = draft.body.trim();
+  const words = body.split(/\s+/);
+  if (words.length > budget.bodyMaxWords) {
+    const truncated = words.slice(0, budget.bodyMaxWords).join(' ');
+    const lastSentence = Math.max(truncated.lastIndexOf('. '), truncated.lastIndexOf('? '), truncated.lastIndexOf('! '));
+    body = lastSentence > 0 ? truncated.slice(0, lastSentence + 1) : truncated;
+  }
+
+  return { title, body };
+}
+
+interface PostDraftParams {
+  post: CalendarPost;
+  persona: Persona;
+  subreddit: Subreddit;
+  company: Company;
+  llm?: LLMProvider; // Defaults to the company's configured provider
+  random?: RandomSource; // Picks fallback templates, defaults to Math.random
+}
+
+/**
+ * Drafts a post's title and body. Retries once with feedback when the draft reads like an ad
+ * or breaks the subreddit's rules, then falls back to a template that never names the product.
+ */
+export async function draftPostContent(params: PostDraftParams): Promise<PostDraft> {
+  const { post, persona, subreddit, company, random = Math.random } = params;
+  const llm = params.llm || getLLMProviderForCompany(company);
+  const strategy: PostingStrategy = post.posting_strategy || 'value';
+  const budget = POST_LENGTH_BUDGETS[post.post_type] || POST_LENGTH_BUDGETS.question;
+  const rules = resolveSubredditRules(subreddit);
+
+  let feedback = '';
+  for (let attempt = 1; attempt <= MAX_DRAFT_ATTEMPTS; attempt++) {
+    const draft = await generateJSON<PostDraft | null>(
+      llm,
+      {
+        task: 'post',
+        system: 'You are a long-time Reddit user writing your own post. You write like a person, never like a marketer.',
+        prompt: buildDraftPrompt(post, persona, subreddit, company, strategy, budget, feedback),
+        temperature: 0.8,
+        maxTokens: 700,
+      },
+      parsed => {
+        const title = typeof parsed?.title === 'string' ? parsed.title : '';
+        const body = typeof parsed?.body === 'string' ? parsed.body : '';
+        return title && body ? fitToBudget({ title, body }, budget) : null;
+      },
+      () => null
+    );
+    if (!draft) break; // Provider failed or returned nothing usable - retrying won't help
+
+    const adCheck = checkReadsLikeAd(draft, company, strategy);
+    if (!adCheck.passed) {
+      console.warn(`Draft for "${post.topic}" reads like an ad (attempt ${attempt}): ${adCheck.reasons.join('; ')}`);
+      feedback = `Your previous draft read like an ad (${adCheck.reasons.join('; ')}). Rewrite it so it doesn't.`;
+      continue;
+    }
+
+    // Flair is the planner's to set, so only the writing is checked here
+    const ruleViolations = [
+      ...checkDraftedPost(rules, {
+        planned_title: draft.title,
+        planned_body: draft.body,
+        flair: post.flair ?? pickFlair(rules, post.post_type),
+      }),
+      ...checkDisclosure(company, `${draft.title}\n${draft.body}`),
+    ];
+    if (ruleViolations.length > 0) {
+      console.warn(`Draft for "${post.topic}" breaks ${subreddit.name} rules (attempt ${attempt}): ${ruleViolations.join('; ')}`);
+      feedback = `Your previous draft broke the subreddit rules (${ruleViolations.join('; ')}). Rewrite it so it follows them.`;
+      continue;
+    }
+
+    return draft;
+  }
+
+  return fitToBudget(generateFallbackDraft(post, company, random), budget);
+}
+
+function buildDraftPrompt(
+  post: CalendarPost,
+  persona: Persona,
+  subreddit: Subreddit,
+  company: Company,
+  strategy: PostingStrategy,
+  budget: LengthBudget,
+  feedback: string
+): string {
+  const { contentStyle } = getPostTypeForStrategy(strategy);
+  const ruleNotes = describeSubredditRules(resolveSubredditRules(subreddit));
+  const productGuidance = strategy === 'subtle_product'
+    ? `You may mention ${company.name} (${company.description || 'a tool you use'}) at most ONCE, in the body, as one of several things you tried. If you name it, say in the same post that you work on it (e.g. "Full disclosure: I work at ${company.name}."). No links, no calls to action, no praise.`
+    : `Do NOT mention ${company.name} or any product or service by name.`;
+
+  return `Write a Reddit ${post.post_type} post for ${subreddit.name}.
+
+You are:
+- Name: ${persona.name}
+- Tone: ${persona.tone || 'conversational'}
+- Expertise: ${persona.expertise.join(', ') || 'general'}
+
+Subreddit culture: ${subreddit.culture_tone || 'casual'}
+Subreddit rules: ${subreddit.rules || 'None listed - follow normal Reddit etiquette'}${ruleNotes.map(note => `\n- ${note}`).join('')}
+
+Topic: ${post.topic}
+Goal (${strategy}): ${contentStyle}
+${productGuidance}
+
+Length:
+- Title: at most ${budget.titleMaxChars} characters
+- Body: ${budget.bodyMinWords}-${budget.bodyMaxWords} words
+${feedback ? `\n${feedback}\n` : ''}
+Write in first person, in your own voice, with specific details from your experience.
+${post.post_type === 'question' ? 'End by asking the community something concrete.' : ''}
+
+Return JSON: {"title": "...", "body": "..."}`;
+}
+
+/**
+ * Template drafts for when the LLM is unavailable. They never name the product,
+ * so they pass the ad check for every strategy.
+ */
+function generateFallbackDraft(post: CalendarPost, company: Company, random: RandomSource): PostDraft {
+  const topic = post.topic.replace(/[.?!]+$/, '');
+  // Stay on the pain point the topic is about, if it names one
+  const painPoint = company.pain_points.find(p => topic.toLowerCase().includes(p.toLowerCase()))
+    || (company.pain_points.length > 0 ? pickOne(company.pain_points, random) : 'this');
+  const audience = company.target_users[0] || 'people in my role';
+  const questionTitle = /^(how|what|why|when|where|is|are|do|does|has|have|anyone)\b/i.test(topic)
+    ? `${topic}?`
+    : `${topic} - how do you handle it?`;
+
+  const templates: Record<CalendarPost['post_type'], PostDraft[]> = {
+    question: [
+      {
+        title: questionTitle,
+        body: `I keep running into ${painPoint} and I'm curious how others deal with it. I've tried a couple of approaches but nothing has stuck so far. What does your process look like, and what would you do differently if you were starting over?`,
+      },
+      {
+        title: questionTitle,
+        body: `Lately ${painPoint} has been eating a lot of my week. Before I spend more time on it I wanted to ask here. How do you approach it, and is there anything you wish someone had told you earlier?`,
+      },
+    ],
+    story: [
+      {
+        title: topic,
+        body: `Some context first: I work with ${audience} and ${painPoint} used to be the part of the job I dreaded most. A few months ago I finally sat down and changed how I approach it. It wasn't one big fix - mostly small habits that added up. The biggest difference was planning the structure before touching any details. Curious whether anyone else went through something similar.`,
+      },
+      {
+        title: topic,
+        body: `This took me longer to figure out than I'd like to admit. For a long time ${painPoint} meant late nights and rushed work. What finally helped was treating it as its own step instead of something to squeeze in at the end. Happy to share more details if it's useful to anyone.`,
+      },
+    ],
+    advice: [
+      {
+        title: topic,
+        body: `A few things that have helped me with ${painPoint}:\n\n1. Decide what the end result needs to look like before starting.\n2. Reuse what already works instead of starting from scratch every time.\n3. Leave a buffer for feedback - it always takes longer than expected.\n\nNone of this is new, but doing it consistently made a real difference. What would you add?`,
+      },
+      {
+        title: topic,
+        body: `I've made most of the mistakes here, so here's what I'd tell myself a year ago about ${painPoint}. Start with the outline, not the details. Get a second pair of eyes early. And keep a short checklist for the things you always forget. Would love to hear what works for others.`,
+      },
+    ],
+  };
+
+  return pickOne(templates[post.post_type] || templates.question, random);
+}
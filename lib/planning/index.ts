@@ -1,214 +1,253 @@
-import { createServerClient } from '@/lib/supabase/client';
 import type {
-  Company,
   Persona,
   Subreddit,
-  SEOQuery,
   ContentCalendar,
   CalendarPost,
   CalendarReply,
-  TopicHistory,
   SubredditActivity,
+  TopicHistory,
+  WordingPattern,
   PlanningParams,
+  CalendarPlan,
   GeneratedTopic,
   SubredditScore,
 } from '@/types';
 import { generateTopics } from './topics';
 import { selectSubreddit, updateSubredditActivity } from './subreddits';
+import { pickFlair, resolveSubredditRules } from './subreddit-rules';
+import { fitsBrandBudget } from './brand';
 import { assignPersona } from './personas';
-import { planReplies, validateReplyPlans, generateReplyContent, selectToneAndEmotion, type EnhancedReplyPlan } from './conversations';
-import { assignWeeklyStrategy, getPostTypeForStrategy, getStrategyRationale } from './strategy';
+import {
+  planReplies,
+  validateReplyPlans,
+  generateReplyContent,
+  selectToneAndEmotion,
+  DEFAULT_THREAD_DEPTH,
+  MAX_THREAD_DEPTH,
+  type EnhancedReplyPlan,
+} from './conversations';
+import { assignWeeklyStrategy, getPostTypeForStrategy, getStrategyRationale, type PostingStrategy } from './strategy';
+import { draftPostContent } from './drafts';
+import { scheduleCalendar } from './schedule';
 import { checkSpamAndSafety } from './anti-spam';
+import { evaluateCalendarQuality } from './quality';
+import { createTopicSimilarityScorer } from './similarity';
+import {
+  applyWordingPatternDeltas,
+  buildWordingPatternDeltas,
+  collectPhraseUses,
+  type PhraseUse,
+  type WordingPatternDelta,
+} from './wording';
+import { getLLMProviderForCompany, type LLMProvider } from '@/lib/llm';
+import { createSupabaseRepository, type PlanningRepository } from '@/lib/repository';
+import { isCalendarLocked } from '@/lib/workflow';
+import { createSeededRandom, generateSeed, shuffle } from './random';
 import { addDays, startOfWeek, format } from 'date-fns';
 
 const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 
+// Placeholder id for a calendar that has not been persisted yet
+export const DRAFT_CALENDAR_ID = 'draft';
+
+export interface PlanningOptions {
+  repository?: PlanningRepository; // Defaults to the Supabase repository
+  llm?: LLMProvider; // Defaults to the company's configured provider
+  carryOver?: PlanningCarryOver; // State from earlier weeks planned in the same run (campaigns)
+}
+
+/**
+ * Planning state from earlier, not-yet-persisted weeks of a campaign, merged over what the
+ * repository returns so cooldowns, topic freshness and persona rotation span the whole run
+ */
+export interface PlanningCarryOver {
+  recentPosts: CalendarPost[]; // created_at set to each post's scheduled date
+  previousWeeksPosts: CalendarPost[];
+  activities: SubredditActivity[]; // Latest activity per subreddit
+  topicHistory: TopicHistory[];
+  wordingPatterns: WordingPatternDelta[]; // Phrase counts from earlier weeks in the run
+}
+
 /**
  * Main planning orchestrator - generates a complete weekly content calendar
+ * Plans everything in memory first, then persists the plan in one atomic step
  */
-export async function generateCalendar(params: PlanningParams): Promise<ContentCalendar> {
+export async function generateCalendar(
+  params: PlanningParams,
+  options: PlanningOptions = {}
+): Promise<ContentCalendar> {
+  const repository = options.repository || createSupabaseRepository();
+  const plan = await planCalendar(params, { ...options, repository });
+
+  const calendar = await repository.saveCalendarPlan(plan);
+  console.log(`Persisted calendar ${calendar.id}: ${plan.posts.length} posts, ${plan.replies.length} replies`);
+  return calendar;
+}
+
+/**
+ * Builds a complete weekly plan (posts, replies, strategies, spam result, quality score)
+ * without writing anything. Used directly by the preview endpoint.
+ */
+export async function planCalendar(
+  params: PlanningParams,
+  options: PlanningOptions = {}
+): Promise<CalendarPlan> {
   const { company_id, week_start_date, posts_per_week } = params;
-  const supabase = createServerClient();
+  const repository = options.repository || createSupabaseRepository();
+
+  const threadDepth = params.thread_depth ?? DEFAULT_THREAD_DEPTH;
+  if (!Number.isInteger(threadDepth) || threadDepth < 1 || threadDepth > MAX_THREAD_DEPTH) {
+    throw new Error(`thread_depth must be 1-${MAX_THREAD_DEPTH}`);
+  }
+
+  // Every random choice below draws from this PRNG, so the same seed replays the same plan
+  const seed = params.seed ?? generateSeed();
+  const random = createSeededRandom(seed);
+  console.log(`Planning with seed ${seed}`);
 
   // 1. Load all required data
-  const { data: companyData } = await supabase
-    .from('companies')
-    .select('*')
-    .eq('id', company_id)
-    .single();
-  
-  // Type assertion for company
-  type CompanyType = {
-    id: string;
-    name: string;
-    target_users: string[];
-    pain_points: string[];
-    tone_positioning?: string;
-    description?: string;
-    [key: string]: any;
-  };
-  if (!companyData) {
+  const company = await repository.getCompany(company_id);
+  if (!company) {
     throw new Error('Company not found');
   }
-  
-  const company = companyData as CompanyType;
-
-  const { data: personasData } = await supabase
-    .from('personas')
-    .select('*')
-    .eq('company_id', company_id);
 
-  if (!personasData || personasData.length === 0) {
+  const personas = await repository.listPersonas(company_id);
+  if (personas.length === 0) {
     throw new Error('No personas found for company');
   }
-  
-  // Type assertion for personas
-  const personas = personasData as Persona[];
 
-  const { data: subredditsData } = await supabase
-    .from('subreddits')
-    .select('*')
-    .eq('company_id', company_id);
-
-  if (!subredditsData || subredditsData.length === 0) {
+  const subreddits = await repository.listSubreddits(company_id);
+  if (subreddits.length === 0) {
     throw new Error('No subreddits found for company');
   }
-  
-  // Type assertion for subreddits
-  const subreddits = subredditsData as Subreddit[];
 
-  const { data: seoQueries } = await supabase
-    .from('seo_queries')
-    .select('*')
-    .eq('company_id', company_id)
-    .order('priority', { ascending: false });
+  const seoQueries = await repository.listSEOQueries(company_id);
 
-  // Load topic history
-  const { data: topicHistory } = await supabase
-    .from('topic_history')
-    .select('*')
-    .eq('company_id', company_id);
+  // Load topic history (topics used earlier in the run come first so they count as recent)
+  const carryOver = options.carryOver;
+  const carriedTopics = new Set(carryOver?.topicHistory.map(t => t.topic) || []);
+  const topicHistory = [
+    ...(carryOver?.topicHistory || []),
+    ...(await repository.listTopicHistory(company_id)).filter(t => !carriedTopics.has(t.topic)),
+  ];
 
   // Load subreddit activities for the week
   const weekStart = startOfWeek(new Date(week_start_date), { weekStartsOn: 0 });
   const weekStartStr = format(weekStart, 'yyyy-MM-dd');
 
-  const { data: activities } = await supabase
-    .from('subreddit_activity')
-    .select('*')
-    .eq('company_id', company_id)
-    .eq('week_start_date', weekStartStr);
+  const activities = await repository.listSubredditActivity(company_id, weekStartStr);
 
   // Load recent posts (last 7 days) for persona rotation
   // Get all calendars for this company, then get their posts
   const sevenDaysAgo = addDays(weekStart, -7);
-  const { data: recentCalendars } = await supabase
-    .from('content_calendars')
-    .select('id')
-    .eq('company_id', company_id)
-    .gte('created_at', sevenDaysAgo.toISOString());
-
-  // Type assertion for recentCalendars
-  type RecentCalendarType = { id: string; [key: string]: any };
-  const recentCalendarsData = (recentCalendars || []) as RecentCalendarType[];
-  const recentCalendarIds = recentCalendarsData.map(c => c.id);
-  let recentPosts: any[] = [];
-  if (recentCalendarIds.length > 0) {
-    const { data: postsData } = await supabase
-      .from('calendar_posts')
-      .select('*')
-      .in('calendar_id', recentCalendarIds);
-    recentPosts = postsData || [];
-  }
+  // The calendar being regenerated is replaced on save, so its old posts don't count
+  const recentCalendars = (await repository.listCalendars(company_id, { createdSince: sevenDaysAgo }))
+    .filter(c => c.id !== params.existing_calendar_id);
+  const recentPosts = [
+    ...(await repository.listPosts(recentCalendars.map(c => c.id))),
+    ...(carryOver?.recentPosts || []),
+  ];
+
+  // One provider for the whole run, selected by company settings or environment
+  const llm = options.llm || getLLMProviderForCompany(company);
+  console.log(`Using LLM provider ${llm.name} (${llm.model})`);
+
+  // One similarity scorer for generation and the spam check, so topics are embedded once
+  const similarity = createTopicSimilarityScorer({
+    llm,
+    company,
+    known: await repository.listTopicSimilarities(company_id),
+  });
 
   // 2. Generate topics
   const generatedTopics = await generateTopics({
-    company: company as Company,
-    seoQueries: (seoQueries || []) as SEOQuery[],
-    topicHistory: (topicHistory || []) as TopicHistory[],
+    company,
+    seoQueries,
+    topicHistory,
     count: posts_per_week + 5, // Generate extra for filtering
+    theme: params.theme,
+    llm,
+    similarity,
   });
 
   console.log(`Generated ${generatedTopics.length} topics for ${posts_per_week} posts`);
   
   if (generatedTopics.length === 0) {
-    throw new Error('No topics were generated. Check OpenAI API key and company configuration.');
+    throw new Error('No topics were generated. Check LLM provider settings and company configuration.');
   }
 
-  // 3. Create calendar (or use existing)
+  // Seeded tie-break: shuffle, then stable-sort by relevance so equal scores don't always keep LLM order
+  const orderedTopics = shuffle(generatedTopics, random)
+    .sort((a, b) => b.relevance_score - a.relevance_score);
+  await similarity.prepare(orderedTopics.map(t => t.topic));
+
+  // 3. Draft calendar (or use existing)
   let calendar: ContentCalendar;
+  let replacedPhrases: PhraseUse[] = [];
   if (params.existing_calendar_id) {
-    const { data: existingCalendar, error: calendarError } = await supabase
-      .from('content_calendars')
-      .select('*')
-      .eq('id', params.existing_calendar_id)
-      .single();
-
-    if (calendarError || !existingCalendar) {
-      throw new Error(`Failed to find existing calendar: ${calendarError?.message}`);
+    const existingCalendar = await repository.getCalendar(params.existing_calendar_id);
+    if (!existingCalendar) {
+      throw new Error(`Failed to find existing calendar: ${params.existing_calendar_id}`);
     }
-    calendar = existingCalendar as ContentCalendar;
-  } else {
-    // Cast supabase client to bypass strict typing for inserts
-    const { data: newCalendar, error: calendarError } = await (supabase as any)
-      .from('content_calendars')
-      .insert({
-        company_id,
-        week_start_date: weekStartStr,
-        posts_per_week,
-        status: 'draft',
-      })
-      .select()
-      .single();
-
-    if (calendarError || !newCalendar) {
-      throw new Error(`Failed to create calendar: ${calendarError?.message}`);
+    if (isCalendarLocked(existingCalendar.status)) {
+      throw new Error(`Calendar is ${existingCalendar.status}; reopen it before regenerating posts`);
     }
-    calendar = newCalendar as ContentCalendar;
+
+    // Record the seed this regeneration used
+    calendar = { ...existingCalendar, seed };
+
+    // The posts being replaced no longer count towards phrase usage
+    const replacedPosts = await repository.listPosts([existingCalendar.id]);
+    const replacedReplies = await repository.listReplies(replacedPosts.map(p => p.id));
+    replacedPhrases = collectPhraseUses(replacedPosts, replacedReplies, existingCalendar.week_start_date);
+  } else {
+    calendar = {
+      id: DRAFT_CALENDAR_ID,
+      company_id,
+      week_start_date: weekStartStr,
+      posts_per_week,
+      status: 'draft',
+      seed,
+      created_at: new Date().toISOString(),
+    };
+  }
+  if (params.campaign_id) {
+    calendar = { ...calendar, campaign_id: params.campaign_id, campaign_week: params.campaign_week ?? null };
   }
 
   // 4. Plan posts for each day of the week with strategy
   const posts: CalendarPost[] = [];
   const postPersonaMap = new Map<string, string>();
-  const usedTopics = new Set<string>();
+  const topicHistoryUpdates: CalendarPlan['topic_history'] = [];
+  const usedTopics = new Set<string>(carriedTopics); // Never repeat a topic within a campaign
   const dayPosts = distributePostsAcrossWeek(posts_per_week);
   
   // Assign posting strategies to days
-  const strategyMap = assignWeeklyStrategy(posts_per_week, dayPosts);
+  const strategyMap = assignWeeklyStrategy(posts_per_week, dayPosts, random, params.strategy_mix);
+
+  // Unused, and not a rewording of a topic already planned this week
+  const isFreshTopic = (candidate: GeneratedTopic) =>
+    !usedTopics.has(candidate.topic) && !posts.some(p => similarity.isSimilar(p.topic, candidate.topic));
 
   let topicIndex = 0;
-  // Type assertion for activities
-  type ActivityType = {
-    subreddit_id: string;
-    [key: string]: any;
-  };
-  const activitiesData = (activities || []) as ActivityType[];
   const activitiesMap = new Map<string, SubredditActivity>();
-  activitiesData.forEach(a => {
-    activitiesMap.set(a.subreddit_id, a as SubredditActivity);
+  // Carried activity holds the previous week's last post per subreddit, so cooldowns span weeks
+  carryOver?.activities.forEach(a => {
+    activitiesMap.set(a.subreddit_id, a);
+  });
+  activities.forEach(a => {
+    activitiesMap.set(a.subreddit_id, a);
   });
   
   // Load previous weeks' posts for spam checking
-  const { data: previousCalendars } = await supabase
-    .from('content_calendars')
-    .select('id')
-    .eq('company_id', company_id)
-    .lt('week_start_date', weekStartStr)
-    .order('week_start_date', { ascending: false })
-    .limit(4); // Last 4 weeks
-    
-  // Type assertion for previousCalendars
-  type PreviousCalendarType = { id: string; [key: string]: any };
-  const previousCalendarsData = (previousCalendars || []) as PreviousCalendarType[];
-  const previousCalendarIds = previousCalendarsData.map(c => c.id);
-  let previousWeeksPosts: CalendarPost[] = [];
-  if (previousCalendarIds.length > 0) {
-    const { data: prevPosts } = await supabase
-      .from('calendar_posts')
-      .select('*')
-      .in('calendar_id', previousCalendarIds);
-    previousWeeksPosts = (prevPosts || []) as CalendarPost[];
-  }
+  const previousCalendars = await repository.listCalendars(company_id, {
+    weekStartBefore: weekStartStr,
+    limit: 4, // Last 4 weeks
+  });
+  const previousWeeksPosts = [
+    ...(await repository.listPosts(previousCalendars.map(c => c.id))),
+    ...(carryOver?.previousWeeksPosts || []),
+  ];
 
   console.log(`Planning ${posts_per_week} posts across week. Distribution:`, dayPosts);
   console.log(`Distribution breakdown:`, {
@@ -222,7 +261,7 @@ export async function generateCalendar(params: PlanningParams): Promise<ContentC
   });
   let skippedCount = 0;
   let skipReasons: string[] = [];
-  const postsByDayCreated = [0, 0, 0, 0, 0, 0, 0]; // Track actual posts created per day
+  const postsByDayCreated = [0, 0, 0, 0, 0, 0, 0]; // Track actual posts planned per day
 
   for (let dayOfWeek = 0; dayOfWeek < 7; dayOfWeek++) {
     const postsForDay = dayPosts[dayOfWeek];
@@ -244,9 +283,9 @@ export async function generateCalendar(params: PlanningParams): Promise<ContentC
       
       // Find next available topic that matches strategy
       let topic: GeneratedTopic | null = null;
-      while (topicIndex < generatedTopics.length) {
-        const candidate = generatedTopics[topicIndex];
-        if (!usedTopics.has(candidate.topic) && preferredTypes.includes(candidate.post_type)) {
+      while (topicIndex < orderedTopics.length) {
+        const candidate = orderedTopics[topicIndex];
+        if (isFreshTopic(candidate) && preferredTypes.includes(candidate.post_type)) {
           topic = candidate;
           usedTopics.add(candidate.topic);
           topicIndex++;
@@ -255,11 +294,15 @@ export async function generateCalendar(params: PlanningParams): Promise<ContentC
         topicIndex++;
       }
       
-      // Fallback: find any unused topic
+      // Fallback: find any fresh topic, then any unused one
+      if (!topic) {
+        topic = orderedTopics.find(isFreshTopic) || null;
+        if (topic) usedTopics.add(topic.topic);
+      }
       if (!topic) {
         let fallbackIndex = 0;
-        while (fallbackIndex < generatedTopics.length) {
-          const candidate = generatedTopics[fallbackIndex];
+        while (fallbackIndex < orderedTopics.length) {
+          const candidate = orderedTopics[fallbackIndex];
           if (!usedTopics.has(candidate.topic)) {
             topic = candidate;
             usedTopics.add(candidate.topic);
@@ -279,35 +322,54 @@ export async function generateCalendar(params: PlanningParams): Promise<ContentC
         };
       }
 
-      // Select subreddit
+      // Select subreddit (only ones whose rules allow this post)
       let subreddit: Subreddit | null = null;
       let selectedSubreddit: SubredditScore | null = null;
-      
-      const subredditScores = selectSubreddit({
-        subreddits: subreddits as Subreddit[],
+      let postStrategy = strategy;
+      const selectFor = (candidate: GeneratedTopic, candidateStrategy: PostingStrategy) => selectSubreddit({
+        subreddits,
         activities: Array.from(activitiesMap.values()),
-        topic,
+        topic: candidate,
         targetDate,
         companyId: company_id,
+        dayOfWeek,
+        strategy: candidateStrategy,
+        earlierPosts: [...previousWeeksPosts, ...posts],
       });
 
+      let subredditScores = selectFor(topic, postStrategy);
+      if (subredditScores.length === 0 && postStrategy === 'subtle_product') {
+        // No subreddit takes more self-promotion - keep the slot as a value post
+        console.warn(`No subreddit allows a subtle_product post on ${DAYS[dayOfWeek]}, planning a value post instead`);
+        postStrategy = 'value';
+        subredditScores = selectFor(topic, postStrategy);
+      }
+      if (subredditScores.length === 0) {
+        // Every subreddit's rules exclude this topic; try an unused topic they allow (e.g. another post type)
+        const rejected: GeneratedTopic = topic;
+        const alternative = orderedTopics.find(candidate =>
+          candidate !== rejected && isFreshTopic(candidate) && selectFor(candidate, postStrategy).length > 0
+        );
+        if (alternative) {
+          usedTopics.delete(rejected.topic);
+          usedTopics.add(alternative.topic);
+          topic = alternative;
+          subredditScores = selectFor(topic, postStrategy);
+        }
+      }
+
       if (subredditScores.length > 0) {
         selectedSubreddit = subredditScores[0];
         subreddit = subreddits.find(s => s.id === selectedSubreddit!.subreddit_id) || null;
       }
-      
-      // Aggressive fallback: use first available subreddit if selection failed
-      if (!subreddit && subreddits.length > 0) {
+
+      if (!subreddit) {
         skippedCount++;
-        const reason = `No suitable subreddit found for topic "${topic.topic}", using fallback`;
+        const reason = subreddits.length === 0
+          ? 'No subreddits available at all'
+          : `No subreddit's rules allow a post on ${DAYS[dayOfWeek]} for topic "${topic.topic}"`;
         skipReasons.push(reason);
-        console.warn(`${reason}. Available subreddits: ${subreddits.length}`);
-        subreddit = subreddits[0];
-        console.warn(`Using fallback subreddit: ${subreddit.name}`);
-      }
-      
-      if (!subreddit) {
-        console.error('No subreddits available at all');
+        console.warn(reason);
         continue;
       }
 
@@ -316,7 +378,11 @@ export async function generateCalendar(params: PlanningParams): Promise<ContentC
       const personaAssignment = assignPersona({
         personas: personas,
         topic,
-        recentPosts: (recentPosts || []) as CalendarPost[],
+        // Include this week's planned posts, dated by their scheduled day, so rotation applies within the week
+        recentPosts: [
+          ...recentPosts,
+          ...posts.map(p => ({ ...p, created_at: addDays(weekStart, p.day_of_week).toISOString() })),
+        ],
         targetDate,
         subredditId: subreddit.id,
       });
@@ -340,75 +406,37 @@ export async function generateCalendar(params: PlanningParams): Promise<ContentC
         continue;
       }
 
-      // Create post with strategy
-      const postData: any = {
+      // A subtle_product post names the company once; past the brand budget it becomes a value post
+      const rules = resolveSubredditRules(subreddit);
+      if (
+        postStrategy === 'subtle_product' &&
+        !fitsBrandBudget(company.brand_budget, rules, posts, { subreddit_id: subreddit.id, persona_id: persona.id })
+      ) {
+        console.warn(`Brand budget leaves no room for another product mention (${subreddit.name}, ${persona.name}), planning a value post instead`);
+        postStrategy = 'value';
+      }
+
+      // Plan post with strategy
+      const post: CalendarPost = {
+        id: `draft-post-${posts.length + 1}`,
         calendar_id: calendar.id,
         day_of_week: dayOfWeek,
         subreddit_id: subreddit.id,
         topic: topic.topic,
         persona_id: persona.id,
         post_type: topic.post_type,
+        planned_title: null,
+        planned_body: null,
         order_in_day: i,
-        posting_strategy: strategy, // This column may not exist - will be handled in error
+        posting_strategy: postStrategy,
+        flair: pickFlair(rules, topic.post_type),
+        created_at: new Date().toISOString(),
       };
 
-      console.log(`Creating post for day ${dayOfWeek}, calendar_id: ${calendar.id}, topic: ${topic.topic.substring(0, 50)}`);
-
-      // Cast supabase client to bypass strict typing for inserts
-      const { data: post, error: postError } = await (supabase as any)
-        .from('calendar_posts')
-        .insert(postData)
-        .select()
-        .single();
-
-      if (postError || !post) {
-        // If error is about posting_strategy column, try without it
-        if (postError?.message?.includes('posting_strategy') || postError?.code === '42703') {
-          console.warn('posting_strategy column not found, retrying without it');
-          // Cast supabase client to bypass strict typing for inserts
-          const { data: retryPost, error: retryError } = await (supabase as any)
-            .from('calendar_posts')
-            .insert({
-              calendar_id: calendar.id,
-              day_of_week: dayOfWeek,
-              subreddit_id: subreddit.id,
-              topic: topic.topic,
-              persona_id: persona.id,
-              post_type: topic.post_type,
-              order_in_day: i,
-            })
-            .select()
-            .single();
-          
-          if (retryError || !retryPost) {
-            console.error('Failed to create post even without posting_strategy:', retryError);
-            console.error('Post data attempted:', { 
-              calendar_id: calendar.id, 
-              topic: topic.topic.substring(0, 50),
-              subreddit_id: subreddit.id,
-              persona_id: persona.id 
-            });
-            continue;
-          }
-          
-          posts.push(retryPost as CalendarPost);
-          postPersonaMap.set(retryPost.id, persona.id);
-        } else {
-          console.error('Failed to create post:', postError);
-          console.error('Post data attempted:', { 
-            calendar_id: calendar.id, 
-            topic: topic.topic.substring(0, 50),
-            subreddit_id: subreddit.id,
-            persona_id: persona.id 
-          });
-          continue;
-        }
-      } else {
-        console.log(`✓ Successfully created post ${post.id} for day ${dayOfWeek} (${DAYS[dayOfWeek]})`);
-        posts.push(post as CalendarPost);
-        postPersonaMap.set(post.id, persona.id);
-        postsByDayCreated[dayOfWeek]++;
-      }
+      console.log(`✓ Planned post ${post.id} for day ${dayOfWeek} (${DAYS[dayOfWeek]}): ${topic.topic.substring(0, 50)}`);
+      posts.push(post);
+      postPersonaMap.set(post.id, persona.id);
+      postsByDayCreated[dayOfWeek]++;
 
       // Update subreddit activity
       const updatedActivity = updateSubredditActivity(
@@ -420,24 +448,19 @@ export async function generateCalendar(params: PlanningParams): Promise<ContentC
       activitiesMap.set(subreddit.id, updatedActivity);
 
       // Update topic history
-      // Cast supabase client to bypass strict typing for upserts
-      await (supabase as any)
-        .from('topic_history')
-        .upsert({
-          company_id,
-          topic: topic.topic,
-          last_used_date: format(targetDate, 'yyyy-MM-dd'),
-          usage_count: 1,
-        }, {
-          onConflict: 'company_id,topic',
-        });
+      topicHistoryUpdates.push({
+        company_id,
+        topic: topic.topic,
+        last_used_date: format(targetDate, 'yyyy-MM-dd'),
+        usage_count: 1,
+      });
     }
   }
 
-  console.log(`\n=== Post Creation Summary ===`);
-  console.log(`Total posts created: ${posts.length} out of ${posts_per_week} planned`);
+  console.log(`\n=== Post Planning Summary ===`);
+  console.log(`Total posts planned: ${posts.length} out of ${posts_per_week} requested`);
   console.log(`Skipped posts: ${skippedCount}`);
-  console.log(`Posts by day created:`, {
+  console.log(`Posts by day planned:`, {
     Sunday: postsByDayCreated[0],
     Monday: postsByDayCreated[1],
     Tuesday: postsByDayCreated[2],
@@ -446,7 +469,7 @@ export async function generateCalendar(params: PlanningParams): Promise<ContentC
     Friday: postsByDayCreated[5],
     Saturday: postsByDayCreated[6],
   });
-  console.log(`Posts by day planned:`, {
+  console.log(`Posts by day requested:`, {
     Sunday: dayPosts[0],
     Monday: dayPosts[1],
     Tuesday: dayPosts[2],
@@ -456,123 +479,223 @@ export async function generateCalendar(params: PlanningParams): Promise<ContentC
     Saturday: dayPosts[6],
   });
   
-  // Verify posts were actually saved to database
-  const { data: verifyPosts } = await supabase
-    .from('calendar_posts')
-    .select('id, day_of_week')
-    .eq('calendar_id', calendar.id);
-  console.log(`Verification: Found ${verifyPosts?.length || 0} posts in database for calendar ${calendar.id}`);
-  
-  // Group by day for verification
-  const verifyByDay = [0, 0, 0, 0, 0, 0, 0];
-  // Type assertion for verifyPosts
-  type PostType = {
-    day_of_week: number;
-    [key: string]: any;
-  };
-  const verifyPostsData = (verifyPosts || []) as PostType[];
-  verifyPostsData.forEach(p => {
-    if (p.day_of_week >= 0 && p.day_of_week <= 6) {
-      verifyByDay[p.day_of_week]++;
-    }
-  });
-  console.log(`Posts in database by day:`, {
-    Sunday: verifyByDay[0],
-    Monday: verifyByDay[1],
-    Tuesday: verifyByDay[2],
-    Wednesday: verifyByDay[3],
-    Thursday: verifyByDay[4],
-    Friday: verifyByDay[5],
-    Saturday: verifyByDay[6],
-  });
-  
   if (posts.length === 0) {
     const errorMsg = skipReasons.length > 0 
-      ? `Failed to create any posts. Reasons: ${skipReasons.slice(0, 3).join('; ')}`
-      : 'Failed to create any posts. Check console logs for database errors.';
+      ? `Failed to plan any posts. Reasons: ${skipReasons.slice(0, 3).join('; ')}`
+      : 'Failed to plan any posts. Check console logs for details.';
     console.error('Skip reasons:', skipReasons.slice(0, 5));
     throw new Error(errorMsg);
   }
 
-  // 5. Plan replies with enhanced content generation
+  // 5. Draft titles and bodies in each persona's voice (replies below respond to these)
+  for (const post of posts) {
+    const persona = personas.find(p => p.id === post.persona_id);
+    const subreddit = subreddits.find(s => s.id === post.subreddit_id);
+    if (!persona || !subreddit) continue;
+
+    const draft = await draftPostContent({ post, persona, subreddit, company, llm, random });
+    post.planned_title = draft.title;
+    post.planned_body = draft.body;
+  }
+
+  // 6. Plan threaded conversations with enhanced content generation
   const replyPlans = planReplies({
     posts,
-    personas: personas as Persona[],
+    personas,
     postPersonaMap,
+    random,
+    maxDepth: threadDepth,
   });
 
-  const validatedReplies = validateReplyPlans(replyPlans, posts, postPersonaMap);
+  const validatedReplies = validateReplyPlans(replyPlans, posts, postPersonaMap, threadDepth);
 
-  // 6. Create replies in database with generated content
+  // 7. Draft replies with generated content, parents first so each reply can answer its parent
   const replies: CalendarReply[] = [];
-  for (const [postId, plan] of validatedReplies.entries()) {
+  for (const [postId, thread] of validatedReplies.entries()) {
     const post = posts.find(p => p.id === postId);
     if (!post) continue;
-    
-    const replyPersona = personas.find(p => p.id === plan.persona_id);
-    if (!replyPersona) continue;
-    
-    // Generate realistic reply content
-    const enhancedPlan = plan as EnhancedReplyPlan;
-    const replyContent = await generateReplyContent(
-      post,
-      replyPersona,
-      plan.intent,
-      enhancedPlan.tone || 'helpful',
-      enhancedPlan.emotion || 'supportive'
-    );
-
-    // Cast supabase client to bypass strict typing for inserts
-    const { data: reply, error: replyError } = await (supabase as any)
-      .from('calendar_replies')
-      .insert({
+
+    const threadReplies: Array<CalendarReply | undefined> = [];
+    for (const plan of thread) {
+      const replyPersona = personas.find(p => p.id === plan.persona_id);
+      const parent = plan.parent_index === null ? null : threadReplies[plan.parent_index];
+      if (!replyPersona || parent === undefined) {
+        threadReplies.push(undefined); // Drops the branch below it too
+        continue;
+      }
+
+      // Generate realistic reply content
+      const enhancedPlan = plan as EnhancedReplyPlan;
+      const replyContent = await generateReplyContent(
+        post,
+        replyPersona,
+        plan.intent,
+        enhancedPlan.tone || 'helpful',
+        enhancedPlan.emotion || 'supportive',
+        llm,
+        { parent, isOriginalPoster: plan.is_op_follow_up, subreddit: subreddits.find(s => s.id === post.subreddit_id) }
+      );
+
+      const reply: CalendarReply = {
+        id: `draft-reply-${replies.length + 1}`,
         post_id: postId,
+        parent_reply_id: parent?.id ?? null,
         persona_id: plan.persona_id,
         intent: plan.intent,
         order_after_post: plan.hours_after_post,
         planned_content: replyContent,
         tone: enhancedPlan.tone || 'helpful',
         emotion: enhancedPlan.emotion || 'supportive',
-      })
-      .select()
-      .single();
-
-    if (!replyError && reply) {
-      replies.push(reply as CalendarReply);
+        created_at: new Date().toISOString(),
+      };
+      threadReplies.push(reply);
+      replies.push(reply);
     }
   }
   
-  // 7. Run spam and safety checks
+  // 8. Pin posts and replies to concrete times in the company's timezone
+  scheduleCalendar(posts, replies, {
+    weekStartDate: weekStartStr,
+    timeZone: company.timezone,
+    subreddits,
+    random,
+  });
+
+  // 9. Run spam and safety checks against phrase history from earlier weeks
+  const wordingDeltas = buildWordingPatternDeltas(
+    company_id,
+    collectPhraseUses(posts, replies, weekStartStr),
+    replacedPhrases
+  );
+  let wordingHistory: WordingPattern[] = await repository.listWordingPatterns(company_id);
+  wordingHistory = applyWordingPatternDeltas(wordingHistory, [
+    ...(carryOver?.wordingPatterns || []),
+    ...buildWordingPatternDeltas(company_id, [], replacedPhrases),
+  ]);
+
+  await similarity.prepare([...posts, ...previousWeeksPosts].map(p => p.topic));
   const spamCheck = checkSpamAndSafety(
     posts,
     replies,
     subreddits,
-    personas as Persona[],
-    previousWeeksPosts
+    personas,
+    previousWeeksPosts,
+    { similarity, wordingHistory, company }
   );
   
-  // Update calendar with spam warnings
-  if (spamCheck.warnings.length > 0) {
-    // Cast supabase client to bypass strict typing for updates
-    await (supabase as any)
-      .from('content_calendars')
-      .update({
-        spam_warnings: spamCheck.warnings,
-      })
-      .eq('id', calendar.id);
+  // 10. Score the plan
+  const quality = evaluateCalendarQuality({
+    calendar,
+    posts,
+    replies,
+    subreddits,
+    personas,
+    previousWeeksPosts,
+    similarity,
+    wordingHistory,
+    company,
+  });
+
+  return {
+    existing_calendar_id: params.existing_calendar_id || null,
+    calendar: {
+      ...calendar,
+      spam_warnings: spamCheck.warnings,
+      quality_score: quality,
+      quality_feedback: quality.issues,
+    },
+    posts,
+    replies,
+    topic_history: topicHistoryUpdates,
+    topic_similarity: similarity.flaggedPairs().map(pair => ({ company_id, ...pair })),
+    wording_patterns: wordingDeltas,
+    // Carried rows belong to earlier weeks and are saved with those weeks
+    subreddit_activity: Array.from(activitiesMap.values()).filter(a => !carryOver?.activities.includes(a)),
+    spam_risk_score: spamCheck.riskScore,
+    spam_passed: spamCheck.passed,
+    quality,
+  };
+}
+
+/**
+ * Re-runs the spam check and quality score for a plan a client sent back (a preview being
+ * committed), so what gets stored is the server's verdict, not the client's. The calendar
+ * starts as a draft whatever status the plan carries.
+ * earlierPlans are the unsaved weeks before this one in the same campaign.
+ */
+export async function rescoreCalendarPlan(
+  plan: CalendarPlan,
+  repository: PlanningRepository = createSupabaseRepository(),
+  earlierPlans: CalendarPlan[] = []
+): Promise<CalendarPlan> {
+  const { company_id, week_start_date } = plan.calendar;
+  const company = await repository.getCompany(company_id);
+  if (!company) {
+    throw new Error('Company not found');
   }
+  const subreddits = await repository.listSubreddits(company_id);
+  const personas = await repository.listPersonas(company_id);
+
+  const previousCalendars = (await repository.listCalendars(company_id, {
+    weekStartBefore: week_start_date,
+    limit: 4, // Same window the planner uses
+  })).filter(c => c.id !== plan.existing_calendar_id);
+  const previousWeeksPosts = [
+    ...(await repository.listPosts(previousCalendars.map(c => c.id))),
+    ...earlierPlans.slice(-4).flatMap(p => p.posts),
+  ];
+
+  // No LLM call: TF-IDF plus the pairs flagged (possibly by embeddings) earlier
+  const similarity = createTopicSimilarityScorer({
+    company,
+    known: await repository.listTopicSimilarities(company_id),
+  });
 
-  // 8. Update subreddit activities
-  for (const activity of activitiesMap.values()) {
-    // Cast supabase client to bypass strict typing for upserts
-    await (supabase as any)
-      .from('subreddit_activity')
-      .upsert(activity, {
-        onConflict: 'subreddit_id,company_id,week_start_date',
-      });
+  // Phrase history as it stood when the plan was made: earlier weeks in, replaced content out
+  let replacedPhrases: PhraseUse[] = [];
+  if (plan.existing_calendar_id) {
+    const replacedPosts = await repository.listPosts([plan.existing_calendar_id]);
+    const replacedReplies = await repository.listReplies(replacedPosts.map(p => p.id));
+    replacedPhrases = collectPhraseUses(replacedPosts, replacedReplies, week_start_date);
   }
+  const wordingHistory = applyWordingPatternDeltas(await repository.listWordingPatterns(company_id), [
+    ...earlierPlans.flatMap(p => p.wording_patterns),
+    ...buildWordingPatternDeltas(company_id, [], replacedPhrases),
+  ]);
 
-  return calendar as ContentCalendar;
+  const spamCheck = checkSpamAndSafety(
+    plan.posts,
+    plan.replies,
+    subreddits,
+    personas,
+    previousWeeksPosts,
+    { similarity, wordingHistory, company }
+  );
+  const quality = evaluateCalendarQuality({
+    calendar: plan.calendar,
+    posts: plan.posts,
+    replies: plan.replies,
+    subreddits,
+    personas,
+    previousWeeksPosts,
+    similarity,
+    wordingHistory,
+    company,
+  });
+
+  return {
+    ...plan,
+    calendar: {
+      ...plan.calendar,
+      status: 'draft',
+      spam_warnings: spamCheck.warnings,
+      quality_score: quality,
+      quality_feedback: quality.issues,
+    },
+    spam_risk_score: spamCheck.riskScore,
+    spam_passed: spamCheck.passed,
+    quality,
+  };
 }
 
 /**
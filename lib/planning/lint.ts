@@ -0,0 +1,237 @@
+/**
+ * Post and Reply Linter
+ * Checks the text of a single post or reply the way a moderator would skim it: title length and
+ * format, question marks on questions, banned words, links, brand mentions, shouting and calls to
+ * action. Diagnostics point at the field (and the characters in it) so the editor can show them
+ * next to what the user is typing.
+ */
+
+import type { CalendarPost, CalendarReply, Subreddit } from '@/types';
+import { CALL_TO_ACTION, POST_LENGTH_BUDGETS } from './drafts';
+import { checkTitleFormat, resolveSubredditRules } from './subreddit-rules';
+import { brandTerms, findBrandMentions, hasDisclosure, type BrandCompany } from './brand';
+import type { PlanningRepository } from '@/lib/repository';
+
+export type LintRule =
+  | 'title_length'
+  | 'question_mark'
+  | 'title_format'
+  | 'flair'
+  | 'banned_word'
+  | 'link'
+  | 'brand_mention'
+  | 'disclosure'
+  | 'all_caps'
+  | 'call_to_action';
+
+export interface LintDiagnostic {
+  field: 'planned_title' | 'planned_body' | 'planned_content' | 'flair';
+  rule: LintRule;
+  severity: 'error' | 'warning'; // error: the subreddit or Reddit would remove it; warning: reads as spam
+  message: string;
+  excerpt?: string; // The offending text
+  start?: number; // Character offsets of the excerpt within the field
+  end?: number;
+}
+
+export interface LintContext {
+  subreddit?: Pick<Subreddit, 'name' | 'rules' | 'rule_set'> | null;
+  company?: BrandCompany | null;
+}
+
+type TextField = 'planned_title' | 'planned_body' | 'planned_content';
+
+const REDDIT_TITLE_LIMIT = 300;
+const MIN_TITLE_CHARS = 15; // Shorter titles say too little for anyone to click
+
+const LINK = /https?:\/\/\S+|www\.\S+|\b[a-z0-9-]+\.(?:com|io|ai|app|co|org|net)\b\S*/gi;
+const CAPS_RUN = /\b[A-Z]{2,}\b(?:\s+[A-Z]{2,}\b)*/g;
+
+interface Match {
+  text: string;
+  start: number;
+  end: number;
+}
+
+function findAll(text: string, pattern: RegExp): Match[] {
+  const flags = pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`;
+  return Array.from(text.matchAll(new RegExp(pattern.source, flags))).map(match => ({
+    text: match[0],
+    start: match.index || 0,
+    end: (match.index || 0) + match[0].length,
+  }));
+}
+
+function phrasePattern(phrase: string): RegExp {
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?<!\\w)${escaped}(?!\\w)`, 'gi');
+}
+
+function at(field: TextField, match: Match): Pick<LintDiagnostic, 'field' | 'excerpt' | 'start' | 'end'> {
+  return { field, excerpt: match.text, start: match.start, end: match.end };
+}
+
+/**
+ * Checks shared by posts and replies: banned words, links, brand mentions, shouting and calls to
+ * action. brandAllowance is how many brand mentions the text may carry before it is flagged.
+ */
+function lintText(
+  field: TextField,
+  text: string,
+  context: LintContext,
+  linksForbidden: boolean,
+  brandAllowance: number
+): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+  if (!text) return diagnostics;
+  const rules = context.subreddit ? resolveSubredditRules(context.subreddit) : {};
+  const where = context.subreddit?.name || 'this subreddit';
+
+  (rules.banned_keywords || []).forEach(keyword => {
+    findAll(text, phrasePattern(keyword)).forEach(match => diagnostics.push({
+      ...at(field, match),
+      rule: 'banned_word',
+      severity: 'error',
+      message: `"${match.text}" is banned in ${where}`,
+    }));
+  });
+
+  findAll(text, LINK).forEach(match => diagnostics.push({
+    ...at(field, match),
+    rule: 'link',
+    severity: linksForbidden ? 'error' : 'warning',
+    message: linksForbidden ? `${where} doesn't allow links here` : 'Links read as promotion - leave them out unless someone asks',
+  }));
+
+  const brandMentions = findBrandMentions(text, brandTerms(context.company));
+  if (brandMentions.length > 0 && !hasDisclosure(text)) {
+    diagnostics.push({
+      ...at(field, brandMentions[0]),
+      rule: 'disclosure',
+      severity: rules.requires_disclosure ? 'error' : 'warning',
+      message: rules.requires_disclosure
+        ? `${where} requires saying how you're connected to ${brandMentions[0].text} (e.g. "full disclosure: I work on it")`
+        : `Say how you're connected to ${brandMentions[0].text} (e.g. "full disclosure: I work on it")`,
+    });
+  }
+  brandMentions.slice(brandAllowance).forEach(match => diagnostics.push({
+    ...at(field, match),
+    rule: 'brand_mention',
+    severity: field === 'planned_title' ? 'error' : 'warning',
+    message: field === 'planned_title'
+      ? 'Naming the product in the title reads as an ad'
+      : brandAllowance === 0
+        ? `Mentions ${context.company!.name} - this ${field === 'planned_content' ? 'reply' : 'post'} shouldn't name the product`
+        : `Mentions ${context.company!.name} more than ${brandAllowance === 1 ? 'once' : `${brandAllowance} times`}`,
+  }));
+
+  findAll(text, CAPS_RUN)
+    .filter(match => {
+      const words = match.text.split(/\s+/);
+      return words.length > 1 ? words.some(word => word.length >= 4) : match.text.length >= 5;
+    })
+    .forEach(match => diagnostics.push({
+      ...at(field, match),
+      rule: 'all_caps',
+      severity: 'warning',
+      message: `"${match.text}" reads as shouting`,
+    }));
+
+  CALL_TO_ACTION.forEach(phrase => {
+    findAll(text, phrasePattern(phrase)).forEach(match => diagnostics.push({
+      ...at(field, match),
+      rule: 'call_to_action',
+      severity: 'warning',
+      message: `"${match.text}" is call-to-action phrasing`,
+    }));
+  });
+
+  return diagnostics.sort((a, b) => (a.start ?? -1) - (b.start ?? -1));
+}
+
+/**
+ * Diagnostics for a post's title, body and flair, against its subreddit's rules
+ */
+export function lintPost(
+  post: Pick<CalendarPost, 'planned_title' | 'planned_body' | 'post_type' | 'posting_strategy' | 'flair'>,
+  context: LintContext = {}
+): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+  const rules = context.subreddit ? resolveSubredditRules(context.subreddit) : {};
+  const title = post.planned_title || '';
+  const budget = POST_LENGTH_BUDGETS[post.post_type] || POST_LENGTH_BUDGETS.question;
+
+  if (title.length > REDDIT_TITLE_LIMIT) {
+    diagnostics.push({
+      field: 'planned_title', rule: 'title_length', severity: 'error',
+      message: `Title is ${title.length} characters; Reddit allows ${REDDIT_TITLE_LIMIT}`,
+    });
+  } else if (title.length > budget.titleMaxChars) {
+    diagnostics.push({
+      field: 'planned_title', rule: 'title_length', severity: 'warning',
+      message: `Title is ${title.length} characters; ${post.post_type} titles work best under ${budget.titleMaxChars}`,
+    });
+  } else if (title && title.trim().length < MIN_TITLE_CHARS) {
+    diagnostics.push({
+      field: 'planned_title', rule: 'title_length', severity: 'warning',
+      message: `Title is only ${title.trim().length} characters - say what the post is about`,
+    });
+  }
+
+  if (title && post.post_type === 'question' && !title.includes('?')) {
+    diagnostics.push({
+      field: 'planned_title', rule: 'question_mark', severity: 'warning',
+      message: 'Question posts should ask the question in the title, ending with "?"',
+    });
+  }
+
+  const titleProblem = title ? checkTitleFormat(rules, title) : null;
+  if (titleProblem) {
+    diagnostics.push({
+      field: 'planned_title', rule: 'title_format', severity: 'error',
+      message: `${context.subreddit?.name || 'This subreddit'} requires titles to ${titleProblem}`,
+    });
+  }
+
+  if (rules.required_flair && rules.required_flair.length > 0) {
+    const flair = (post.flair || '').trim().toLowerCase();
+    if (!rules.required_flair.some(allowed => allowed.toLowerCase() === flair)) {
+      diagnostics.push({
+        field: 'flair', rule: 'flair', severity: 'error',
+        message: `${flair ? `"${post.flair}" isn't an allowed flair` : 'Flair is required'}: use ${rules.required_flair.map(f => `"${f}"`).join(', ')}`,
+      });
+    }
+  }
+
+  const linksForbidden = rules.link_policy === 'no_post_links' || rules.link_policy === 'no_links';
+  diagnostics.push(
+    ...lintText('planned_title', title, context, linksForbidden, 0),
+    ...lintText('planned_body', post.planned_body || '', context, linksForbidden, post.posting_strategy === 'subtle_product' ? 1 : 0)
+  );
+
+  return diagnostics;
+}
+
+/**
+ * Diagnostics for a reply's text, against the rules of the subreddit its post is in
+ */
+export function lintReply(
+  reply: Pick<CalendarReply, 'planned_content'>,
+  context: LintContext = {}
+): LintDiagnostic[] {
+  const rules = context.subreddit ? resolveSubredditRules(context.subreddit) : {};
+  return lintText('planned_content', reply.planned_content || '', context, rules.link_policy === 'no_links', 0);
+}
+
+/**
+ * The subreddit and company a stored post is linted against
+ */
+export async function loadLintContext(repository: PlanningRepository, post: CalendarPost): Promise<LintContext> {
+  const calendar = await repository.getCalendar(post.calendar_id);
+  if (!calendar) return {};
+  const [company, subreddits] = await Promise.all([
+    repository.getCompany(calendar.company_id),
+    repository.listSubreddits(calendar.company_id),
+  ]);
+  return { company, subreddit: subreddits.find(s => s.id === post.subreddit_id) || null };
+}
@@ -5,8 +5,11 @@ import type {
   CalendarQualityScore,
   Subreddit,
   Persona,
+  WordingPattern,
 } from '@/types';
 import { checkSpamAndSafety } from './anti-spam';
+import type { TopicSimilarityScorer } from './similarity';
+import type { BrandCompany } from './brand';
 
 interface QualityEvaluationParams {
   calendar: ContentCalendar;
@@ -15,6 +18,9 @@ interface QualityEvaluationParams {
   subreddits?: Subreddit[];
   personas?: Persona[];
   previousWeeksPosts?: CalendarPost[];
+  similarity?: TopicSimilarityScorer; // Passed through to the spam check
+  wordingHistory?: WordingPattern[]; // Passed through to the spam check
+  company?: BrandCompany | null; // Passed through to the spam check
 }
 
 /**
@@ -99,7 +105,8 @@ export function evaluateCalendarQuality(
   }
 
   // 4. Reply Naturalness (0-10)
-  const replyRate = replies.length / posts.length;
+  // Share of posts with a conversation - threads can hold several replies each
+  const replyRate = new Set(replies.map(r => r.post_id)).size / posts.length;
   if (replyRate < 0.5 || replyRate > 0.8) {
     issues.push(`Reply rate ${(replyRate * 100).toFixed(0)}% - should be 60-70%`);
     replyNaturalness = 5;
@@ -125,12 +132,8 @@ export function evaluateCalendarQuality(
     replyNaturalness -= 1;
   }
 
-  // Check for self-replies (should be 0)
-  const postPersonaMap = new Map(posts.map(p => [p.id, p.persona_id]));
-  const selfReplies = replies.filter(r => {
-    const post = posts.find(p => p.id === r.post_id);
-    return post && post.persona_id === r.persona_id;
-  });
+  // Check for self-replies (should be 0): commenting on your own post, or answering yourself
+  const selfReplies = findSelfReplies(posts, replies);
   if (selfReplies.length > 0) {
     issues.push(`${selfReplies.length} self-replies detected`);
     replyNaturalness -= 3;
@@ -156,7 +159,11 @@ export function evaluateCalendarQuality(
 
   // 7. Spam Risk Score (0-10, inverted - lower risk = higher score)
   if (subreddits.length > 0 && personas.length > 0) {
-    const spamCheck = checkSpamAndSafety(posts, replies, subreddits, personas, previousWeeksPosts);
+    const spamCheck = checkSpamAndSafety(posts, replies, subreddits, personas, previousWeeksPosts, {
+      similarity: params.similarity,
+      wordingHistory: params.wordingHistory,
+      company: params.company,
+    });
     spamRisk = Math.max(0, 10 - spamCheck.riskScore);
     if (spamCheck.riskScore > 5) {
       issues.push(`High spam risk detected (${spamCheck.riskScore.toFixed(1)}/10)`);
@@ -262,7 +269,7 @@ function evaluateSubredditFit(posts: CalendarPost[], subreddits: Subreddit[]): n
     }
 
     // Check culture tone match (if available)
-    const cultureTone = (subreddit as any).culture_tone || 'casual';
+    const cultureTone = subreddit.culture_tone || 'casual';
     // This is a simplified check - in production, use NLP to match tone
     if (cultureTone === 'casual' && post.post_type !== 'advice') {
       fit += 1;
@@ -277,6 +284,21 @@ function evaluateSubredditFit(posts: CalendarPost[], subreddits: Subreddit[]): n
   return checkedPosts > 0 ? totalFit / checkedPosts : 5;
 }
 
+/**
+ * Replies a persona wrote to itself. OP follow-ups answering someone else's comment are fine;
+ * a top-level comment on your own post or a reply to your own comment is not.
+ */
+export function findSelfReplies(posts: CalendarPost[], replies: CalendarReply[]): CalendarReply[] {
+  const repliesById = new Map(replies.map(r => [r.id, r]));
+  return replies.filter(r => {
+    if (r.parent_reply_id) {
+      return repliesById.get(r.parent_reply_id)?.persona_id === r.persona_id;
+    }
+    const post = posts.find(p => p.id === r.post_id);
+    return post?.persona_id === r.persona_id;
+  });
+}
+
 /**
  * Evaluates how distinct personas are in their posting
  */
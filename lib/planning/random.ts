@@ -0,0 +1,49 @@
+/**
+ * Seeded Randomness Module
+ * Lets a planning run be replayed exactly by threading one PRNG through every random choice
+ */
+
+/**
+ * Returns a float in [0, 1), same contract as Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Creates a deterministic PRNG (mulberry32) from a 32-bit integer seed
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generates a fresh seed for runs that didn't ask for one (fits a Postgres INTEGER)
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 2147483647);
+}
+
+/**
+ * Fisher-Yates shuffle - returns a new array, leaves the input untouched
+ */
+export function shuffle<T>(items: T[], random: RandomSource): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Picks one element uniformly at random
+ */
+export function pickOne<T>(items: T[], random: RandomSource): T {
+  return items[Math.floor(random() * items.length)];
+}
@@ -0,0 +1,146 @@
+/**
+ * Scheduling Module
+ * Turns day_of_week / order_in_day and reply offsets into absolute UTC timestamps: posts land
+ * inside their subreddit's peak window in the company's timezone and replies follow their post.
+ */
+
+import type { CalendarPost, CalendarReply, Subreddit } from '@/types';
+import type { RandomSource } from './random';
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+// Local hours (company timezone); end is exclusive
+export const DEFAULT_PEAK_WINDOW = { start: 8, end: 12 };
+
+const MIN_POST_GAP_MINUTES = 90; // Between two posts on the same day
+const MIN_REPLY_GAP_MINUTES = 4; // After the post or the comment a reply answers
+const MAX_REPLY_JITTER_MINUTES = 20;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Minutes the timezone is ahead of UTC at the given instant
+ */
+export function timeZoneOffsetMinutes(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value || 0);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return Math.round((asUtc - date.getTime()) / 60000);
+}
+
+/**
+ * Converts a local wall-clock time (date + minutes since midnight) in a timezone to a UTC Date
+ */
+export function zonedTimeToUtc(date: string, minutesOfDay: number, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutesOfDay);
+
+  // A second pass settles times next to a DST change
+  const firstOffset = timeZoneOffsetMinutes(new Date(wallClock), timeZone);
+  const firstGuess = wallClock - firstOffset * 60000;
+  const secondOffset = timeZoneOffsetMinutes(new Date(firstGuess), timeZone);
+  return new Date(secondOffset === firstOffset ? firstGuess : wallClock - secondOffset * 60000);
+}
+
+/**
+ * A subreddit's peak window, falling back to the default when unset or invalid
+ */
+export function getPeakWindow(subreddit: Pick<Subreddit, 'peak_hour_start' | 'peak_hour_end'> | undefined): {
+  start: number;
+  end: number;
+} {
+  const start = subreddit?.peak_hour_start;
+  const end = subreddit?.peak_hour_end;
+  if (start == null || end == null || start < 0 || end > 24 || end <= start) {
+    return DEFAULT_PEAK_WINDOW;
+  }
+  return { start, end };
+}
+
+function addDaysToDate(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
+
+interface ScheduleParams {
+  weekStartDate: string; // yyyy-MM-dd
+  timeZone?: string | null; // IANA name, defaults to UTC
+  subreddits: Subreddit[];
+  random?: RandomSource; // Defaults to Math.random
+}
+
+/**
+ * Sets scheduled_at on every post and reply. Posts on the same day keep their order_in_day and
+ * stay at least 90 minutes apart, spilling past the window when it's too short. Replies land
+ * order_after_post hours after their post (± a few minutes) and always after their parent.
+ */
+export function scheduleCalendar(
+  posts: CalendarPost[],
+  replies: CalendarReply[],
+  params: ScheduleParams
+): void {
+  const { weekStartDate, subreddits, random = Math.random } = params;
+  let timeZone = params.timeZone || DEFAULT_TIMEZONE;
+  if (!isValidTimeZone(timeZone)) {
+    console.warn(`Unknown timezone "${timeZone}", scheduling in ${DEFAULT_TIMEZONE}`);
+    timeZone = DEFAULT_TIMEZONE;
+  }
+
+  const postTimes = new Map<string, number>();
+  for (let day = 0; day < 7; day++) {
+    const dayPosts = posts
+      .filter(p => p.day_of_week === day)
+      .sort((a, b) => a.order_in_day - b.order_in_day);
+    const date = addDaysToDate(weekStartDate, day);
+
+    let previous: number | null = null;
+    for (const post of dayPosts) {
+      const window = getPeakWindow(subreddits.find(s => s.id === post.subreddit_id));
+      const earliest: number = previous === null ? window.start * 60 : Math.max(window.start * 60, previous + MIN_POST_GAP_MINUTES);
+      const latest = window.end * 60;
+
+      const minutes = earliest < latest
+        ? earliest + Math.floor(random() * (latest - earliest))
+        : earliest + Math.floor(random() * 30); // Window used up - go just past it
+      previous = minutes;
+
+      const scheduled = zonedTimeToUtc(date, minutes, timeZone).getTime();
+      postTimes.set(post.id, scheduled);
+      post.scheduled_at = new Date(scheduled).toISOString();
+    }
+  }
+
+  // Replies are listed parents first, so each parent's time is known before its children
+  const replyTimes = new Map<string, number>();
+  for (const reply of replies) {
+    const postTime = postTimes.get(reply.post_id);
+    if (postTime === undefined) continue;
+
+    const offsetMinutes = reply.order_after_post * 60;
+    const jitter = Math.min(MAX_REPLY_JITTER_MINUTES, offsetMinutes * 0.1);
+    const minutes = Math.round(offsetMinutes + (random() * 2 - 1) * jitter);
+
+    const parentTime = reply.parent_reply_id ? replyTimes.get(reply.parent_reply_id) : undefined;
+    const notBefore = (parentTime ?? postTime) + MIN_REPLY_GAP_MINUTES * 60000;
+    const scheduled = Math.max(notBefore, postTime + minutes * 60000);
+
+    replyTimes.set(reply.id, scheduled);
+    reply.scheduled_at = new Date(scheduled).toISOString();
+  }
+}
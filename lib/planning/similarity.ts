@@ -0,0 +1,241 @@
+/**
+ * Topic Similarity Module
+ * Semantic topic comparison for generation, the spam checker and the topic_similarity table.
+ * Uses embeddings from the LLM provider when it has them, TF-IDF cosine over stemmed words otherwise.
+ */
+
+import type { Company, TopicSimilarity } from '@/types';
+import type { LLMProvider } from '@/lib/llm';
+
+export type SimilarityMethod = 'embedding' | 'tfidf';
+
+// Scores mean different things per method: paraphrases score high on embeddings but
+// only share a few stems, so TF-IDF needs a lower bar
+export const DEFAULT_SIMILARITY_THRESHOLDS: Record<SimilarityMethod, number> = {
+  embedding: 0.82,
+  tfidf: 0.5,
+};
+
+/**
+ * Threshold for a method. A company override is on the embedding scale, so for TF-IDF it is
+ * scaled by the ratio of the defaults (0.82 becomes 0.5) rather than applied as-is.
+ */
+export function resolveSimilarityThreshold(method: SimilarityMethod, override?: number | null): number {
+  if (override === null || override === undefined) return DEFAULT_SIMILARITY_THRESHOLDS[method];
+  if (method === 'embedding') return override;
+  const ratio = DEFAULT_SIMILARITY_THRESHOLDS[method] / DEFAULT_SIMILARITY_THRESHOLDS.embedding;
+  return Math.min(1, Math.round(override * ratio * 100) / 100);
+}
+
+export interface SimilarTopicPair {
+  topic1: string;
+  topic2: string;
+  similarity_score: number;
+}
+
+export interface TopicSimilarityScorer {
+  readonly method: SimilarityMethod;
+  readonly threshold: number; // For method; a pair scored with TF-IDF is held to the TF-IDF threshold
+  /**
+   * Adds texts to the TF-IDF corpus. Scoring never changes the corpus, so add every text that
+   * will be compared first.
+   */
+  addToCorpus(texts: string[]): void;
+  /**
+   * Adds texts to the corpus and embeds any not seen yet so later comparisons can use them
+   */
+  prepare(texts: string[]): Promise<void>;
+  score(a: string, b: string): number; // 0-1; embeddings when both texts have one, TF-IDF otherwise
+  isSimilar(a: string, b: string): boolean; // Exact match, known pair, or score >= the threshold of the method used
+  flaggedPairs(): SimilarTopicPair[]; // Pairs found similar by score, for the topic_similarity table
+}
+
+export interface TopicSimilarityOptions {
+  llm?: LLMProvider; // Embeddings come from here when it supports them
+  company?: Pick<Company, 'topic_similarity_threshold'> | null; // Per-company threshold override (embedding scale)
+  known?: Array<Pick<TopicSimilarity, 'topic1' | 'topic2' | 'similarity_score'>>; // Previously flagged pairs
+}
+
+export const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'if', 'of', 'to', 'in', 'on', 'at', 'for', 'with', 'by', 'from',
+  'about', 'as', 'into', 'up', 'down', 'out', 'over', 'is', 'are', 'was', 'were', 'be', 'been', 'am',
+  'do', 'does', 'did', 'have', 'has', 'had', 'i', 'me', 'my', 'we', 'our', 'you', 'your', 'they', 'their',
+  'it', 'its', 'this', 'that', 'these', 'those', 'what', 'which', 'who', 'how', 'why', 'when', 'where',
+  'can', 'could', 'should', 'would', 'will', 'any', 'anyone', 'some', 'so', 'just', 'get', 'got',
+]);
+
+/**
+ * Normalizes topic text for exact comparison
+ */
+export function normalizeTopic(topic: string): string {
+  return topic
+    .toLowerCase()
+    .replace(/[^\w\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Crude suffix stemmer - enough for "speeding"/"speed" or "decks"/"deck" to meet
+ */
+function stem(word: string): string {
+  let result = word;
+  for (const suffix of ['ing', 'ed', 'er', 'ies', 'es', 's', 'ly']) {
+    if (result.endsWith(suffix) && result.length - suffix.length >= 3) {
+      result = result.slice(0, -suffix.length) + (suffix === 'ies' ? 'y' : '');
+      break;
+    }
+  }
+  // "prepping" -> "prepp" -> "prep"
+  if (/([b-df-hj-np-tv-z])\1$/.test(result)) {
+    result = result.slice(0, -1);
+  }
+  return result;
+}
+
+function tokenize(text: string): string[] {
+  return normalizeTopic(text)
+    .split(' ')
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function pairKey(a: string, b: string): string {
+  const [first, second] = [normalizeTopic(a), normalizeTopic(b)].sort();
+  return `${first}\u0000${second}`;
+}
+
+/**
+ * Orders a pair the way the topic_similarity table stores it (topic1 < topic2)
+ */
+export function orderTopicPair(a: string, b: string): [string, string] {
+  return a <= b ? [a, b] : [b, a];
+}
+
+/**
+ * Builds a scorer. Starts on TF-IDF and switches to embeddings the first time
+ * prepare() gets vectors from the provider; if embedding fails it stays on TF-IDF.
+ */
+export function createTopicSimilarityScorer(options: TopicSimilarityOptions = {}): TopicSimilarityScorer {
+  const { llm, company } = options;
+  const known = new Set((options.known || []).map(p => pairKey(p.topic1, p.topic2)));
+  const flagged = new Map<string, SimilarTopicPair>();
+
+  // TF-IDF corpus: document frequency per stem across every text added
+  const documents = new Set<string>();
+  const documentFrequency = new Map<string, number>();
+  const addDocument = (text: string) => {
+    const key = normalizeTopic(text);
+    if (documents.has(key)) return;
+    documents.add(key);
+    new Set(tokenize(text)).forEach(term => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+  };
+
+  const tfidfVector = (text: string): Map<string, number> => {
+    const terms = tokenize(text);
+    const counts = new Map<string, number>();
+    terms.forEach(term => counts.set(term, (counts.get(term) || 0) + 1));
+
+    // Smoothed IDF so terms unique to one topic weigh more than shared ones
+    const total = documents.size;
+    const vector = new Map<string, number>();
+    counts.forEach((count, term) => {
+      const idf = Math.log((1 + total) / (1 + (documentFrequency.get(term) || 0))) + 1;
+      vector.set(term, (count / terms.length) * idf);
+    });
+    return vector;
+  };
+
+  const tfidfScore = (a: string, b: string): number => {
+    const vectorA = tfidfVector(a);
+    const vectorB = tfidfVector(b);
+    const terms = Array.from(new Set([...vectorA.keys(), ...vectorB.keys()]));
+    return cosineSimilarity(
+      terms.map(t => vectorA.get(t) || 0),
+      terms.map(t => vectorB.get(t) || 0)
+    );
+  };
+
+  let method: SimilarityMethod = 'tfidf';
+  let embeddingsFailed = !llm?.embed;
+  const embeddings = new Map<string, number[]>();
+
+  // A text prepared after embedding failed, or never prepared, has no vector: that pair falls back to TF-IDF
+  const compare = (a: string, b: string): { score: number; method: SimilarityMethod } => {
+    if (normalizeTopic(a) === normalizeTopic(b)) return { score: 1, method };
+    const vectorA = embeddings.get(normalizeTopic(a));
+    const vectorB = embeddings.get(normalizeTopic(b));
+    if (vectorA && vectorB) return { score: cosineSimilarity(vectorA, vectorB), method: 'embedding' };
+    return { score: tfidfScore(a, b), method: 'tfidf' };
+  };
+
+  const scorer: TopicSimilarityScorer = {
+    get method() {
+      return method;
+    },
+
+    get threshold() {
+      return resolveSimilarityThreshold(method, company?.topic_similarity_threshold);
+    },
+
+    addToCorpus(texts) {
+      texts.forEach(addDocument);
+    },
+
+    async prepare(texts) {
+      scorer.addToCorpus(texts);
+      if (embeddingsFailed || !llm?.embed) return;
+
+      const missing = Array.from(new Set(texts.map(normalizeTopic))).filter(t => t && !embeddings.has(t));
+      if (missing.length === 0) return;
+
+      try {
+        const vectors = await llm.embed(missing);
+        if (!vectors || vectors.length !== missing.length) {
+          throw new Error(`Expected ${missing.length} embeddings, got ${vectors?.length ?? 0}`);
+        }
+        missing.forEach((text, i) => embeddings.set(text, vectors[i]));
+        method = 'embedding';
+      } catch (error) {
+        console.error(`Embedding topics with ${llm.name} failed, using TF-IDF similarity:`, error);
+        embeddingsFailed = true;
+        method = 'tfidf';
+      }
+    },
+
+    score(a, b) {
+      return compare(a, b).score;
+    },
+
+    isSimilar(a, b) {
+      if (normalizeTopic(a) === normalizeTopic(b)) return true;
+      if (known.has(pairKey(a, b))) return true;
+
+      const { score: similarity, method: used } = compare(a, b);
+      if (similarity < resolveSimilarityThreshold(used, company?.topic_similarity_threshold)) return false;
+
+      const [topic1, topic2] = orderTopicPair(a, b);
+      flagged.set(pairKey(a, b), { topic1, topic2, similarity_score: Math.round(similarity * 100) / 100 });
+      return true;
+    },
+
+    flaggedPairs() {
+      return Array.from(flagged.values());
+    },
+  };
+
+  return scorer;
+}
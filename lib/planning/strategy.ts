@@ -3,7 +3,19 @@
  * Implements strategic progression: awareness → authority → subtle product → value → engagement
  */
 
-export type PostingStrategy = 'awareness' | 'authority' | 'subtle_product' | 'value' | 'engagement';
+import type { PostingStrategyName, StrategyMix } from '@/types';
+import { pickOne, shuffle, type RandomSource } from './random';
+
+export type PostingStrategy = PostingStrategyName;
+
+// Strategy progression for the week
+const STRATEGY_PROGRESSION: PostingStrategy[] = [
+  'awareness',      // Early week: Build awareness
+  'authority',      // Mid-early: Establish authority
+  'subtle_product', // Mid-week: Subtle product mention
+  'value',          // Mid-late: Provide value
+  'engagement',     // Late week: Drive engagement
+];
 
 export interface StrategyAssignment {
   strategy: PostingStrategy;
@@ -17,18 +29,23 @@ export interface StrategyAssignment {
  */
 export function assignWeeklyStrategy(
   postsPerWeek: number,
-  dayDistribution: number[]
+  dayDistribution: number[],
+  random: RandomSource = Math.random,
+  mix?: StrategyMix
 ): Map<number, PostingStrategy[]> {
   const strategyMap = new Map<number, PostingStrategy[]>();
-  
-  // Define strategy progression for the week
-  const strategyProgression: PostingStrategy[] = [
-    'awareness',      // Early week: Build awareness
-    'authority',      // Mid-early: Establish authority
-    'subtle_product', // Mid-week: Subtle product mention
-    'value',          // Mid-late: Provide value
-    'engagement',     // Late week: Drive engagement
-  ];
+
+  // Explicit mix (campaign weeks): hand out the weighted sequence day by day
+  const sequence = mix ? buildStrategySequence(postsPerWeek, mix, random) : [];
+  if (sequence.length > 0) {
+    let next = 0;
+    for (let day = 0; day < 7; day++) {
+      if (dayDistribution[day] === 0) continue;
+      strategyMap.set(day, sequence.slice(next, next + dayDistribution[day]));
+      next += dayDistribution[day];
+    }
+    return strategyMap;
+  }
 
   // Distribute strategies across days with posts
   let strategyIndex = 0;
@@ -40,7 +57,7 @@ export function assignWeeklyStrategy(
     const dayStrategies: PostingStrategy[] = [];
     
     // Assign primary strategy for the day
-    const primaryStrategy = strategyProgression[strategyIndex % strategyProgression.length];
+    const primaryStrategy = STRATEGY_PROGRESSION[strategyIndex % STRATEGY_PROGRESSION.length];
     
     // For days with multiple posts, mix strategies
     for (let i = 0; i < postsForDay; i++) {
@@ -49,7 +66,7 @@ export function assignWeeklyStrategy(
         dayStrategies.push(primaryStrategy);
       } else {
         // Additional posts get complementary strategies
-        const complementary = getComplementaryStrategy(primaryStrategy);
+        const complementary = getComplementaryStrategy(primaryStrategy, random);
         dayStrategies.push(complementary);
       }
     }
@@ -61,10 +78,40 @@ export function assignWeeklyStrategy(
   return strategyMap;
 }
 
+/**
+ * Turns strategy weights into one strategy per post (largest remainder), kept in progression order
+ * so the week still builds from awareness to engagement. Ties are broken by the seeded PRNG.
+ */
+export function buildStrategySequence(
+  postsPerWeek: number,
+  mix: StrategyMix,
+  random: RandomSource = Math.random
+): PostingStrategy[] {
+  const weighted = STRATEGY_PROGRESSION.filter(s => (mix[s] || 0) > 0);
+  const totalWeight = weighted.reduce((sum, s) => sum + (mix[s] || 0), 0);
+  if (totalWeight === 0 || postsPerWeek <= 0) {
+    return [];
+  }
+
+  const exact = weighted.map(s => ({ strategy: s, share: ((mix[s] || 0) / totalWeight) * postsPerWeek }));
+  const counts = new Map(exact.map(e => [e.strategy, Math.floor(e.share)]));
+  let remaining = postsPerWeek - Array.from(counts.values()).reduce((a, b) => a + b, 0);
+
+  const byRemainder = shuffle(exact, random)
+    .sort((a, b) => (b.share - Math.floor(b.share)) - (a.share - Math.floor(a.share)));
+  for (const entry of byRemainder) {
+    if (remaining === 0) break;
+    counts.set(entry.strategy, (counts.get(entry.strategy) || 0) + 1);
+    remaining--;
+  }
+
+  return weighted.flatMap(s => Array<PostingStrategy>(counts.get(s) || 0).fill(s));
+}
+
 /**
  * Gets complementary strategy that works well together
  */
-function getComplementaryStrategy(primary: PostingStrategy): PostingStrategy {
+function getComplementaryStrategy(primary: PostingStrategy, random: RandomSource): PostingStrategy {
   const complementaryMap: Record<PostingStrategy, PostingStrategy[]> = {
     awareness: ['value', 'engagement'],
     authority: ['value', 'awareness'],
@@ -74,7 +121,7 @@ function getComplementaryStrategy(primary: PostingStrategy): PostingStrategy {
   };
 
   const options = complementaryMap[primary] || ['value'];
-  return options[Math.floor(Math.random() * options.length)];
+  return pickOne(options, random);
 }
 
 /**
@@ -0,0 +1,292 @@
+/**
+ * Subreddit Rules Module
+ * Structured subreddit rules: which post types, days, flair, title formats, links and keywords a
+ * subreddit allows, how much self-promotion it tolerates, and its brand-mention limit and disclosure
+ * requirement (checked in brand.ts). selectSubreddit treats the rules a planned post can already
+ * break as hard constraints; checkSpamAndSafety reports the rest once posts and replies are drafted.
+ */
+
+import type { CalendarPost, Subreddit, SubredditRules } from '@/types';
+
+const POST_TYPES: CalendarPost['post_type'][] = ['question', 'story', 'advice'];
+const LINK_POLICIES: NonNullable<SubredditRules['link_policy']>[] = ['allowed', 'no_post_links', 'no_links'];
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const LINK = /https?:\/\/|www\.|\b[a-z0-9-]+\.(com|io|ai|app|co|org|net)\b/i;
+const MAX_TITLE_RULE_LENGTH = 100;
+
+/**
+ * A subreddit's structured rules, or the ones its free-text rules spell out when it has none
+ * (the phrases the planner has always honoured: no personal stories, no advice posts,
+ * no self-promotion, no links)
+ */
+export function resolveSubredditRules(subreddit: Pick<Subreddit, 'rules' | 'rule_set'>): SubredditRules {
+  if (subreddit.rule_set) return subreddit.rule_set;
+
+  const text = (subreddit.rules || '').toLowerCase();
+  const rules: SubredditRules = {};
+  const excluded = POST_TYPES.filter(type =>
+    (type === 'story' && text.includes('no personal stories')) ||
+    (type === 'advice' && text.includes('no advice posts'))
+  );
+  if (excluded.length > 0) rules.allowed_post_types = POST_TYPES.filter(type => !excluded.includes(type));
+  if (text.includes('no self-promotion')) rules.max_self_promo_ratio = 0;
+  if (text.includes('no links')) rules.link_policy = 'no_links';
+  return rules;
+}
+
+function stringList(value: unknown, field: string): string[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new Error(`${field} must be a list of strings`);
+  }
+  return Array.from(new Set(value.map((item: string) => item.trim()).filter(Boolean)));
+}
+
+function optionalNumber(value: unknown, field: string, min: number, max = Infinity): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < min || number > max) {
+    throw new Error(`${field} must be a number${max === Infinity ? ` of at least ${min}` : ` from ${min} to ${max}`}`);
+  }
+  return number;
+}
+
+/**
+ * Validates rules sent by a client and drops empty fields; throws with the first problem found
+ */
+export function normalizeSubredditRules(input: unknown): SubredditRules {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error('rules must be an object');
+  }
+  const raw = input as Record<string, unknown>;
+  const rules: SubredditRules = {};
+
+  const types = stringList(raw.allowed_post_types, 'allowed_post_types');
+  const unknownType = types.find(type => !POST_TYPES.includes(type as CalendarPost['post_type']));
+  if (unknownType) throw new Error(`allowed_post_types: "${unknownType}" is not ${POST_TYPES.join(', ')}`);
+  if (types.length > 0) rules.allowed_post_types = types as CalendarPost['post_type'][];
+
+  const flair = stringList(raw.required_flair, 'required_flair');
+  if (flair.length > 0) rules.required_flair = flair;
+
+  // Literal text rather than regular expressions, so a rule can't make title checks hang
+  for (const field of ['title_prefix', 'title_contains'] as const) {
+    if (raw[field] === undefined || raw[field] === null || !String(raw[field]).trim()) continue;
+    const text = String(raw[field]).trim();
+    if (text.length > MAX_TITLE_RULE_LENGTH) {
+      throw new Error(`${field} must be at most ${MAX_TITLE_RULE_LENGTH} characters`);
+    }
+    rules[field] = text;
+  }
+
+  const age = optionalNumber(raw.min_account_age_days, 'min_account_age_days', 0);
+  if (age) rules.min_account_age_days = Math.round(age);
+  const karma = optionalNumber(raw.min_karma, 'min_karma', 0);
+  if (karma) rules.min_karma = Math.round(karma);
+
+  if (raw.link_policy !== undefined && raw.link_policy !== null && raw.link_policy !== '') {
+    if (!LINK_POLICIES.includes(raw.link_policy as any)) {
+      throw new Error(`link_policy must be ${LINK_POLICIES.join(', ')}`);
+    }
+    if (raw.link_policy !== 'allowed') rules.link_policy = raw.link_policy as SubredditRules['link_policy'];
+  }
+
+  const ratio = optionalNumber(raw.max_self_promo_ratio, 'max_self_promo_ratio', 0, 1);
+  if (ratio !== null) rules.max_self_promo_ratio = ratio;
+
+  const keywords = stringList(raw.banned_keywords, 'banned_keywords');
+  if (keywords.length > 0) rules.banned_keywords = keywords;
+
+  if (raw.posting_days !== undefined && raw.posting_days !== null) {
+    const days = Array.isArray(raw.posting_days) ? raw.posting_days.map(Number) : [NaN];
+    if (days.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+      throw new Error('posting_days must be a list of days 0-6 (0 = Sunday)');
+    }
+    // All seven days is the same as no restriction
+    const unique = Array.from(new Set(days)).sort((a, b) => a - b);
+    if (unique.length > 0 && unique.length < 7) rules.posting_days = unique;
+  }
+
+  const brandMentions = optionalNumber(raw.max_brand_mentions, 'max_brand_mentions', 0);
+  if (brandMentions !== null) rules.max_brand_mentions = Math.round(brandMentions);
+  if (raw.requires_disclosure !== undefined && raw.requires_disclosure !== null) {
+    if (typeof raw.requires_disclosure !== 'boolean') throw new Error('requires_disclosure must be true or false');
+    if (raw.requires_disclosure) rules.requires_disclosure = true;
+  }
+
+  return rules;
+}
+
+function isPromotional(post: Pick<CalendarPost, 'posting_strategy'>): boolean {
+  return post.posting_strategy === 'subtle_product';
+}
+
+function findBannedKeywords(rules: SubredditRules, text: string): string[] {
+  return (rules.banned_keywords || []).filter(keyword => {
+    const escaped = keyword.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(?<!\\w)${escaped}(?!\\w)`, 'i').test(text);
+  });
+}
+
+/**
+ * Rules a post breaks before it is drafted: its type, day, topic keywords, and whether one more
+ * promotional post would push the subreddit past its self-promotion ratio. earlierPosts are the
+ * company's other posts in this subreddit.
+ */
+export function checkPlannedPost(
+  rules: SubredditRules,
+  post: Pick<CalendarPost, 'post_type' | 'day_of_week' | 'topic' | 'posting_strategy'>,
+  earlierPosts: Pick<CalendarPost, 'posting_strategy'>[]
+): string[] {
+  const violations: string[] = [];
+
+  if (rules.allowed_post_types && rules.allowed_post_types.length > 0 && !rules.allowed_post_types.includes(post.post_type)) {
+    violations.push(`${post.post_type} posts are not allowed (only ${rules.allowed_post_types.join(', ')})`);
+  }
+  if (rules.posting_days && rules.posting_days.length > 0 && !rules.posting_days.includes(post.day_of_week)) {
+    violations.push(`no posts on ${DAYS[post.day_of_week]} (only ${rules.posting_days.map(day => DAYS[day]).join(', ')})`);
+  }
+  const banned = findBannedKeywords(rules, post.topic);
+  if (banned.length > 0) {
+    violations.push(`topic uses banned keyword(s): ${banned.map(k => `"${k}"`).join(', ')}`);
+  }
+  if (isPromotional(post) && rules.max_self_promo_ratio !== undefined && rules.max_self_promo_ratio !== null) {
+    const promotional = earlierPosts.filter(isPromotional).length + 1;
+    const ratio = promotional / (earlierPosts.length + 1);
+    if (ratio > rules.max_self_promo_ratio) {
+      violations.push(
+        rules.max_self_promo_ratio === 0
+          ? 'no self-promotion allowed'
+          : `self-promotion would be ${Math.round(ratio * 100)}% of posts (limit ${Math.round(rules.max_self_promo_ratio * 100)}%)`
+      );
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * How a title breaks the subreddit's title format (case-insensitive), or null when it fits
+ */
+export function checkTitleFormat(rules: SubredditRules, title: string): string | null {
+  const lower = title.toLowerCase();
+  const problems: string[] = [];
+  if (rules.title_prefix && !lower.startsWith(rules.title_prefix.toLowerCase())) {
+    problems.push(`start with "${rules.title_prefix}"`);
+  }
+  if (rules.title_contains && !lower.includes(rules.title_contains.toLowerCase())) {
+    problems.push(`contain "${rules.title_contains}"`);
+  }
+  return problems.length > 0 ? problems.join(' and ') : null;
+}
+
+/**
+ * Rules a drafted post breaks: title format, flair, banned keywords and links
+ */
+export function checkDraftedPost(
+  rules: SubredditRules,
+  post: Pick<CalendarPost, 'planned_title' | 'planned_body' | 'flair'>
+): string[] {
+  const violations: string[] = [];
+  const title = post.planned_title || '';
+  const text = `${title}\n${post.planned_body || ''}`;
+
+  const titleProblem = title ? checkTitleFormat(rules, title) : null;
+  if (titleProblem) {
+    violations.push(`title must ${titleProblem}`);
+  }
+  if (rules.required_flair && rules.required_flair.length > 0) {
+    const flair = (post.flair || '').trim().toLowerCase();
+    if (!rules.required_flair.some(allowed => allowed.toLowerCase() === flair)) {
+      violations.push(
+        flair
+          ? `flair "${post.flair}" is not one of ${rules.required_flair.map(f => `"${f}"`).join(', ')}`
+          : `needs a flair (${rules.required_flair.map(f => `"${f}"`).join(', ')})`
+      );
+    }
+  }
+  const banned = findBannedKeywords(rules, text);
+  if (banned.length > 0) {
+    violations.push(`uses banned keyword(s): ${banned.map(k => `"${k}"`).join(', ')}`);
+  }
+  if ((rules.link_policy === 'no_post_links' || rules.link_policy === 'no_links') && LINK.test(text)) {
+    violations.push('links are not allowed in posts');
+  }
+
+  return violations;
+}
+
+/**
+ * Rules a reply in the subreddit breaks: banned keywords, and links where comments can't have them
+ */
+export function checkDraftedReply(rules: SubredditRules, content: string | null): string[] {
+  const violations: string[] = [];
+  const text = content || '';
+  const banned = findBannedKeywords(rules, text);
+  if (banned.length > 0) {
+    violations.push(`uses banned keyword(s): ${banned.map(k => `"${k}"`).join(', ')}`);
+  }
+  if (rules.link_policy === 'no_links' && LINK.test(text)) {
+    violations.push('links are not allowed in comments');
+  }
+  return violations;
+}
+
+/**
+ * Flair for a new post: one named after its type when the subreddit has one ("Question"),
+ * else the first allowed flair; null when none is required
+ */
+export function pickFlair(rules: SubredditRules, postType: CalendarPost['post_type']): string | null {
+  const flairs = rules.required_flair || [];
+  if (flairs.length === 0) return null;
+  return flairs.find(flair => flair.toLowerCase().includes(postType)) || flairs[0];
+}
+
+/**
+ * The rules a drafting prompt needs to follow, one per line; empty when nothing applies to writing
+ */
+export function describeSubredditRules(rules: SubredditRules, audience: 'post' | 'reply' = 'post'): string[] {
+  const notes: string[] = [];
+  if (audience === 'post' && rules.title_prefix) {
+    notes.push(`The title must start with "${rules.title_prefix}"`);
+  }
+  if (audience === 'post' && rules.title_contains) {
+    notes.push(`The title must contain "${rules.title_contains}"`);
+  }
+  if (rules.banned_keywords && rules.banned_keywords.length > 0) {
+    notes.push(`Never use these words: ${rules.banned_keywords.map(k => `"${k}"`).join(', ')}`);
+  }
+  if (rules.link_policy === 'no_links' || (audience === 'post' && rules.link_policy === 'no_post_links')) {
+    notes.push('No links or URLs of any kind');
+  }
+  if (rules.requires_disclosure) {
+    notes.push('If you name a product you are connected to, say how (e.g. "full disclosure: I work on it")');
+  }
+  return notes;
+}
+
+/**
+ * Short labels for the rules that are set, for the company page
+ */
+export function summarizeSubredditRules(rules: SubredditRules): string[] {
+  const summary: string[] = [];
+  if (rules.allowed_post_types?.length) summary.push(`${rules.allowed_post_types.join('/')} only`);
+  if (rules.required_flair?.length) summary.push(`flair: ${rules.required_flair.join(', ')}`);
+  if (rules.title_prefix) summary.push(`title starts "${rules.title_prefix}"`);
+  if (rules.title_contains) summary.push(`title contains "${rules.title_contains}"`);
+  if (rules.min_account_age_days) summary.push(`accounts ${rules.min_account_age_days}+ days old`);
+  if (rules.min_karma) summary.push(`${rules.min_karma}+ karma`);
+  if (rules.link_policy === 'no_links') summary.push('no links');
+  if (rules.link_policy === 'no_post_links') summary.push('no links in posts');
+  if (rules.max_self_promo_ratio !== undefined && rules.max_self_promo_ratio !== null) {
+    summary.push(rules.max_self_promo_ratio === 0 ? 'no self-promotion' : `self-promo ≤ ${Math.round(rules.max_self_promo_ratio * 100)}%`);
+  }
+  if (rules.banned_keywords?.length) summary.push(`${rules.banned_keywords.length} banned keyword(s)`);
+  if (rules.posting_days?.length) summary.push(`posts on ${rules.posting_days.map(day => DAYS[day].slice(0, 3)).join(', ')}`);
+  if (rules.max_brand_mentions !== undefined && rules.max_brand_mentions !== null) {
+    summary.push(rules.max_brand_mentions === 0 ? 'never name the brand' : `brand ≤ ${rules.max_brand_mentions}×/week`);
+  }
+  if (rules.requires_disclosure) summary.push('disclosure required');
+  return summary;
+}
@@ -1,5 +1,6 @@
-import type { Subreddit, SubredditActivity, GeneratedTopic, SubredditScore } from '@/types';
+import type { CalendarPost, PostingStrategyName, Subreddit, SubredditActivity, GeneratedTopic, SubredditScore } from '@/types';
 import { addDays, differenceInDays } from 'date-fns';
+import { checkPlannedPost, resolveSubredditRules } from './subreddit-rules';
 
 interface SubredditSelectionParams {
   subreddits: Subreddit[];
@@ -7,17 +8,42 @@ interface SubredditSelectionParams {
   topic: GeneratedTopic;
   targetDate: Date;
   companyId: string;
+  dayOfWeek?: number; // Defaults to targetDate's day
+  strategy?: PostingStrategyName; // subtle_product posts count against self-promotion limits
+  earlierPosts?: CalendarPost[]; // The company's posts so far (earlier weeks and this one), for those limits
 }
 
 /**
- * Scores and selects appropriate subreddits for a topic
+ * Scores and selects appropriate subreddits for a topic. Subreddits whose rules the post would
+ * break (post type, posting day, banned keywords, self-promotion ratio) are left out entirely,
+ * so the result is empty when none allows it.
  */
 export function selectSubreddit(
   params: SubredditSelectionParams
 ): SubredditScore[] {
   const { subreddits, activities, topic, targetDate, companyId } = params;
+  const plannedPost = {
+    post_type: topic.post_type,
+    day_of_week: params.dayOfWeek ?? targetDate.getDay(),
+    topic: topic.topic,
+    posting_strategy: params.strategy || null,
+  };
+
+  const blocked: string[] = [];
+  const allowed = subreddits.filter(subreddit => {
+    const violations = checkPlannedPost(
+      resolveSubredditRules(subreddit),
+      plannedPost,
+      (params.earlierPosts || []).filter(p => p.subreddit_id === subreddit.id)
+    );
+    if (violations.length > 0) blocked.push(`${subreddit.name}: ${violations.join('; ')}`);
+    return violations.length === 0;
+  });
+  if (blocked.length > 0) {
+    console.log(`Subreddit rules rule out ${blocked.length} subreddit(s) for "${topic.topic}": ${blocked.join(' | ')}`);
+  }
 
-  const scores: SubredditScore[] = subreddits.map(subreddit => {
+  const scores: SubredditScore[] = allowed.map(subreddit => {
     const activity = activities.find(
       a => a.subreddit_id === subreddit.id && a.company_id === companyId
     );
@@ -59,10 +85,8 @@ export function selectSubreddit(
       reasons.push(`Appropriate for ${subreddit.size_category} subreddit`);
     }
 
-    // 5. Rule Compliance Check (warn but don't completely block)
-    if (!checkRuleCompliance(subreddit, topic)) {
-      score *= 0.3; // Reduce score but don't set to 0
-      reasons.push('Post type may not be ideal for subreddit rules');
+    if (subreddit.rule_set || subreddit.rules) {
+      reasons.push('Meets subreddit rules');
     }
 
     return {
@@ -77,7 +101,7 @@ export function selectSubreddit(
   
   // Always return at least the top subreddit, even if score is low (for fallback)
   if (sorted.length === 0) {
-    console.error('No subreddits available for selection');
+    console.warn(subreddits.length === 0 ? 'No subreddits available for selection' : `No subreddit's rules allow "${topic.topic}"`);
     return [];
   }
   
@@ -191,30 +215,6 @@ function checkSizeAppropriateness(
   return 0.8; // Medium subreddits are flexible
 }
 
-function checkRuleCompliance(
-  subreddit: Subreddit,
-  topic: GeneratedTopic
-): boolean {
-  if (!subreddit.rules) {
-    return true; // No rules specified, assume allowed
-  }
-
-  const rulesLower = subreddit.rules.toLowerCase();
-
-  // Check for common restrictions
-  if (topic.post_type === 'story' && rulesLower.includes('no personal stories')) {
-    return false;
-  }
-  if (topic.post_type === 'advice' && rulesLower.includes('no advice posts')) {
-    return false;
-  }
-  if (rulesLower.includes('no self-promotion') && topic.topic.toLowerCase().includes('my product')) {
-    return false;
-  }
-
-  return true;
-}
-
 function getWeekStart(date: Date): Date {
   const d = new Date(date);
   const day = d.getDay();
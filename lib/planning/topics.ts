@@ -1,24 +1,24 @@
-import OpenAI from 'openai';
 import type { Company, SEOQuery, TopicHistory, GeneratedTopic } from '@/types';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { generateJSON, getLLMProviderForCompany, type LLMProvider } from '@/lib/llm';
+import { createTopicSimilarityScorer, type TopicSimilarityScorer } from './similarity';
 
 interface TopicGenerationParams {
   company: Company;
   seoQueries: SEOQuery[];
   topicHistory: TopicHistory[];
   count: number;
+  theme?: string; // Campaign theme for this week's topics
+  llm?: LLMProvider; // Defaults to the company's configured provider
+  similarity?: TopicSimilarityScorer; // Defaults to one built from llm and the company threshold
 }
 
 /**
- * Generates topics using OpenAI, filtered for relevance and freshness
+ * Generates topics using the configured LLM, filtered for relevance and freshness
  */
 export async function generateTopics(
   params: TopicGenerationParams
 ): Promise<GeneratedTopic[]> {
-  const { company, seoQueries, topicHistory, count } = params;
+  const { company, seoQueries, topicHistory, count, theme } = params;
 
   // Build context for topic generation
   const recentTopics = topicHistory
@@ -27,8 +27,7 @@ export async function generateTopics(
       const daysSince = (Date.now() - new Date(t.last_used_date).getTime()) / (1000 * 60 * 60 * 24);
       return daysSince < 28; // Last 4 weeks
     })
-    .map(t => t.topic)
-    .slice(0, 10);
+    .map(t => t.topic);
 
   const seoQueryText = seoQueries
     .sort((a, b) => b.priority - a.priority)
@@ -45,8 +44,8 @@ Pain Points: ${company.pain_points.join(', ')}
 Tone: ${company.tone_positioning || 'helpful and authentic'}
 
 SEO Queries to Target: ${seoQueryText || 'None specified'}
-
-Recent Topics (avoid similar): ${recentTopics.join(', ') || 'None'}
+${theme ? `\nCampaign Theme This Week: ${theme} (most topics should fit this theme)\n` : ''}
+Recent Topics (avoid similar): ${recentTopics.slice(0, 10).join(', ') || 'None'}
 
 Requirements:
 1. Topics must feel NATURAL for Reddit - not salesy or promotional
@@ -69,64 +68,64 @@ Format as JSON array:
   }
 ]`;
 
-  try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4-turbo-preview',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expert Reddit content strategist. Generate authentic, non-salesy topics that drive organic engagement.',
-        },
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-      response_format: { type: 'json_object' },
-      temperature: 0.8,
-    });
+  const llm = params.llm || getLLMProviderForCompany(company);
+  const similarity = params.similarity || createTopicSimilarityScorer({ llm, company });
+  let usedFallback = false;
 
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No response from OpenAI');
-    }
-
-    const parsed = JSON.parse(content);
-    // Handle both {topics: [...]} and [...] formats
-    const topics = Array.isArray(parsed) 
-      ? parsed 
-      : (Array.isArray(parsed.topics) ? parsed.topics : []);
-
-    // Filter and score topics
-    const generated: GeneratedTopic[] = topics
-      .slice(0, count * 2) // Generate more than needed for filtering
-      .map((t: any) => ({
-        topic: t.topic || t.title || '',
-        relevance_score: calculateRelevanceScore(t.topic || '', company),
-        post_type: (t.post_type || 'question') as 'question' | 'story' | 'advice',
-      }))
-      .filter((t: any) => {
-        // Filter out salesy language
-        const salesyKeywords = ['buy', 'purchase', 'sign up', 'try now', 'get started', 'free trial'];
-        const lowerTopic = t.topic.toLowerCase();
-        return !salesyKeywords.some(keyword => lowerTopic.includes(keyword));
-      })
-      .filter((t: any) => {
-        // Check against recent topics (fuzzy match)
-        return !recentTopics.some(recent => {
-          const similarity = calculateSimilarity(t.topic, recent);
-          return similarity > 0.7; // 70% similarity threshold
-        });
-      })
-      .sort((a: any, b: any) => b.relevance_score - a.relevance_score)
-      .slice(0, count);
-
-    return generated;
-  } catch (error) {
-    console.error('Error generating topics:', error);
+  const candidates = await generateJSON(
+    llm,
+    {
+      task: 'topics',
+      system: 'You are an expert Reddit content strategist. Generate authentic, non-salesy topics that drive organic engagement.',
+      prompt,
+      temperature: 0.8,
+    },
+    parsed => {
+      // Handle both {topics: [...]} and [...] formats
+      const topics = Array.isArray(parsed) 
+        ? parsed 
+        : (Array.isArray(parsed.topics) ? parsed.topics : []);
+
+      // Filter and score topics
+      const generated: GeneratedTopic[] = topics
+        .slice(0, count * 2) // Generate more than needed for filtering
+        .map((t: any) => ({
+          topic: t.topic || t.title || '',
+          relevance_score: calculateRelevanceScore(t.topic || '', company),
+          post_type: (t.post_type || 'question') as 'question' | 'story' | 'advice',
+        }))
+        .filter((t: any) => {
+          // Filter out salesy language
+          const salesyKeywords = ['buy', 'purchase', 'sign up', 'try now', 'get started', 'free trial'];
+          const lowerTopic = t.topic.toLowerCase();
+          return !salesyKeywords.some(keyword => lowerTopic.includes(keyword));
+        })
+        .sort((a: any, b: any) => b.relevance_score - a.relevance_score);
+
+      return generated;
+    },
     // Fallback to simple topic generation
-    return generateFallbackTopics(company, count);
+    () => {
+      usedFallback = true;
+      return generateFallbackTopics(company, count, recentTopics, theme);
+    }
+  );
+
+  // Template topics already skip recent ones and share phrasing by design
+  if (usedFallback) return candidates;
+
+  // Drop topics semantically close to a recent one or to a better-scored candidate
+  await similarity.prepare([...candidates.map(t => t.topic), ...recentTopics]);
+  const kept: GeneratedTopic[] = [];
+  for (const candidate of candidates) {
+    if (kept.length >= count) break;
+    if (recentTopics.some(recent => similarity.isSimilar(candidate.topic, recent))) continue;
+    if (kept.some(k => similarity.isSimilar(candidate.topic, k.topic))) continue;
+    kept.push(candidate);
   }
+
+  console.log(`Kept ${kept.length}/${candidates.length} topics after ${similarity.method} similarity filtering`);
+  return kept;
 }
 
 function calculateRelevanceScore(topic: string, company: Company): number {
@@ -157,20 +156,22 @@ function calculateRelevanceScore(topic: string, company: Company): number {
   return Math.min(1.0, Math.max(0, score));
 }
 
-function calculateSimilarity(str1: string, str2: string): number {
-  const words1 = str1.toLowerCase().split(/\s+/);
-  const words2 = str2.toLowerCase().split(/\s+/);
-  const intersection = words1.filter(w => words2.includes(w));
-  const union = [...new Set([...words1, ...words2])];
-  return intersection.length / union.length;
-}
-
-function generateFallbackTopics(company: Company, count: number): GeneratedTopic[] {
+function generateFallbackTopics(
+  company: Company,
+  count: number,
+  recentTopics: string[] = [],
+  theme?: string
+): GeneratedTopic[] {
   const topics: GeneratedTopic[] = [];
   const postTypes: Array<'question' | 'story' | 'advice'> = ['question', 'story', 'advice'];
-
-  for (let i = 0; i < count; i++) {
-    const painPoint = company.pain_points[i % company.pain_points.length] || 'challenges';
+  const subjects = theme ? [theme, ...company.pain_points] : company.pain_points;
+  const recent = new Set(recentTopics.map(t => t.toLowerCase()));
+
+  // Walk subject/post-type combinations, skipping topics used recently
+  const combinations = Math.max(count, subjects.length * postTypes.length);
+  for (let i = 0; i < combinations && topics.length < count; i++) {
+    // Step the subject once per full cycle of post types so combinations don't repeat
+    const painPoint = subjects[Math.floor(i / postTypes.length) % subjects.length] || 'challenges';
     const postType = postTypes[i % postTypes.length];
 
     let topic = '';
@@ -182,6 +183,8 @@ function generateFallbackTopics(company: Company, count: number): GeneratedTopic
       topic = `Tips for dealing with ${painPoint}`;
     }
 
+    if (recent.has(topic.toLowerCase())) continue;
+
     topics.push({
       topic,
       relevance_score: 0.6,
@@ -0,0 +1,160 @@
+/**
+ * Wording Patterns Module
+ * Phrase fingerprints (word n-grams) from generated titles, bodies and replies, tracked in
+ * wording_patterns so phrasing reused across weeks can be flagged
+ */
+
+import type { CalendarPost, CalendarReply, CalendarPlan, WordingPattern } from '@/types';
+import { STOP_WORDS, normalizeTopic } from './similarity';
+
+export type WordingPatternDelta = CalendarPlan['wording_patterns'][number];
+
+export const PHRASE_LENGTH = 3; // Words per fingerprint
+
+// Total uses (earlier weeks + this week) at which a phrase counts as overused
+export const OVERUSED_PHRASE_COUNT = 3;
+
+export interface PhraseUse {
+  pattern: string;
+  persona_id: string;
+  used_date: string | null; // yyyy-MM-dd
+}
+
+/**
+ * Distinct n-gram fingerprints in a text. N-grams made mostly of stop words
+ * ("i have been") are skipped - they say nothing about a persona's phrasing.
+ */
+export function extractPhrases(text: string | null | undefined): string[] {
+  if (!text) return [];
+  const words = normalizeTopic(text).split(' ').filter(Boolean);
+  const phrases = new Set<string>();
+
+  for (let i = 0; i + PHRASE_LENGTH <= words.length; i++) {
+    const gram = words.slice(i, i + PHRASE_LENGTH);
+    const contentWords = gram.filter(w => w.length > 2 && !STOP_WORDS.has(w)).length;
+    if (contentWords >= 2) {
+      phrases.add(gram.join(' '));
+    }
+  }
+
+  return Array.from(phrases);
+}
+
+/**
+ * Every phrase use in a week: post titles (or topics until titles are drafted), bodies and replies.
+ * Replies are dated by their post's day.
+ */
+export function collectPhraseUses(
+  posts: CalendarPost[],
+  replies: CalendarReply[],
+  weekStartDate?: string
+): PhraseUse[] {
+  const postDates = new Map<string, string | null>();
+  const dateFor = (dayOfWeek: number) => {
+    if (!weekStartDate) return null;
+    const date = new Date(`${weekStartDate}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + dayOfWeek);
+    return date.toISOString().split('T')[0];
+  };
+
+  const uses: PhraseUse[] = [];
+  posts.forEach(post => {
+    const usedDate = dateFor(post.day_of_week);
+    postDates.set(post.id, usedDate);
+    [post.planned_title || post.topic, post.planned_body].forEach(text => {
+      extractPhrases(text).forEach(pattern => uses.push({ pattern, persona_id: post.persona_id, used_date: usedDate }));
+    });
+  });
+
+  replies.forEach(reply => {
+    const usedDate = postDates.get(reply.post_id) ?? null;
+    extractPhrases(reply.planned_content).forEach(pattern =>
+      uses.push({ pattern, persona_id: reply.persona_id, used_date: usedDate })
+    );
+  });
+
+  return uses;
+}
+
+/**
+ * Rolls phrase uses up into per-pattern deltas for the plan. `removed` is content being
+ * replaced (regeneration), which is subtracted so counts don't inflate.
+ */
+export function buildWordingPatternDeltas(
+  companyId: string,
+  added: PhraseUse[],
+  removed: PhraseUse[] = []
+): WordingPatternDelta[] {
+  const deltas = new Map<string, WordingPatternDelta>();
+  const deltaFor = (pattern: string) => {
+    let delta = deltas.get(pattern);
+    if (!delta) {
+      delta = { company_id: companyId, pattern, usage_count: 0, last_used_date: null, persona_ids: [] };
+      deltas.set(pattern, delta);
+    }
+    return delta;
+  };
+
+  added.forEach(use => {
+    const delta = deltaFor(use.pattern);
+    delta.usage_count++;
+    if (use.used_date && (!delta.last_used_date || use.used_date > delta.last_used_date)) {
+      delta.last_used_date = use.used_date;
+    }
+    if (!delta.persona_ids.includes(use.persona_id)) {
+      delta.persona_ids.push(use.persona_id);
+    }
+  });
+  removed.forEach(use => {
+    deltaFor(use.pattern).usage_count--;
+  });
+
+  return Array.from(deltas.values()).filter(d => d.usage_count !== 0);
+}
+
+/**
+ * Applies deltas to stored patterns: counts add up (never below zero), dates keep the latest,
+ * personas accumulate. New patterns get an empty id for the caller to fill in.
+ */
+export function applyWordingPatternDeltas(
+  patterns: WordingPattern[],
+  deltas: WordingPatternDelta[]
+): WordingPattern[] {
+  const byPattern = new Map(patterns.map(p => [`${p.company_id}:${p.pattern}`, p]));
+
+  deltas.forEach(delta => {
+    const key = `${delta.company_id}:${delta.pattern}`;
+    const existing = byPattern.get(key);
+    if (existing) {
+      byPattern.set(key, {
+        ...existing,
+        usage_count: Math.max(0, existing.usage_count + delta.usage_count),
+        last_used_date: [existing.last_used_date, delta.last_used_date].filter(Boolean).sort().pop() || null,
+        persona_ids: Array.from(new Set([...existing.persona_ids, ...delta.persona_ids])),
+      });
+    } else if (delta.usage_count > 0) {
+      byPattern.set(key, { ...delta, id: '', created_at: new Date().toISOString() });
+    }
+  });
+
+  return Array.from(byPattern.values());
+}
+
+/**
+ * Phrases this week's content repeats from earlier weeks often enough to count as overused
+ */
+export function findReusedPhrases(uses: PhraseUse[], history: WordingPattern[]): string[] {
+  const previous = new Map(history.filter(p => p.usage_count > 0).map(p => [p.pattern, p.usage_count]));
+  const thisWeek = new Map<string, number>();
+  uses.forEach(use => thisWeek.set(use.pattern, (thisWeek.get(use.pattern) || 0) + 1));
+
+  const overused: string[] = [];
+  thisWeek.forEach((count, pattern) => {
+    const earlier = previous.get(pattern);
+    if (earlier !== undefined && earlier + count >= OVERUSED_PHRASE_COUNT) {
+      overused.push(pattern);
+    }
+  });
+
+  return overused;
+}
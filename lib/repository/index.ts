@@ -0,0 +1,23 @@
+/**
+ * Repository Layer
+ * Typed data access for the planner so it can run against Supabase or an in-memory store
+ */
+
+export type {
+  PlanningRepository,
+  CalendarFilter,
+  CalendarUpdate,
+  NewCalendar,
+  NewCalendarPost,
+  NewCalendarReply,
+  CalendarPostUpdate,
+  CalendarReplyUpdate,
+  NewAuditEntry,
+  CalendarMerge,
+  CalendarMergeOperation,
+  TopicHistoryUpsert,
+  TopicSimilarityUpsert,
+  SubredditActivityUpsert,
+} from './types';
+export { createSupabaseRepository } from './supabase';
+export { createMemoryRepository, type MemoryRepository, type MemoryStoreData } from './memory';
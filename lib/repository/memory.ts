@@ -0,0 +1,521 @@
+import type {
+  Company,
+  Persona,
+  Subreddit,
+  SEOQuery,
+  ContentCalendar,
+  CalendarPost,
+  CalendarReply,
+  TopicHistory,
+  TopicSimilarity,
+  WordingPattern,
+  SubredditActivity,
+  CalendarAuditEntry,
+  Campaign,
+} from '@/types';
+import type { PlanningRepository } from './types';
+import { applyWordingPatternDeltas } from '@/lib/planning/wording';
+import { isCalendarLocked } from '@/lib/workflow';
+
+export interface MemoryStoreData {
+  companies: Company[];
+  personas: Persona[];
+  subreddits: Subreddit[];
+  seoQueries: SEOQuery[];
+  calendars: ContentCalendar[];
+  posts: CalendarPost[];
+  replies: CalendarReply[];
+  topicHistory: TopicHistory[];
+  topicSimilarity: TopicSimilarity[];
+  wordingPatterns: WordingPattern[];
+  subredditActivity: SubredditActivity[];
+  auditLog: CalendarAuditEntry[];
+  campaigns: Campaign[];
+}
+
+export interface MemoryRepository extends PlanningRepository {
+  data: MemoryStoreData; // Live tables, exposed for fixtures and assertions
+}
+
+/**
+ * In-memory repository for unit tests, scenario runs and local planning without a database.
+ * Ids are sequential ("post-1", "post-2", ...) so runs are reproducible.
+ */
+export function createMemoryRepository(initial: Partial<MemoryStoreData> = {}): MemoryRepository {
+  const data: MemoryStoreData = {
+    companies: [...(initial.companies || [])],
+    personas: [...(initial.personas || [])],
+    subreddits: [...(initial.subreddits || [])],
+    seoQueries: [...(initial.seoQueries || [])],
+    calendars: [...(initial.calendars || [])],
+    posts: [...(initial.posts || [])],
+    replies: [...(initial.replies || [])],
+    topicHistory: [...(initial.topicHistory || [])],
+    topicSimilarity: [...(initial.topicSimilarity || [])],
+    wordingPatterns: [...(initial.wordingPatterns || [])],
+    subredditActivity: [...(initial.subredditActivity || [])],
+    auditLog: [...(initial.auditLog || [])],
+    campaigns: [...(initial.campaigns || [])],
+  };
+
+  const counters = new Map<string, number>();
+  const nextId = (prefix: string) => {
+    const next = (counters.get(prefix) || 0) + 1;
+    counters.set(prefix, next);
+    return `${prefix}-${next}`;
+  };
+  const now = () => new Date().toISOString();
+
+  const repository: MemoryRepository = {
+    data,
+
+    async getCompany(companyId) {
+      return data.companies.find(c => c.id === companyId) || null;
+    },
+
+    async listPersonas(companyId) {
+      return data.personas.filter(p => p.company_id === companyId);
+    },
+
+    async listSubreddits(companyId) {
+      return data.subreddits.filter(s => s.company_id === companyId);
+    },
+
+    async listSEOQueries(companyId) {
+      return data.seoQueries
+        .filter(q => q.company_id === companyId)
+        .sort((a, b) => b.priority - a.priority);
+    },
+
+    async listTopicHistory(companyId) {
+      return data.topicHistory.filter(t => t.company_id === companyId);
+    },
+
+    async upsertTopicHistory(entry) {
+      const index = data.topicHistory.findIndex(
+        t => t.company_id === entry.company_id && t.topic === entry.topic
+      );
+      if (index >= 0) {
+        data.topicHistory[index] = { ...data.topicHistory[index], ...entry };
+      } else {
+        data.topicHistory.push({ ...entry, id: nextId('topic'), created_at: now() });
+      }
+    },
+
+    async listTopicSimilarities(companyId) {
+      return data.topicSimilarity.filter(t => t.company_id === companyId);
+    },
+
+    async upsertTopicSimilarity(entry) {
+      const index = data.topicSimilarity.findIndex(
+        t => t.company_id === entry.company_id && t.topic1 === entry.topic1 && t.topic2 === entry.topic2
+      );
+      if (index >= 0) {
+        data.topicSimilarity[index] = { ...data.topicSimilarity[index], ...entry };
+      } else {
+        data.topicSimilarity.push({ ...entry, id: nextId('similarity'), created_at: now() });
+      }
+    },
+
+    async listWordingPatterns(companyId, limit) {
+      const patterns = data.wordingPatterns
+        .filter(p => p.company_id === companyId)
+        .sort((a, b) => b.usage_count - a.usage_count || (b.last_used_date || '').localeCompare(a.last_used_date || ''));
+      return limit ? patterns.slice(0, limit) : patterns;
+    },
+
+    async listSubredditActivity(companyId, weekStartDate) {
+      return data.subredditActivity.filter(
+        a => a.company_id === companyId && a.week_start_date === weekStartDate
+      );
+    },
+
+    async upsertSubredditActivity(activity) {
+      const index = data.subredditActivity.findIndex(
+        a => a.subreddit_id === activity.subreddit_id &&
+             a.company_id === activity.company_id &&
+             a.week_start_date === activity.week_start_date
+      );
+      if (index >= 0) {
+        data.subredditActivity[index] = { ...data.subredditActivity[index], ...activity, id: data.subredditActivity[index].id };
+      } else {
+        data.subredditActivity.push({
+          ...activity,
+          id: activity.id || nextId('activity'),
+          created_at: activity.created_at || now(),
+        });
+      }
+    },
+
+    async getCalendar(calendarId) {
+      return data.calendars.find(c => c.id === calendarId) || null;
+    },
+
+    async listCalendars(companyId, filter = {}) {
+      let calendars = data.calendars.filter(c => c.company_id === companyId);
+      if (filter.createdSince) {
+        const since = filter.createdSince.getTime();
+        calendars = calendars.filter(c => new Date(c.created_at).getTime() >= since);
+      }
+      if (filter.weekStartBefore) {
+        calendars = calendars.filter(c => c.week_start_date < filter.weekStartBefore!);
+      }
+      if (filter.campaignId) {
+        calendars = calendars.filter(c => c.campaign_id === filter.campaignId);
+      }
+      calendars = [...calendars].sort((a, b) => b.week_start_date.localeCompare(a.week_start_date));
+      return filter.limit ? calendars.slice(0, filter.limit) : calendars;
+    },
+
+    async createCalendar(calendar) {
+      const duplicate = data.calendars.find(
+        c => c.company_id === calendar.company_id && c.week_start_date === calendar.week_start_date
+      );
+      if (duplicate) {
+        // Mirrors the UNIQUE(company_id, week_start_date) constraint
+        throw new Error(`Failed to create calendar: a calendar for week ${calendar.week_start_date} already exists`);
+      }
+      const created: ContentCalendar = { ...calendar, id: nextId('calendar'), created_at: now() };
+      data.calendars.push(created);
+      return created;
+    },
+
+    async updateCalendar(calendarId, updates) {
+      const index = data.calendars.findIndex(c => c.id === calendarId);
+      if (index < 0) {
+        throw new Error(`Failed to update calendar: ${calendarId} not found`);
+      }
+      data.calendars[index] = { ...data.calendars[index], ...updates };
+    },
+
+    async listPosts(calendarIds) {
+      return data.posts.filter(p => calendarIds.includes(p.calendar_id));
+    },
+
+    async getPost(postId) {
+      return data.posts.find(p => p.id === postId) || null;
+    },
+
+    async createPost(post) {
+      const created: CalendarPost = {
+        planned_title: null,
+        planned_body: null,
+        ...post,
+        id: nextId('post'),
+        created_at: now(),
+      };
+      data.posts.push(created);
+      return created;
+    },
+
+    async updatePost(postId, updates) {
+      const index = data.posts.findIndex(p => p.id === postId);
+      if (index < 0) {
+        throw new Error(`Failed to update post: ${postId} not found`);
+      }
+      data.posts[index] = { ...data.posts[index], ...updates, updated_at: now() };
+      return data.posts[index];
+    },
+
+    async deletePost(postId) {
+      data.posts = data.posts.filter(p => p.id !== postId);
+      data.replies = data.replies.filter(r => r.post_id !== postId);
+    },
+
+    async listReplies(postIds) {
+      return data.replies.filter(r => postIds.includes(r.post_id));
+    },
+
+    async getReply(replyId) {
+      return data.replies.find(r => r.id === replyId) || null;
+    },
+
+    async createReply(reply) {
+      const created: CalendarReply = { ...reply, id: nextId('reply'), created_at: now() };
+      data.replies.push(created);
+      return created;
+    },
+
+    async updateReply(replyId, updates) {
+      const index = data.replies.findIndex(r => r.id === replyId);
+      if (index < 0) {
+        throw new Error(`Failed to update reply: ${replyId} not found`);
+      }
+      data.replies[index] = { ...data.replies[index], ...updates, updated_at: now() };
+      return data.replies[index];
+    },
+
+    async deleteReply(replyId) {
+      // Same cascade as the parent_reply_id foreign key
+      const removed = new Set([replyId]);
+      let grew = true;
+      while (grew) {
+        grew = false;
+        data.replies.forEach(r => {
+          if (r.parent_reply_id && removed.has(r.parent_reply_id) && !removed.has(r.id)) {
+            removed.add(r.id);
+            grew = true;
+          }
+        });
+      }
+      data.replies = data.replies.filter(r => !removed.has(r.id));
+    },
+
+    async listAuditLog(calendarId) {
+      return data.auditLog.filter(e => e.calendar_id === calendarId);
+    },
+
+    async createAuditEntry(entry) {
+      const created: CalendarAuditEntry = { ...entry, id: nextId('audit'), created_at: now() };
+      data.auditLog.push(created);
+      return created;
+    },
+
+    async applyTransition(calendarId, updates, entry) {
+      const index = data.calendars.findIndex(c => c.id === calendarId);
+      if (index < 0 || data.calendars[index].status !== entry.from_status) return null;
+      data.calendars[index] = { ...data.calendars[index], ...updates };
+      return repository.createAuditEntry(entry);
+    },
+
+    async editUnlockedPost(postId, updates, entry) {
+      const post = data.posts.find(p => p.id === postId);
+      const calendar = data.calendars.find(c => c.id === post?.calendar_id);
+      if (!post || !calendar || isCalendarLocked(calendar.status)) return null;
+      const edited = await repository.updatePost(postId, updates);
+      await repository.createAuditEntry(entry);
+      return edited;
+    },
+
+    async editUnlockedReply(replyId, updates, entry) {
+      const reply = data.replies.find(r => r.id === replyId);
+      const post = data.posts.find(p => p.id === reply?.post_id);
+      const calendar = data.calendars.find(c => c.id === post?.calendar_id);
+      if (!reply || !calendar || isCalendarLocked(calendar.status)) return null;
+      const edited = await repository.updateReply(replyId, updates);
+      await repository.createAuditEntry(entry);
+      return edited;
+    },
+
+    async applyCalendarMerge(calendarId, merge) {
+      const calendar = data.calendars.find(c => c.id === calendarId);
+      if (!calendar) {
+        throw new Error(`Failed to apply calendar changes: calendar ${calendarId} not found`);
+      }
+      if (isCalendarLocked(calendar.status)) return false;
+
+      const log = (action: 'edit_post' | 'edit_reply', details: Record<string, unknown>) =>
+        repository.createAuditEntry({
+          calendar_id: calendarId,
+          actor: merge.actor,
+          action,
+          from_status: null,
+          to_status: null,
+          comment: merge.comment,
+          details,
+        });
+      const inCalendar = (postId: string | undefined) =>
+        !!postId && data.posts.some(p => p.id === postId && p.calendar_id === calendarId);
+
+      // Put the tables back if an operation fails, like the transaction the database function runs in
+      const snapshot = {
+        calendars: [...data.calendars],
+        posts: [...data.posts],
+        replies: [...data.replies],
+        auditLog: [...data.auditLog],
+      };
+      const postIds = new Map<string, string>();
+      const replyIds = new Map<string, string>();
+      try {
+        for (const operation of merge.operations) {
+          switch (operation.op) {
+            case 'update_post': {
+              if (!inCalendar(operation.post_id)) {
+                throw new Error(`post ${operation.post_id} is not in calendar ${calendarId}`);
+              }
+              await repository.updatePost(operation.post_id, operation.updates);
+              if (operation.log !== false) {
+                await log('edit_post', { post_id: operation.post_id, fields: Object.keys(operation.updates) });
+              }
+              break;
+            }
+            case 'create_post': {
+              const created = await repository.createPost({ ...operation.post, calendar_id: calendarId });
+              postIds.set(operation.key, created.id);
+              await log('edit_post', { post_id: created.id, change: 'added' });
+              break;
+            }
+            case 'create_reply': {
+              const postId = operation.post_id || (operation.post_key ? postIds.get(operation.post_key) : undefined);
+              if (!inCalendar(postId)) {
+                throw new Error(`reply ${operation.key} references a post that is not in calendar ${calendarId}`);
+              }
+              const parentId = operation.parent_key ? replyIds.get(operation.parent_key) : operation.parent_reply_id ?? null;
+              if (operation.parent_key && !parentId) {
+                throw new Error(`reply ${operation.key} references unknown parent reply ${operation.parent_key}`);
+              }
+              const created = await repository.createReply({ ...operation.reply, post_id: postId!, parent_reply_id: parentId ?? null });
+              replyIds.set(operation.key, created.id);
+              await log('edit_reply', { reply_id: created.id, post_id: created.post_id, change: 'added' });
+              break;
+            }
+            case 'update_reply': {
+              const reply = data.replies.find(r => r.id === operation.reply_id);
+              if (!reply || !inCalendar(reply.post_id)) {
+                throw new Error(`reply ${operation.reply_id} is not in calendar ${calendarId}`);
+              }
+              const updates = { ...operation.updates };
+              if (operation.parent_key) {
+                if (!replyIds.has(operation.parent_key)) {
+                  throw new Error(`reply ${operation.reply_id} references unknown parent reply ${operation.parent_key}`);
+                }
+                updates.parent_reply_id = replyIds.get(operation.parent_key);
+              }
+              await repository.updateReply(operation.reply_id, updates);
+              if (operation.log !== false) {
+                await log('edit_reply', { reply_id: operation.reply_id, fields: Object.keys(operation.updates) });
+              }
+              break;
+            }
+            case 'delete_reply': {
+              const reply = data.replies.find(r => r.id === operation.reply_id);
+              if (reply && inCalendar(reply.post_id)) await repository.deleteReply(operation.reply_id);
+              await log('edit_reply', { reply_id: operation.reply_id, change: 'deleted' });
+              break;
+            }
+            case 'delete_post': {
+              if (inCalendar(operation.post_id)) await repository.deletePost(operation.post_id);
+              await log('edit_post', { post_id: operation.post_id, change: 'deleted' });
+              break;
+            }
+          }
+        }
+        if (merge.posts_per_week !== undefined) {
+          await repository.updateCalendar(calendarId, { posts_per_week: merge.posts_per_week });
+        }
+      } catch (error: any) {
+        Object.assign(data, snapshot);
+        throw new Error(`Failed to apply calendar changes: ${error.message}`);
+      }
+      return true;
+    },
+
+    async saveCalendarPlan(plan) {
+      const { calendar: draft } = plan;
+
+      // Validate everything before touching the tables so a failure writes nothing
+      let existingIndex = -1;
+      if (plan.existing_calendar_id) {
+        existingIndex = data.calendars.findIndex(c => c.id === plan.existing_calendar_id);
+        if (existingIndex < 0) {
+          throw new Error(`Failed to save plan: calendar ${plan.existing_calendar_id} not found`);
+        }
+        const { status } = data.calendars[existingIndex];
+        if (isCalendarLocked(status)) {
+          throw new Error(`Failed to save plan: calendar is ${status}; reopen it before regenerating posts`);
+        }
+      } else if (data.calendars.some(
+        c => c.company_id === draft.company_id && c.week_start_date === draft.week_start_date
+      )) {
+        throw new Error(`Failed to create calendar: a calendar for week ${draft.week_start_date} already exists`);
+      }
+      const postKeys = new Set(plan.posts.map(p => p.id));
+      const orphan = plan.replies.find(r => !postKeys.has(r.post_id));
+      if (orphan) {
+        throw new Error(`Failed to save plan: reply ${orphan.id} references unknown post ${orphan.post_id}`);
+      }
+      // Parents are saved first, so a reply may only answer one listed before it
+      const replyKeys = new Set<string>();
+      for (const reply of plan.replies) {
+        if (reply.parent_reply_id && !replyKeys.has(reply.parent_reply_id)) {
+          throw new Error(`Failed to save plan: reply ${reply.id} references unknown parent ${reply.parent_reply_id}`);
+        }
+        replyKeys.add(reply.id);
+      }
+
+      let calendar: ContentCalendar;
+      if (existingIndex >= 0) {
+        const existing = data.calendars[existingIndex];
+        calendar = { ...existing, ...draft, id: existing.id, status: existing.status };
+        data.calendars[existingIndex] = calendar;
+
+        // Regeneration replaces the previous posts and their replies
+        const oldPostIds = new Set(data.posts.filter(p => p.calendar_id === calendar.id).map(p => p.id));
+        data.posts = data.posts.filter(p => !oldPostIds.has(p.id));
+        data.replies = data.replies.filter(r => !oldPostIds.has(r.post_id));
+      } else {
+        calendar = { ...draft, id: nextId('calendar'), status: 'draft', created_at: now() };
+        data.calendars.push(calendar);
+      }
+
+      const postIds = new Map<string, string>();
+      for (const post of plan.posts) {
+        const id = nextId('post');
+        postIds.set(post.id, id);
+        data.posts.push({ ...post, id, calendar_id: calendar.id, created_at: now() });
+      }
+      const replyIds = new Map<string, string>();
+      for (const reply of plan.replies) {
+        const id = nextId('reply');
+        replyIds.set(reply.id, id);
+        data.replies.push({
+          ...reply,
+          id,
+          post_id: postIds.get(reply.post_id)!,
+          parent_reply_id: reply.parent_reply_id ? replyIds.get(reply.parent_reply_id)! : null,
+          created_at: now(),
+        });
+      }
+      for (const entry of plan.topic_history) {
+        await repository.upsertTopicHistory(entry);
+      }
+      for (const pair of plan.topic_similarity) {
+        await repository.upsertTopicSimilarity(pair);
+      }
+      data.wordingPatterns = applyWordingPatternDeltas(data.wordingPatterns, plan.wording_patterns)
+        .map(p => (p.id ? p : { ...p, id: nextId('pattern') }));
+      for (const activity of plan.subreddit_activity) {
+        await repository.upsertSubredditActivity(activity);
+      }
+
+      return calendar;
+    },
+
+    async getCampaign(campaignId) {
+      return data.campaigns.find(c => c.id === campaignId) || null;
+    },
+
+    async listCampaigns(companyId) {
+      return data.campaigns
+        .filter(c => c.company_id === companyId)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at));
+    },
+
+    async saveCampaignPlan(plan) {
+      const { campaign: draft, weeks } = plan;
+
+      // Validate every week up front; saveCalendarPlan would otherwise fail part-way through
+      const taken = weeks
+        .map(w => w.calendar.week_start_date)
+        .filter(week => data.calendars.some(c => c.company_id === draft.company_id && c.week_start_date === week));
+      if (taken.length > 0) {
+        throw new Error(`Failed to save campaign: calendars already exist for week(s) ${taken.join(', ')}`);
+      }
+
+      const campaign: Campaign = { ...draft, id: nextId('campaign'), created_at: now() };
+      data.campaigns.push(campaign);
+
+      for (const week of weeks) {
+        await repository.saveCalendarPlan({
+          ...week,
+          existing_calendar_id: null,
+          calendar: { ...week.calendar, campaign_id: campaign.id },
+        });
+      }
+
+      return campaign;
+    },
+  };
+
+  return repository;
+}
@@ -0,0 +1,450 @@
+import { createServerClient } from '@/lib/supabase/client';
+import type {
+  Company,
+  Persona,
+  Subreddit,
+  SEOQuery,
+  ContentCalendar,
+  CalendarPost,
+  CalendarReply,
+  TopicHistory,
+  TopicSimilarity,
+  WordingPattern,
+  SubredditActivity,
+  CalendarPlan,
+  CalendarAuditEntry,
+  Campaign,
+  CampaignPlan,
+} from '@/types';
+import type {
+  PlanningRepository,
+  CalendarFilter,
+  CalendarUpdate,
+  NewCalendar,
+  NewCalendarPost,
+  NewCalendarReply,
+  CalendarPostUpdate,
+  CalendarReplyUpdate,
+  NewAuditEntry,
+  CalendarMerge,
+  TopicHistoryUpsert,
+  TopicSimilarityUpsert,
+  SubredditActivityUpsert,
+} from './types';
+
+type SupabaseClient = ReturnType<typeof createServerClient>;
+
+/**
+ * Supabase-backed repository used by the API routes
+ */
+export function createSupabaseRepository(client?: SupabaseClient): PlanningRepository {
+  const supabase = client || createServerClient();
+  // Cast supabase client to bypass strict typing for inserts/updates on migrated columns
+  const db = supabase as any;
+
+  return {
+    async getCompany(companyId) {
+      const { data } = await supabase
+        .from('companies')
+        .select('*')
+        .eq('id', companyId)
+        .single();
+      return (data as Company | null) || null;
+    },
+
+    async listPersonas(companyId) {
+      const { data } = await supabase
+        .from('personas')
+        .select('*')
+        .eq('company_id', companyId);
+      return (data || []) as Persona[];
+    },
+
+    async listSubreddits(companyId) {
+      const { data } = await supabase
+        .from('subreddits')
+        .select('*')
+        .eq('company_id', companyId);
+      return (data || []) as Subreddit[];
+    },
+
+    async listSEOQueries(companyId) {
+      const { data } = await supabase
+        .from('seo_queries')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('priority', { ascending: false });
+      return (data || []) as SEOQuery[];
+    },
+
+    async listTopicHistory(companyId) {
+      const { data } = await supabase
+        .from('topic_history')
+        .select('*')
+        .eq('company_id', companyId);
+      return (data || []) as TopicHistory[];
+    },
+
+    async upsertTopicHistory(entry: TopicHistoryUpsert) {
+      await db
+        .from('topic_history')
+        .upsert(entry, {
+          onConflict: 'company_id,topic',
+        });
+    },
+
+    async listTopicSimilarities(companyId) {
+      const { data } = await db
+        .from('topic_similarity')
+        .select('*')
+        .eq('company_id', companyId);
+      return (data || []) as TopicSimilarity[];
+    },
+
+    async upsertTopicSimilarity(entry: TopicSimilarityUpsert) {
+      await db
+        .from('topic_similarity')
+        .upsert(entry, {
+          onConflict: 'company_id,topic1,topic2',
+        });
+    },
+
+    async listWordingPatterns(companyId, limit) {
+      let query = db
+        .from('wording_patterns')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('usage_count', { ascending: false })
+        .order('last_used_date', { ascending: false });
+      if (limit) {
+        query = query.limit(limit);
+      }
+
+      const { data } = await query;
+      return (data || []) as WordingPattern[];
+    },
+
+    async listSubredditActivity(companyId, weekStartDate) {
+      const { data } = await supabase
+        .from('subreddit_activity')
+        .select('*')
+        .eq('company_id', companyId)
+        .eq('week_start_date', weekStartDate);
+      return (data || []) as SubredditActivity[];
+    },
+
+    async upsertSubredditActivity(activity: SubredditActivityUpsert) {
+      // Let the database assign ids for activity rows created during planning
+      const { id, created_at, ...row } = activity;
+      await db
+        .from('subreddit_activity')
+        .upsert(id ? { id, ...row } : row, {
+          onConflict: 'subreddit_id,company_id,week_start_date',
+        });
+    },
+
+    async getCalendar(calendarId) {
+      const { data } = await supabase
+        .from('content_calendars')
+        .select('*')
+        .eq('id', calendarId)
+        .single();
+      return (data as ContentCalendar | null) || null;
+    },
+
+    async listCalendars(companyId, filter: CalendarFilter = {}) {
+      let query = supabase
+        .from('content_calendars')
+        .select('*')
+        .eq('company_id', companyId);
+
+      if (filter.createdSince) {
+        query = query.gte('created_at', filter.createdSince.toISOString());
+      }
+      if (filter.weekStartBefore) {
+        query = query.lt('week_start_date', filter.weekStartBefore);
+      }
+      if (filter.campaignId) {
+        query = query.eq('campaign_id', filter.campaignId);
+      }
+
+      query = query.order('week_start_date', { ascending: false });
+      if (filter.limit) {
+        query = query.limit(filter.limit);
+      }
+
+      const { data } = await query;
+      return (data || []) as ContentCalendar[];
+    },
+
+    async createCalendar(calendar: NewCalendar) {
+      const { data, error } = await db
+        .from('content_calendars')
+        .insert(calendar)
+        .select()
+        .single();
+
+      if (error || !data) {
+        throw new Error(`Failed to create calendar: ${error?.message}`);
+      }
+      return data as ContentCalendar;
+    },
+
+    async updateCalendar(calendarId, updates: CalendarUpdate) {
+      const { error } = await db
+        .from('content_calendars')
+        .update(updates)
+        .eq('id', calendarId);
+
+      if (error) {
+        throw new Error(`Failed to update calendar: ${error.message}`);
+      }
+    },
+
+    async listPosts(calendarIds) {
+      if (calendarIds.length === 0) return [];
+      const { data } = await supabase
+        .from('calendar_posts')
+        .select('*')
+        .in('calendar_id', calendarIds);
+      return (data || []) as CalendarPost[];
+    },
+
+    async getPost(postId) {
+      const { data } = await supabase
+        .from('calendar_posts')
+        .select('*')
+        .eq('id', postId)
+        .single();
+      return (data as CalendarPost | null) || null;
+    },
+
+    async createPost(post: NewCalendarPost) {
+      const { data, error } = await db
+        .from('calendar_posts')
+        .insert(post)
+        .select()
+        .single();
+
+      if (!error && data) {
+        return data as CalendarPost;
+      }
+
+      // If error is about posting_strategy column, try without it
+      if (error?.message?.includes('posting_strategy') || error?.code === '42703') {
+        console.warn('posting_strategy column not found, retrying without it');
+        const { posting_strategy, ...withoutStrategy } = post;
+        const { data: retryPost, error: retryError } = await db
+          .from('calendar_posts')
+          .insert(withoutStrategy)
+          .select()
+          .single();
+
+        if (!retryError && retryPost) {
+          return retryPost as CalendarPost;
+        }
+        throw new Error(`Failed to create post even without posting_strategy: ${retryError?.message}`);
+      }
+
+      throw new Error(`Failed to create post: ${error?.message}`);
+    },
+
+    async updatePost(postId, updates: CalendarPostUpdate) {
+      const { data, error } = await db
+        .from('calendar_posts')
+        .update(updates)
+        .eq('id', postId)
+        .select()
+        .single();
+
+      if (error || !data) {
+        throw new Error(`Failed to update post: ${error?.message}`);
+      }
+      return data as CalendarPost;
+    },
+
+    async deletePost(postId) {
+      // Replies go with it (ON DELETE CASCADE)
+      const { error } = await db.from('calendar_posts').delete().eq('id', postId);
+      if (error) {
+        throw new Error(`Failed to delete post: ${error.message}`);
+      }
+    },
+
+    async listReplies(postIds) {
+      if (postIds.length === 0) return [];
+      const { data } = await supabase
+        .from('calendar_replies')
+        .select('*')
+        .in('post_id', postIds);
+      return (data || []) as CalendarReply[];
+    },
+
+    async getReply(replyId) {
+      const { data } = await supabase
+        .from('calendar_replies')
+        .select('*')
+        .eq('id', replyId)
+        .single();
+      return (data as CalendarReply | null) || null;
+    },
+
+    async createReply(reply: NewCalendarReply) {
+      const { data, error } = await db
+        .from('calendar_replies')
+        .insert(reply)
+        .select()
+        .single();
+
+      if (error || !data) {
+        throw new Error(`Failed to create reply: ${error?.message}`);
+      }
+      return data as CalendarReply;
+    },
+
+    async updateReply(replyId, updates: CalendarReplyUpdate) {
+      const { data, error } = await db
+        .from('calendar_replies')
+        .update(updates)
+        .eq('id', replyId)
+        .select()
+        .single();
+
+      if (error || !data) {
+        throw new Error(`Failed to update reply: ${error?.message}`);
+      }
+      return data as CalendarReply;
+    },
+
+    async deleteReply(replyId) {
+      // Replies answering it go with it (ON DELETE CASCADE)
+      const { error } = await db.from('calendar_replies').delete().eq('id', replyId);
+      if (error) {
+        throw new Error(`Failed to delete reply: ${error.message}`);
+      }
+    },
+
+    async listAuditLog(calendarId) {
+      const { data } = await supabase
+        .from('calendar_audit_log')
+        .select('*')
+        .eq('calendar_id', calendarId)
+        .order('created_at', { ascending: true });
+      return (data || []) as CalendarAuditEntry[];
+    },
+
+    async createAuditEntry(entry: NewAuditEntry) {
+      const { data, error } = await db
+        .from('calendar_audit_log')
+        .insert(entry)
+        .select()
+        .single();
+
+      if (error || !data) {
+        throw new Error(`Failed to write audit log: ${error?.message}`);
+      }
+      return data as CalendarAuditEntry;
+    },
+
+    async applyTransition(calendarId, updates: CalendarUpdate, entry: NewAuditEntry) {
+      // Conditional update and audit insert in one call (see supabase/migrations/016_calendar_transitions.sql)
+      const { data, error } = await db.rpc('transition_calendar', {
+        target_id: calendarId,
+        expected_status: entry.from_status,
+        updates,
+        entry,
+      });
+
+      if (error) {
+        throw new Error(`Failed to transition calendar: ${error.message}`);
+      }
+      // No row matched the expected status: the function returns NULL
+      return data?.id ? (data as CalendarAuditEntry) : null;
+    },
+
+    async applyCalendarMerge(calendarId, merge: CalendarMerge) {
+      // Lock check, writes and audit entries in one call (see supabase/migrations/018_calendar_merge.sql)
+      const { data, error } = await db.rpc('apply_calendar_merge', {
+        target_id: calendarId,
+        merge,
+      });
+
+      if (error) {
+        throw new Error(`Failed to apply calendar changes: ${error.message}`);
+      }
+      // The calendar was approved or published first: the function returns FALSE
+      return data === true;
+    },
+
+    async editUnlockedPost(postId, updates: CalendarPostUpdate, entry: NewAuditEntry) {
+      // Lock check, update and audit entry in one call (see supabase/migrations/020_unlocked_edits.sql)
+      const { data, error } = await db.rpc('edit_unlocked_post', {
+        target_id: postId,
+        updates,
+        entry,
+      });
+
+      if (error) {
+        throw new Error(`Failed to update post: ${error.message}`);
+      }
+      // The calendar is locked (or the post is gone): the function returns NULL
+      return data?.id ? (data as CalendarPost) : null;
+    },
+
+    async editUnlockedReply(replyId, updates: CalendarReplyUpdate, entry: NewAuditEntry) {
+      const { data, error } = await db.rpc('edit_unlocked_reply', {
+        target_id: replyId,
+        updates,
+        entry,
+      });
+
+      if (error) {
+        throw new Error(`Failed to update reply: ${error.message}`);
+      }
+      return data?.id ? (data as CalendarReply) : null;
+    },
+
+    async saveCalendarPlan(plan: CalendarPlan) {
+      // Single Postgres function call so the whole plan commits or rolls back together
+      // (see supabase/migrations/004_save_calendar_plan.sql)
+      const { data, error } = await db.rpc('save_calendar_plan', { plan });
+
+      if (error || !data) {
+        throw new Error(`Failed to save calendar plan: ${error?.message}`);
+      }
+      return data as ContentCalendar;
+    },
+
+    async getCampaign(campaignId) {
+      const { data } = await db
+        .from('campaigns')
+        .select('*')
+        .eq('id', campaignId)
+        .single();
+      return (data as Campaign | null) || null;
+    },
+
+    async listCampaigns(companyId) {
+      const { data } = await db
+        .from('campaigns')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('created_at', { ascending: false });
+      return (data as Campaign[] | null) || [];
+    },
+
+    async saveCampaignPlan(plan: CampaignPlan) {
+      // Saves the campaign and each week through save_calendar_plan in one transaction
+      // (see supabase/migrations/006_campaigns.sql)
+      const { data, error } = await db.rpc('save_campaign_plan', {
+        campaign: plan.campaign,
+        weeks: plan.weeks,
+      });
+
+      if (error || !data) {
+        throw new Error(`Failed to save campaign plan: ${error?.message}`);
+      }
+      return data as Campaign;
+    },
+  };
+}
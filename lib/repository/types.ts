@@ -0,0 +1,137 @@
+/**
+ * Repository Types
+ * Data-access contract for the planner, implemented by Supabase and in-memory stores
+ */
+
+import type {
+  Company,
+  Persona,
+  Subreddit,
+  SEOQuery,
+  ContentCalendar,
+  CalendarPost,
+  CalendarReply,
+  TopicHistory,
+  SubredditActivity,
+  CalendarPlan,
+  CalendarAuditEntry,
+  TopicSimilarity,
+  WordingPattern,
+  Campaign,
+  CampaignPlan,
+} from '@/types';
+
+export type NewCalendar = Pick<ContentCalendar, 'company_id' | 'week_start_date' | 'posts_per_week' | 'status'> &
+  Partial<Pick<ContentCalendar, 'seed'>>;
+
+export type CalendarUpdate = Partial<Omit<ContentCalendar, 'id' | 'company_id' | 'created_at'>>;
+
+export type NewCalendarPost = Omit<CalendarPost, 'id' | 'created_at' | 'planned_title' | 'planned_body'> &
+  Partial<Pick<CalendarPost, 'planned_title' | 'planned_body'>>;
+
+export type NewCalendarReply = Omit<CalendarReply, 'id' | 'created_at'>;
+
+export type CalendarPostUpdate = Partial<Omit<CalendarPost, 'id' | 'calendar_id' | 'created_at'>>;
+
+export type CalendarReplyUpdate = Partial<Omit<CalendarReply, 'id' | 'post_id' | 'created_at'>>;
+
+export type NewAuditEntry = Omit<CalendarAuditEntry, 'id' | 'created_at'>;
+
+// One write in a re-import merge. Posts and replies created by the merge are referred to by their
+// key (workbook label) until they have an id. Updates are logged to the audit trail unless log is false.
+export type CalendarMergeOperation =
+  | { op: 'update_post'; post_id: string; updates: CalendarPostUpdate; log?: boolean }
+  | { op: 'create_post'; key: string; post: Omit<NewCalendarPost, 'calendar_id'> }
+  | {
+      op: 'create_reply';
+      key: string;
+      reply: Omit<NewCalendarReply, 'post_id' | 'parent_reply_id'>;
+      post_id?: string; // Existing post, or
+      post_key?: string; // a post created earlier in the merge
+      parent_reply_id?: string | null;
+      parent_key?: string; // A reply created earlier in the merge
+    }
+  | { op: 'update_reply'; reply_id: string; updates: CalendarReplyUpdate; parent_key?: string; log?: boolean }
+  | { op: 'delete_reply'; reply_id: string }
+  | { op: 'delete_post'; post_id: string };
+
+export interface CalendarMerge {
+  operations: CalendarMergeOperation[]; // Run in order
+  posts_per_week?: number; // Set when posts were added or removed
+  actor: string;
+  comment: string; // On every audit entry
+}
+
+export type TopicHistoryUpsert = Omit<TopicHistory, 'id' | 'created_at'>;
+
+export type TopicSimilarityUpsert = Omit<TopicSimilarity, 'id' | 'created_at'>;
+
+export type SubredditActivityUpsert = Omit<SubredditActivity, 'id' | 'created_at'> &
+  Partial<Pick<SubredditActivity, 'id' | 'created_at'>>;
+
+export interface CalendarFilter {
+  createdSince?: Date; // created_at >= this
+  weekStartBefore?: string; // week_start_date < this (yyyy-MM-dd)
+  campaignId?: string;
+  limit?: number; // Most recent week first
+}
+
+export interface PlanningRepository {
+  // Company configuration
+  getCompany(companyId: string): Promise<Company | null>;
+  listPersonas(companyId: string): Promise<Persona[]>;
+  listSubreddits(companyId: string): Promise<Subreddit[]>;
+  listSEOQueries(companyId: string): Promise<SEOQuery[]>; // Highest priority first
+
+  // Planning state
+  listTopicHistory(companyId: string): Promise<TopicHistory[]>;
+  upsertTopicHistory(entry: TopicHistoryUpsert): Promise<void>; // Keyed by company_id + topic
+  listTopicSimilarities(companyId: string): Promise<TopicSimilarity[]>;
+  upsertTopicSimilarity(entry: TopicSimilarityUpsert): Promise<void>; // Keyed by company_id + topic1 + topic2
+  listWordingPatterns(companyId: string, limit?: number): Promise<WordingPattern[]>; // Most used first
+  listSubredditActivity(companyId: string, weekStartDate: string): Promise<SubredditActivity[]>;
+  upsertSubredditActivity(activity: SubredditActivityUpsert): Promise<void>; // Keyed by subreddit + company + week
+
+  // Calendars
+  getCalendar(calendarId: string): Promise<ContentCalendar | null>;
+  listCalendars(companyId: string, filter?: CalendarFilter): Promise<ContentCalendar[]>;
+  createCalendar(calendar: NewCalendar): Promise<ContentCalendar>;
+  updateCalendar(calendarId: string, updates: CalendarUpdate): Promise<void>;
+
+  // Posts and replies
+  listPosts(calendarIds: string[]): Promise<CalendarPost[]>;
+  getPost(postId: string): Promise<CalendarPost | null>;
+  createPost(post: NewCalendarPost): Promise<CalendarPost>;
+  updatePost(postId: string, updates: CalendarPostUpdate): Promise<CalendarPost>;
+  deletePost(postId: string): Promise<void>; // Also deletes its replies
+  listReplies(postIds: string[]): Promise<CalendarReply[]>;
+  getReply(replyId: string): Promise<CalendarReply | null>;
+  createReply(reply: NewCalendarReply): Promise<CalendarReply>;
+  updateReply(replyId: string, updates: CalendarReplyUpdate): Promise<CalendarReply>;
+  deleteReply(replyId: string): Promise<void>; // Also deletes replies that answer it
+
+  // Approval workflow audit trail
+  listAuditLog(calendarId: string): Promise<CalendarAuditEntry[]>; // Oldest first
+  createAuditEntry(entry: NewAuditEntry): Promise<CalendarAuditEntry>;
+  // Updates the calendar and logs the status change atomically, but only while the calendar is
+  // still in entry.from_status; null if another change got there first
+  applyTransition(calendarId: string, updates: CalendarUpdate, entry: NewAuditEntry): Promise<CalendarAuditEntry | null>;
+  // Runs every operation of a merge and logs it atomically, but only while the calendar is not
+  // approved or published; false if it got locked first
+  applyCalendarMerge(calendarId: string, merge: CalendarMerge): Promise<boolean>;
+  // Edit a post or reply and log it atomically, but only while its calendar is not approved or
+  // published; null if it got locked first
+  editUnlockedPost(postId: string, updates: CalendarPostUpdate, entry: NewAuditEntry): Promise<CalendarPost | null>;
+  editUnlockedReply(replyId: string, updates: CalendarReplyUpdate, entry: NewAuditEntry): Promise<CalendarReply | null>;
+
+  // Writes a complete plan atomically: calendar, posts, replies, topic history, similar pairs,
+  // wording pattern counts and activity.
+  // Regenerating an existing calendar replaces its posts and replies.
+  saveCalendarPlan(plan: CalendarPlan): Promise<ContentCalendar>;
+
+  // Campaigns
+  getCampaign(campaignId: string): Promise<Campaign | null>;
+  listCampaigns(companyId: string): Promise<Campaign[]>; // Newest first
+  // Writes the campaign and every week's plan atomically; fails if any week already has a calendar
+  saveCampaignPlan(plan: CampaignPlan): Promise<Campaign>;
+}
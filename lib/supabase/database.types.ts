@@ -22,6 +22,12 @@ export interface Database {
           pain_points: string[];
           tone_positioning: string | null;
           website_url: string | null;
+          llm_provider?: 'openai' | 'anthropic' | 'azure' | 'local' | 'stub' | null;
+          llm_model?: string | null;
+          topic_similarity_threshold?: number | null;
+          timezone?: string | null;
+          import_mapping?: Json | null;
+          brand_budget?: Json | null;
           created_at: string;
           updated_at: string;
         };
@@ -47,9 +53,13 @@ export interface Database {
           company_id: string;
           name: string;
           rules: string | null;
+          rule_set?: Json | null;
           min_cooldown_days: number;
           max_posts_per_week: number;
           size_category: 'small' | 'medium' | 'large';
+          culture_tone?: string | null;
+          peak_hour_start?: number | null;
+          peak_hour_end?: number | null;
           created_at: string;
         };
         Insert: Omit<Database['public']['Tables']['subreddits']['Row'], 'id' | 'created_at'>;
@@ -61,7 +71,10 @@ export interface Database {
           company_id: string;
           week_start_date: string;
           posts_per_week: number;
-          status: 'draft' | 'approved' | 'published';
+          status: 'draft' | 'in_review' | 'approved' | 'published';
+          seed?: number | null;
+          campaign_id?: string | null;
+          campaign_week?: number | null;
           created_at: string;
         };
         Insert: Omit<Database['public']['Tables']['content_calendars']['Row'], 'id' | 'created_at'>;
@@ -79,22 +92,28 @@ export interface Database {
           planned_title: string | null;
           planned_body: string | null;
           order_in_day: number;
+          scheduled_at?: string | null;
+          flair?: string | null;
           created_at: string;
+          updated_at?: string | null;
         };
-        Insert: Omit<Database['public']['Tables']['calendar_posts']['Row'], 'id' | 'created_at'>;
+        Insert: Omit<Database['public']['Tables']['calendar_posts']['Row'], 'id' | 'created_at' | 'updated_at'>;
         Update: Partial<Database['public']['Tables']['calendar_posts']['Insert']>;
       };
       calendar_replies: {
         Row: {
           id: string;
           post_id: string;
+          parent_reply_id?: string | null;
           persona_id: string;
           intent: 'ask' | 'challenge' | 'add_value' | 'clarify';
           order_after_post: number;
           planned_content: string | null;
+          scheduled_at?: string | null;
           created_at: string;
+          updated_at?: string | null;
         };
-        Insert: Omit<Database['public']['Tables']['calendar_replies']['Row'], 'id' | 'created_at'>;
+        Insert: Omit<Database['public']['Tables']['calendar_replies']['Row'], 'id' | 'created_at' | 'updated_at'>;
         Update: Partial<Database['public']['Tables']['calendar_replies']['Insert']>;
       };
       topic_history: {
@@ -122,6 +141,62 @@ export interface Database {
         Insert: Omit<Database['public']['Tables']['subreddit_activity']['Row'], 'id' | 'created_at'>;
         Update: Partial<Database['public']['Tables']['subreddit_activity']['Insert']>;
       };
+      calendar_audit_log: {
+        Row: {
+          id: string;
+          calendar_id: string;
+          actor: string;
+          action: string;
+          from_status: string | null;
+          to_status: string | null;
+          comment: string | null;
+          details: Record<string, unknown> | null;
+          created_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['calendar_audit_log']['Row'], 'id' | 'created_at'>;
+        Update: Partial<Database['public']['Tables']['calendar_audit_log']['Insert']>;
+      };
+      topic_similarity: {
+        Row: {
+          id: string;
+          company_id: string;
+          topic1: string;
+          topic2: string;
+          similarity_score: number;
+          created_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['topic_similarity']['Row'], 'id' | 'created_at'>;
+        Update: Partial<Database['public']['Tables']['topic_similarity']['Insert']>;
+      };
+      wording_patterns: {
+        Row: {
+          id: string;
+          company_id: string;
+          pattern: string;
+          usage_count: number;
+          last_used_date: string | null;
+          persona_ids: string[];
+          created_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['wording_patterns']['Row'], 'id' | 'created_at'>;
+        Update: Partial<Database['public']['Tables']['wording_patterns']['Insert']>;
+      };
+      campaigns: {
+        Row: {
+          id: string;
+          company_id: string;
+          name: string;
+          start_week_date: string;
+          weeks: number;
+          target_posts: number;
+          strategy_mix: Record<string, number>[];
+          topic_arc: string[];
+          seed: number | null;
+          created_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['campaigns']['Row'], 'id' | 'created_at'>;
+        Update: Partial<Database['public']['Tables']['campaigns']['Insert']>;
+      };
       seo_queries: {
         Row: {
           id: string;
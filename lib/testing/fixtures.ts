@@ -0,0 +1,114 @@
+import type { Company, Persona, Subreddit, SEOQuery } from '@/types';
+
+export interface ScenarioFixture {
+  company: Company;
+  personas: Persona[];
+  subreddits: Subreddit[];
+  seoQueries: SEOQuery[];
+}
+
+export interface FixtureOptions {
+  base?: Partial<ScenarioFixture>; // Real company data to start from (dashboard runs)
+  personaCount?: number;
+  subredditCount?: number;
+  personaTone?: string; // Override every persona's tone ('' simulates missing tones)
+  company?: Partial<Company>;
+  subreddit?: Partial<Subreddit>; // Applied to every subreddit
+}
+
+export const FIXTURE_COMPANY_ID = 'fixture-company';
+
+const PERSONA_TEMPLATES: Array<Pick<Persona, 'name' | 'tone' | 'expertise'>> = [
+  { name: 'pm_priya', tone: 'professional', expertise: ['product management', 'roadmaps'] },
+  { name: 'dev_dan', tone: 'technical', expertise: ['engineering', 'automation'] },
+  { name: 'founder_fiona', tone: 'casual', expertise: ['startups', 'fundraising'] },
+  { name: 'consultant_carl', tone: 'experienced', expertise: ['strategy', 'presentations'] },
+  { name: 'student_sam', tone: 'curious', expertise: ['learning', 'research'] },
+  { name: 'designer_dee', tone: 'friendly', expertise: ['design', 'slides'] },
+  { name: 'ops_omar', tone: 'direct', expertise: ['operations', 'reporting'] },
+  { name: 'sales_sara', tone: 'enthusiastic', expertise: ['sales', 'pitching'] },
+];
+
+const SUBREDDIT_TEMPLATES: Array<Pick<Subreddit, 'name' | 'size_category'>> = [
+  { name: 'r/productivity', size_category: 'large' },
+  { name: 'r/startups', size_category: 'large' },
+  { name: 'r/consulting', size_category: 'medium' },
+  { name: 'r/powerpoint', size_category: 'medium' },
+  { name: 'r/entrepreneur', size_category: 'large' },
+  { name: 'r/projectmanagement', size_category: 'medium' },
+  { name: 'r/smallbusiness', size_category: 'large' },
+  { name: 'r/presentations', size_category: 'small' },
+  { name: 'r/marketing', size_category: 'large' },
+  { name: 'r/saas', size_category: 'medium' },
+];
+
+/**
+ * Builds a synthetic company with personas, subreddits and SEO queries for scenario runs.
+ * Starts from `base` when given and fills in (or trims to) the requested counts.
+ */
+export function buildCompanyFixture(options: FixtureOptions = {}): ScenarioFixture {
+  const { base = {} } = options;
+  const createdAt = '2025-01-01T00:00:00.000Z';
+
+  const company: Company = {
+    id: FIXTURE_COMPANY_ID,
+    name: 'Slideforge',
+    description: 'AI presentation builder that turns rough notes into polished slide decks',
+    target_users: ['consultants', 'startup founders', 'product managers'],
+    pain_points: ['slow deck formatting', 'inconsistent slide design', 'last-minute presentation prep'],
+    tone_positioning: 'helpful peer, never salesy',
+    website_url: 'https://example.com',
+    created_at: createdAt,
+    updated_at: createdAt,
+    ...base.company,
+    ...options.company,
+  };
+  // Children always point at the fixture company, whatever id the base data used
+  company.id = base.company?.id || FIXTURE_COMPANY_ID;
+
+  const personaCount = options.personaCount ?? (base.personas?.length || 3);
+  const personas: Persona[] = Array.from({ length: personaCount }, (_, i) => {
+    const existing = base.personas?.[i];
+    const template = PERSONA_TEMPLATES[i % PERSONA_TEMPLATES.length];
+    const persona: Persona = existing
+      ? { ...existing }
+      : {
+          id: `fixture-persona-${i + 1}`,
+          company_id: company.id,
+          name: i < PERSONA_TEMPLATES.length ? template.name : `${template.name}_${i + 1}`,
+          tone: template.tone,
+          expertise: template.expertise,
+          reddit_account: null,
+          created_at: createdAt,
+        };
+    persona.company_id = company.id;
+    if (options.personaTone !== undefined) persona.tone = options.personaTone;
+    return persona;
+  });
+
+  const subredditCount = options.subredditCount ?? (base.subreddits?.length || 4);
+  const subreddits: Subreddit[] = Array.from({ length: subredditCount }, (_, i) => {
+    const existing = base.subreddits?.[i];
+    const template = SUBREDDIT_TEMPLATES[i % SUBREDDIT_TEMPLATES.length];
+    const subreddit: Subreddit = existing
+      ? { ...existing }
+      : {
+          id: `fixture-subreddit-${i + 1}`,
+          company_id: company.id,
+          name: i < SUBREDDIT_TEMPLATES.length ? template.name : `${template.name}${i + 1}`,
+          rules: null,
+          min_cooldown_days: 7,
+          max_posts_per_week: 2,
+          size_category: template.size_category,
+          created_at: createdAt,
+        };
+    return { ...subreddit, company_id: company.id, ...options.subreddit };
+  });
+
+  const seoQueries: SEOQuery[] = (base.seoQueries || [
+    { id: 'fixture-query-1', company_id: company.id, query: 'how to make slides faster', priority: 3, created_at: createdAt },
+    { id: 'fixture-query-2', company_id: company.id, query: 'best presentation tool for consultants', priority: 2, created_at: createdAt },
+  ]).map(q => ({ ...q, company_id: company.id }));
+
+  return { company, personas, subreddits, seoQueries };
+}
@@ -0,0 +1,595 @@
+/**
+ * Scenario Harness
+ * Runs the planner end-to-end against an in-memory store with a stubbed LLM and checks
+ * the spam/safety and quality output. Used by /api/testing/* and callable from a test runner:
+ *
+ *   const result = await runScenario('single-persona');
+ *   expect(result.success).toBe(true);
+ */
+
+import type {
+  ContentCalendar,
+  CalendarPost,
+  CalendarReply,
+  CalendarQualityScore,
+  Subreddit,
+  WordingPattern,
+} from '@/types';
+import { generateCalendar } from '@/lib/planning';
+import { planCampaign } from '@/lib/planning/campaigns';
+import { checkSpamAndSafety, type SpamCheckResult } from '@/lib/planning/anti-spam';
+import { evaluateCalendarQuality, findSelfReplies } from '@/lib/planning/quality';
+import { DEFAULT_THREAD_DEPTH, MAX_REPLIES_PER_PERSONA_IN_THREAD } from '@/lib/planning/conversations';
+import { createTopicSimilarityScorer } from '@/lib/planning/similarity';
+import { POST_LENGTH_BUDGETS, checkReadsLikeAd } from '@/lib/planning/drafts';
+import { getPeakWindow } from '@/lib/planning/schedule';
+import { lintPost } from '@/lib/planning/lint';
+import { StubLLMProvider, type LLMProvider } from '@/lib/llm';
+import { createMemoryRepository, type MemoryRepository } from '@/lib/repository';
+import { buildCompanyFixture, type FixtureOptions, type ScenarioFixture } from './fixtures';
+import { parseISO } from 'date-fns';
+
+export type ScenarioName =
+  | 'single-persona'
+  | 'many-personas'
+  | 'single-subreddit'
+  | 'many-subreddits'
+  | 'missing-tones'
+  | 'missing-company-info'
+  | 'spam-rules'
+  | 'post-drafting'
+  | 'campaign-weeks';
+
+export interface ScenarioCheck {
+  name: string;
+  passed: boolean;
+  detail?: string;
+}
+
+export interface ScenarioResult {
+  scenario: ScenarioName;
+  success: boolean;
+  message: string;
+  details: {
+    checks: ScenarioCheck[];
+    [key: string]: unknown;
+  };
+}
+
+export interface ScenarioOptions {
+  base?: Partial<ScenarioFixture>; // Start from a real company's data instead of the synthetic one
+  seed?: number; // Defaults to a fixed seed so runs are reproducible
+  llm?: LLMProvider; // Defaults to a stub that forces the deterministic fallbacks
+}
+
+export interface ScenarioRun {
+  fixture: ScenarioFixture;
+  repository: MemoryRepository;
+  calendar: ContentCalendar;
+  posts: CalendarPost[];
+  replies: CalendarReply[];
+  spamCheck: SpamCheckResult;
+  quality: CalendarQualityScore;
+}
+
+const DEFAULT_SEED = 20250105;
+const SCENARIO_WEEK_START = new Date('2025-01-05T00:00:00'); // A Sunday
+
+/**
+ * Plans one week for a fixture in a fresh in-memory store and evaluates the result
+ */
+export async function runPlanningScenario(
+  fixtureOptions: FixtureOptions,
+  postsPerWeek: number,
+  options: ScenarioOptions = {}
+): Promise<ScenarioRun> {
+  const fixture = buildCompanyFixture({ base: options.base, ...fixtureOptions });
+  const repository = createMemoryRepository({
+    companies: [fixture.company],
+    personas: fixture.personas,
+    subreddits: fixture.subreddits,
+    seoQueries: fixture.seoQueries,
+  });
+
+  const calendar = await generateCalendar(
+    {
+      company_id: fixture.company.id,
+      week_start_date: SCENARIO_WEEK_START,
+      posts_per_week: postsPerWeek,
+      seed: options.seed ?? DEFAULT_SEED,
+    },
+    { repository, llm: options.llm || new StubLLMProvider() }
+  );
+
+  const posts = await repository.listPosts([calendar.id]);
+  const replies = await repository.listReplies(posts.map(p => p.id));
+  const spamCheck = checkSpamAndSafety(posts, replies, fixture.subreddits, fixture.personas);
+  const quality = evaluateCalendarQuality({
+    calendar,
+    posts,
+    replies,
+    subreddits: fixture.subreddits,
+    personas: fixture.personas,
+  });
+
+  return { fixture, repository, calendar, posts, replies, spamCheck, quality };
+}
+
+function check(name: string, passed: boolean, detail?: string): ScenarioCheck {
+  return detail ? { name, passed, detail } : { name, passed };
+}
+
+function summarize(run: ScenarioRun) {
+  return {
+    posts: run.posts.length,
+    replies: run.replies.length,
+    spam_risk_score: run.spamCheck.riskScore,
+    spam_warnings: run.spamCheck.warnings.map(w => `${w.severity}: ${w.message}`),
+    quality_overall: run.quality.overall,
+    quality_issues: run.quality.issues,
+  };
+}
+
+function countBy<T>(items: T[], key: (item: T) => string): Map<string, number> {
+  const counts = new Map<string, number>();
+  items.forEach(item => counts.set(key(item), (counts.get(key(item)) || 0) + 1));
+  return counts;
+}
+
+// Checks every planning scenario shares: requested volume planned, no persona replying to itself
+function baseChecks(run: ScenarioRun, postsPerWeek: number): ScenarioCheck[] {
+  const selfReplies = findSelfReplies(run.posts, run.replies);
+  const dominated = Array.from(countBy(run.replies, r => `${r.post_id}:${r.persona_id}`).values())
+    .filter(count => count > MAX_REPLIES_PER_PERSONA_IN_THREAD);
+
+  return [
+    check('plans every requested post', run.posts.length === postsPerWeek, `${run.posts.length}/${postsPerWeek} posts`),
+    check('no persona replies to itself', selfReplies.length === 0, `${selfReplies.length} self-replies`),
+    check('no persona dominates a thread', dominated.length === 0),
+    check('every post has a title and body', run.posts.every(p => !!p.planned_title && !!p.planned_body)),
+    check('every post and reply has a scheduled time', [...run.posts, ...run.replies].every(item => !!item.scheduled_at)),
+    check('replies are scheduled after what they answer', run.replies.every(reply => {
+      const parent = reply.parent_reply_id
+        ? run.replies.find(r => r.id === reply.parent_reply_id)
+        : run.posts.find(p => p.id === reply.post_id);
+      return !!parent?.scheduled_at && !!reply.scheduled_at && reply.scheduled_at > parent.scheduled_at;
+    })),
+  ];
+}
+
+function replyDepth(reply: CalendarReply, replies: CalendarReply[]): number {
+  const parent = reply.parent_reply_id ? replies.find(r => r.id === reply.parent_reply_id) : undefined;
+  return parent ? replyDepth(parent, replies) + 1 : 1;
+}
+
+function overLimitSubreddits(posts: CalendarPost[], subreddits: Subreddit[]): string[] {
+  const counts = countBy(posts, p => p.subreddit_id);
+  return subreddits
+    .filter(s => (counts.get(s.id) || 0) > s.max_posts_per_week)
+    .map(s => `${s.name} (${counts.get(s.id)}/${s.max_posts_per_week})`);
+}
+
+const scenarios: Record<ScenarioName, (options: ScenarioOptions) => Promise<Omit<ScenarioResult, 'scenario' | 'message' | 'success'>>> = {
+  // One persona: the planner must still fill the week, and can't fake a conversation with itself
+  'single-persona': async options => {
+    const postsPerWeek = 5;
+    const run = await runPlanningScenario({ personaCount: 1 }, postsPerWeek, options);
+    const onlyPersona = run.fixture.personas[0].id;
+
+    return {
+      details: {
+        checks: [
+          ...baseChecks(run, postsPerWeek),
+          check('every post uses the only persona', run.posts.every(p => p.persona_id === onlyPersona)),
+          check('no replies planned without a second persona', run.replies.length === 0, `${run.replies.length} replies`),
+        ],
+        ...summarize(run),
+      },
+    };
+  },
+
+  // Many personas: work should be spread out rather than piling onto one account
+  'many-personas': async options => {
+    const postsPerWeek = 7;
+    const run = await runPlanningScenario({ personaCount: 8, subredditCount: 5 }, postsPerWeek, options);
+    const maxPerPersona = Math.max(...Array.from(countBy(run.posts, p => p.persona_id).values()));
+    const imbalance = run.spamCheck.warnings.filter(w => w.type === 'persona_imbalance');
+
+    return {
+      details: {
+        checks: [
+          ...baseChecks(run, postsPerWeek),
+          check('no persona posts more than twice', maxPerPersona <= 2, `busiest persona has ${maxPerPersona} posts`),
+          check('no persona imbalance warning', imbalance.length === 0),
+          check('posts spread over at least 4 personas', new Set(run.posts.map(p => p.persona_id)).size >= 4),
+          check('some posts get several replies', Array.from(countBy(run.replies, r => r.post_id).values()).some(n => n > 1)),
+          check('OPs follow up in their threads', run.replies.some(r => {
+            const post = run.posts.find(p => p.id === r.post_id);
+            return !!r.parent_reply_id && post?.persona_id === r.persona_id;
+          })),
+          check(
+            'threads stay within the default depth',
+            run.replies.every(r => replyDepth(r, run.replies) <= DEFAULT_THREAD_DEPTH)
+          ),
+        ],
+        ...summarize(run),
+      },
+    };
+  },
+
+  // One subreddit: the planner falls back to it for every post, so the spam check must flag overposting
+  'single-subreddit': async options => {
+    const postsPerWeek = 5;
+    const run = await runPlanningScenario({ subredditCount: 1 }, postsPerWeek, options);
+    const overposting = run.spamCheck.warnings.filter(w => w.type === 'overposting');
+
+    return {
+      details: {
+        checks: [
+          ...baseChecks(run, postsPerWeek),
+          check('every post targets the only subreddit', run.posts.every(p => p.subreddit_id === run.fixture.subreddits[0].id)),
+          check('overposting is flagged', overposting.length > 0, `${overposting.length} overposting warning(s)`),
+          check('spam check does not pass', !run.spamCheck.passed, `risk ${run.spamCheck.riskScore}/10`),
+        ],
+        ...summarize(run),
+      },
+    };
+  },
+
+  // Many subreddits: weekly limits should hold and posts should spread out
+  'many-subreddits': async options => {
+    const postsPerWeek = 7;
+    const timeZone = 'America/New_York';
+    const run = await runPlanningScenario({ subredditCount: 10, company: { timezone: timeZone } }, postsPerWeek, options);
+    const overLimit = overLimitSubreddits(run.posts, run.fixture.subreddits);
+
+    // Local time of day in the company's timezone must fall in the subreddit's peak window
+    const localHour = new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', hourCycle: 'h23' });
+    const offPeak = run.posts.filter(post => {
+      const hour = Number(localHour.format(new Date(post.scheduled_at || 0)));
+      const window = getPeakWindow(run.fixture.subreddits.find(s => s.id === post.subreddit_id));
+      return hour < window.start || hour >= window.end;
+    });
+
+    return {
+      details: {
+        checks: [
+          ...baseChecks(run, postsPerWeek),
+          check('no subreddit over its weekly limit', overLimit.length === 0, overLimit.join(', ') || undefined),
+          check('posts spread over at least 4 subreddits', new Set(run.posts.map(p => p.subreddit_id)).size >= 4),
+          check('subreddit distribution score at least 5', run.quality.subreddit_distribution >= 5, `${run.quality.subreddit_distribution}/10`),
+          check(`posts land in peak windows (${timeZone})`, offPeak.length === 0, `${offPeak.length} off-peak`),
+        ],
+        ...summarize(run),
+      },
+    };
+  },
+
+  // Personas without a tone: replies still get a tone and content from the fallbacks
+  'missing-tones': async options => {
+    const postsPerWeek = 5;
+    const run = await runPlanningScenario({ personaTone: '' }, postsPerWeek, options);
+
+    return {
+      details: {
+        checks: [
+          ...baseChecks(run, postsPerWeek),
+          check('some replies are planned', run.replies.length > 0, `${run.replies.length} replies`),
+          check('every reply has a tone', run.replies.every(r => !!r.tone)),
+          check('every reply has content', run.replies.every(r => !!r.planned_content?.trim())),
+        ],
+        ...summarize(run),
+      },
+    };
+  },
+
+  // Bare company (no description, target users or pain points): fallback topics keep the week full
+  'missing-company-info': async options => {
+    const postsPerWeek = 5;
+    const run = await runPlanningScenario(
+      { company: { description: null, target_users: [], pain_points: [], tone_positioning: null } },
+      postsPerWeek,
+      options
+    );
+
+    return {
+      details: {
+        checks: [
+          ...baseChecks(run, postsPerWeek),
+          check('every post has a topic', run.posts.every(p => !!p.topic.trim())),
+          check('quality score is computed', Number.isFinite(run.quality.overall), `${run.quality.overall}/10`),
+        ],
+        ...summarize(run),
+      },
+    };
+  },
+
+  // Spam rules on hand-built calendars: a clean week passes, a spammy one is flagged
+  'spam-rules': async options => {
+    const { subreddits, personas } = buildCompanyFixture({ base: options.base, personaCount: 3, subredditCount: 3 });
+    const makePost = (i: number, overrides: Partial<CalendarPost>): CalendarPost => ({
+      id: `spam-post-${i}`,
+      calendar_id: 'spam-calendar',
+      day_of_week: i % 7,
+      subreddit_id: subreddits[i % subreddits.length].id,
+      topic: `Distinct topic number ${i}`,
+      persona_id: personas[i % personas.length].id,
+      post_type: 'question',
+      planned_title: null,
+      planned_body: null,
+      order_in_day: 0,
+      created_at: '2025-01-05T00:00:00.000Z',
+      ...overrides,
+    });
+
+    const cleanPosts = [0, 2, 4].map(i => makePost(i, {
+      day_of_week: i,
+      topic: ['How do you prep a board deck?', 'My first investor pitch story', 'Tips for cleaner slide layouts'][i / 2],
+    }));
+    const clean = checkSpamAndSafety(cleanPosts, [], subreddits, personas);
+
+    // Five posts in one subreddit on consecutive days, same topic, same persona
+    const spammyPosts = [0, 1, 2, 3, 4].map(i => makePost(i, {
+      day_of_week: i,
+      subreddit_id: subreddits[0].id,
+      persona_id: personas[0].id,
+      topic: 'Best tool for making slides fast?',
+    }));
+    const spammy = checkSpamAndSafety(spammyPosts, [], subreddits, personas);
+    const types = new Set(spammy.warnings.map(w => w.type));
+
+    // Topics repeated from previous weeks are flagged too
+    const repeat = checkSpamAndSafety(cleanPosts, [], subreddits, personas, [makePost(9, { topic: cleanPosts[0].topic })]);
+
+    // Reworded topics share stems, so the TF-IDF fallback catches them
+    const reworded = checkSpamAndSafety(
+      [cleanPosts[0], makePost(6, { day_of_week: 6, topic: 'Prepping board decks - how do you do it?' })],
+      [],
+      subreddits,
+      personas
+    );
+
+    // Paraphrases share no words; embeddings catch them (stubbed: slide topics point the same way)
+    const embeddingLLM = new StubLLMProvider({}, texts => texts.map(t => (/deck|slide/i.test(t) ? [1, 0] : [0, 1])));
+    const similarity = createTopicSimilarityScorer({ llm: embeddingLLM });
+    const paraphrases = ['How do you make pitch decks faster?', 'Tips for speeding up slide creation'];
+    await similarity.prepare(paraphrases);
+    const paraphrased = checkSpamAndSafety(
+      paraphrases.map((topic, i) => makePost(i * 3, { day_of_week: i * 3, topic })),
+      [],
+      subreddits,
+      personas,
+      undefined,
+      { similarity }
+    );
+
+    // A phrase already used twice in earlier weeks is overused on its third use
+    const wordingHistory: WordingPattern[] = [{
+      id: 'spam-pattern-1',
+      company_id: personas[0].company_id,
+      pattern: 'board deck prep',
+      usage_count: 2,
+      last_used_date: '2024-12-29',
+      persona_ids: [personas[1].id],
+      created_at: '2024-12-29T00:00:00.000Z',
+    }];
+    const reusedWording = checkSpamAndSafety(
+      [makePost(0, { persona_id: personas[0].id, planned_body: 'Board deck prep eats my whole Sunday.' })],
+      [],
+      subreddits,
+      personas,
+      undefined,
+      { wordingHistory }
+    );
+
+    // Structured subreddit rules: a story on a Sunday, without flair, breaks a questions-only weekday subreddit
+    const strictSubreddits = subreddits.map((s, i) => (i === 0
+      ? { ...s, rule_set: { allowed_post_types: ['question' as const], posting_days: [1, 2, 3, 4, 5], required_flair: ['Question'] } }
+      : s));
+    const ruleBreaking = checkSpamAndSafety(
+      [makePost(0, { day_of_week: 0, subreddit_id: subreddits[0].id, post_type: 'story', planned_title: 'My story' })],
+      [],
+      strictSubreddits,
+      personas
+    );
+    const ruleWarning = ruleBreaking.warnings.find(w => w.type === 'subreddit_rule');
+
+    // Brand budget: one mention a week, and r/<first> wants disclosure; two undisclosed mentions break the
+    // budget, and the one outside r/<first> still needs a disclosure
+    const brandCompany = { name: 'Acme', website_url: 'https://acme.io', brand_budget: { max_per_week: 1 } };
+    const disclosingSubreddits = subreddits.map((s, i) => (i === 0 ? { ...s, rule_set: { requires_disclosure: true } } : s));
+    const brandHeavy = checkSpamAndSafety(
+      [
+        makePost(0, { subreddit_id: subreddits[0].id, planned_body: 'I ended up trying Acme for the layouts.' }),
+        makePost(3, { day_of_week: 3, subreddit_id: subreddits[1].id, topic: 'Weekly reporting habits', planned_body: 'Acme handles that part for me now.' }),
+      ],
+      [],
+      disclosingSubreddits,
+      personas,
+      undefined,
+      { company: brandCompany }
+    );
+    const brandWarnings = brandHeavy.warnings.filter(w => w.type === 'brand_mention');
+
+    // The linter points at the same problems in the text, field by field
+    const lint = lintPost(
+      { planned_title: 'Acme made my decks SO MUCH FASTER', planned_body: 'Try it at acme.io', post_type: 'story', posting_strategy: 'value', flair: null },
+      { subreddit: strictSubreddits[0], company: { name: 'Acme', website_url: 'https://acme.io' } }
+    );
+    const linted = new Set(lint.map(d => `${d.field}:${d.rule}`));
+
+    return {
+      details: {
+        checks: [
+          check('clean calendar passes', clean.passed && clean.warnings.length === 0, `${clean.warnings.length} warnings`),
+          check('overposting is flagged', types.has('overposting')),
+          check('topic repetition is flagged', types.has('topic_repetition')),
+          check('spammy calendar has a high-severity warning', spammy.warnings.some(w => w.severity === 'high')),
+          check('spammy calendar does not pass', !spammy.passed, `risk ${spammy.riskScore}/10`),
+          check('repeat of a previous week is flagged', repeat.warnings.some(w => w.type === 'topic_repetition')),
+          check('reworded topic is flagged', reworded.warnings.some(w => w.type === 'topic_repetition')),
+          check(
+            'paraphrased topic is flagged with embeddings',
+            paraphrased.warnings.some(w => w.type === 'topic_repetition'),
+            `${similarity.method} similarity`
+          ),
+          check('phrase overused across weeks is flagged', reusedWording.warnings.some(w => w.type === 'wording_pattern' && /earlier weeks/.test(w.message))),
+          check('post breaking subreddit rules is flagged', !!ruleWarning && !ruleBreaking.passed, ruleWarning?.message),
+          check(
+            'brand budget and disclosure breaches block approval',
+            brandWarnings.some(w => /budget/.test(w.message) && w.severity === 'high') &&
+              brandWarnings.some(w => /disclosure/.test(w.message) && w.subreddit === subreddits[0].name && w.severity === 'high') &&
+              brandWarnings.some(w => /disclosure/.test(w.message) && w.subreddit === subreddits[1].name && w.severity === 'medium') &&
+              !brandHeavy.passed,
+            brandWarnings.map(w => w.message).join(' | ')
+          ),
+          check(
+            'linter flags flair, brand, caps and links',
+            ['flair:flair', 'planned_title:brand_mention', 'planned_title:all_caps', 'planned_body:link'].every(key => linted.has(key)),
+            lint.map(d => `${d.field}:${d.rule}`).join(', ')
+          ),
+        ],
+        clean_risk_score: clean.riskScore,
+        spammy_risk_score: spammy.riskScore,
+        spammy_warnings: spammy.warnings.map(w => `${w.severity}: ${w.message}`),
+      },
+    };
+  },
+
+  // Post drafting: first drafts that read like ads are rewritten, and every draft fits its budget
+  'post-drafting': async options => {
+    const postsPerWeek = 5;
+    const company = buildCompanyFixture({ base: options.base }).company;
+    let rewrites = 0;
+    const draftingLLM = new StubLLMProvider({
+      post: request => {
+        const topic = request.prompt.match(/^Topic: (.*)$/m)?.[1] || 'this';
+        if (request.prompt.includes('read like an ad')) {
+          rewrites++;
+          return JSON.stringify({
+            title: topic,
+            body: `I have been stuck on ${topic.toLowerCase()} for a while. What helped me was outlining first and polishing last. How do you approach it?`,
+          });
+        }
+        // Every first draft is a pitch
+        return JSON.stringify({
+          title: `${company.name} is a game changer`,
+          body: `Sign up for ${company.name} at https://example.com - highly recommend ${company.name}!`,
+        });
+      },
+    });
+    const run = await runPlanningScenario({}, postsPerWeek, { ...options, llm: draftingLLM });
+
+    const ads = run.posts.filter(post =>
+      !checkReadsLikeAd(
+        { title: post.planned_title || '', body: post.planned_body || '' },
+        run.fixture.company,
+        post.posting_strategy || 'value'
+      ).passed
+    );
+    const overBudget = run.posts.filter(post => {
+      const budget = POST_LENGTH_BUDGETS[post.post_type];
+      return (post.planned_title || '').length > budget.titleMaxChars
+        || (post.planned_body || '').split(/\s+/).length > budget.bodyMaxWords;
+    });
+
+    return {
+      details: {
+        checks: [
+          ...baseChecks(run, postsPerWeek),
+          check('ad-like first drafts are rewritten', rewrites === run.posts.length, `${rewrites} rewrites`),
+          check('no draft reads like an ad', ads.length === 0, `${ads.length} ad-like drafts`),
+          check('every draft fits its length budget', overBudget.length === 0, `${overBudget.length} over budget`),
+          check('a subtle_product post is drafted', run.posts.some(p => p.posting_strategy === 'subtle_product')),
+          check(
+            'product mentions must be disclosed',
+            !checkReadsLikeAd({ title: 'Slides', body: `I tried ${company.name} for this.` }, company, 'subtle_product').passed &&
+              checkReadsLikeAd({ title: 'Slides', body: `Full disclosure: I work at ${company.name}, so I tried it for this.` }, company, 'subtle_product').passed
+          ),
+        ],
+        ...summarize(run),
+      },
+    };
+  },
+
+  // Campaign weeks keep the dates they were planned for in the server's timezone. Run with a TZ west of
+  // UTC (TZ=America/New_York) to catch yyyy-MM-dd strings parsed as UTC midnight, which fall on the
+  // previous local day there.
+  'campaign-weeks': async options => {
+    const fixture = buildCompanyFixture({ base: options.base });
+    const repository = createMemoryRepository({
+      companies: [fixture.company],
+      personas: fixture.personas,
+      subreddits: fixture.subreddits,
+      seoQueries: fixture.seoQueries,
+    });
+    const expected = ['2026-03-01', '2026-03-08', '2026-03-15']; // Sundays of the weeks from Monday 2026-03-02
+    const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+    const plan = await planCampaign(
+      {
+        company_id: fixture.company.id,
+        name: 'Scenario campaign',
+        start_week_date: parseISO('2026-03-02'),
+        weeks: expected.length,
+        target_posts: expected.length * 2,
+        seed: options.seed ?? DEFAULT_SEED,
+      },
+      { repository, llm: options.llm || new StubLLMProvider() }
+    );
+    const weeks = plan.weeks.map(week => week.calendar.week_start_date);
+
+    return {
+      details: {
+        checks: [
+          check('campaign starts on the week of its start date', plan.campaign.start_week_date === expected[0], plan.campaign.start_week_date),
+          check(`every week is planned on its own dates (${timeZone})`, weeks.join() === expected.join(), weeks.join(', ')),
+        ],
+        weeks,
+      },
+    };
+  },
+};
+
+export const SCENARIO_NAMES = Object.keys(scenarios) as ScenarioName[];
+
+export function isScenarioName(value: unknown): value is ScenarioName {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(scenarios, value);
+}
+
+/**
+ * Runs one scenario. Planner errors are reported as a failed result rather than thrown.
+ */
+export async function runScenario(name: ScenarioName, options: ScenarioOptions = {}): Promise<ScenarioResult> {
+  try {
+    const { details } = await scenarios[name](options);
+    const failed = details.checks.filter(c => !c.passed);
+
+    return {
+      scenario: name,
+      success: failed.length === 0,
+      message: failed.length === 0
+        ? `All ${details.checks.length} checks passed`
+        : `Failed: ${failed.map(c => c.detail ? `${c.name} (${c.detail})` : c.name).join('; ')}`,
+      details,
+    };
+  } catch (error: any) {
+    return {
+      scenario: name,
+      success: false,
+      message: error.message || 'Scenario threw an error',
+      details: { checks: [check('planner completes', false, error.message)] },
+    };
+  }
+}
+
+/**
+ * Runs every scenario in order
+ */
+export async function runAllScenarios(options: ScenarioOptions = {}): Promise<ScenarioResult[]> {
+  const results: ScenarioResult[] = [];
+  for (const name of SCENARIO_NAMES) {
+    results.push(await runScenario(name, options));
+  }
+  return results;
+}
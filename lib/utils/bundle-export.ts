@@ -0,0 +1,102 @@
+import type { CalendarPost, CalendarReply, Company, ContentCalendar, Persona, SEOQuery, Subreddit } from '@/types';
+import { DEFAULT_TIMEZONE, isValidTimeZone } from '@/lib/planning/schedule';
+import { toCSV } from './csv';
+import { IMPORT_COLUMNS, type ImportBundle, type ImportEntity } from './import-schema';
+import { formatLocalTimestamp, labelCalendarRows, personaUsername } from './unified-export';
+
+interface BundleExportData {
+  company: Company;
+  personas: Persona[];
+  subreddits: Subreddit[];
+  seoQueries: SEOQuery[];
+  calendar?: ContentCalendar | null; // Include this calendar's posts and comments
+  posts?: CalendarPost[];
+  replies?: CalendarReply[];
+}
+
+function addDaysToDate(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
+
+/**
+ * A company (and optionally one calendar) in the import schema, so the export reads straight back in
+ */
+export function buildExportBundle(data: BundleExportData): ImportBundle {
+  const { company, personas, subreddits, seoQueries, calendar } = data;
+  const timeZone = company.timezone && isValidTimeZone(company.timezone) ? company.timezone : DEFAULT_TIMEZONE;
+
+  const bundle: ImportBundle = {
+    company: {
+      name: company.name,
+      description: company.description || undefined,
+      website_url: company.website_url || undefined,
+      target_users: company.target_users,
+      pain_points: company.pain_points,
+      tone_positioning: company.tone_positioning || undefined,
+      timezone: timeZone,
+    },
+    personas: personas.map(p => ({
+      name: p.name,
+      tone: p.tone,
+      expertise: p.expertise,
+      // Calendar rows refer to personas by username, so every persona gets one
+      reddit_account: personaUsername(p),
+    })),
+    subreddits: subreddits.map(s => ({
+      name: s.name,
+      rules: s.rules || undefined,
+      min_cooldown_days: s.min_cooldown_days,
+      max_posts_per_week: s.max_posts_per_week,
+      size_category: s.size_category,
+      culture_tone: s.culture_tone || undefined,
+      peak_hour_start: s.peak_hour_start ?? undefined,
+      peak_hour_end: s.peak_hour_end ?? undefined,
+    })),
+    seo_queries: seoQueries.map(q => ({ query: q.query, priority: q.priority })),
+    posts: [],
+    comments: [],
+  };
+  if (!calendar) return bundle;
+
+  const personasById = new Map(personas.map(p => [p.id, p]));
+  const username = (personaId: string) => {
+    const persona = personasById.get(personaId);
+    return persona ? personaUsername(persona) : '';
+  };
+  const { posts, replies, postLabels, replyLabels } = labelCalendarRows(data.posts || [], data.replies || []);
+  const postDate = (post: CalendarPost) => addDaysToDate(calendar.week_start_date, post.day_of_week);
+  const postsById = new Map(posts.map(p => [p.id, p]));
+
+  bundle.week_start_date = calendar.week_start_date;
+  bundle.posts = posts.map(post => ({
+    post_id: postLabels.get(post.id)!,
+    subreddit: subreddits.find(s => s.id === post.subreddit_id)?.name || '',
+    title: post.planned_title || post.topic,
+    body: post.planned_body || '',
+    author_username: username(post.persona_id),
+    timestamp: formatLocalTimestamp(post.scheduled_at, postDate(post), timeZone),
+    calendar_post_id: post.id,
+  }));
+  bundle.comments = replies.map(reply => ({
+    comment_id: replyLabels.get(reply.id)!,
+    post_id: postLabels.get(reply.post_id)!,
+    parent_comment_id: (reply.parent_reply_id && replyLabels.get(reply.parent_reply_id)) || undefined,
+    comment_text: reply.planned_content || '',
+    username: username(reply.persona_id),
+    timestamp: formatLocalTimestamp(reply.scheduled_at, postDate(postsById.get(reply.post_id)!), timeZone),
+    calendar_reply_id: reply.id,
+  }));
+
+  return bundle;
+}
+
+/**
+ * One entity of a bundle as CSV, with the columns the CSV importer reads
+ */
+export function bundleEntityToCSV(bundle: ImportBundle, entity: ImportEntity): string {
+  const rows: Array<Record<string, unknown>> = entity === 'company'
+    ? (bundle.company ? [{ ...bundle.company }] : [])
+    : (bundle[entity] as unknown as Array<Record<string, unknown>>);
+  return toCSV(IMPORT_COLUMNS[entity], rows);
+}
@@ -0,0 +1,382 @@
+import { startOfWeek, format } from 'date-fns';
+import { DEFAULT_TIMEZONE, isValidTimeZone } from '@/lib/planning/schedule';
+import { parseCSV } from './csv';
+import {
+  IMPORT_ENTITIES,
+  normalizeImportBundle,
+  readImportTimestamp,
+  type ImportBundle,
+  type ImportEntity,
+  type ParsedBundle,
+} from './import-schema';
+import { buildValidationReport, checkCalendarReferences, type ImportIssue, type ImportValidationReport } from './import-validation';
+import { inferPostType } from './import-engine';
+import { personaUsername } from './unified-export';
+
+export interface BundleImportResult {
+  company: any;
+  personas: any[];
+  subreddits: any[];
+  seoQueries: any[];
+  calendar: any | null;
+  posts: number;
+  replies: number;
+  warnings: string[]; // Rows that were read but not written
+}
+
+/**
+ * JSON adapter: an object keyed by entity ({ company, personas, subreddits, seo_queries, posts, comments })
+ */
+export function parseJsonBundle(json: string): ParsedBundle {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (error: any) {
+    throw new Error(`Invalid JSON: ${error.message}`);
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('JSON import must be an object keyed by entity (company, personas, subreddits, ...)');
+  }
+  return normalizeImportBundle(raw as Record<string, unknown>);
+}
+
+/**
+ * CSV adapter: one file per entity, keyed by entity name (company.csv holds a single row)
+ */
+export function parseCsvBundle(files: Partial<Record<ImportEntity, string>>): ParsedBundle {
+  const raw: Partial<Record<ImportEntity, unknown>> = {};
+  IMPORT_ENTITIES.forEach(entity => {
+    const content = files[entity];
+    if (content) raw[entity] = parseCSV(content);
+  });
+  return normalizeImportBundle(raw);
+}
+
+/**
+ * Which entity a CSV file holds, from its name: "personas.csv", "acme-seo_queries.csv", "seo-queries.csv"
+ */
+export function csvEntityForFileName(fileName: string): ImportEntity | null {
+  const base = fileName.toLowerCase().replace(/\.csv$/, '').replace(/-/g, '_');
+  // Longest names first so "seo_queries" isn't read as something shorter
+  return [...IMPORT_ENTITIES].sort((a, b) => b.length - a.length).find(entity => base.endsWith(entity)) || null;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+/**
+ * Validate-only pass over a bundle: dropped rows, unreadable timestamps and rows that refer to
+ * personas, subreddits, posts or comments that don't exist. Pass the company's current personas,
+ * subreddits and timezone when importing into an existing company. Nothing is written.
+ */
+export function validateImportBundle(
+  parsed: ParsedBundle,
+  existing?: {
+    personas: Array<{ name: string; reddit_account: string | null }>;
+    subreddits: Array<{ name: string }>;
+    timezone?: string | null;
+  }
+): ImportValidationReport {
+  const { bundle } = parsed;
+  const issues: ImportIssue[] = [];
+  const sheetOf = (entity: ImportEntity) => parsed.sheets?.[entity] || entity;
+
+  if (!existing && !bundle.company) {
+    issues.push({
+      severity: 'error', sheet: sheetOf('company'), row: null, column: 'name',
+      problem: 'No company in the import',
+      suggestion: 'Include a company row, or import into an existing company',
+    });
+  }
+  if (bundle.company?.timezone && !isValidTimeZone(bundle.company.timezone)) {
+    issues.push({
+      severity: 'warning', sheet: sheetOf('company'), row: null, column: 'timezone',
+      problem: `Unknown timezone "${bundle.company.timezone}" - ${DEFAULT_TIMEZONE} will be used`,
+      suggestion: 'Use an IANA timezone name, e.g. America/New_York',
+    });
+  }
+
+  issues.push(...parsed.issues);
+
+  // Same timezone the import will read timestamps in: an existing company keeps its own
+  const zone = existing ? existing.timezone : bundle.company?.timezone;
+  const timeZone = zone && isValidTimeZone(zone) ? zone : DEFAULT_TIMEZONE;
+  const timestampIssue = (sheet: string, row: number | null, value: string) => ({
+    severity: 'error' as const, sheet, row, column: 'timestamp',
+    problem: `Unparseable timestamp "${value}"`,
+    suggestion: 'Use yyyy-MM-dd HH:mm in the company timezone, or ISO 8601 with an offset',
+  });
+  for (const post of bundle.posts) {
+    const time = readImportTimestamp(post.timestamp, timeZone);
+    if (!time) {
+      issues.push(timestampIssue(sheetOf('posts'), post.row ?? null, post.timestamp));
+    } else if (bundle.week_start_date) {
+      const day = daysBetween(bundle.week_start_date, time.date);
+      if (day < 0 || day > 6) {
+        issues.push({
+          severity: 'error', sheet: sheetOf('posts'), row: post.row ?? null, column: 'timestamp',
+          problem: `${time.date} is outside the week of ${bundle.week_start_date}`,
+          suggestion: 'Move the post into that week, or change week_start_date',
+        });
+      }
+    }
+  }
+  bundle.comments
+    .filter(c => c.timestamp && !readImportTimestamp(c.timestamp, timeZone))
+    .forEach(c => issues.push(timestampIssue(sheetOf('comments'), c.row ?? null, c.timestamp)));
+
+  const personas = [...(existing?.personas || []), ...bundle.personas.map(p => ({ name: p.name, reddit_account: p.reddit_account || null }))];
+  const subreddits = [...(existing?.subreddits || []), ...bundle.subreddits].map(s => s.name);
+  issues.push(...checkCalendarReferences({
+    postsSheet: sheetOf('posts'),
+    commentsSheet: sheetOf('comments'),
+    usernames: Array.from(new Set(personas.map(p => personaUsername(p)))),
+    subreddits,
+    posts: bundle.posts,
+    comments: bundle.comments,
+  }));
+
+  return buildValidationReport(issues, {
+    personas: bundle.personas.length,
+    subreddits: bundle.subreddits.length,
+    seo_queries: bundle.seo_queries.length,
+    posts: bundle.posts.length,
+    comments: bundle.comments.length,
+  });
+}
+
+/**
+ * Writes a bundle. Without companyId a company is created from bundle.company; with it, rows are
+ * added to that company and personas or subreddits it already has (same username or name) are reused.
+ * Posts and comments become a new draft calendar for their week.
+ */
+export async function saveImportBundle(
+  supabase: any,
+  bundle: ImportBundle,
+  options: { companyId?: string } = {}
+): Promise<BundleImportResult> {
+  const warnings: string[] = [];
+
+  let company: any;
+  if (options.companyId) {
+    const { data } = await supabase.from('companies').select('*').eq('id', options.companyId).single();
+    if (!data) throw new Error('Company not found');
+    company = data;
+    if (bundle.company) warnings.push('company: importing into an existing company - company fields were ignored');
+  } else {
+    if (!bundle.company) throw new Error('A company (name at least) is required to import a new company');
+    const { company: input } = bundle;
+    const { data, error } = await supabase
+      .from('companies')
+      .insert({
+        name: input.name,
+        description: input.description || null,
+        website_url: input.website_url || null,
+        target_users: input.target_users,
+        pain_points: input.pain_points,
+        tone_positioning: input.tone_positioning || null,
+        ...(input.timezone && isValidTimeZone(input.timezone) ? { timezone: input.timezone } : {}),
+      })
+      .select()
+      .single();
+    if (error || !data) throw new Error(`Failed to create company: ${error?.message}`);
+    company = data;
+    if (input.timezone && !isValidTimeZone(input.timezone)) {
+      warnings.push(`company: unknown timezone "${input.timezone}" - using ${DEFAULT_TIMEZONE}`);
+    }
+  }
+  const companyId = company.id;
+  const timeZone = company.timezone && isValidTimeZone(company.timezone) ? company.timezone : DEFAULT_TIMEZONE;
+
+  const insertRows = async (table: string, rows: any[]): Promise<any[]> => {
+    if (rows.length === 0) return [];
+    const { data, error } = await supabase.from(table).insert(rows).select();
+    if (error) {
+      warnings.push(`${table}: ${error.message}`);
+      return [];
+    }
+    return data || [];
+  };
+
+  const { data: existingPersonas } = await supabase.from('personas').select('*').eq('company_id', companyId);
+  const { data: existingSubreddits } = await supabase.from('subreddits').select('*').eq('company_id', companyId);
+  const knownUsernames = new Set((existingPersonas || []).map((p: any) => personaUsername(p).toLowerCase()));
+  const knownSubreddits = new Set((existingSubreddits || []).map((s: any) => s.name.toLowerCase()));
+
+  const personas = await insertRows(
+    'personas',
+    bundle.personas
+      .filter(p => !knownUsernames.has(personaUsername({ name: p.name, reddit_account: p.reddit_account || null }).toLowerCase()))
+      .map(p => ({
+        company_id: companyId,
+        name: p.name,
+        tone: p.tone,
+        expertise: p.expertise,
+        reddit_account: p.reddit_account || null,
+      }))
+  );
+
+  const subreddits = await insertRows(
+    'subreddits',
+    bundle.subreddits
+      .filter(s => !knownSubreddits.has(s.name.toLowerCase()))
+      .map(s => ({
+        company_id: companyId,
+        name: s.name,
+        rules: s.rules || null,
+        min_cooldown_days: s.min_cooldown_days,
+        max_posts_per_week: s.max_posts_per_week,
+        size_category: s.size_category,
+        culture_tone: s.culture_tone || null,
+        peak_hour_start: s.peak_hour_start ?? null,
+        peak_hour_end: s.peak_hour_end ?? null,
+      }))
+  );
+
+  const seoQueries = await insertRows(
+    'seo_queries',
+    bundle.seo_queries.map(q => ({ company_id: companyId, query: q.query, priority: q.priority }))
+  );
+
+  const result: BundleImportResult = {
+    company,
+    personas,
+    subreddits,
+    seoQueries,
+    calendar: null,
+    posts: 0,
+    replies: 0,
+    warnings,
+  };
+  if (bundle.posts.length === 0) {
+    if (bundle.comments.length > 0) warnings.push('comments: no posts to attach them to - skipped');
+    return result;
+  }
+
+  // Calendar rows refer to personas by username and subreddits by name
+  const allPersonas = [...(existingPersonas || []), ...personas];
+  const personaByUsername = new Map<string, any>(allPersonas.map((p: any) => [personaUsername(p).toLowerCase(), p]));
+  const subredditByName = new Map<string, any>(
+    [...(existingSubreddits || []), ...subreddits].map((s: any) => [s.name.toLowerCase().replace(/^r\//, ''), s])
+  );
+
+  const timedPosts = bundle.posts.map(post => ({ post, time: readImportTimestamp(post.timestamp, timeZone) }));
+  timedPosts.filter(p => !p.time).forEach(p => warnings.push(`${p.post.post_id}: unreadable timestamp "${p.post.timestamp}" - skipped`));
+  const datedPosts = timedPosts.filter(p => p.time).map(p => ({ post: p.post, time: p.time! }));
+  if (datedPosts.length === 0) return result;
+
+  const earliest = datedPosts.map(p => p.time.date).sort()[0];
+  const weekStart = bundle.week_start_date
+    || format(startOfWeek(new Date(`${earliest}T12:00:00Z`), { weekStartsOn: 0 }), 'yyyy-MM-dd');
+
+  const { data: existingCalendar } = await supabase
+    .from('content_calendars')
+    .select('id')
+    .eq('company_id', companyId)
+    .eq('week_start_date', weekStart)
+    .maybeSingle();
+  if (existingCalendar) {
+    warnings.push(`A calendar for the week of ${weekStart} already exists - posts and comments were not imported. Re-import edits into it instead.`);
+    return result;
+  }
+
+  const { data: calendar, error: calendarError } = await supabase
+    .from('content_calendars')
+    .insert({ company_id: companyId, week_start_date: weekStart, posts_per_week: datedPosts.length, status: 'draft' })
+    .select()
+    .single();
+  if (calendarError || !calendar) {
+    warnings.push(`Failed to create calendar: ${calendarError?.message}`);
+    return result;
+  }
+  result.calendar = calendar;
+
+  const postIds = new Map<string, { id: string; at: Date | null }>(); // Row label -> created post
+  const orderInDay = new Map<number, number>();
+  for (const { post, time } of datedPosts) {
+    const day = daysBetween(weekStart, time.date);
+    const subreddit = subredditByName.get(post.subreddit.toLowerCase().replace(/^r\//, ''));
+    const persona = personaByUsername.get(post.author_username.toLowerCase());
+    if (day < 0 || day > 6) {
+      warnings.push(`${post.post_id}: ${time.date} is outside the week of ${weekStart} - skipped`);
+      continue;
+    }
+    if (!subreddit || !persona) {
+      warnings.push(`${post.post_id}: unknown ${!subreddit ? `subreddit "${post.subreddit}"` : `author_username "${post.author_username}"`} - skipped`);
+      continue;
+    }
+
+    const order = orderInDay.get(day) ?? 0;
+    orderInDay.set(day, order + 1);
+    const { data: created, error } = await supabase
+      .from('calendar_posts')
+      .insert({
+        calendar_id: calendar.id,
+        day_of_week: day,
+        subreddit_id: subreddit.id,
+        persona_id: persona.id,
+        topic: post.title,
+        post_type: inferPostType(post.title, post.body),
+        planned_title: post.title,
+        planned_body: post.body || null,
+        order_in_day: order,
+        scheduled_at: time.at ? time.at.toISOString() : null,
+      })
+      .select()
+      .single();
+    if (error || !created) {
+      warnings.push(`${post.post_id}: ${error?.message || 'insert failed'}`);
+      continue;
+    }
+    postIds.set(post.post_id.toUpperCase(), { id: created.id, at: time.at });
+    result.posts++;
+  }
+
+  // Comments in waves so a parent always exists before the replies to it
+  const replyIds = new Map<string, { id: string; at: Date | null }>();
+  let pending = bundle.comments;
+  while (pending.length > 0) {
+    const ready = pending.filter(c => !c.parent_comment_id || replyIds.has(c.parent_comment_id.toUpperCase()));
+    if (ready.length === 0) {
+      pending.forEach(c => warnings.push(`${c.comment_id}: parent_comment_id ${c.parent_comment_id} was not imported - skipped`));
+      break;
+    }
+
+    for (const comment of ready) {
+      const post = postIds.get(comment.post_id.toUpperCase());
+      const persona = personaByUsername.get(comment.username.toLowerCase());
+      if (!post || !persona) {
+        warnings.push(`${comment.comment_id}: ${!post ? `post ${comment.post_id} was not imported` : `unknown username "${comment.username}"`} - skipped`);
+        continue;
+      }
+
+      const at = comment.timestamp ? readImportTimestamp(comment.timestamp, timeZone)?.at ?? null : null;
+      // Hours after the post, to the half hour, when both have times
+      const hoursAfter = at && post.at ? Math.max(0.5, Math.round(((at.getTime() - post.at.getTime()) / 3600000) * 2) / 2) : 2;
+      const lower = comment.comment_text.toLowerCase();
+      const { data: created, error } = await supabase
+        .from('calendar_replies')
+        .insert({
+          post_id: post.id,
+          parent_reply_id: comment.parent_comment_id ? replyIds.get(comment.parent_comment_id.toUpperCase())!.id : null,
+          persona_id: persona.id,
+          intent: lower.includes('?') ? 'ask' : lower.includes('but') || lower.includes('however') ? 'challenge' : 'add_value',
+          order_after_post: hoursAfter,
+          planned_content: comment.comment_text,
+          scheduled_at: at ? at.toISOString() : null,
+        })
+        .select()
+        .single();
+      if (error || !created) {
+        warnings.push(`${comment.comment_id}: ${error?.message || 'insert failed'}`);
+        continue;
+      }
+      replyIds.set(comment.comment_id.toUpperCase(), { id: created.id, at });
+      result.replies++;
+    }
+    pending = pending.filter(c => !ready.includes(c));
+  }
+
+  return result;
+}
@@ -0,0 +1,615 @@
+import type { CalendarPost, CalendarReply, Company, ContentCalendar, Persona, Subreddit } from '@/types';
+import type {
+  PlanningRepository,
+  CalendarMergeOperation,
+  CalendarPostUpdate,
+  CalendarReplyUpdate,
+  NewCalendarPost,
+  NewCalendarReply,
+} from '@/lib/repository';
+import { DEFAULT_TIMEZONE, isValidTimeZone, timeZoneOffsetMinutes, zonedTimeToUtc } from '@/lib/planning/schedule';
+import { inferPostType } from './import-engine';
+import { readImportTimestamp, type ImportBundle } from './import-schema';
+import { formatLocalTimestamp, labelCalendarRows, personaUsername } from './unified-export';
+
+export type CalendarChangeKind =
+  | 'post_added'
+  | 'post_updated'
+  | 'post_deleted'
+  | 'reply_added'
+  | 'reply_updated'
+  | 'reply_deleted';
+
+export interface FieldChange {
+  field: 'title' | 'body' | 'subreddit' | 'persona' | 'day' | 'time' | 'content' | 'parent';
+  before: string | null;
+  after: string | null;
+}
+
+export interface CalendarChange {
+  id: string; // Stable across re-uploads of the same file, e.g. "post_updated:<post id>" or "reply_added:C9"
+  kind: CalendarChangeKind;
+  label: string; // Row label in the workbook (P3, C7), or the old label for deleted rows
+  summary: string;
+  fields: FieldChange[];
+  post_id?: string; // Existing post the change touches
+  reply_id?: string; // Existing reply the change touches
+  depends_on?: string[]; // Changes that must be accepted too (e.g. a new reply on a new post)
+  post?: Partial<NewCalendarPost> & CalendarPostUpdate; // Values written for added/updated posts
+  reply?: Partial<NewCalendarReply> & CalendarReplyUpdate & { parent_label?: string; post_label?: string };
+}
+
+export interface CalendarDiff {
+  changes: CalendarChange[];
+  warnings: string[]; // Rows or values that can't be applied (unknown persona, day outside the week...)
+}
+
+export interface CalendarMergeContext {
+  calendar: ContentCalendar;
+  company: Company;
+  personas: Persona[];
+  subreddits: Subreddit[];
+  posts: CalendarPost[];
+  replies: CalendarReply[];
+}
+
+export interface CalendarMergeResult {
+  applied: string[];
+  skipped: Array<{ id: string; reason: string }>;
+}
+
+/**
+ * Loads everything diffCalendarWorkbook needs for one calendar
+ */
+export async function loadCalendarMergeContext(
+  calendarId: string,
+  repository: PlanningRepository
+): Promise<CalendarMergeContext | null> {
+  const calendar = await repository.getCalendar(calendarId);
+  if (!calendar) return null;
+
+  const [company, personas, subreddits, posts] = await Promise.all([
+    repository.getCompany(calendar.company_id),
+    repository.listPersonas(calendar.company_id),
+    repository.listSubreddits(calendar.company_id),
+    repository.listPosts([calendar.id]),
+  ]);
+  if (!company) return null;
+
+  const replies = await repository.listReplies(posts.map(p => p.id));
+  return { calendar, company, personas, subreddits, posts, replies };
+}
+
+function normalizeSubreddit(name: string): string {
+  return name.trim().toLowerCase().replace(/^\/?r\//, '');
+}
+
+function normalizeText(value: string | null | undefined): string {
+  return (value || '').replace(/\r\n/g, '\n').trim();
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+function addDaysToDate(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
+
+function formatMinutes(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Compares an edited workbook with the stored calendar. Rows are matched on the calendar_post_id /
+ * calendar_reply_id columns the export writes; workbooks without them are matched on P1/C1 labels.
+ * Nothing is written - see applyCalendarChanges.
+ */
+export function diffCalendarWorkbook(workbook: Pick<ImportBundle, 'posts' | 'comments'>, context: CalendarMergeContext): CalendarDiff {
+  const { calendar, company, personas, subreddits } = context;
+  const timeZone = company.timezone && isValidTimeZone(company.timezone) ? company.timezone : DEFAULT_TIMEZONE;
+  const { posts, replies, postLabels, replyLabels } = labelCalendarRows(context.posts, context.replies);
+  const changes: CalendarChange[] = [];
+  const warnings: string[] = [];
+
+  const personaByUsername = new Map(personas.map(p => [personaUsername(p).toLowerCase(), p]));
+  const subredditByName = new Map(subreddits.map(s => [normalizeSubreddit(s.name), s]));
+  const personaLabel = (id: string) => {
+    const persona = personas.find(p => p.id === id);
+    return persona ? personaUsername(persona) : id;
+  };
+  const subredditLabel = (id: string) => subreddits.find(s => s.id === id)?.name || id;
+
+  // Where an edited timestamp lands: day of the calendar week and, when a time was given, scheduled_at
+  const resolveTime = (
+    label: string,
+    timestamp: string,
+    existing: { day_of_week: number; scheduled_at?: string | null } | null
+  ): { day: number; scheduledAt: string | null } | null => {
+    const wallClock = readImportTimestamp(timestamp, timeZone);
+    if (!wallClock) {
+      warnings.push(`${label}: unreadable timestamp "${timestamp}"`);
+      return null;
+    }
+    const day = daysBetween(calendar.week_start_date, wallClock.date);
+    if (day < 0 || day > 6) {
+      warnings.push(`${label}: ${wallClock.date} is outside the week of ${calendar.week_start_date}`);
+      return null;
+    }
+
+    let minutes = wallClock.minutes;
+    if (minutes === null && existing?.scheduled_at) {
+      // Bare date on a scheduled row: keep its local time of day
+      const scheduled = new Date(existing.scheduled_at);
+      const local = new Date(scheduled.getTime() + timeZoneOffsetMinutes(scheduled, timeZone) * 60000);
+      minutes = local.getUTCHours() * 60 + local.getUTCMinutes();
+    }
+    const scheduledAt = minutes === null ? null : zonedTimeToUtc(wallClock.date, minutes, timeZone).toISOString();
+    return { day, scheduledAt };
+  };
+
+  const timeFields = (
+    label: string,
+    timestamp: string,
+    existing: { day_of_week: number; scheduled_at?: string | null },
+    fallbackDate: string
+  ): { fields: FieldChange[]; day?: number; scheduledAt?: string | null } => {
+    const before = formatLocalTimestamp(existing.scheduled_at, fallbackDate, timeZone);
+    const wallClock = readImportTimestamp(timestamp, timeZone);
+    if (!wallClock) return { fields: [] };
+
+    const after = wallClock.minutes === null ? wallClock.date : `${wallClock.date} ${formatMinutes(wallClock.minutes)}`;
+    const [beforeDate, beforeTime = null] = before.split(' ');
+    const dateChanged = beforeDate !== wallClock.date;
+    const timeChanged = wallClock.minutes !== null && formatMinutes(wallClock.minutes) !== beforeTime;
+    if (!dateChanged && !timeChanged) return { fields: [] };
+
+    const resolved = resolveTime(label, timestamp, existing);
+    if (!resolved) return { fields: [] };
+    return {
+      fields: [{ field: dateChanged ? 'day' : 'time', before, after }],
+      day: resolved.day,
+      scheduledAt: resolved.scheduledAt,
+    };
+  };
+
+  // Rows without ids are new when the workbook carries ids at all; otherwise labels are the ids
+  const postsHaveIds = workbook.posts.some(p => p.calendar_post_id);
+  const repliesHaveIds = workbook.comments.some(c => c.calendar_reply_id);
+  const postsByLabel = new Map(posts.map(p => [postLabels.get(p.id)!, p]));
+  const repliesByLabel = new Map(replies.map(r => [replyLabels.get(r.id)!, r]));
+
+  const matchedPosts = new Map<string, CalendarPost>(); // Workbook label -> stored post
+  const newPostLabels = new Set<string>();
+  const seenPostIds = new Set<string>();
+
+  for (const row of workbook.posts) {
+    const label = row.post_id.trim().toUpperCase();
+    const existing = postsHaveIds
+      ? posts.find(p => p.id === row.calendar_post_id)
+      : postsByLabel.get(label);
+
+    if (postsHaveIds && row.calendar_post_id && !existing) {
+      warnings.push(`${label}: post ${row.calendar_post_id} isn't in this calendar - skipped`);
+      continue;
+    }
+    if (existing && seenPostIds.has(existing.id)) {
+      warnings.push(`${label}: same post as an earlier row - skipped`);
+      continue;
+    }
+
+    const subreddit = row.subreddit ? subredditByName.get(normalizeSubreddit(row.subreddit)) : undefined;
+    const persona = row.author_username ? personaByUsername.get(row.author_username.trim().toLowerCase()) : undefined;
+
+    if (!existing) {
+      if (!row.title.trim() || !subreddit || !persona) {
+        const problem = !row.title.trim()
+          ? 'has no title'
+          : !subreddit
+            ? `has unknown subreddit "${row.subreddit}"`
+            : `has unknown author_username "${row.author_username}"`;
+        warnings.push(`${label}: new post ${problem} - skipped`);
+        continue;
+      }
+      const time = resolveTime(label, row.timestamp, null);
+      if (!time) continue;
+
+      newPostLabels.add(label);
+      changes.push({
+        id: `post_added:${label}`,
+        kind: 'post_added',
+        label,
+        summary: `New post ${label} "${row.title.trim()}" in ${subreddit.name} by ${personaUsername(persona)}`,
+        fields: [],
+        post: {
+          day_of_week: time.day,
+          subreddit_id: subreddit.id,
+          persona_id: persona.id,
+          topic: row.title.trim(),
+          planned_title: row.title.trim(),
+          planned_body: normalizeText(row.body) || null,
+          post_type: inferPostType(row.title, row.body),
+          scheduled_at: time.scheduledAt,
+        },
+      });
+      continue;
+    }
+
+    seenPostIds.add(existing.id);
+    matchedPosts.set(label, existing);
+    const existingLabel = postLabels.get(existing.id)!;
+    const fields: FieldChange[] = [];
+    const update: CalendarPostUpdate = {};
+
+    const beforeTitle = existing.planned_title || existing.topic;
+    if (row.title.trim() && normalizeText(row.title) !== normalizeText(beforeTitle)) {
+      fields.push({ field: 'title', before: beforeTitle, after: row.title.trim() });
+      update.planned_title = row.title.trim();
+    }
+    if (normalizeText(row.body) !== normalizeText(existing.planned_body)) {
+      fields.push({ field: 'body', before: existing.planned_body, after: normalizeText(row.body) || null });
+      update.planned_body = normalizeText(row.body) || null;
+    }
+    if (row.subreddit && normalizeSubreddit(row.subreddit) !== normalizeSubreddit(subredditLabel(existing.subreddit_id))) {
+      if (subreddit) {
+        fields.push({ field: 'subreddit', before: subredditLabel(existing.subreddit_id), after: subreddit.name });
+        update.subreddit_id = subreddit.id;
+      } else {
+        warnings.push(`${label}: unknown subreddit "${row.subreddit}" - kept ${subredditLabel(existing.subreddit_id)}`);
+      }
+    }
+    if (row.author_username && row.author_username.trim().toLowerCase() !== personaLabel(existing.persona_id).toLowerCase()) {
+      if (persona) {
+        fields.push({ field: 'persona', before: personaLabel(existing.persona_id), after: personaUsername(persona) });
+        update.persona_id = persona.id;
+      } else {
+        warnings.push(`${label}: unknown author_username "${row.author_username}" - kept ${personaLabel(existing.persona_id)}`);
+      }
+    }
+
+    const fallbackDate = addDaysToDate(calendar.week_start_date, existing.day_of_week);
+    const time = timeFields(label, row.timestamp, existing, fallbackDate);
+    if (time.fields.length > 0) {
+      fields.push(...time.fields);
+      if (time.day !== existing.day_of_week) update.day_of_week = time.day;
+      if (time.scheduledAt !== undefined) update.scheduled_at = time.scheduledAt;
+    }
+
+    if (fields.length > 0) {
+      changes.push({
+        id: `post_updated:${existing.id}`,
+        kind: 'post_updated',
+        label: existingLabel,
+        summary: `${existingLabel} "${beforeTitle}": ${fields.map(f => f.field).join(', ')} changed${
+          update.scheduled_at && replies.some(r => r.post_id === existing.id) ? ' (its replies move with it)' : ''
+        }`,
+        fields,
+        post_id: existing.id,
+        post: update,
+      });
+    }
+  }
+
+  const deletedPostIds = new Set<string>();
+  posts.filter(p => !seenPostIds.has(p.id)).forEach(post => {
+    const label = postLabels.get(post.id)!;
+    const replyCount = replies.filter(r => r.post_id === post.id).length;
+    deletedPostIds.add(post.id);
+    changes.push({
+      id: `post_deleted:${post.id}`,
+      kind: 'post_deleted',
+      label,
+      summary: `${label} "${post.planned_title || post.topic}" removed${replyCount > 0 ? ` with its ${replyCount} replies` : ''}`,
+      fields: [],
+      post_id: post.id,
+    });
+  });
+
+  // Comments: parents may be stored replies or rows added in this workbook
+  const matchedReplies = new Map<string, CalendarReply>(); // Workbook label -> stored reply
+  const newReplyLabels = new Set<string>();
+  const seenReplyIds = new Set<string>();
+  workbook.comments.forEach(row => {
+    const label = row.comment_id.trim().toUpperCase();
+    const existing = repliesHaveIds
+      ? replies.find(r => r.id === row.calendar_reply_id)
+      : repliesByLabel.get(label);
+    if (existing) {
+      if (seenReplyIds.has(existing.id)) return; // Repeated row - reported below
+      matchedReplies.set(label, existing);
+      seenReplyIds.add(existing.id);
+    } else if (!repliesHaveIds || !row.calendar_reply_id) {
+      newReplyLabels.add(label);
+    }
+  });
+
+  for (const row of workbook.comments) {
+    const label = row.comment_id.trim().toUpperCase();
+    const existing = matchedReplies.get(label);
+    const postLabel = row.post_id.trim().toUpperCase();
+    const parentLabel = row.parent_comment_id?.trim().toUpperCase() || '';
+    const persona = row.username ? personaByUsername.get(row.username.trim().toLowerCase()) : undefined;
+
+    if (!existing) {
+      if (!newReplyLabels.has(label)) {
+        warnings.push(`${label}: reply ${row.calendar_reply_id} isn't in this calendar or repeats an earlier row - skipped`);
+        continue;
+      }
+      const post = matchedPosts.get(postLabel);
+      if (!post && !newPostLabels.has(postLabel)) {
+        warnings.push(`${label}: post_id ${postLabel || '(blank)'} not found - skipped`);
+        continue;
+      }
+      if (!persona || !row.comment_text.trim()) {
+        warnings.push(`${label}: new reply needs a known username and comment_text - skipped`);
+        continue;
+      }
+      if (parentLabel && !matchedReplies.has(parentLabel) && !newReplyLabels.has(parentLabel)) {
+        warnings.push(`${label}: parent_comment_id ${parentLabel} not found - skipped`);
+        continue;
+      }
+
+      const time = resolveTime(label, row.timestamp, null);
+      const dependsOn = [
+        ...(post ? [] : [`post_added:${postLabel}`]),
+        ...(parentLabel && newReplyLabels.has(parentLabel) ? [`reply_added:${parentLabel}`] : []),
+      ];
+      newReplyLabels.add(label);
+      changes.push({
+        id: `reply_added:${label}`,
+        kind: 'reply_added',
+        label,
+        summary: `New reply ${label} on ${postLabel} by ${personaUsername(persona)}`,
+        fields: [],
+        ...(dependsOn.length > 0 ? { depends_on: dependsOn } : {}),
+        reply: {
+          post_id: post?.id,
+          post_label: postLabel,
+          parent_reply_id: parentLabel ? matchedReplies.get(parentLabel)?.id ?? null : null,
+          parent_label: parentLabel || undefined,
+          persona_id: persona.id,
+          planned_content: row.comment_text.trim(),
+          intent: row.comment_text.includes('?') ? 'ask' : 'add_value',
+          order_after_post: 2,
+          scheduled_at: time?.scheduledAt ?? null,
+        },
+      });
+      continue;
+    }
+
+    const existingLabel = replyLabels.get(existing.id)!;
+    const fields: FieldChange[] = [];
+    const update: CalendarReplyUpdate = {};
+    const dependsOn: string[] = [];
+    const existingPost = posts.find(p => p.id === existing.post_id)!;
+
+    if (matchedPosts.get(postLabel)?.id !== existing.post_id) {
+      warnings.push(`${label}: replies can't move to another post - kept it on ${postLabels.get(existing.post_id)}`);
+    }
+    if (normalizeText(row.comment_text) !== normalizeText(existing.planned_content)) {
+      fields.push({ field: 'content', before: existing.planned_content, after: normalizeText(row.comment_text) || null });
+      update.planned_content = normalizeText(row.comment_text) || null;
+    }
+    if (row.username && row.username.trim().toLowerCase() !== personaLabel(existing.persona_id).toLowerCase()) {
+      if (persona) {
+        fields.push({ field: 'persona', before: personaLabel(existing.persona_id), after: personaUsername(persona) });
+        update.persona_id = persona.id;
+      } else {
+        warnings.push(`${label}: unknown username "${row.username}" - kept ${personaLabel(existing.persona_id)}`);
+      }
+    }
+
+    const beforeParent = existing.parent_reply_id ? replyLabels.get(existing.parent_reply_id) || null : null;
+    const parentReply = parentLabel ? matchedReplies.get(parentLabel) : undefined;
+    const parentMoved = parentLabel
+      ? parentReply?.id !== existing.parent_reply_id
+      : !!existing.parent_reply_id;
+    if (parentMoved) {
+      if (parentLabel && !parentReply && !newReplyLabels.has(parentLabel)) {
+        warnings.push(`${label}: parent_comment_id ${parentLabel} not found - kept ${beforeParent || 'the post'}`);
+      } else if (parentReply && parentReply.post_id !== existing.post_id) {
+        warnings.push(`${label}: parent_comment_id ${parentLabel} is on another post - kept ${beforeParent || 'the post'}`);
+      } else {
+        fields.push({ field: 'parent', before: beforeParent, after: parentLabel || null });
+        update.parent_reply_id = parentReply?.id ?? null;
+        if (parentLabel && !parentReply) dependsOn.push(`reply_added:${parentLabel}`);
+      }
+    }
+
+    const fallbackDate = addDaysToDate(calendar.week_start_date, existingPost.day_of_week);
+    const time = timeFields(label, row.timestamp, { day_of_week: existingPost.day_of_week, scheduled_at: existing.scheduled_at }, fallbackDate);
+    if (time.fields.length > 0 && time.scheduledAt !== undefined) {
+      fields.push(...time.fields.map(f => ({ ...f, field: 'time' as const })));
+      update.scheduled_at = time.scheduledAt;
+    }
+
+    if (fields.length > 0) {
+      changes.push({
+        id: `reply_updated:${existing.id}`,
+        kind: 'reply_updated',
+        label: existingLabel,
+        summary: `${existingLabel} on ${postLabels.get(existing.post_id)}: ${fields.map(f => f.field).join(', ')} changed`,
+        fields,
+        reply_id: existing.id,
+        ...(dependsOn.length > 0 ? { depends_on: dependsOn } : {}),
+        reply: { ...update, parent_label: fields.some(f => f.field === 'parent') ? parentLabel || undefined : undefined },
+      });
+    }
+  }
+
+  // Replies removed from the sheet. Replies on removed posts, or under a removed reply,
+  // go with their parent's change (the database cascades).
+  const removedReplies = replies.filter(r => !seenReplyIds.has(r.id) && !deletedPostIds.has(r.post_id));
+  const removedIds = new Set(removedReplies.map(r => r.id));
+  removedReplies
+    .filter(r => !(r.parent_reply_id && removedIds.has(r.parent_reply_id)))
+    .forEach(reply => {
+      const label = replyLabels.get(reply.id)!;
+      changes.push({
+        id: `reply_deleted:${reply.id}`,
+        kind: 'reply_deleted',
+        label,
+        summary: `${label} on ${postLabels.get(reply.post_id)} by ${personaLabel(reply.persona_id)} removed`,
+        fields: [],
+        reply_id: reply.id,
+      });
+    });
+
+  return { changes, warnings };
+}
+
+/**
+ * Applies the accepted changes from a diff in one atomic repository call, which re-checks that
+ * the calendar is still unlocked. Changes whose dependencies weren't accepted are skipped; every
+ * write is logged to the audit trail. Null when the calendar was approved or published first.
+ */
+export async function applyCalendarChanges(
+  diff: CalendarDiff,
+  acceptedIds: string[],
+  context: CalendarMergeContext,
+  repository: PlanningRepository,
+  actor: string = 'unknown'
+): Promise<CalendarMergeResult | null> {
+  const { calendar } = context;
+  const accepted = new Set(acceptedIds);
+  const applied: string[] = [];
+  const skipped: CalendarMergeResult['skipped'] = [];
+  const operations: CalendarMergeOperation[] = [];
+
+  const byId = new Map(diff.changes.map(c => [c.id, c]));
+  acceptedIds.filter(id => !byId.has(id)).forEach(id => skipped.push({ id, reason: 'not in the diff' }));
+
+  // A change is only applied when everything it depends on is accepted too. The path guards
+  // against cycles; two changes can share a dependency.
+  const isApplicable = (change: CalendarChange, path = new Set<string>()): boolean => {
+    if (!accepted.has(change.id) || path.has(change.id)) return false;
+    const next = new Set(path).add(change.id);
+    return (change.depends_on || []).every(dep => {
+      const dependency = byId.get(dep);
+      return !!dependency && isApplicable(dependency, next);
+    });
+  };
+
+  const ordered = diff.changes.filter(change => {
+    if (!accepted.has(change.id)) return false;
+    if (isApplicable(change)) return true;
+    const missing = (change.depends_on || []).filter(dep => !accepted.has(dep));
+    skipped.push({ id: change.id, reason: `depends on ${missing.join(', ') || 'a change that was skipped'}` });
+    return false;
+  });
+  const ofKind = (kind: CalendarChangeKind) => ordered.filter(c => c.kind === kind);
+
+  // Posts first so new replies can point at new posts
+  for (const change of ofKind('post_updated')) {
+    operations.push({ op: 'update_post', post_id: change.post_id!, updates: change.post! });
+    applied.push(change.id);
+  }
+
+  const lastOrderInDay = new Map<number, number>();
+  context.posts.forEach(p => lastOrderInDay.set(p.day_of_week, Math.max(lastOrderInDay.get(p.day_of_week) ?? -1, p.order_in_day)));
+  for (const change of ofKind('post_added')) {
+    const post = change.post!;
+    const orderInDay = (lastOrderInDay.get(post.day_of_week!) ?? -1) + 1;
+    lastOrderInDay.set(post.day_of_week!, orderInDay);
+    operations.push({
+      op: 'create_post',
+      key: change.label,
+      post: {
+        day_of_week: post.day_of_week!,
+        subreddit_id: post.subreddit_id!,
+        persona_id: post.persona_id!,
+        topic: post.topic!,
+        planned_title: post.planned_title,
+        planned_body: post.planned_body,
+        post_type: post.post_type!,
+        order_in_day: orderInDay,
+        scheduled_at: post.scheduled_at,
+      },
+    });
+    applied.push(change.id);
+  }
+
+  // New replies in dependency order: a reply waits until its new parent is created
+  const newReplyLabels = new Set<string>();
+  let pending = ofKind('reply_added');
+  while (pending.length > 0) {
+    const ready = pending.filter(c => !c.reply!.parent_label || c.reply!.parent_reply_id || newReplyLabels.has(c.reply!.parent_label));
+    if (ready.length === 0) {
+      pending.forEach(c => skipped.push({ id: c.id, reason: 'parent reply could not be created' }));
+      break;
+    }
+    for (const change of ready) {
+      const reply = change.reply!;
+      const parentIsNew = !reply.parent_reply_id && !!reply.parent_label;
+      operations.push({
+        op: 'create_reply',
+        key: change.label,
+        reply: {
+          persona_id: reply.persona_id!,
+          intent: reply.intent!,
+          order_after_post: reply.order_after_post!,
+          planned_content: reply.planned_content ?? null,
+          scheduled_at: reply.scheduled_at,
+        },
+        ...(reply.post_id ? { post_id: reply.post_id } : { post_key: reply.post_label }),
+        ...(parentIsNew ? { parent_key: reply.parent_label } : { parent_reply_id: reply.parent_reply_id ?? null }),
+      });
+      newReplyLabels.add(change.label);
+      applied.push(change.id);
+    }
+    pending = pending.filter(c => !ready.includes(c));
+  }
+
+  for (const change of ofKind('reply_updated')) {
+    const { parent_label, post_label, ...updates } = change.reply!;
+    const parentIsNew = !!parent_label && updates.parent_reply_id === null && newReplyLabels.has(parent_label);
+    operations.push({
+      op: 'update_reply',
+      reply_id: change.reply_id!,
+      updates,
+      ...(parentIsNew ? { parent_key: parent_label } : {}),
+    });
+    applied.push(change.id);
+  }
+
+  // Replies follow a post that moved, unless the sheet gave them a new time themselves
+  const retimedReplies = new Set(ofKind('reply_updated').filter(c => c.reply!.scheduled_at !== undefined).map(c => c.reply_id));
+  for (const change of ofKind('post_updated')) {
+    const before = context.posts.find(p => p.id === change.post_id)?.scheduled_at;
+    const after = change.post!.scheduled_at;
+    if (!before || !after) continue;
+    const shift = Date.parse(after) - Date.parse(before);
+    if (shift === 0) continue;
+    for (const reply of context.replies.filter(r => r.post_id === change.post_id && r.scheduled_at && !retimedReplies.has(r.id))) {
+      operations.push({
+        op: 'update_reply',
+        reply_id: reply.id,
+        updates: { scheduled_at: new Date(Date.parse(reply.scheduled_at!) + shift).toISOString() },
+        log: false,
+      });
+    }
+  }
+
+  for (const change of ofKind('reply_deleted')) {
+    operations.push({ op: 'delete_reply', reply_id: change.reply_id! });
+    applied.push(change.id);
+  }
+
+  for (const change of ofKind('post_deleted')) {
+    operations.push({ op: 'delete_post', post_id: change.post_id! });
+    applied.push(change.id);
+  }
+
+  // Keep the calendar's post count in step with what's stored
+  const addedPosts = ofKind('post_added').length;
+  const deletedPosts = ofKind('post_deleted').length;
+  const merged = await repository.applyCalendarMerge(calendar.id, {
+    operations,
+    ...(addedPosts !== deletedPosts ? { posts_per_week: context.posts.length + addedPosts - deletedPosts } : {}),
+    actor,
+    comment: 'Re-imported from workbook',
+  });
+
+  return merged ? { applied, skipped } : null;
+}
@@ -0,0 +1,87 @@
+/**
+ * Minimal RFC 4180 CSV reading and writing: quoted fields, escaped quotes ("") and
+ * newlines inside quotes. The first row is the header.
+ */
+
+// Spreadsheet apps run a cell starting with one of these as a formula. Text that already starts
+// with ' before one gets another, so unescaping never strips a quote that was really there.
+const FORMULA_START = /^'*[=+\-@]/;
+
+/**
+ * Keeps exported text from being run as a spreadsheet formula by prefixing it with '
+ */
+export function escapeFormula(text: string): string {
+  return FORMULA_START.test(text) ? `'${text}` : text;
+}
+
+/**
+ * Undoes escapeFormula, so exported files import back unchanged
+ */
+export function unescapeFormula(text: string): string {
+  return text.startsWith("'") && FORMULA_START.test(text) ? text.slice(1) : text;
+}
+
+export function parseCSV(input: string): Record<string, string>[] {
+  const textInput = input.replace(/^\uFEFF/, ''); // Excel adds a BOM to UTF-8 CSVs
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < textInput.length; i++) {
+    const char = textInput[i];
+    if (quoted) {
+      if (char === '"' && textInput[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && textInput[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header, ...body] = records.filter(r => r.some(value => value.trim() !== ''));
+  if (!header) return [];
+  const columns = header.map(h => h.trim().toLowerCase());
+
+  return body.map(values => {
+    const row: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      if (column) row[column] = unescapeFormula(values[index] ?? '');
+    });
+    return row;
+  });
+}
+
+function escapeField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const textValue = escapeFormula(Array.isArray(value) ? value.join(', ') : String(value));
+  return /[",\r\n]/.test(textValue) ? `"${textValue.replace(/"/g, '""')}"` : textValue;
+}
+
+/**
+ * Writes rows under the given header; arrays become comma-separated lists
+ */
+export function toCSV(columns: string[], rows: Array<Record<string, unknown>>): string {
+  const lines = [columns.join(','), ...rows.map(row => columns.map(column => escapeField(row[column])).join(','))];
+  return lines.join('\r\n') + '\r\n';
+}
@@ -0,0 +1,230 @@
+import type { CalendarPost, CalendarReply, Company, ContentCalendar, Persona, Subreddit } from '@/types';
+
+interface CalendarExportData {
+  calendar: ContentCalendar;
+  company: Pick<Company, 'name' | 'timezone'>;
+  posts: CalendarPost[];
+  replies: CalendarReply[];
+  personas: Persona[];
+  subreddits: Subreddit[];
+}
+
+interface CalendarExportOptions {
+  personaId?: string; // Only this persona's posts and replies (a per-persona feed)
+  now?: Date; // DTSTAMP, defaults to the current time
+}
+
+// UIDs are derived from the calendar and each item's slot in it (day, order, place in the thread),
+// not row ids, so regenerating or re-subscribing updates events in place
+const UID_DOMAIN = 'reddit-mastermind';
+
+const POST_DURATION_MINUTES = 15;
+const REPLY_DURATION_MINUTES = 5;
+
+/**
+ * Escapes a TEXT value (RFC 5545 3.3.11)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Folds a content line at 75 octets, continuing with a leading space (RFC 5545 3.1).
+ * Never splits a multi-byte character.
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74; // Continuation lines start with a space
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+function addDaysToDate(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
+
+/**
+ * DTSTART/DTEND for an item: an exact UTC time when scheduled, otherwise an all-day
+ * event on the post's day of the week
+ */
+function eventTimes(scheduledAt: string | null | undefined, fallbackDate: string, durationMinutes: number): string[] {
+  if (scheduledAt) {
+    const start = new Date(scheduledAt);
+    const end = new Date(start.getTime() + durationMinutes * 60000);
+    return [`DTSTART:${formatDateTime(start)}`, `DTEND:${formatDateTime(end)}`];
+  }
+  return [
+    `DTSTART;VALUE=DATE:${formatDate(fallbackDate)}`,
+    `DTEND;VALUE=DATE:${formatDate(addDaysToDate(fallbackDate, 1))}`,
+  ];
+}
+
+/**
+ * Stable keys for posts and replies: a post by its day and order, a reply by its post and its
+ * position among its siblings (ordered by time after the post), e.g. "d1-0" and "d1-0-r2.1".
+ * A repeated slot gets a suffix so keys stay unique.
+ */
+function slotKeys(posts: CalendarPost[], replies: CalendarReply[]): Map<string, string> {
+  const keys = new Map<string, string>();
+  const used = new Set<string>();
+  const assign = (id: string, base: string) => {
+    let key = base;
+    for (let n = 2; used.has(key); n++) key = `${base}-${n}`;
+    used.add(key);
+    keys.set(id, key);
+  };
+
+  [...posts]
+    .sort((a, b) => a.day_of_week - b.day_of_week || a.order_in_day - b.order_in_day || a.created_at.localeCompare(b.created_at))
+    .forEach(post => assign(post.id, `d${post.day_of_week}-${post.order_in_day}`));
+
+  const byTime = (a: CalendarReply, b: CalendarReply) =>
+    a.order_after_post - b.order_after_post || a.created_at.localeCompare(b.created_at);
+  const place = (parentKey: string, postId: string, parentId: string | null, prefix: string) => {
+    replies
+      .filter(r => r.post_id === postId && (r.parent_reply_id || null) === parentId)
+      .sort(byTime)
+      .forEach((reply, i) => {
+        const path = `${prefix}${i + 1}`;
+        assign(reply.id, `${parentKey}-r${path}`);
+        place(parentKey, postId, reply.id, `${path}.`);
+      });
+  };
+  posts.forEach(post => {
+    const key = keys.get(post.id);
+    if (key) place(key, post.id, null, '');
+  });
+
+  return keys;
+}
+
+/**
+ * LAST-MODIFIED and SEQUENCE for an item. SEQUENCE is the seconds between the calendar's creation
+ * and the item's last change, so it grows with every edit or regeneration.
+ */
+function revision(item: { created_at: string; updated_at?: string | null }, calendar: ContentCalendar): string[] {
+  const modified = new Date(item.updated_at || item.created_at);
+  const sequence = Math.max(0, Math.floor((modified.getTime() - new Date(calendar.created_at).getTime()) / 1000)) || 0;
+  return [`LAST-MODIFIED:${formatDateTime(modified)}`, `SEQUENCE:${sequence}`];
+}
+
+/**
+ * Builds an iCalendar (.ics) feed with one VEVENT per post and reply. Times are written in UTC;
+ * the company's timezone is advertised so clients can label the feed.
+ */
+export function buildCalendarICS(data: CalendarExportData, options: CalendarExportOptions = {}): string {
+  const { calendar, company, posts, replies, personas, subreddits } = data;
+  const { personaId } = options;
+  const stamp = formatDateTime(options.now || new Date());
+
+  const personaName = (id: string) => personas.find(p => p.id === id)?.name || 'Unknown persona';
+  const subredditName = (id: string) => subreddits.find(s => s.id === id)?.name || 'Unknown subreddit';
+  const postDate = (post: CalendarPost) => addDaysToDate(calendar.week_start_date, post.day_of_week);
+  const postsById = new Map(posts.map(p => [p.id, p]));
+  const repliesById = new Map(replies.map(r => [r.id, r]));
+  const slots = slotKeys(posts, replies);
+  const uid = (kind: 'post' | 'reply', id: string) => `${kind}-${calendar.id}-${slots.get(id)}@${UID_DOMAIN}`;
+
+  const feedName = personaId
+    ? `${company.name} - ${personaName(personaId)} - week of ${calendar.week_start_date}`
+    : `${company.name} - week of ${calendar.week_start_date}`;
+
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${UID_DOMAIN}//Content Calendar//EN`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(feedName)}`,
+    `X-WR-TIMEZONE:${company.timezone || 'UTC'}`,
+  ];
+
+  const sortedPosts = [...posts].sort((a, b) => a.day_of_week - b.day_of_week || a.order_in_day - b.order_in_day);
+  for (const post of sortedPosts) {
+    if (personaId && post.persona_id !== personaId) continue;
+
+    const title = post.planned_title || post.topic;
+    const description = [
+      `Persona: ${personaName(post.persona_id)}`,
+      `Subreddit: ${subredditName(post.subreddit_id)}`,
+      `Type: ${post.post_type}`,
+      `Title: ${title}`,
+      '',
+      post.planned_body || `Topic: ${post.topic}`,
+    ].join('\n');
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${uid('post', post.id)}`,
+      `DTSTAMP:${stamp}`,
+      ...revision(post, calendar),
+      ...eventTimes(post.scheduled_at, postDate(post), POST_DURATION_MINUTES),
+      `SUMMARY:${escapeText(`${subredditName(post.subreddit_id)}: ${title} (${personaName(post.persona_id)})`)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      `CATEGORIES:Post,${escapeText(subredditName(post.subreddit_id))}`,
+      'END:VEVENT'
+    );
+  }
+
+  for (const reply of replies) {
+    if (personaId && reply.persona_id !== personaId) continue;
+    const post = postsById.get(reply.post_id);
+    if (!post) continue;
+
+    const title = post.planned_title || post.topic;
+    const parent = reply.parent_reply_id ? repliesById.get(reply.parent_reply_id) : undefined;
+    const description = [
+      `Persona: ${personaName(reply.persona_id)}`,
+      `Subreddit: ${subredditName(post.subreddit_id)}`,
+      `Post: ${title} (by ${personaName(post.persona_id)})`,
+      parent ? `Replying to: ${personaName(parent.persona_id)}` : 'Replying to: the post',
+      `Intent: ${reply.intent}`,
+      '',
+      reply.planned_content || '(content not generated yet)',
+    ].join('\n');
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${uid('reply', reply.id)}`,
+      `DTSTAMP:${stamp}`,
+      ...revision(reply, calendar),
+      ...eventTimes(reply.scheduled_at, postDate(post), REPLY_DURATION_MINUTES),
+      `SUMMARY:${escapeText(`Reply on ${subredditName(post.subreddit_id)}: ${title} (${personaName(reply.persona_id)})`)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      `RELATED-TO:${uid('post', post.id)}`,
+      `CATEGORIES:Reply,${escapeText(subredditName(post.subreddit_id))}`,
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,443 @@
+import { IMPORT_COLUMNS, IMPORT_ENTITIES, normalizeImportBundle, type ImportBundle, type ImportEntity, type ParsedBundle } from './import-schema';
+import type { ImportIssue } from './import-validation';
+import { unescapeFormula } from './csv';
+
+// Import xlsx - use require for Next.js compatibility
+const XLSX = require('xlsx');
+
+/**
+ * Where one entity lives in a workbook. Tables are found by their header row, so several can
+ * share a sheet (the SlideForge layout stacks posts and comments); a table ends at the next
+ * table's header row. Sheets match by name, case-insensitively, then by part of the name.
+ */
+export interface EntityMapping {
+  sheet: string;
+  columns: Record<string, string>; // Import field -> header in the workbook (row label for key_value)
+  layout?: 'table' | 'key_value'; // key_value: labels in column A, values in column B (company only)
+}
+
+export type ColumnMapping = Partial<Record<ImportEntity, EntityMapping>>;
+
+// Fields a mapping can fill: the import schema's columns plus a few the engine derives rows from
+export const MAPPABLE_FIELDS: Record<ImportEntity, string[]> = {
+  ...IMPORT_COLUMNS,
+  company: [...IMPORT_COLUMNS.company, 'subreddits', 'posts_per_week'], // Subreddit names, one per line
+  personas: [...IMPORT_COLUMNS.personas, 'info'], // Free text; name, tone and expertise are read from it when unmapped
+};
+
+// A table's header row holds every mapped one of these
+const HEADER_FIELDS: Record<ImportEntity, string[]> = {
+  company: ['name'],
+  personas: ['name', 'reddit_account'],
+  subreddits: ['name'],
+  seo_queries: ['query'],
+  posts: ['post_id', 'title'],
+  comments: ['comment_id', 'comment_text'],
+};
+
+// Without these columns every row would be dropped, so the table is skipped with one issue instead
+const REQUIRED_FIELDS: Record<ImportEntity, string[]> = {
+  company: ['name'],
+  personas: [],
+  subreddits: ['name'],
+  seo_queries: ['query'],
+  posts: ['post_id', 'subreddit', 'title', 'author_username', 'timestamp'],
+  comments: ['comment_id', 'post_id', 'comment_text', 'username'],
+};
+
+const TIMESTAMP_FIELDS = ['timestamp'];
+
+function sameColumns(entity: ImportEntity, sheet: string): EntityMapping {
+  return { sheet, columns: Object.fromEntries(IMPORT_COLUMNS[entity].map(field => [field, field])) };
+}
+
+/**
+ * The SlideForge layout, which the calendar export also writes: a Company Info sheet of
+ * label/value rows followed by Username/Info and keyword_id/keyword tables, and a Content Calendar
+ * sheet with the posts table above the comments table.
+ */
+export const DEFAULT_MAPPING: ColumnMapping = {
+  company: {
+    sheet: 'Company Info',
+    layout: 'key_value',
+    columns: {
+      name: 'Name',
+      website_url: 'Website',
+      description: 'Description',
+      subreddits: 'Subreddits',
+      posts_per_week: 'Number of Posts Per Week',
+      timezone: 'Timezone',
+    },
+  },
+  personas: { sheet: 'Company Info', columns: { reddit_account: 'Username', info: 'Info' } },
+  seo_queries: { sheet: 'Company Info', columns: { query: 'keyword' } },
+  posts: sameColumns('posts', 'Content Calendar'),
+  comments: sameColumns('comments', 'Content Calendar'),
+};
+
+export const MAPPING_PRESETS: Record<string, ColumnMapping> = {
+  unified: DEFAULT_MAPPING,
+  // One sheet per entity with a header row of field names
+  company_sheets: {
+    company: sameColumns('company', 'Company Info'),
+    personas: sameColumns('personas', 'Personas'),
+    subreddits: sameColumns('subreddits', 'Subreddits'),
+  },
+  calendar_sheets: {
+    posts: sameColumns('posts', 'Posts'),
+    comments: sameColumns('comments', 'Comments'),
+  },
+};
+
+/**
+ * Checks a mapping sent by a client or loaded from a company; throws with what is wrong
+ */
+export function normalizeColumnMapping(raw: unknown): ColumnMapping {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Column mapping must be an object keyed by entity');
+  }
+  const mapping: ColumnMapping = {};
+  for (const [entity, value] of Object.entries(raw as Record<string, any>)) {
+    if (!(IMPORT_ENTITIES as readonly string[]).includes(entity)) {
+      throw new Error(`Unknown entity "${entity}" in column mapping - use ${IMPORT_ENTITIES.join(', ')}`);
+    }
+    if (!value) continue;
+    const key = entity as ImportEntity;
+    if (typeof value.sheet !== 'string' || !value.sheet.trim()) {
+      throw new Error(`${entity}: sheet is required`);
+    }
+    if (value.layout !== undefined && value.layout !== 'table' && !(value.layout === 'key_value' && key === 'company')) {
+      throw new Error(`${entity}: layout must be "table"${key === 'company' ? ' or "key_value"' : ''}`);
+    }
+    const columns: Record<string, string> = {};
+    for (const [field, header] of Object.entries((value.columns || {}) as Record<string, unknown>)) {
+      if (!MAPPABLE_FIELDS[key].includes(field)) {
+        throw new Error(`${entity}: unknown field "${field}" - use ${MAPPABLE_FIELDS[key].join(', ')}`);
+      }
+      if (typeof header === 'string' && header.trim()) columns[field] = header.trim();
+    }
+    if (Object.keys(columns).length === 0) {
+      throw new Error(`${entity}: map at least one column`);
+    }
+    mapping[key] = { sheet: value.sheet.trim(), columns, ...(value.layout ? { layout: value.layout } : {}) };
+  }
+  return mapping;
+}
+
+function findSheet(workbook: any, name: string): string | null {
+  const lower = name.trim().toLowerCase();
+  return workbook.SheetNames.find((sheet: string) => sheet.trim().toLowerCase() === lower)
+    || workbook.SheetNames.find((sheet: string) => sheet.toLowerCase().includes(lower))
+    || null;
+}
+
+function cellText(value: unknown): string {
+  return value === null || value === undefined ? '' : String(value).trim();
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * Timestamps as the import schema reads them ("yyyy-MM-dd HH:mm", wall clock). Excel stores
+ * dates as serial day numbers; US-style text dates are rewritten too. Anything else passes through.
+ */
+function normalizeTimestampCell(value: unknown): string {
+  const serial = typeof value === 'number' ? value : /^\d{5}\.\d+$/.test(cellText(value)) ? Number(value) : null;
+  if (serial !== null && serial > 60) {
+    let days = Math.floor(serial);
+    let minutes = Math.round((serial - days) * 1440);
+    if (minutes === 1440) {
+      days++;
+      minutes = 0;
+    }
+    const date = new Date(Date.UTC(1899, 11, 30) + days * 86400000).toISOString().split('T')[0];
+    return minutes === 0 ? date : `${date} ${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+  }
+
+  const text = cellText(value);
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:\s+(\d{1,2}):(\d{2}))?$/);
+  if (us) {
+    const [, month, day, year, hours, minutes] = us;
+    const date = `${year}-${pad(Number(month))}-${pad(Number(day))}`;
+    return hours === undefined ? date : `${date} ${pad(Number(hours))}:${minutes}`;
+  }
+  return text;
+}
+
+export function inferPostType(title: string, body: string): 'question' | 'story' | 'advice' {
+  const text = (title + ' ' + body).toLowerCase();
+  if (text.includes('?') || text.includes('how') || text.includes('what') || text.includes('which')) {
+    return 'question';
+  }
+  if (text.includes('experience') || text.includes('story') || text.includes('tried') || text.includes('used')) {
+    return 'story';
+  }
+  return 'advice';
+}
+
+/**
+ * Persona fields from a free-text Info cell. The calendar export writes "Name. Tone: x.
+ * Expertise: a, b."; anything else falls back to keyword guesses.
+ */
+function personaFromInfo(username: string, info: string): { name: string; tone: string; expertise: string[] } {
+  const infoLower = info.toLowerCase();
+  const toneMatch = info.match(/Tone:\s*([^.]+)\./i);
+  const expertiseMatch = info.match(/Expertise:\s*([^.]+)\.?/i);
+  const lead = toneMatch ? info.slice(0, toneMatch.index).trim().replace(/\.$/, '') : '';
+
+  let tone = toneMatch ? toneMatch[1].trim() : 'helpful';
+  if (!toneMatch) {
+    if (infoLower.includes('head') || infoLower.includes('senior') || infoLower.includes('experienced')) {
+      tone = 'experienced';
+    } else if (infoLower.includes('student') || infoLower.includes('learning')) {
+      tone = 'curious';
+    }
+  }
+
+  const expertise: string[] = expertiseMatch
+    ? expertiseMatch[1].split(',').map(s => s.trim()).filter(Boolean)
+    : [];
+  if (!expertiseMatch) {
+    if (infoLower.includes('operations') || infoLower.includes('ops')) expertise.push('operations');
+    if (infoLower.includes('consultant') || infoLower.includes('consulting')) expertise.push('consulting');
+    if (infoLower.includes('sales')) expertise.push('sales');
+    if (infoLower.includes('product') || infoLower.includes('pm')) expertise.push('product');
+    if (infoLower.includes('student') || infoLower.includes('economics')) expertise.push('student');
+  }
+
+  return {
+    // The export leaves the name out when it is the username
+    name: lead && lead.length <= 60 ? lead
+      : toneMatch ? username
+      : username.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase()),
+    tone,
+    expertise: expertise.length > 0 ? expertise : ['general'],
+  };
+}
+
+/**
+ * Reads a workbook into an ImportBundle through a column mapping. Issues cover sheets, tables
+ * and columns the mapping points at but the workbook doesn't have, plus every row
+ * normalizeImportBundle drops; rows are sheet rows.
+ */
+export function readWorkbook(fileBuffer: Buffer, mapping: ColumnMapping = DEFAULT_MAPPING): ParsedBundle {
+  const workbook = XLSX.read(fileBuffer, { type: 'buffer' });
+  const issues: ImportIssue[] = [];
+  const raw: Partial<Record<ImportEntity, Record<string, unknown>[]>> = {};
+  const rowNumbers: Partial<Record<ImportEntity, number[]>> = {};
+  const sheets: Partial<Record<ImportEntity, string>> = {};
+
+  const entities = IMPORT_ENTITIES.filter(entity => mapping[entity]);
+  const grids = new Map<string, { rows: unknown[][]; firstRow: number }>();
+  const gridFor = (sheetName: string) => {
+    if (!grids.has(sheetName)) {
+      const sheet = workbook.Sheets[sheetName];
+      const rows = sheet['!ref'] ? XLSX.utils.sheet_to_json(sheet, { header: 1, defval: '', raw: true }) as unknown[][] : [];
+      grids.set(sheetName, {
+        // Text our own export quoted against formula injection reads back as written
+        rows: rows.map(row => row.map(cell => (typeof cell === 'string' ? unescapeFormula(cell) : cell))),
+        firstRow: sheet['!ref'] ? XLSX.utils.decode_range(sheet['!ref']).s.r + 1 : 1,
+      });
+    }
+    return grids.get(sheetName)!;
+  };
+
+  // Header row of each table entity, so stacked tables know where the next one starts
+  const headerRows = new Map<ImportEntity, number>();
+  const isHeaderRow = (entity: ImportEntity, row: unknown[]) => {
+    const { columns } = mapping[entity]!;
+    const cells = row.map(cell => cellText(cell).toLowerCase());
+    const anchors = HEADER_FIELDS[entity].filter(field => columns[field]);
+    return anchors.length > 0 && anchors.every(field => cells.includes(columns[field].toLowerCase()));
+  };
+
+  for (const entity of entities) {
+    const entityMapping = mapping[entity]!;
+    const sheetName = findSheet(workbook, entityMapping.sheet);
+    if (!sheetName) continue; // Workbooks needn't hold every entity
+    sheets[entity] = sheetName;
+    if (entityMapping.layout === 'key_value') continue;
+
+    const { rows } = gridFor(sheetName);
+    const index = rows.findIndex(row => isHeaderRow(entity, row));
+    if (index === -1) {
+      const anchors = HEADER_FIELDS[entity].filter(field => entityMapping.columns[field]).map(field => entityMapping.columns[field]);
+      issues.push({
+        severity: 'warning', sheet: sheetName, row: null, column: null,
+        problem: anchors.length > 0
+          ? `No ${entity} table found - no row has the headers ${anchors.join(', ')}`
+          : `The ${entity} mapping has none of the columns that identify its header row (${HEADER_FIELDS[entity].join(' or ')})`,
+        suggestion: `Fix the headers, or map ${entity} to the sheet and headers this workbook uses`,
+      });
+      continue;
+    }
+    headerRows.set(entity, index);
+  }
+
+  for (const entity of entities) {
+    const entityMapping = mapping[entity]!;
+    const sheetName = sheets[entity];
+    if (!sheetName) continue;
+    const { rows, firstRow } = gridFor(sheetName);
+    // Header rows of the other tables on this sheet
+    const otherHeaders = entities
+      .filter(other => other !== entity && sheets[other] === sheetName && headerRows.has(other))
+      .map(other => headerRows.get(other)!);
+
+    if (entityMapping.layout === 'key_value') {
+      // Label/value rows above the first table on the sheet
+      const end = Math.min(rows.length, ...otherHeaders);
+      const company: Record<string, unknown> = {};
+      for (let i = 0; i < end; i++) {
+        const label = cellText(rows[i][0]).toLowerCase();
+        const field = Object.keys(entityMapping.columns).find(f => entityMapping.columns[f].toLowerCase() === label);
+        if (field && company[field] === undefined) company[field] = rows[i][1];
+      }
+      raw[entity] = [company];
+      rowNumbers[entity] = [firstRow];
+      continue;
+    }
+
+    const headerIndex = headerRows.get(entity);
+    if (headerIndex === undefined) continue;
+    const header = rows[headerIndex].map(cell => cellText(cell).toLowerCase());
+    const columnIndex: Record<string, number> = {};
+    const missing: string[] = [];
+    for (const [field, name] of Object.entries(entityMapping.columns)) {
+      const position = header.indexOf(name.toLowerCase());
+      if (position === -1) {
+        if (REQUIRED_FIELDS[entity].includes(field)) missing.push(`${name} (${field})`);
+      } else {
+        columnIndex[field] = position;
+      }
+    }
+    if (missing.length > 0) {
+      issues.push({
+        severity: 'error', sheet: sheetName, row: firstRow + headerIndex, column: null,
+        problem: `The ${entity} header row has no ${missing.join(', ')} column${missing.length === 1 ? '' : 's'}, so the table was skipped`,
+        suggestion: 'Add the column, or map the field to the header this workbook uses',
+      });
+      continue;
+    }
+
+    const end = Math.min(rows.length, ...otherHeaders.filter(other => other > headerIndex));
+    const entityRows: Record<string, unknown>[] = [];
+    const numbers: number[] = [];
+    for (let i = headerIndex + 1; i < end; i++) {
+      const record: Record<string, unknown> = {};
+      for (const [field, position] of Object.entries(columnIndex)) {
+        const value = rows[i][position];
+        record[field] = TIMESTAMP_FIELDS.includes(field) ? normalizeTimestampCell(value) : value;
+      }
+      if (Object.values(record).every(value => cellText(value) === '')) continue;
+      entityRows.push(record);
+      numbers.push(firstRow + i);
+    }
+    raw[entity] = entityRows;
+    rowNumbers[entity] = numbers;
+  }
+
+  // Derived rows: persona fields from Info, subreddits listed on the company
+  raw.personas = (raw.personas || []).map(persona => {
+    const username = cellText(persona.reddit_account);
+    const info = cellText(persona.info);
+    if (!username && !info) return persona;
+    if (cellText(persona.name) && cellText(persona.tone) && cellText(persona.expertise)) return persona;
+    const derived = personaFromInfo(username || cellText(persona.name), info);
+    return {
+      ...persona,
+      name: cellText(persona.name) || derived.name,
+      tone: cellText(persona.tone) || derived.tone,
+      expertise: cellText(persona.expertise) || derived.expertise,
+    };
+  });
+
+  const company = raw.company?.[0];
+  if (company && cellText(company.subreddits)) {
+    const postsPerWeek = parseInt(cellText(company.posts_per_week), 10) || 3;
+    const listed = new Set((raw.subreddits || []).map(s => cellText(s.name).toLowerCase().replace(/^r\//, '')));
+    const lines = cellText(company.subreddits).split(/\r?\n|,/).map(s => s.trim()).filter(Boolean);
+    for (const line of lines) {
+      if (!line.startsWith('r/') && line.includes(' ')) {
+        issues.push({
+          severity: 'warning', sheet: sheets.company!, row: null, column: mapping.company!.columns.subreddits,
+          problem: `"${line}" is not read as a subreddit`,
+          suggestion: 'Put one subreddit per line, written as r/name',
+        });
+        continue;
+      }
+      if (listed.has(line.toLowerCase().replace(/^r\//, ''))) continue;
+      listed.add(line.toLowerCase().replace(/^r\//, ''));
+      raw.subreddits = [...(raw.subreddits || []), { name: line, max_posts_per_week: postsPerWeek, min_cooldown_days: 7 }];
+      rowNumbers.subreddits = [...(rowNumbers.subreddits || []), rowNumbers.company?.[0] ?? 1];
+      sheets.subreddits = sheets.subreddits || sheets.company;
+    }
+  }
+
+  const parsed = normalizeImportBundle(raw, { sheets, rows: rowNumbers });
+  console.log(`Read workbook: ${parsed.bundle.personas.length} personas, ${parsed.bundle.subreddits.length} subreddits, ${parsed.bundle.posts.length} posts, ${parsed.bundle.comments.length} comments`);
+  return { ...parsed, issues: [...issues, ...parsed.issues] };
+}
+
+/**
+ * Sheet names and the short text cells on each, for picking headers when editing a mapping
+ */
+export function describeWorkbook(fileBuffer: Buffer): { sheets: Array<{ name: string; labels: string[] }> } {
+  const workbook = XLSX.read(fileBuffer, { type: 'buffer' });
+  return {
+    sheets: workbook.SheetNames.map((name: string) => {
+      const sheet = workbook.Sheets[name];
+      const rows = sheet['!ref'] ? XLSX.utils.sheet_to_json(sheet, { header: 1, defval: '' }) as unknown[][] : [];
+      const labels = new Set<string>();
+      rows.slice(0, 200).forEach(row => row.forEach(cell => {
+        const text = cellText(cell);
+        if (text && text.length <= 40 && !/^[\d.,:/\s-]+$/.test(text)) labels.add(text);
+      }));
+      return { name, labels: Array.from(labels).slice(0, 200) };
+    }),
+  };
+}
+
+/**
+ * A workbook laid out as the mapping reads it, from a bundle. Tables sharing a sheet are written
+ * one under another with a blank row between; the template route uses it with sample rows.
+ */
+export function writeWorkbook(bundle: ImportBundle, mapping: ColumnMapping = DEFAULT_MAPPING): Buffer {
+  const sheetRows = new Map<string, unknown[][]>();
+  const append = (sheet: string, rows: unknown[][]) => {
+    const existing = sheetRows.get(sheet) || [];
+    sheetRows.set(sheet, existing.length > 0 ? [...existing, [], ...rows] : rows);
+  };
+
+  for (const entity of IMPORT_ENTITIES) {
+    const entityMapping = mapping[entity];
+    if (!entityMapping) continue;
+    const fields = Object.keys(entityMapping.columns);
+    const records: Array<Record<string, unknown>> = entity === 'company'
+      ? (bundle.company
+        ? [{ ...bundle.company, subreddits: bundle.subreddits.map(s => s.name).join('\n') }]
+        : [])
+      : (bundle[entity] as unknown as Array<Record<string, unknown>>).map(record => entity === 'personas'
+        ? { ...record, info: `${record.name}. Tone: ${record.tone}. Expertise: ${(record.expertise as string[]).join(', ')}.` }
+        : record);
+    const value = (record: Record<string, unknown>, field: string) => {
+      const cell = record[field];
+      return Array.isArray(cell) ? cell.join(', ') : cell ?? '';
+    };
+
+    if (entityMapping.layout === 'key_value') {
+      append(entityMapping.sheet, fields.map(field => [entityMapping.columns[field], records[0] ? value(records[0], field) : '']));
+    } else {
+      append(entityMapping.sheet, [
+        fields.map(field => entityMapping.columns[field]),
+        ...records.map(record => fields.map(field => value(record, field))),
+      ]);
+    }
+  }
+
+  const workbook = XLSX.utils.book_new();
+  sheetRows.forEach((rows, sheet) => XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), sheet));
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+}
@@ -0,0 +1,313 @@
+/**
+ * Format-neutral import schema. The CSV and JSON adapters (bundle-import.ts) and the workbook
+ * engine (import-engine.ts) all read into an ImportBundle, and bundle-export.ts writes one back
+ * out. Post and comment rows use the same columns as the Content Calendar sheet.
+ */
+
+import { timeZoneOffsetMinutes, zonedTimeToUtc } from '@/lib/planning/schedule';
+import type { ImportIssue } from './import-validation';
+
+export const IMPORT_ENTITIES = ['company', 'personas', 'subreddits', 'seo_queries', 'posts', 'comments'] as const;
+export type ImportEntity = typeof IMPORT_ENTITIES[number];
+
+export interface ImportCompany {
+  name: string;
+  description?: string;
+  website_url?: string;
+  target_users: string[];
+  pain_points: string[];
+  tone_positioning?: string;
+  timezone?: string; // IANA name; timestamps without an offset are read in it
+}
+
+export interface ImportPersona {
+  name: string;
+  tone: string;
+  expertise: string[];
+  reddit_account?: string; // Posts and comments refer to personas by this username
+}
+
+export interface ImportSubreddit {
+  name: string;
+  rules?: string;
+  min_cooldown_days: number;
+  max_posts_per_week: number;
+  size_category: 'small' | 'medium' | 'large';
+  culture_tone?: string;
+  peak_hour_start?: number;
+  peak_hour_end?: number;
+}
+
+export interface ImportSEOQuery {
+  query: string;
+  priority: number;
+}
+
+export interface ImportPost {
+  post_id: string; // Row label (P1...), referenced by comments
+  subreddit: string;
+  title: string;
+  body: string;
+  author_username: string;
+  timestamp: string; // "yyyy-MM-dd HH:mm" in the company's timezone, or ISO 8601 with an offset
+  keyword_ids?: string;
+  calendar_post_id?: string;
+  row?: number; // Source row (sheet row for workbooks, data rows from 1 otherwise), for validation reports
+}
+
+export interface ImportComment {
+  comment_id: string; // Row label (C1...), referenced by parent_comment_id
+  post_id: string;
+  parent_comment_id?: string;
+  comment_text: string;
+  username: string;
+  timestamp: string;
+  calendar_reply_id?: string;
+  row?: number;
+}
+
+export interface ImportBundle {
+  company?: ImportCompany;
+  personas: ImportPersona[];
+  subreddits: ImportSubreddit[];
+  seo_queries: ImportSEOQuery[];
+  week_start_date?: string; // Calendar week (yyyy-MM-dd); inferred from the earliest post when omitted
+  posts: ImportPost[];
+  comments: ImportComment[];
+}
+
+export interface ParsedBundle {
+  bundle: ImportBundle;
+  issues: ImportIssue[]; // Rows that were dropped or could not be read
+  sheets?: Partial<Record<ImportEntity, string>>; // Workbook sheet each entity was read from
+}
+
+// CSV headers per entity, in export order. Columns other than these are ignored on import.
+export const IMPORT_COLUMNS: Record<ImportEntity, string[]> = {
+  company: ['name', 'description', 'website_url', 'target_users', 'pain_points', 'tone_positioning', 'timezone'],
+  personas: ['name', 'tone', 'expertise', 'reddit_account'],
+  subreddits: [
+    'name', 'rules', 'min_cooldown_days', 'max_posts_per_week', 'size_category',
+    'culture_tone', 'peak_hour_start', 'peak_hour_end',
+  ],
+  seo_queries: ['query', 'priority'],
+  posts: ['post_id', 'subreddit', 'title', 'body', 'author_username', 'timestamp', 'keyword_ids', 'calendar_post_id'],
+  comments: ['comment_id', 'post_id', 'parent_comment_id', 'comment_text', 'username', 'timestamp', 'calendar_reply_id'],
+};
+
+const SIZE_CATEGORIES = ['small', 'medium', 'large'];
+
+/**
+ * List fields: a JSON array, a JSON array in a string, or a comma-separated string
+ */
+function parseList(value: unknown): string[] {
+  if (value === null || value === undefined || value === '') return [];
+  if (Array.isArray(value)) return value.map(v => String(v).trim()).filter(Boolean);
+  const text = String(value).trim();
+  if (text.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(text);
+      if (Array.isArray(parsed)) return parsed.map(v => String(v).trim()).filter(Boolean);
+    } catch {
+      // Not JSON - fall through to comma-separated
+    }
+  }
+  return text.split(',').map(s => s.trim()).filter(Boolean);
+}
+
+function text(value: unknown): string {
+  return value === null || value === undefined ? '' : String(value).trim();
+}
+
+function optionalText(value: unknown): string | undefined {
+  return text(value) || undefined;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : NaN;
+}
+
+function rows(value: unknown): Record<string, unknown>[] {
+  if (!value) return [];
+  return (Array.isArray(value) ? value : [value]).filter(
+    (row): row is Record<string, unknown> => !!row && typeof row === 'object'
+  );
+}
+
+/**
+ * Reads an import timestamp: "yyyy-MM-dd" or "yyyy-MM-dd HH:mm[:ss]" in the company's timezone,
+ * otherwise anything Date understands (ISO 8601 with an offset). minutes is the local time of
+ * day, null for a bare date; at is the instant, null for a bare date.
+ */
+export function readImportTimestamp(
+  value: string,
+  timeZone: string
+): { date: string; minutes: number | null; at: Date | null } | null {
+  const wallClock = value.trim().match(/^(\d{4}-\d{2}-\d{2})(?:[ T](\d{2}):(\d{2})(?::\d{2})?)?$/);
+  if (wallClock) {
+    const [, date, hours, minutes] = wallClock;
+    if (hours === undefined) return { date, minutes: null, at: null };
+    const minutesOfDay = Number(hours) * 60 + Number(minutes);
+    return { date, minutes: minutesOfDay, at: zonedTimeToUtc(date, minutesOfDay, timeZone) };
+  }
+
+  const at = new Date(value);
+  if (isNaN(at.getTime())) return null;
+  const local = new Date(at.getTime() + timeZoneOffsetMinutes(at, timeZone) * 60000);
+  return {
+    date: local.toISOString().split('T')[0],
+    minutes: local.getUTCHours() * 60 + local.getUTCMinutes(),
+    at,
+  };
+}
+
+/**
+ * Coerces raw rows (strings from CSV, loosely typed JSON, workbook cells) into an ImportBundle.
+ * Rows missing a required field are dropped and reported as issues. Issues name the entity and
+ * count data rows from 1 unless the workbook engine passes the sheets and sheet rows it read from.
+ */
+export function normalizeImportBundle(
+  raw: Partial<Record<ImportEntity | 'week_start_date', unknown>>,
+  source: { sheets?: Partial<Record<ImportEntity, string>>; rows?: Partial<Record<ImportEntity, number[]>> } = {}
+): ParsedBundle {
+  const issues: ImportIssue[] = [];
+  const bundle: ImportBundle = { personas: [], subreddits: [], seo_queries: [], posts: [], comments: [] };
+  const sheetOf = (entity: ImportEntity) => source.sheets?.[entity] || entity;
+  const rowOf = (entity: ImportEntity, index: number) => source.rows?.[entity]?.[index] ?? index + 1;
+  const drop = (entity: ImportEntity, index: number, column: string, problem: string, suggestion: string) =>
+    issues.push({ severity: 'error', sheet: sheetOf(entity), row: rowOf(entity, index), column, problem, suggestion });
+  const missing = (entity: ImportEntity, index: number, columns: string[]) =>
+    drop(entity, index, columns.join(', '), `${columns.join(', ')} ${columns.length === 1 ? 'is' : 'are'} missing`, `Fill in ${columns.length === 1 ? 'the value' : 'each of them'} - the row was not imported`);
+
+  const [company] = rows(raw.company);
+  if (company) {
+    if (!text(company.name)) {
+      missing('company', 0, ['name']);
+    } else {
+      bundle.company = {
+        name: text(company.name),
+        description: optionalText(company.description),
+        website_url: optionalText(company.website_url),
+        target_users: parseList(company.target_users),
+        pain_points: parseList(company.pain_points),
+        tone_positioning: optionalText(company.tone_positioning),
+        timezone: optionalText(company.timezone),
+      };
+    }
+  }
+
+  rows(raw.personas).forEach((row, i) => {
+    if (!text(row.name)) {
+      missing('personas', i, ['name']);
+      return;
+    }
+    bundle.personas.push({
+      name: text(row.name),
+      tone: text(row.tone) || 'helpful',
+      expertise: parseList(row.expertise),
+      reddit_account: optionalText(row.reddit_account),
+    });
+  });
+
+  rows(raw.subreddits).forEach((row, i) => {
+    if (!text(row.name)) {
+      missing('subreddits', i, ['name']);
+      return;
+    }
+    const sizeCategory = text(row.size_category).toLowerCase() || 'medium';
+    if (!SIZE_CATEGORIES.includes(sizeCategory)) {
+      drop('subreddits', i, 'size_category', `size_category "${text(row.size_category)}" is not small, medium or large`, 'Use small, medium or large, or leave it empty for medium');
+      return;
+    }
+    const numbers = {
+      min_cooldown_days: optionalNumber(row.min_cooldown_days) ?? 7,
+      max_posts_per_week: optionalNumber(row.max_posts_per_week) ?? 2,
+      peak_hour_start: optionalNumber(row.peak_hour_start),
+      peak_hour_end: optionalNumber(row.peak_hour_end),
+    };
+    const invalid = Object.entries(numbers).filter(([, value]) => Number.isNaN(value)).map(([key]) => key);
+    if (invalid.length > 0) {
+      drop('subreddits', i, invalid.join(', '), `${invalid.join(', ')} must be ${invalid.length === 1 ? 'a number' : 'numbers'}`, 'Use whole numbers, or leave them empty for the defaults');
+      return;
+    }
+    const name = text(row.name);
+    bundle.subreddits.push({
+      name: name.startsWith('r/') ? name : `r/${name}`,
+      rules: optionalText(row.rules),
+      min_cooldown_days: numbers.min_cooldown_days,
+      max_posts_per_week: numbers.max_posts_per_week,
+      size_category: sizeCategory as ImportSubreddit['size_category'],
+      culture_tone: optionalText(row.culture_tone),
+      peak_hour_start: numbers.peak_hour_start,
+      peak_hour_end: numbers.peak_hour_end,
+    });
+  });
+
+  const queries = rows(raw.seo_queries);
+  queries.forEach((row, i) => {
+    if (!text(row.query)) {
+      missing('seo_queries', i, ['query']);
+      return;
+    }
+    const priority = optionalNumber(row.priority);
+    bundle.seo_queries.push({
+      query: text(row.query),
+      // Earlier rows rank higher when no priority is given, as in the workbook import
+      priority: priority === undefined || Number.isNaN(priority) ? queries.length - i : priority,
+    });
+  });
+
+  const weekStart = text(raw.week_start_date);
+  if (weekStart) {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(weekStart)) {
+      bundle.week_start_date = weekStart;
+    } else {
+      issues.push({
+        severity: 'error', sheet: 'bundle', row: null, column: 'week_start_date',
+        problem: `week_start_date "${weekStart}" is not a date`,
+        suggestion: 'Use yyyy-MM-dd, or leave it out to use the week of the earliest post',
+      });
+    }
+  }
+
+  rows(raw.posts).forEach((row, i) => {
+    const empty = ['post_id', 'subreddit', 'title', 'author_username', 'timestamp'].filter(key => !text(row[key]));
+    if (empty.length > 0) {
+      missing('posts', i, empty);
+      return;
+    }
+    bundle.posts.push({
+      post_id: text(row.post_id),
+      subreddit: text(row.subreddit),
+      title: text(row.title),
+      body: text(row.body),
+      author_username: text(row.author_username),
+      timestamp: text(row.timestamp),
+      keyword_ids: optionalText(row.keyword_ids),
+      calendar_post_id: optionalText(row.calendar_post_id),
+      row: rowOf('posts', i),
+    });
+  });
+
+  rows(raw.comments).forEach((row, i) => {
+    const empty = ['comment_id', 'post_id', 'comment_text', 'username'].filter(key => !text(row[key]));
+    if (empty.length > 0) {
+      missing('comments', i, empty);
+      return;
+    }
+    bundle.comments.push({
+      comment_id: text(row.comment_id),
+      post_id: text(row.post_id),
+      parent_comment_id: optionalText(row.parent_comment_id),
+      comment_text: text(row.comment_text),
+      username: text(row.username),
+      timestamp: text(row.timestamp),
+      calendar_reply_id: optionalText(row.calendar_reply_id),
+      row: rowOf('comments', i),
+    });
+  });
+
+  return { bundle, issues, sheets: source.sheets };
+}
@@ -0,0 +1,209 @@
+/**
+ * Row-level import validation. The workbook and bundle importers report what they could not read
+ * as ImportIssues, so an import can be checked (validate-only) before anything is written.
+ */
+
+export interface ImportIssue {
+  severity: 'error' | 'warning'; // Errors are rows that won't import as written; warnings are rows that are ignored
+  sheet: string; // Workbook sheet, or entity (personas, posts, ...) for JSON and CSV
+  row: number | null; // Sheet row; for JSON and CSV, data rows counted from 1
+  column: string | null;
+  problem: string;
+  suggestion: string;
+}
+
+export interface ImportValidationReport {
+  valid: boolean; // No errors (warnings allowed)
+  issues: ImportIssue[];
+  counts: {
+    personas: number;
+    subreddits: number;
+    seo_queries: number;
+    posts: number;
+    comments: number;
+  };
+}
+
+interface RowsToCheck {
+  postsSheet: string;
+  commentsSheet: string;
+  usernames: string[]; // Persona usernames the rows may refer to
+  subreddits: string[]; // With or without the r/ prefix
+  posts: Array<{ row?: number; post_id: string; subreddit: string; author_username: string }>;
+  comments: Array<{ row?: number; comment_id: string; post_id: string; parent_comment_id?: string; username: string }>;
+}
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+/**
+ * The candidate a misspelt value most likely meant, if any is close enough
+ */
+export function suggestClosest(value: string, candidates: string[]): string | null {
+  const target = value.toLowerCase();
+  let best: { candidate: string; distance: number } | null = null;
+  for (const candidate of candidates) {
+    const distance = editDistance(target, candidate.toLowerCase());
+    if (!best || distance < best.distance) best = { candidate, distance };
+  }
+  return best && best.distance <= Math.max(2, Math.floor(target.length / 3)) ? best.candidate : null;
+}
+
+function listSome(values: string[]): string {
+  return values.length > 5 ? `${values.slice(0, 5).join(', ')}, ...` : values.join(', ');
+}
+
+function subredditKey(name: string): string {
+  return name.trim().toLowerCase().replace(/^r\//, '');
+}
+
+/**
+ * Cross-row checks shared by the importers: every post and comment names a known persona, posts
+ * name a known subreddit, and comment post_id / parent_comment_id point at rows that exist.
+ */
+export function checkCalendarReferences(rows: RowsToCheck): ImportIssue[] {
+  const issues: ImportIssue[] = [];
+  const usernames = new Set(rows.usernames.map(u => u.toLowerCase()));
+  const subreddits = new Set(rows.subreddits.map(subredditKey));
+
+  const checkUsername = (sheet: string, row: number | null, column: string, username: string) => {
+    if (!username.trim()) {
+      issues.push({
+        severity: 'error', sheet, row, column,
+        problem: `${column} is missing`,
+        suggestion: rows.usernames.length > 0
+          ? `Use one of the persona usernames: ${listSome(rows.usernames)}`
+          : 'Add a persona and use its username',
+      });
+    } else if (!usernames.has(username.trim().toLowerCase())) {
+      const closest = suggestClosest(username.trim(), rows.usernames);
+      issues.push({
+        severity: 'error', sheet, row, column,
+        problem: `Unknown persona username "${username}"`,
+        suggestion: closest ? `Did you mean "${closest}"?` : `Add a persona with this username, or use one of: ${listSome(rows.usernames) || 'none defined'}`,
+      });
+    }
+  };
+
+  const postRows = new Map<string, { row: number | null }>();
+  for (const post of rows.posts) {
+    const row = post.row ?? null;
+    const label = post.post_id.trim().toUpperCase();
+    const duplicate = postRows.get(label);
+    if (duplicate) {
+      issues.push({
+        severity: 'error', sheet: rows.postsSheet, row, column: 'post_id',
+        problem: `Duplicate post_id ${post.post_id}${duplicate.row ? ` (also row ${duplicate.row})` : ''}`,
+        suggestion: 'Give each post its own post_id',
+      });
+    } else {
+      postRows.set(label, { row });
+    }
+
+    checkUsername(rows.postsSheet, row, 'author_username', post.author_username);
+
+    if (!post.subreddit.trim()) {
+      issues.push({
+        severity: 'error', sheet: rows.postsSheet, row, column: 'subreddit',
+        problem: 'subreddit is missing',
+        suggestion: `Use one of the company's subreddits: ${listSome(rows.subreddits) || 'none defined'}`,
+      });
+    } else if (!subreddits.has(subredditKey(post.subreddit))) {
+      const closest = suggestClosest(post.subreddit.trim(), rows.subreddits);
+      issues.push({
+        severity: 'error', sheet: rows.postsSheet, row, column: 'subreddit',
+        problem: `Unknown subreddit "${post.subreddit}"`,
+        suggestion: closest ? `Did you mean "${closest}"?` : "Add it to the company's subreddits",
+      });
+    }
+  }
+
+  const commentPosts = new Map<string, string>(); // comment_id -> post_id
+  rows.comments.forEach(c => {
+    const label = c.comment_id.trim().toUpperCase();
+    if (!commentPosts.has(label)) commentPosts.set(label, c.post_id.trim().toUpperCase());
+  });
+  const commentRows = new Map<string, number | null>();
+  const postLabels = Array.from(postRows.keys());
+
+  for (const comment of rows.comments) {
+    const row = comment.row ?? null;
+    const label = comment.comment_id.trim().toUpperCase();
+    const postLabel = comment.post_id.trim().toUpperCase();
+    if (commentRows.has(label)) {
+      const other = commentRows.get(label);
+      issues.push({
+        severity: 'error', sheet: rows.commentsSheet, row, column: 'comment_id',
+        problem: `Duplicate comment_id ${comment.comment_id}${other ? ` (also row ${other})` : ''}`,
+        suggestion: 'Give each comment its own comment_id',
+      });
+    } else {
+      commentRows.set(label, row);
+    }
+
+    if (!postRows.has(postLabel)) {
+      const closest = postLabel ? suggestClosest(postLabel, postLabels) : null;
+      issues.push({
+        severity: 'error', sheet: rows.commentsSheet, row, column: 'post_id',
+        problem: postLabel ? `post_id ${comment.post_id} does not match any post` : 'post_id is missing',
+        suggestion: closest ? `Did you mean ${closest}?` : 'Use the post_id of one of the posts',
+      });
+    }
+
+    const parent = (comment.parent_comment_id || '').trim().toUpperCase();
+    if (parent) {
+      const parentPost = commentPosts.get(parent);
+      if (parent === label) {
+        issues.push({
+          severity: 'error', sheet: rows.commentsSheet, row, column: 'parent_comment_id',
+          problem: 'A comment cannot reply to itself',
+          suggestion: 'Leave parent_comment_id empty to reply to the post',
+        });
+      } else if (parentPost === undefined) {
+        issues.push({
+          severity: 'error', sheet: rows.commentsSheet, row, column: 'parent_comment_id',
+          problem: `parent_comment_id ${comment.parent_comment_id} does not match any comment`,
+          suggestion: `Use the comment_id of another comment on ${comment.post_id || 'the same post'}, or leave it empty to reply to the post`,
+        });
+      } else if (parentPost !== postLabel) {
+        issues.push({
+          severity: 'error', sheet: rows.commentsSheet, row, column: 'parent_comment_id',
+          problem: `Parent comment ${comment.parent_comment_id} is on post ${parentPost}, not ${comment.post_id}`,
+          suggestion: `Set post_id to ${parentPost}, or reply to a comment on ${comment.post_id}`,
+        });
+      }
+    }
+
+    checkUsername(rows.commentsSheet, row, 'username', comment.username);
+  }
+
+  return issues;
+}
+
+export function buildValidationReport(issues: ImportIssue[], counts: ImportValidationReport['counts']): ImportValidationReport {
+  // Sheets in the order they were reported, rows in sheet order within each
+  const sheets = Array.from(new Set(issues.map(i => i.sheet)));
+  const sorted = [...issues].sort((a, b) =>
+    sheets.indexOf(a.sheet) - sheets.indexOf(b.sheet) || (a.row ?? 0) - (b.row ?? 0)
+  );
+  return { valid: !sorted.some(i => i.severity === 'error'), issues: sorted, counts };
+}
+
+/**
+ * One-line form for warnings lists: "Content Calendar row 7, timestamp: ... - ..."
+ */
+export function formatImportIssue(issue: ImportIssue): string {
+  const where = `${issue.sheet}${issue.row !== null ? ` row ${issue.row}` : ''}${issue.column ? `, ${issue.column}` : ''}`;
+  return `${where}: ${issue.problem}${issue.suggestion ? ` - ${issue.suggestion}` : ''}`;
+}
@@ -0,0 +1,147 @@
+import * as XLSX from 'xlsx';
+import type { CalendarPost, CalendarReply, Company, ContentCalendar, Persona, SEOQuery, Subreddit } from '@/types';
+import { DEFAULT_TIMEZONE, isValidTimeZone, timeZoneOffsetMinutes } from '@/lib/planning/schedule';
+import { escapeFormula } from './csv';
+
+interface UnifiedExportData {
+  calendar: ContentCalendar;
+  company: Company;
+  personas: Persona[];
+  subreddits: Subreddit[];
+  seoQueries: SEOQuery[]; // Highest priority first, as listSEOQueries returns them
+  posts: CalendarPost[];
+  replies: CalendarReply[];
+}
+
+// Trailing columns that tie edited rows back to the stored posts and replies; a fresh import ignores them
+export const POST_ROW_ID_HEADER = 'calendar_post_id';
+export const REPLY_ROW_ID_HEADER = 'calendar_reply_id';
+
+/**
+ * Username a persona is written under. The importer matches personas on reddit_account, so
+ * names fall back to snake_case, with an underscore like the SlideForge usernames.
+ */
+export function personaUsername(persona: Pick<Persona, 'name' | 'reddit_account'>): string {
+  if (persona.reddit_account) return persona.reddit_account;
+  const username = persona.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+  return username.includes('_') ? username : `${username}_persona`;
+}
+
+/**
+ * yyyy-MM-dd HH:mm in the company's timezone - the layout the import engine reads back.
+ * Unscheduled items are written as the bare date.
+ */
+export function formatLocalTimestamp(scheduledAt: string | null | undefined, fallbackDate: string, timeZone: string): string {
+  if (!scheduledAt) return fallbackDate;
+  const date = new Date(scheduledAt);
+  const local = new Date(date.getTime() + timeZoneOffsetMinutes(date, timeZone) * 60000);
+  return local.toISOString().slice(0, 16).replace('T', ' ');
+}
+
+function addDaysToDate(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
+
+/**
+ * Orders posts by day and replies by post then time, and gives them the P1.../C1... labels
+ * the workbook uses. Re-import relies on the same labels to match rows without ids.
+ */
+export function labelCalendarRows(allPosts: CalendarPost[], allReplies: CalendarReply[]) {
+  const posts = [...allPosts].sort((a, b) => a.day_of_week - b.day_of_week || a.order_in_day - b.order_in_day);
+  const postLabels = new Map(posts.map((post, index) => [post.id, `P${index + 1}`]));
+  const postIndex = new Map(posts.map((post, index) => [post.id, index]));
+  const replies = allReplies
+    .filter(reply => postLabels.has(reply.post_id))
+    .sort((a, b) =>
+      postIndex.get(a.post_id)! - postIndex.get(b.post_id)! ||
+      (a.scheduled_at || '').localeCompare(b.scheduled_at || '') ||
+      a.order_after_post - b.order_after_post
+    );
+  const replyLabels = new Map(replies.map((reply, index) => [reply.id, `C${index + 1}`]));
+  return { posts, replies, postLabels, replyLabels };
+}
+
+/**
+ * Writes a calendar in the SlideForge workbook layout (DEFAULT_MAPPING in import-engine.ts): a
+ * Company Info sheet (company fields, personas, keywords) and a Content Calendar sheet (posts,
+ * then comments).
+ * Post and comment ids are P1.../C1... labels; parent_comment_id points at those labels.
+ */
+export function createUnifiedExcel(data: UnifiedExportData): Buffer {
+  const { calendar, company, personas, subreddits, seoQueries } = data;
+  const timeZone = company.timezone && isValidTimeZone(company.timezone) ? company.timezone : DEFAULT_TIMEZONE;
+
+  const personasById = new Map(personas.map(p => [p.id, p]));
+  const username = (personaId: string) => {
+    const persona = personasById.get(personaId);
+    return persona ? personaUsername(persona) : '';
+  };
+  const subredditName = (subredditId: string) => subreddits.find(s => s.id === subredditId)?.name || '';
+
+  // Company Info: key/value rows, then the Username/Info and keyword_id/keyword sections
+  const keywordIds = seoQueries.map((query, index) => ({ id: `K${index + 1}`, keyword: query.query }));
+  const companyRows: string[][] = [
+    ['Name', company.name],
+    ['Website', company.website_url || ''],
+    ['Description', company.description || ''],
+    ['Subreddits', subreddits.map(s => s.name).join('\n')],
+    ['Number of Posts Per Week', String(calendar.posts_per_week)],
+    ['Timezone', timeZone],
+    [],
+    ['Username', 'Info'],
+    ...personas.map(persona => [
+      personaUsername(persona),
+      [
+        persona.name !== personaUsername(persona) ? `${persona.name}.` : '',
+        `Tone: ${persona.tone || 'conversational'}.`,
+        `Expertise: ${persona.expertise.join(', ') || 'general'}.`,
+      ].filter(Boolean).join(' '),
+    ]),
+    [],
+    ['keyword_id', 'keyword'],
+    ...keywordIds.map(k => [k.id, k.keyword]),
+  ];
+
+  // Content Calendar: posts in day order, then every comment grouped under its post
+  const { posts, replies, postLabels, replyLabels } = labelCalendarRows(data.posts, data.replies);
+
+  const postDate = (post: CalendarPost) => addDaysToDate(calendar.week_start_date, post.day_of_week);
+  const postsById = new Map(posts.map(p => [p.id, p]));
+
+  const calendarRows: string[][] = [
+    ['post_id', 'subreddit', 'title', 'body', 'author_username', 'timestamp', 'keyword_ids', POST_ROW_ID_HEADER],
+    ...posts.map(post => {
+      const text = `${post.topic} ${post.planned_title || ''} ${post.planned_body || ''}`.toLowerCase();
+      return [
+        postLabels.get(post.id)!,
+        subredditName(post.subreddit_id),
+        post.planned_title || post.topic,
+        post.planned_body || '',
+        username(post.persona_id),
+        formatLocalTimestamp(post.scheduled_at, postDate(post), timeZone),
+        keywordIds.filter(k => k.keyword && text.includes(k.keyword.toLowerCase())).map(k => k.id).join(', '),
+        post.id,
+      ];
+    }),
+    [],
+    ['comment_id', 'post_id', 'parent_comment_id', 'comment_text', 'username', 'timestamp', REPLY_ROW_ID_HEADER],
+    ...replies.map(reply => [
+      replyLabels.get(reply.id)!,
+      postLabels.get(reply.post_id)!,
+      (reply.parent_reply_id && replyLabels.get(reply.parent_reply_id)) || '',
+      reply.planned_content || '',
+      username(reply.persona_id),
+      formatLocalTimestamp(reply.scheduled_at, postDate(postsById.get(reply.post_id)!), timeZone),
+      reply.id,
+    ]),
+  ];
+
+  // Titles, bodies and comments are user text; none of it may run as a formula
+  const toSheet = (rows: string[][]) => XLSX.utils.aoa_to_sheet(rows.map(row => row.map(escapeFormula)));
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, toSheet(companyRows), 'Company Info');
+  XLSX.utils.book_append_sheet(workbook, toSheet(calendarRows), 'Content Calendar');
+
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+}
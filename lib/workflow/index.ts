@@ -0,0 +1,247 @@
+/**
+ * Calendar Approval Workflow
+ * State machine for calendar status, approval guards, edit locking and the audit trail
+ *
+ *   draft ──submit──▶ in_review ──approve──▶ approved ──publish──▶ published
+ *     ▲                  │                      │                      │
+ *     └──────reject──────┘                      └───────reopen─────────┘
+ */
+
+import type {
+  CalendarStatus,
+  CalendarWorkflowAction,
+  CalendarAuditEntry,
+  ContentCalendar,
+  CalendarPost,
+  CalendarReply,
+} from '@/types';
+import { checkSpamAndSafety, type SpamWarning } from '@/lib/planning/anti-spam';
+import { createTopicSimilarityScorer } from '@/lib/planning/similarity';
+import { applyWordingPatternDeltas, buildWordingPatternDeltas, collectPhraseUses } from '@/lib/planning/wording';
+import {
+  createSupabaseRepository,
+  type PlanningRepository,
+  type CalendarPostUpdate,
+  type CalendarReplyUpdate,
+  type CalendarUpdate,
+} from '@/lib/repository';
+
+const TRANSITIONS: Record<CalendarWorkflowAction, { from: CalendarStatus[]; to: CalendarStatus }> = {
+  submit: { from: ['draft'], to: 'in_review' },
+  approve: { from: ['in_review'], to: 'approved' },
+  reject: { from: ['in_review'], to: 'draft' },
+  publish: { from: ['approved'], to: 'published' },
+  reopen: { from: ['approved', 'published'], to: 'draft' },
+};
+
+// Posts and replies can't be edited or regenerated in these states (reopen first)
+export const LOCKED_STATUSES: CalendarStatus[] = ['approved', 'published'];
+
+export type WorkflowResult<T> =
+  | ({ ok: true } & T)
+  | { ok: false; status: number; error: string; warnings?: SpamWarning[] };
+
+export interface TransitionRequest {
+  action: CalendarWorkflowAction;
+  actor?: string;
+  comment?: string;
+}
+
+export function isWorkflowAction(value: unknown): value is CalendarWorkflowAction {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(TRANSITIONS, value);
+}
+
+export function isCalendarLocked(status: CalendarStatus): boolean {
+  return LOCKED_STATUSES.includes(status);
+}
+
+/**
+ * Returns the status an action leads to, or null if it isn't allowed from the current status
+ */
+export function getNextStatus(status: CalendarStatus, action: CalendarWorkflowAction): CalendarStatus | null {
+  const transition = TRANSITIONS[action];
+  return transition.from.includes(status) ? transition.to : null;
+}
+
+/**
+ * Actions the UI should offer for a calendar in the given status
+ */
+export function getAvailableActions(status: CalendarStatus): CalendarWorkflowAction[] {
+  return (Object.keys(TRANSITIONS) as CalendarWorkflowAction[]).filter(
+    action => getNextStatus(status, action) !== null
+  );
+}
+
+/**
+ * Approval guard: re-runs the spam and safety check against the calendar as it stands now
+ * (posts may have been edited since generation). High-severity warnings block approval.
+ */
+export async function checkApprovalGuard(
+  calendar: ContentCalendar,
+  repository: PlanningRepository
+): Promise<{ passed: boolean; warnings: SpamWarning[]; blocking: SpamWarning[] }> {
+  const posts = await repository.listPosts([calendar.id]);
+  const replies = await repository.listReplies(posts.map(p => p.id));
+  const subreddits = await repository.listSubreddits(calendar.company_id);
+  const personas = await repository.listPersonas(calendar.company_id);
+  const previousCalendars = await repository.listCalendars(calendar.company_id, {
+    weekStartBefore: calendar.week_start_date,
+    limit: 4, // Same window the planner uses
+  });
+  const previousWeeksPosts = await repository.listPosts(previousCalendars.map(c => c.id));
+
+  const company = await repository.getCompany(calendar.company_id);
+
+  // No LLM call on approval: TF-IDF plus the pairs flagged (possibly by embeddings) at generation
+  const similarity = createTopicSimilarityScorer({
+    company,
+    known: await repository.listTopicSimilarities(calendar.company_id),
+  });
+
+  // Phrase history already includes this calendar's own content; take it out again
+  const wordingHistory = applyWordingPatternDeltas(
+    await repository.listWordingPatterns(calendar.company_id),
+    buildWordingPatternDeltas(calendar.company_id, [], collectPhraseUses(posts, replies))
+  );
+
+  const spamCheck = checkSpamAndSafety(posts, replies, subreddits, personas, previousWeeksPosts, {
+    similarity,
+    wordingHistory,
+    company,
+  });
+  const blocking = spamCheck.warnings.filter(w => w.severity === 'high');
+
+  return { passed: blocking.length === 0, warnings: spamCheck.warnings, blocking };
+}
+
+/**
+ * Moves a calendar through the workflow and records the change in the audit log, in one step
+ */
+export async function transitionCalendar(
+  calendarId: string,
+  request: TransitionRequest,
+  repository: PlanningRepository = createSupabaseRepository()
+): Promise<WorkflowResult<{ calendar: ContentCalendar; entry: CalendarAuditEntry }>> {
+  const { action, actor, comment } = request;
+
+  const calendar = await repository.getCalendar(calendarId);
+  if (!calendar) {
+    return { ok: false, status: 404, error: 'Calendar not found' };
+  }
+
+  const nextStatus = getNextStatus(calendar.status, action);
+  if (!nextStatus) {
+    return {
+      ok: false,
+      status: 409,
+      error: `Cannot ${action} a calendar that is ${calendar.status}`,
+    };
+  }
+
+  if (action === 'reject' && !comment?.trim()) {
+    return { ok: false, status: 400, error: 'A comment is required when rejecting a calendar' };
+  }
+
+  const updates: CalendarUpdate = { status: nextStatus };
+  let details: Record<string, unknown> | null = null;
+
+  if (action === 'approve') {
+    const guard = await checkApprovalGuard(calendar, repository);
+    if (!guard.passed) {
+      return {
+        ok: false,
+        status: 422,
+        error: `Cannot approve: ${guard.blocking.length} high-severity spam warning(s)`,
+        warnings: guard.blocking,
+      };
+    }
+    // Store the warnings the approval was granted with
+    updates.spam_warnings = guard.warnings;
+    details = { warnings: guard.warnings.length };
+  }
+
+  // Only applies if nobody changed the status since it was read above
+  const entry = await repository.applyTransition(calendar.id, updates, {
+    calendar_id: calendar.id,
+    actor: actor?.trim() || 'unknown',
+    action,
+    from_status: calendar.status,
+    to_status: nextStatus,
+    comment: comment?.trim() || null,
+    details,
+  });
+  if (!entry) {
+    return { ok: false, status: 409, error: `Calendar is no longer ${calendar.status}; reload and try again` };
+  }
+
+  return { ok: true, calendar: { ...calendar, ...updates }, entry };
+}
+
+/**
+ * Edits a post unless its calendar is locked, and logs which fields changed
+ */
+export async function editPost(
+  postId: string,
+  updates: CalendarPostUpdate,
+  actor?: string,
+  repository: PlanningRepository = createSupabaseRepository()
+): Promise<WorkflowResult<{ post: CalendarPost }>> {
+  const existing = await repository.getPost(postId);
+  if (!existing) {
+    return { ok: false, status: 404, error: 'Post not found' };
+  }
+
+  // Only applies while the calendar is unlocked, checked in the same write
+  const post = await repository.editUnlockedPost(postId, updates, {
+    calendar_id: existing.calendar_id,
+    actor: actor?.trim() || 'unknown',
+    action: 'edit_post',
+    from_status: null,
+    to_status: null,
+    comment: null,
+    details: { post_id: postId, fields: Object.keys(updates) },
+  });
+  if (!post) {
+    const calendar = await repository.getCalendar(existing.calendar_id);
+    return { ok: false, status: 423, error: `Calendar is ${calendar?.status || 'locked'}; reopen it to edit posts` };
+  }
+
+  return { ok: true, post };
+}
+
+/**
+ * Edits a reply unless its calendar is locked, and logs which fields changed
+ */
+export async function editReply(
+  replyId: string,
+  updates: CalendarReplyUpdate,
+  actor?: string,
+  repository: PlanningRepository = createSupabaseRepository()
+): Promise<WorkflowResult<{ reply: CalendarReply }>> {
+  const existing = await repository.getReply(replyId);
+  if (!existing) {
+    return { ok: false, status: 404, error: 'Reply not found' };
+  }
+
+  const parentPost = await repository.getPost(existing.post_id);
+  if (!parentPost) {
+    return { ok: false, status: 404, error: 'Post not found' };
+  }
+
+  // Only applies while the calendar is unlocked, checked in the same write
+  const reply = await repository.editUnlockedReply(replyId, updates, {
+    calendar_id: parentPost.calendar_id,
+    actor: actor?.trim() || 'unknown',
+    action: 'edit_reply',
+    from_status: null,
+    to_status: null,
+    comment: null,
+    details: { reply_id: replyId, post_id: existing.post_id, fields: Object.keys(updates) },
+  });
+  if (!reply) {
+    const calendar = await repository.getCalendar(parentPost.calendar_id);
+    return { ok: false, status: 423, error: `Calendar is ${calendar?.status || 'locked'}; reopen it to edit replies` };
+  }
+
+  return { ok: true, reply };
+}
@@ -0,0 +1,7 @@
+-- Migration: Per-company LLM provider selection
+-- Run this in your Supabase SQL Editor
+-- When these are NULL the LLM_PROVIDER / LLM_MODEL environment variables are used
+
+ALTER TABLE companies
+ADD COLUMN IF NOT EXISTS llm_provider TEXT CHECK (llm_provider IN ('openai', 'anthropic', 'azure', 'local', 'stub')),
+ADD COLUMN IF NOT EXISTS llm_model TEXT;
@@ -0,0 +1,6 @@
+-- Migration: Store the planning seed on each calendar
+-- Run this in your Supabase SQL Editor
+-- Passing the same seed back to /api/generate replays the same plan
+
+ALTER TABLE content_calendars
+ADD COLUMN IF NOT EXISTS seed INTEGER;
@@ -0,0 +1,27 @@
+-- Migration: Calendar approval workflow and audit trail
+-- Run this in your Supabase SQL Editor
+-- Adds the in_review status and a log of who changed what and when
+
+-- Allow the in_review status
+ALTER TABLE content_calendars
+DROP CONSTRAINT IF EXISTS content_calendars_status_check;
+
+ALTER TABLE content_calendars
+ADD CONSTRAINT content_calendars_status_check
+CHECK (status IN ('draft', 'in_review', 'approved', 'published'));
+
+-- Audit log: status transitions (submit, approve, reject, publish, reopen) and post/reply edits
+CREATE TABLE IF NOT EXISTS calendar_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  calendar_id UUID REFERENCES content_calendars(id) ON DELETE CASCADE,
+  actor TEXT NOT NULL DEFAULT 'unknown',
+  action TEXT NOT NULL CHECK (action IN ('submit', 'approve', 'reject', 'publish', 'reopen', 'edit_post', 'edit_reply')),
+  from_status TEXT,
+  to_status TEXT,
+  comment TEXT,
+  details JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_audit_log_calendar ON calendar_audit_log(calendar_id);
+CREATE INDEX IF NOT EXISTS idx_calendar_audit_log_created ON calendar_audit_log(created_at);
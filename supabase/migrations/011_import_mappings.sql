@@ -0,0 +1,7 @@
+-- Migration: Per-company workbook column mappings
+-- Run this in your Supabase SQL Editor
+-- Which sheets and headers hold each imported entity (see lib/utils/import-engine.ts);
+-- NULL means the default SlideForge layout
+
+ALTER TABLE companies
+ADD COLUMN IF NOT EXISTS import_mapping JSONB;
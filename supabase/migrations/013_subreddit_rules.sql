@@ -0,0 +1,168 @@
+-- Migration: Structured subreddit rules
+-- Run this in your Supabase SQL Editor
+-- Subreddits get enforced rules (allowed post types, flair, title format, account minimums,
+-- link policy, self-promotion ratio, banned keywords, posting days; see lib/planning/subreddit-rules.ts).
+-- Posts get a flair, which save_calendar_plan now stores.
+
+ALTER TABLE subreddits
+ADD COLUMN IF NOT EXISTS rule_set JSONB;
+
+ALTER TABLE calendar_posts
+ADD COLUMN IF NOT EXISTS flair TEXT;
+
+CREATE OR REPLACE FUNCTION save_calendar_plan(plan JSONB)
+RETURNS content_calendars
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  cal content_calendars;
+  post_row JSONB;
+  reply_row JSONB;
+  new_post_id UUID;
+  new_reply_id UUID;
+  post_ids JSONB := '{}'::JSONB;
+  reply_ids JSONB := '{}'::JSONB;
+BEGIN
+  IF plan->>'existing_calendar_id' IS NOT NULL THEN
+    UPDATE content_calendars
+    SET seed = (plan->'calendar'->>'seed')::INTEGER,
+        spam_warnings = plan->'calendar'->'spam_warnings',
+        quality_score = plan->'quality',
+        quality_feedback = ARRAY(SELECT jsonb_array_elements_text(COALESCE(plan->'quality'->'issues', '[]'::JSONB)))
+    WHERE id = (plan->>'existing_calendar_id')::UUID
+    RETURNING * INTO cal;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Calendar % not found', plan->>'existing_calendar_id';
+    END IF;
+
+    -- Regeneration replaces the previous posts (replies cascade)
+    DELETE FROM calendar_posts WHERE calendar_id = cal.id;
+  ELSE
+    INSERT INTO content_calendars (
+      company_id, week_start_date, posts_per_week, status, seed,
+      spam_warnings, quality_score, quality_feedback, campaign_id, campaign_week
+    )
+    VALUES (
+      (plan->'calendar'->>'company_id')::UUID,
+      (plan->'calendar'->>'week_start_date')::DATE,
+      (plan->'calendar'->>'posts_per_week')::INTEGER,
+      COALESCE(plan->'calendar'->>'status', 'draft'),
+      (plan->'calendar'->>'seed')::INTEGER,
+      plan->'calendar'->'spam_warnings',
+      plan->'quality',
+      ARRAY(SELECT jsonb_array_elements_text(COALESCE(plan->'quality'->'issues', '[]'::JSONB))),
+      (plan->'calendar'->>'campaign_id')::UUID,
+      (plan->'calendar'->>'campaign_week')::INTEGER
+    )
+    RETURNING * INTO cal;
+  END IF;
+
+  FOR post_row IN SELECT * FROM jsonb_array_elements(COALESCE(plan->'posts', '[]'::JSONB)) LOOP
+    INSERT INTO calendar_posts (
+      calendar_id, day_of_week, subreddit_id, topic, persona_id, post_type,
+      planned_title, planned_body, order_in_day, posting_strategy, scheduled_at, flair
+    )
+    VALUES (
+      cal.id,
+      (post_row->>'day_of_week')::INTEGER,
+      (post_row->>'subreddit_id')::UUID,
+      post_row->>'topic',
+      (post_row->>'persona_id')::UUID,
+      post_row->>'post_type',
+      post_row->>'planned_title',
+      post_row->>'planned_body',
+      COALESCE((post_row->>'order_in_day')::INTEGER, 0),
+      post_row->>'posting_strategy',
+      (post_row->>'scheduled_at')::TIMESTAMPTZ,
+      post_row->>'flair'
+    )
+    RETURNING id INTO new_post_id;
+
+    post_ids := post_ids || jsonb_build_object(post_row->>'id', new_post_id);
+  END LOOP;
+
+  FOR reply_row IN SELECT * FROM jsonb_array_elements(COALESCE(plan->'replies', '[]'::JSONB)) LOOP
+    IF post_ids->>(reply_row->>'post_id') IS NULL THEN
+      RAISE EXCEPTION 'Reply references unknown post %', reply_row->>'post_id';
+    END IF;
+    -- Parents come first in the plan, so their new ids are already mapped
+    IF reply_row->>'parent_reply_id' IS NOT NULL AND reply_ids->>(reply_row->>'parent_reply_id') IS NULL THEN
+      RAISE EXCEPTION 'Reply references unknown parent reply %', reply_row->>'parent_reply_id';
+    END IF;
+
+    INSERT INTO calendar_replies (
+      post_id, parent_reply_id, persona_id, intent, order_after_post, planned_content, tone, emotion, scheduled_at
+    )
+    VALUES (
+      (post_ids->>(reply_row->>'post_id'))::UUID,
+      (reply_ids->>(reply_row->>'parent_reply_id'))::UUID,
+      (reply_row->>'persona_id')::UUID,
+      reply_row->>'intent',
+      (reply_row->>'order_after_post')::NUMERIC,
+      reply_row->>'planned_content',
+      COALESCE(reply_row->>'tone', 'helpful'),
+      reply_row->>'emotion',
+      (reply_row->>'scheduled_at')::TIMESTAMPTZ
+    )
+    RETURNING id INTO new_reply_id;
+
+    reply_ids := reply_ids || jsonb_build_object(reply_row->>'id', new_reply_id);
+  END LOOP;
+
+  INSERT INTO topic_history (company_id, topic, last_used_date, usage_count)
+  SELECT
+    (t->>'company_id')::UUID,
+    t->>'topic',
+    (t->>'last_used_date')::DATE,
+    COALESCE((t->>'usage_count')::INTEGER, 1)
+  FROM jsonb_array_elements(COALESCE(plan->'topic_history', '[]'::JSONB)) AS t
+  ON CONFLICT (company_id, topic) DO UPDATE
+  SET last_used_date = EXCLUDED.last_used_date,
+      usage_count = EXCLUDED.usage_count;
+
+  -- Topic pairs flagged as too similar (cache for later approvals and generations)
+  INSERT INTO topic_similarity (company_id, topic1, topic2, similarity_score)
+  SELECT
+    (s->>'company_id')::UUID,
+    s->>'topic1',
+    s->>'topic2',
+    (s->>'similarity_score')::NUMERIC
+  FROM jsonb_array_elements(COALESCE(plan->'topic_similarity', '[]'::JSONB)) AS s
+  ON CONFLICT (company_id, topic1, topic2) DO UPDATE
+  SET similarity_score = EXCLUDED.similarity_score;
+
+  -- Phrase fingerprints: usage_count in the plan is a delta (negative for replaced content)
+  INSERT INTO wording_patterns (company_id, pattern, usage_count, last_used_date, persona_ids)
+  SELECT
+    (w->>'company_id')::UUID,
+    w->>'pattern',
+    (w->>'usage_count')::INTEGER,
+    (w->>'last_used_date')::DATE,
+    ARRAY(SELECT jsonb_array_elements_text(COALESCE(w->'persona_ids', '[]'::JSONB)))::UUID[]
+  FROM jsonb_array_elements(COALESCE(plan->'wording_patterns', '[]'::JSONB)) AS w
+  WHERE (w->>'usage_count')::INTEGER > 0
+     OR EXISTS (
+       SELECT 1 FROM wording_patterns wp
+       WHERE wp.company_id = (w->>'company_id')::UUID AND wp.pattern = w->>'pattern'
+     )
+  ON CONFLICT (company_id, pattern) DO UPDATE
+  SET usage_count = GREATEST(wording_patterns.usage_count + EXCLUDED.usage_count, 0),
+      last_used_date = GREATEST(wording_patterns.last_used_date, EXCLUDED.last_used_date),
+      persona_ids = ARRAY(SELECT DISTINCT unnest(wording_patterns.persona_ids || EXCLUDED.persona_ids));
+
+  INSERT INTO subreddit_activity (subreddit_id, company_id, last_post_date, posts_this_week, week_start_date)
+  SELECT
+    (a->>'subreddit_id')::UUID,
+    (a->>'company_id')::UUID,
+    (a->>'last_post_date')::DATE,
+    COALESCE((a->>'posts_this_week')::INTEGER, 0),
+    (a->>'week_start_date')::DATE
+  FROM jsonb_array_elements(COALESCE(plan->'subreddit_activity', '[]'::JSONB)) AS a
+  ON CONFLICT (subreddit_id, company_id, week_start_date) DO UPDATE
+  SET last_post_date = EXCLUDED.last_post_date,
+      posts_this_week = EXCLUDED.posts_this_week;
+
+  RETURN cal;
+END;
+$$;
@@ -0,0 +1,8 @@
+-- Migration: Brand mention budget
+-- Run this in your Supabase SQL Editor
+-- Companies can limit how often a week's posts and replies name them, per week, per subreddit
+-- and per persona (see lib/planning/brand.ts). Per-subreddit overrides and disclosure
+-- requirements live in subreddits.rule_set.
+
+ALTER TABLE companies
+ADD COLUMN IF NOT EXISTS brand_budget JSONB;
@@ -0,0 +1,43 @@
+-- Migration: Atomic calendar transitions
+-- Run this in your Supabase SQL Editor
+-- Moves a calendar to its next status and writes the audit entry in one transaction. The update
+-- only applies while the calendar is still in expected_status, so two reviewers acting at once
+-- can't both succeed; the loser gets NULL back.
+
+CREATE OR REPLACE FUNCTION transition_calendar(
+  target_id UUID,
+  expected_status TEXT,
+  updates JSONB,
+  entry JSONB
+)
+RETURNS calendar_audit_log
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  logged calendar_audit_log;
+BEGIN
+  UPDATE content_calendars
+  SET status = updates->>'status',
+      spam_warnings = CASE WHEN updates ? 'spam_warnings' THEN updates->'spam_warnings' ELSE spam_warnings END
+  WHERE id = target_id
+    AND status = expected_status;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO calendar_audit_log (calendar_id, actor, action, from_status, to_status, comment, details)
+  VALUES (
+    target_id,
+    COALESCE(entry->>'actor', 'unknown'),
+    entry->>'action',
+    entry->>'from_status',
+    entry->>'to_status',
+    entry->>'comment',
+    NULLIF(entry->'details', 'null'::JSONB)
+  )
+  RETURNING * INTO logged;
+
+  RETURN logged;
+END;
+$$;
@@ -0,0 +1,18 @@
+-- Migration: Edit timestamps on posts and replies
+-- Run this in your Supabase SQL Editor
+-- The .ics export reports when each event last changed (LAST-MODIFIED, SEQUENCE) so subscribed
+-- calendars pick up edits. Uses update_updated_at_column() from schema.sql.
+
+ALTER TABLE calendar_posts
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+ALTER TABLE calendar_replies
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+DROP TRIGGER IF EXISTS update_calendar_posts_updated_at ON calendar_posts;
+CREATE TRIGGER update_calendar_posts_updated_at BEFORE UPDATE ON calendar_posts
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_calendar_replies_updated_at ON calendar_replies;
+CREATE TRIGGER update_calendar_replies_updated_at BEFORE UPDATE ON calendar_replies
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,177 @@
+-- Migration: Atomic re-import merges
+-- Run this in your Supabase SQL Editor
+-- Applies the accepted changes from a re-imported workbook (posts and replies added, edited and
+-- removed, with their audit entries) in one transaction. The calendar row is locked and its status
+-- re-checked first, so an approval that lands while the changes are being reviewed can't be
+-- overwritten; the function returns FALSE instead. New posts and replies are referred to by a key
+-- (their workbook label) until the insert gives them an id.
+
+CREATE OR REPLACE FUNCTION apply_calendar_merge(target_id UUID, merge JSONB)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  current_status TEXT;
+  op JSONB;
+  changes JSONB;
+  new_id UUID;
+  target_post UUID;
+  post_ids JSONB := '{}'::JSONB;
+  reply_ids JSONB := '{}'::JSONB;
+  merge_actor TEXT := COALESCE(merge->>'actor', 'unknown');
+BEGIN
+  SELECT status INTO current_status
+  FROM content_calendars
+  WHERE id = target_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Calendar % not found', target_id;
+  END IF;
+  IF current_status IN ('approved', 'published') THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Operations arrive in the order they must run: parents before the replies that point at them
+  FOR op IN SELECT * FROM jsonb_array_elements(COALESCE(merge->'operations', '[]'::JSONB)) LOOP
+    CASE op->>'op'
+      WHEN 'update_post' THEN
+        changes := op->'updates';
+        UPDATE calendar_posts
+        SET planned_title = CASE WHEN changes ? 'planned_title' THEN changes->>'planned_title' ELSE planned_title END,
+            planned_body = CASE WHEN changes ? 'planned_body' THEN changes->>'planned_body' ELSE planned_body END,
+            subreddit_id = CASE WHEN changes ? 'subreddit_id' THEN (changes->>'subreddit_id')::UUID ELSE subreddit_id END,
+            persona_id = CASE WHEN changes ? 'persona_id' THEN (changes->>'persona_id')::UUID ELSE persona_id END,
+            day_of_week = CASE WHEN changes ? 'day_of_week' THEN (changes->>'day_of_week')::INTEGER ELSE day_of_week END,
+            scheduled_at = CASE WHEN changes ? 'scheduled_at' THEN (changes->>'scheduled_at')::TIMESTAMPTZ ELSE scheduled_at END
+        WHERE id = (op->>'post_id')::UUID
+          AND calendar_id = target_id;
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'Post % is not in calendar %', op->>'post_id', target_id;
+        END IF;
+        IF COALESCE((op->>'log')::BOOLEAN, TRUE) THEN
+          INSERT INTO calendar_audit_log (calendar_id, actor, action, comment, details)
+          VALUES (
+            target_id, merge_actor, 'edit_post', merge->>'comment',
+            jsonb_build_object('post_id', op->>'post_id', 'fields', (SELECT jsonb_agg(key) FROM jsonb_object_keys(changes) AS key))
+          );
+        END IF;
+
+      WHEN 'create_post' THEN
+        INSERT INTO calendar_posts (
+          calendar_id, day_of_week, subreddit_id, persona_id, topic, planned_title, planned_body,
+          post_type, order_in_day, scheduled_at
+        )
+        VALUES (
+          target_id,
+          (op->'post'->>'day_of_week')::INTEGER,
+          (op->'post'->>'subreddit_id')::UUID,
+          (op->'post'->>'persona_id')::UUID,
+          op->'post'->>'topic',
+          op->'post'->>'planned_title',
+          op->'post'->>'planned_body',
+          op->'post'->>'post_type',
+          COALESCE((op->'post'->>'order_in_day')::INTEGER, 0),
+          (op->'post'->>'scheduled_at')::TIMESTAMPTZ
+        )
+        RETURNING id INTO new_id;
+
+        post_ids := post_ids || jsonb_build_object(op->>'key', new_id);
+        INSERT INTO calendar_audit_log (calendar_id, actor, action, comment, details)
+        VALUES (target_id, merge_actor, 'edit_post', merge->>'comment', jsonb_build_object('post_id', new_id, 'change', 'added'));
+
+      WHEN 'create_reply' THEN
+        target_post := COALESCE((op->>'post_id')::UUID, (post_ids->>(op->>'post_key'))::UUID);
+        IF target_post IS NULL OR NOT EXISTS (
+          SELECT 1 FROM calendar_posts WHERE id = target_post AND calendar_id = target_id
+        ) THEN
+          RAISE EXCEPTION 'Reply % references a post that is not in calendar %', op->>'key', target_id;
+        END IF;
+        IF op->>'parent_key' IS NOT NULL AND reply_ids->>(op->>'parent_key') IS NULL THEN
+          RAISE EXCEPTION 'Reply % references unknown parent reply %', op->>'key', op->>'parent_key';
+        END IF;
+
+        INSERT INTO calendar_replies (
+          post_id, parent_reply_id, persona_id, intent, order_after_post, planned_content, scheduled_at
+        )
+        VALUES (
+          target_post,
+          COALESCE((op->>'parent_reply_id')::UUID, (reply_ids->>(op->>'parent_key'))::UUID),
+          (op->'reply'->>'persona_id')::UUID,
+          op->'reply'->>'intent',
+          (op->'reply'->>'order_after_post')::NUMERIC,
+          op->'reply'->>'planned_content',
+          (op->'reply'->>'scheduled_at')::TIMESTAMPTZ
+        )
+        RETURNING id INTO new_id;
+
+        reply_ids := reply_ids || jsonb_build_object(op->>'key', new_id);
+        INSERT INTO calendar_audit_log (calendar_id, actor, action, comment, details)
+        VALUES (
+          target_id, merge_actor, 'edit_reply', merge->>'comment',
+          jsonb_build_object('reply_id', new_id, 'post_id', target_post, 'change', 'added')
+        );
+
+      WHEN 'update_reply' THEN
+        changes := op->'updates';
+        -- A reply moved under a reply created earlier in this merge
+        IF op->>'parent_key' IS NOT NULL THEN
+          IF reply_ids->>(op->>'parent_key') IS NULL THEN
+            RAISE EXCEPTION 'Reply % references unknown parent reply %', op->>'reply_id', op->>'parent_key';
+          END IF;
+          changes := changes || jsonb_build_object('parent_reply_id', reply_ids->>(op->>'parent_key'));
+        END IF;
+
+        UPDATE calendar_replies
+        SET planned_content = CASE WHEN changes ? 'planned_content' THEN changes->>'planned_content' ELSE planned_content END,
+            persona_id = CASE WHEN changes ? 'persona_id' THEN (changes->>'persona_id')::UUID ELSE persona_id END,
+            parent_reply_id = CASE WHEN changes ? 'parent_reply_id' THEN (changes->>'parent_reply_id')::UUID ELSE parent_reply_id END,
+            scheduled_at = CASE WHEN changes ? 'scheduled_at' THEN (changes->>'scheduled_at')::TIMESTAMPTZ ELSE scheduled_at END
+        WHERE id = (op->>'reply_id')::UUID
+          AND post_id IN (SELECT id FROM calendar_posts WHERE calendar_id = target_id);
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'Reply % is not in calendar %', op->>'reply_id', target_id;
+        END IF;
+        IF COALESCE((op->>'log')::BOOLEAN, TRUE) THEN
+          INSERT INTO calendar_audit_log (calendar_id, actor, action, comment, details)
+          VALUES (
+            target_id, merge_actor, 'edit_reply', merge->>'comment',
+            jsonb_build_object('reply_id', op->>'reply_id', 'fields', (SELECT jsonb_agg(key) FROM jsonb_object_keys(op->'updates') AS key))
+          );
+        END IF;
+
+      WHEN 'delete_reply' THEN
+        -- Replies answering it go with it (ON DELETE CASCADE)
+        DELETE FROM calendar_replies
+        WHERE id = (op->>'reply_id')::UUID
+          AND post_id IN (SELECT id FROM calendar_posts WHERE calendar_id = target_id);
+
+        INSERT INTO calendar_audit_log (calendar_id, actor, action, comment, details)
+        VALUES (target_id, merge_actor, 'edit_reply', merge->>'comment', jsonb_build_object('reply_id', op->>'reply_id', 'change', 'deleted'));
+
+      WHEN 'delete_post' THEN
+        -- Its replies go with it (ON DELETE CASCADE)
+        DELETE FROM calendar_posts
+        WHERE id = (op->>'post_id')::UUID
+          AND calendar_id = target_id;
+
+        INSERT INTO calendar_audit_log (calendar_id, actor, action, comment, details)
+        VALUES (target_id, merge_actor, 'edit_post', merge->>'comment', jsonb_build_object('post_id', op->>'post_id', 'change', 'deleted'));
+
+      ELSE
+        RAISE EXCEPTION 'Unknown merge operation %', op->>'op';
+    END CASE;
+  END LOOP;
+
+  -- Keep the calendar's post count in step with what's stored
+  IF merge ? 'posts_per_week' THEN
+    UPDATE content_calendars
+    SET posts_per_week = (merge->>'posts_per_week')::INTEGER
+    WHERE id = target_id;
+  END IF;
+
+  RETURN TRUE;
+END;
+$$;
@@ -0,0 +1,14 @@
+-- Migration: Literal title rules
+-- Run this in your Supabase SQL Editor
+-- Subreddit title formats are now literal text (title_prefix, title_contains) instead of a regular
+-- expression, which a crafted pattern could use to make title checks hang. Patterns that are a
+-- plain prefix (^ followed by ordinary characters) carry over as title_prefix; the rest are removed
+-- and need re-entering on the company page.
+
+UPDATE subreddits
+SET rule_set = CASE
+  WHEN rule_set->>'title_pattern' ~ '^\^[A-Za-z0-9 :-]+$'
+    THEN (rule_set - 'title_pattern') || jsonb_build_object('title_prefix', substr(rule_set->>'title_pattern', 2))
+  ELSE rule_set - 'title_pattern'
+END
+WHERE rule_set ? 'title_pattern';
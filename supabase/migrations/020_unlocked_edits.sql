@@ -0,0 +1,109 @@
+-- Migration: Edits that respect the calendar lock
+-- Run this in your Supabase SQL Editor
+-- Updates a post or reply and writes its audit entry in one transaction, but only while the
+-- calendar is not approved or published. The calendar row is held while the edit runs, so an
+-- approval waits for it, and an approval that landed first makes the function return NULL.
+-- Fields missing from updates keep their values.
+
+CREATE OR REPLACE FUNCTION edit_unlocked_post(target_id UUID, updates JSONB, entry JSONB)
+RETURNS calendar_posts
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  edited calendar_posts;
+BEGIN
+  PERFORM 1
+  FROM content_calendars
+  WHERE id = (SELECT calendar_id FROM calendar_posts WHERE id = target_id)
+    AND status NOT IN ('approved', 'published')
+  FOR SHARE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO edited FROM calendar_posts WHERE id = target_id FOR UPDATE;
+  edited := jsonb_populate_record(edited, updates);
+
+  UPDATE calendar_posts
+  SET day_of_week = edited.day_of_week,
+      subreddit_id = edited.subreddit_id,
+      persona_id = edited.persona_id,
+      topic = edited.topic,
+      post_type = edited.post_type,
+      planned_title = edited.planned_title,
+      planned_body = edited.planned_body,
+      order_in_day = edited.order_in_day,
+      posting_strategy = edited.posting_strategy,
+      scheduled_at = edited.scheduled_at,
+      flair = edited.flair
+  WHERE id = target_id
+  RETURNING * INTO edited;
+
+  INSERT INTO calendar_audit_log (calendar_id, actor, action, from_status, to_status, comment, details)
+  VALUES (
+    edited.calendar_id,
+    COALESCE(entry->>'actor', 'unknown'),
+    entry->>'action',
+    entry->>'from_status',
+    entry->>'to_status',
+    entry->>'comment',
+    NULLIF(entry->'details', 'null'::JSONB)
+  );
+
+  RETURN edited;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION edit_unlocked_reply(target_id UUID, updates JSONB, entry JSONB)
+RETURNS calendar_replies
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  edited calendar_replies;
+  target_calendar UUID;
+BEGIN
+  SELECT p.calendar_id INTO target_calendar
+  FROM calendar_replies r
+  JOIN calendar_posts p ON p.id = r.post_id
+  WHERE r.id = target_id;
+
+  PERFORM 1
+  FROM content_calendars
+  WHERE id = target_calendar
+    AND status NOT IN ('approved', 'published')
+  FOR SHARE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO edited FROM calendar_replies WHERE id = target_id FOR UPDATE;
+  edited := jsonb_populate_record(edited, updates);
+
+  UPDATE calendar_replies
+  SET parent_reply_id = edited.parent_reply_id,
+      persona_id = edited.persona_id,
+      intent = edited.intent,
+      order_after_post = edited.order_after_post,
+      planned_content = edited.planned_content,
+      tone = edited.tone,
+      emotion = edited.emotion,
+      scheduled_at = edited.scheduled_at
+  WHERE id = target_id
+  RETURNING * INTO edited;
+
+  INSERT INTO calendar_audit_log (calendar_id, actor, action, from_status, to_status, comment, details)
+  VALUES (
+    target_calendar,
+    COALESCE(entry->>'actor', 'unknown'),
+    entry->>'action',
+    entry->>'from_status',
+    entry->>'to_status',
+    entry->>'comment',
+    NULLIF(entry->'details', 'null'::JSONB)
+  );
+
+  RETURN edited;
+END;
+$$;
@@ -8,10 +8,24 @@ export interface Company {
   pain_points: string[];
   tone_positioning: string | null;
   website_url: string | null;
+  llm_provider?: 'openai' | 'anthropic' | 'azure' | 'local' | 'stub' | null; // Overrides LLM_PROVIDER env var
+  llm_model?: string | null;
+  topic_similarity_threshold?: number | null; // 0-1 on the embedding scale; scaled down for TF-IDF
+  timezone?: string | null; // IANA name (e.g. 'America/New_York') for scheduled times; defaults to UTC
+  import_mapping?: Record<string, unknown> | null; // Workbook column mapping (lib/utils/import-engine.ts); null for the default layout
+  brand_budget?: BrandBudget | null; // Limits on naming the company; null means no limits
   created_at: string;
   updated_at: string;
 }
 
+// How often a week's posts and replies may name the company (lib/planning/brand.ts). Missing limits don't restrict.
+export interface BrandBudget {
+  max_per_week?: number | null;
+  max_per_subreddit?: number | null; // Per subreddit per week, unless the subreddit's rules set their own
+  max_per_persona?: number | null; // Per persona per week
+  product_names?: string[]; // Counted as mentions, like the company name and website domain
+}
+
 export interface Persona {
   id: string;
   company_id: string;
@@ -26,13 +40,33 @@ export interface Subreddit {
   id: string;
   company_id: string;
   name: string;
-  rules: string | null;
+  rules: string | null; // Free text, shown to the drafting model
+  rule_set?: SubredditRules | null; // Enforced rules; null falls back to what the free text says
   min_cooldown_days: number;
   max_posts_per_week: number;
   size_category: 'small' | 'medium' | 'large';
+  culture_tone?: string | null; // e.g. 'casual', 'professional' - shapes drafted posts
+  peak_hour_start?: number | null; // Peak activity window in the company's timezone, hours 0-24
+  peak_hour_end?: number | null;
   created_at: string;
 }
 
+// Structured subreddit rules (lib/planning/subreddit-rules.ts). Missing or empty fields don't restrict.
+export interface SubredditRules {
+  allowed_post_types?: CalendarPost['post_type'][];
+  required_flair?: string[]; // Posts must carry one of these flairs
+  title_prefix?: string | null; // Literal text titles must start with (case-insensitive)
+  title_contains?: string | null; // Literal text titles must contain (case-insensitive)
+  min_account_age_days?: number | null; // The subreddit's own requirements for posting accounts
+  min_karma?: number | null;
+  link_policy?: 'allowed' | 'no_post_links' | 'no_links'; // no_post_links still allows links in comments
+  max_self_promo_ratio?: number | null; // 0-1 share of the company's posts here that may be subtle_product
+  banned_keywords?: string[];
+  posting_days?: number[]; // 0=Sunday; posts only go up on these days
+  max_brand_mentions?: number | null; // Per week; overrides the company's per-subreddit brand budget
+  requires_disclosure?: boolean; // An undisclosed company mention here blocks approval instead of only warning
+}
+
 export interface SEOQuery {
   id: string;
   company_id: string;
@@ -41,12 +75,38 @@ export interface SEOQuery {
   created_at: string;
 }
 
+export type CalendarStatus = 'draft' | 'in_review' | 'approved' | 'published';
+
 export interface ContentCalendar {
   id: string;
   company_id: string;
   week_start_date: string;
   posts_per_week: number;
-  status: 'draft' | 'approved' | 'published';
+  status: CalendarStatus;
+  seed?: number | null; // PRNG seed the plan was generated with
+  spam_warnings?: unknown[] | null;
+  quality_score?: CalendarQualityScore | null;
+  quality_feedback?: string[] | null;
+  campaign_id?: string | null; // Set when the week was planned as part of a campaign
+  campaign_week?: number | null; // 0-based week index within the campaign
+  created_at: string;
+}
+
+export type PostingStrategyName = 'awareness' | 'authority' | 'subtle_product' | 'value' | 'engagement';
+
+// Relative weights per strategy, e.g. { awareness: 2, value: 1 }
+export type StrategyMix = Partial<Record<PostingStrategyName, number>>;
+
+export interface Campaign {
+  id: string;
+  company_id: string;
+  name: string;
+  start_week_date: string; // Sunday of the first week (yyyy-MM-dd)
+  weeks: number;
+  target_posts: number; // Total across all weeks
+  strategy_mix: StrategyMix[]; // Per week; the last entry repeats for later weeks, empty = default progression
+  topic_arc: string[]; // Theme per week; the last entry repeats for later weeks
+  seed: number | null;
   created_at: string;
 }
 
@@ -61,16 +121,41 @@ export interface CalendarPost {
   planned_title: string | null;
   planned_body: string | null;
   order_in_day: number;
+  posting_strategy?: PostingStrategyName | null;
+  scheduled_at?: string | null; // Absolute UTC time to post
+  flair?: string | null; // Post flair, for subreddits that require one
   created_at: string;
+  updated_at?: string | null; // Last edit
 }
 
 export interface CalendarReply {
   id: string;
   post_id: string;
+  parent_reply_id?: string | null; // Reply this one answers; null for a top-level comment on the post
   persona_id: string;
   intent: 'ask' | 'challenge' | 'add_value' | 'clarify';
   order_after_post: number; // Hours after post
   planned_content: string | null;
+  tone?: string | null;
+  emotion?: 'curious' | 'supportive' | 'skeptical' | 'excited' | 'neutral' | null;
+  scheduled_at?: string | null; // Absolute UTC time to reply
+  created_at: string;
+  updated_at?: string | null; // Last edit
+}
+
+// Approval workflow audit trail
+export type CalendarWorkflowAction = 'submit' | 'approve' | 'reject' | 'publish' | 'reopen';
+export type CalendarAuditAction = CalendarWorkflowAction | 'edit_post' | 'edit_reply';
+
+export interface CalendarAuditEntry {
+  id: string;
+  calendar_id: string;
+  actor: string; // Who made the change (free-form until auth exists)
+  action: CalendarAuditAction;
+  from_status: CalendarStatus | null;
+  to_status: CalendarStatus | null;
+  comment: string | null;
+  details: Record<string, unknown> | null; // e.g. changed fields for edits
   created_at: string;
 }
 
@@ -83,6 +168,27 @@ export interface TopicHistory {
   created_at: string;
 }
 
+// Pair of topics judged too similar to use close together (topic1 < topic2)
+export interface TopicSimilarity {
+  id: string;
+  company_id: string;
+  topic1: string;
+  topic2: string;
+  similarity_score: number;
+  created_at: string;
+}
+
+// Phrase fingerprint (word n-gram) from generated titles, bodies and replies
+export interface WordingPattern {
+  id: string;
+  company_id: string;
+  pattern: string;
+  usage_count: number;
+  last_used_date: string | null;
+  persona_ids: string[]; // Every persona that has used the phrase
+  created_at: string;
+}
+
 export interface SubredditActivity {
   id: string;
   subreddit_id: string;
@@ -112,6 +218,45 @@ export interface PlanningParams {
   posts_per_week: number;
   seo_queries?: string[];
   existing_calendar_id?: string; // Optional: use existing calendar instead of creating new one
+  seed?: number; // Optional: replay a previous run (generated and stored on the calendar if omitted)
+  strategy_mix?: StrategyMix; // Optional: weight the week's posting strategies instead of the default progression
+  theme?: string; // Optional: campaign theme steering this week's topics
+  campaign_id?: string;
+  campaign_week?: number;
+  thread_depth?: number; // Optional: deepest reply level per thread (1 = top-level comments only)
+}
+
+export interface CampaignParams {
+  company_id: string;
+  name: string;
+  start_week_date: Date;
+  weeks: number;
+  target_posts: number; // Spread across weeks, earlier weeks take the remainder
+  strategy_mix?: StrategyMix[]; // Per week; the last entry repeats
+  topic_arc?: string[]; // Theme per week; the last entry repeats
+  seed?: number; // Optional: replay a previous campaign run
+}
+
+// Complete output of the planner before anything is written - persisted in one step or returned as a preview
+export interface CalendarPlan {
+  existing_calendar_id: string | null; // Set when regenerating posts for an existing calendar
+  calendar: ContentCalendar; // id is a placeholder until persisted (unless regenerating)
+  posts: CalendarPost[]; // ids are placeholders ("draft-post-1") referenced by replies
+  replies: CalendarReply[];
+  topic_history: Array<Pick<TopicHistory, 'company_id' | 'topic' | 'last_used_date' | 'usage_count'>>;
+  topic_similarity: Array<Pick<TopicSimilarity, 'company_id' | 'topic1' | 'topic2' | 'similarity_score'>>;
+  // usage_count is a delta added to the stored count (negative for content a regeneration replaced)
+  wording_patterns: Array<Pick<WordingPattern, 'company_id' | 'pattern' | 'usage_count' | 'last_used_date' | 'persona_ids'>>;
+  subreddit_activity: SubredditActivity[];
+  spam_risk_score: number; // 0-10, higher = more risky
+  spam_passed: boolean;
+  quality: CalendarQualityScore;
+}
+
+// All weeks of a campaign, planned together and persisted in one step
+export interface CampaignPlan {
+  campaign: Campaign; // id is a placeholder until persisted
+  weeks: CalendarPlan[];
 }
 
 export interface GeneratedTopic {
@@ -136,6 +281,9 @@ export interface ReplyPlan {
   persona_id: string;
   intent: 'ask' | 'challenge' | 'add_value' | 'clarify';
   hours_after_post: number;
+  parent_index: number | null; // Index of the parent reply in the same thread; null for top-level comments
+  depth: number; // 1 = top-level comment
+  is_op_follow_up: boolean; // Written by the post's own persona
 }
 
 // Quality evaluation types